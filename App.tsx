@@ -21,8 +21,14 @@ import BookListScreen from "./screens/BookListScreen";
 import ChapterListScreen from "./screens/ChapterListScreen";
 import VerseListScreen from "./screens/VerseListScreen";
 import SearchScreen from "./screens/SearchScreen";
+import DictionaryScreen from "./screens/DictionaryScreen";
 import BookmarksScreen from "./screens/BookmarksScreen";
+import NotesScreen from "./screens/NotesScreen";
+import HighlightsScreen from "./screens/HighlightsScreen";
 import ReaderScreen from "./screens/ReaderScreen";
+import ReadingPlansScreen from "./screens/ReadingPlansScreen";
+import ReadingPlanScreen from "./screens/ReadingPlanScreen";
+import ReadingHistoryScreen from "./screens/ReadingHistoryScreen";
 import SettingsScreen from "./screens/SettingsScreen";
 import "./global.css";
 
@@ -30,6 +36,10 @@ import { Book } from "./types";
 import { SafeAreaProvider } from "react-native-safe-area-context";
 import { BibleDatabaseProvider } from "./context/BibleDatabaseContext";
 import { BookmarksProvider } from "./context/BookmarksContext";
+import { ReadingPlansProvider } from "./context/ReadingPlansContext";
+import { ReadingProgressProvider } from "./context/ReadingProgressContext";
+import { NotesProvider } from "./context/NotesContext";
+import { CitationTemplatesProvider } from "./context/CitationTemplatesContext";
 import { VerseMeasurementsProvider } from "./context/VerseMeasurementsContext";
 import { HighlightsProvider } from "./context/HighlightsContext";
 import { ThemeProvider, useTheme } from "./context/ThemeContext";
@@ -44,14 +54,20 @@ export type BibleStackParamList = {
   ChapterList: { book: Book };
   VerseList: { book: Book; chapter: number };
   Reader: { bookId: number; chapter: number; bookName: string; verse?: number };
+  ReadingPlans: undefined;
+  ReadingPlan: { planId: string };
+  ReadingHistory: undefined;
 };
 
 export type SearchStackParamList = {
-  Search: undefined;
+  Search: { query?: string } | undefined;
+  Dictionary: { topic?: string } | undefined;
 };
 
 export type BookmarksStackParamList = {
   Bookmarks: undefined;
+  Notes: undefined;
+  Highlights: undefined;
   Reader: { bookId: number; chapter: number; bookName: string; verse?: number };
 };
 
@@ -225,6 +241,21 @@ function BibleStack() {
           headerShown: false,
         })}
       />
+      <BibleStackNav.Screen
+        name="ReadingPlans"
+        component={ReadingPlansScreen}
+        options={{ title: "Reading Plans" }}
+      />
+      <BibleStackNav.Screen
+        name="ReadingPlan"
+        component={ReadingPlanScreen}
+        options={{ title: "Reading Plan" }}
+      />
+      <BibleStackNav.Screen
+        name="ReadingHistory"
+        component={ReadingHistoryScreen}
+        options={{ title: "Reading History" }}
+      />
     </BibleStackNav.Navigator>
   );
 }
@@ -247,6 +278,11 @@ function SearchStack() {
         component={SearchScreen}
         options={{ title: "Search" }}
       />
+      <SearchStackNav.Screen
+        name="Dictionary"
+        component={DictionaryScreen}
+        options={{ title: "Dictionary" }}
+      />
     </SearchStackNav.Navigator>
   );
 }
@@ -269,6 +305,16 @@ function BookmarksStack() {
         component={BookmarksScreen}
         options={{ title: "Saved Bookmarks" }}
       />
+      <BookmarksStackNav.Screen
+        name="Notes"
+        component={NotesScreen}
+        options={{ title: "My Notes" }}
+      />
+      <BookmarksStackNav.Screen
+        name="Highlights"
+        component={HighlightsScreen}
+        options={{ title: "Highlights" }}
+      />
       <BookmarksStackNav.Screen
         name="Reader"
         component={ReaderScreen}
@@ -420,7 +466,15 @@ export default function App() {
             <BibleDatabaseProvider>
               <ThemeProvider>
                 <BookmarksProvider>
-                  <AppWithTheme />
+                  <ReadingPlansProvider>
+                    <ReadingProgressProvider>
+                      <NotesProvider>
+                        <CitationTemplatesProvider>
+                          <AppWithTheme />
+                        </CitationTemplatesProvider>
+                      </NotesProvider>
+                    </ReadingProgressProvider>
+                  </ReadingPlansProvider>
                 </BookmarksProvider>
               </ThemeProvider>
             </BibleDatabaseProvider>
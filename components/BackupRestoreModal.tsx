@@ -0,0 +1,375 @@
+import React, { useEffect, useState } from "react";
+import {
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  View,
+  Text,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { BackupFileInfo, useBackup } from "../hooks/useBackup";
+import {
+  BackupCounts,
+  ParsedBackup,
+  RestoreMode,
+  getBackupCounts,
+  parseBackup,
+} from "../utils/backup";
+import { Button } from "./Button";
+
+interface Colors {
+  primary: string;
+  background: string;
+  text: string;
+  muted: string;
+  card: string;
+  border: string;
+}
+
+interface BackupRestoreModalProps {
+  visible: boolean;
+  onClose: () => void;
+  colors: Colors;
+}
+
+const COUNT_LABELS: { key: keyof BackupCounts; label: string }[] = [
+  { key: "bookmarks", label: "Bookmarks" },
+  { key: "highlights", label: "Highlights" },
+  { key: "notes", label: "Notes" },
+  { key: "readingPlans", label: "Reading plans" },
+  { key: "chaptersRead", label: "Chapters read" },
+];
+
+export const BackupRestoreModal: React.FC<BackupRestoreModalProps> = ({
+  visible,
+  onClose,
+  colors,
+}) => {
+  const {
+    getCurrentData,
+    listBackupFiles,
+    pickBackupFile,
+    readBackupFile,
+    restoreBackup,
+  } = useBackup();
+  const [files, setFiles] = useState<BackupFileInfo[]>([]);
+  const [pastedJson, setPastedJson] = useState("");
+  const [backup, setBackup] = useState<ParsedBackup | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Start over each time the modal opens
+  useEffect(() => {
+    if (!visible) return;
+    setBackup(null);
+    setError(null);
+    setPastedJson("");
+    listBackupFiles()
+      .then(setFiles)
+      .catch((err) => console.error("Failed to list backups:", err));
+  }, [visible, listBackupFiles]);
+
+  const handleSelectFile = async (file: BackupFileInfo) => {
+    try {
+      setError(null);
+      setBackup(await readBackupFile(file.uri));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handlePickFile = async () => {
+    try {
+      setError(null);
+      const picked = await pickBackupFile();
+      if (picked) setBackup(picked);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handlePreviewPasted = () => {
+    try {
+      setError(null);
+      setBackup(parseBackup(pastedJson.trim()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const runRestore = async (mode: RestoreMode) => {
+    if (!backup) return;
+    setIsRestoring(true);
+    try {
+      await restoreBackup(backup, mode);
+      onClose();
+      Alert.alert(
+        "Backup Restored",
+        mode === "merge"
+          ? "The backup was merged with your data."
+          : "Your data was replaced with the backup."
+      );
+    } catch (err) {
+      console.error("Failed to restore backup:", err);
+      setError("The backup could not be restored.");
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const handleReplace = () => {
+    Alert.alert(
+      "Replace All Data",
+      "Bookmarks, highlights, notes and reading progress on this device will be replaced by the backup. This cannot be undone.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Replace",
+          style: "destructive",
+          onPress: () => runRestore("replace"),
+        },
+      ]
+    );
+  };
+
+  const currentCounts = getBackupCounts(getCurrentData());
+  const backupCounts = backup ? getBackupCounts(backup.data) : null;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        className="flex-1 justify-center items-center"
+        activeOpacity={1}
+        onPress={onClose}
+        style={{ backgroundColor: colors.background + "CC" }}
+      >
+        <SafeAreaView
+          className="max-h-[90%] shadow shadow-black"
+          style={{
+            backgroundColor: colors.card,
+            borderRadius: 12,
+            width: "92%",
+          }}
+          onStartShouldSetResponder={() => true}
+        >
+          <View
+            className="flex-row items-center justify-between"
+            style={{
+              padding: 16,
+              backgroundColor: colors.primary,
+              borderTopLeftRadius: 12,
+              borderTopRightRadius: 12,
+            }}
+          >
+            <Text
+              style={{ color: "#ffffff", fontSize: 18, fontWeight: "bold" }}
+            >
+              Restore Backup
+            </Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={22} color="#ffffff" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={{ padding: 16 }}>
+            {error && (
+              <View
+                className="flex-row items-center rounded-lg p-3 mb-3"
+                style={{ backgroundColor: "#ef444420" }}
+              >
+                <Ionicons name="alert-circle" size={18} color="#ef4444" />
+                <Text className="flex-1 ml-2" style={{ color: "#ef4444" }}>
+                  {error}
+                </Text>
+              </View>
+            )}
+
+            {backup && backupCounts ? (
+              <View>
+                <Text className="text-sm mb-3" style={{ color: colors.muted }}>
+                  Backup from{" "}
+                  {backup.createdAt
+                    ? new Date(backup.createdAt).toLocaleString()
+                    : "an unknown date"}
+                </Text>
+
+                <View
+                  className="rounded-lg border mb-4"
+                  style={{ borderColor: colors.border }}
+                >
+                  <View
+                    className="flex-row px-3 py-2 border-b"
+                    style={{ borderColor: colors.border }}
+                  >
+                    <Text className="flex-1" />
+                    <Text
+                      className="w-20 text-right text-xs font-semibold"
+                      style={{ color: colors.muted }}
+                    >
+                      BACKUP
+                    </Text>
+                    <Text
+                      className="w-20 text-right text-xs font-semibold"
+                      style={{ color: colors.muted }}
+                    >
+                      ON DEVICE
+                    </Text>
+                  </View>
+                  {COUNT_LABELS.map(({ key, label }) => (
+                    <View key={key} className="flex-row px-3 py-2">
+                      <Text className="flex-1" style={{ color: colors.text }}>
+                        {label}
+                        {!!backup.skipped[key] && (
+                          <Text style={{ color: "#ef4444" }}>
+                            {" "}
+                            ({backup.skipped[key]} damaged, skipped)
+                          </Text>
+                        )}
+                      </Text>
+                      <Text
+                        className="w-20 text-right font-semibold"
+                        style={{ color: colors.text }}
+                      >
+                        {backupCounts[key]}
+                      </Text>
+                      <Text
+                        className="w-20 text-right"
+                        style={{ color: colors.muted }}
+                      >
+                        {currentCounts[key]}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+
+                <Text className="text-xs mb-3" style={{ color: colors.muted }}>
+                  Merge keeps your data and adds the backup; where both have the
+                  same item, the most recently changed one is kept. Replace also
+                  restores the theme, font and Bible version.
+                </Text>
+
+                {isRestoring ? (
+                  <ActivityIndicator color={colors.primary} />
+                ) : (
+                  <View>
+                    <Button
+                      title="Merge With My Data"
+                      onPress={() => runRestore("merge")}
+                    />
+                    <View className="h-2" />
+                    <Button
+                      title="Replace My Data"
+                      variant="outline"
+                      onPress={handleReplace}
+                    />
+                    <TouchableOpacity
+                      onPress={() => setBackup(null)}
+                      className="items-center mt-3"
+                    >
+                      <Text style={{ color: colors.primary }}>
+                        Choose another backup
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+            ) : (
+              <View>
+                <Button title="Choose Backup File" onPress={handlePickFile} />
+                <Text
+                  className="text-xs mt-2 mb-4"
+                  style={{ color: colors.muted }}
+                >
+                  A .json backup exported from this app, on this device or saved
+                  from another one.
+                </Text>
+
+                <Text
+                  className="text-sm font-semibold mb-2"
+                  style={{ color: colors.text }}
+                >
+                  Saved backups
+                </Text>
+                {files.length === 0 ? (
+                  <Text
+                    className="text-sm mb-4"
+                    style={{ color: colors.muted }}
+                  >
+                    No backups have been exported on this device.
+                  </Text>
+                ) : (
+                  <View className="mb-4">
+                    {files.map((file) => (
+                      <TouchableOpacity
+                        key={file.uri}
+                        onPress={() => handleSelectFile(file)}
+                        className="flex-row items-center py-2 border-b"
+                        style={{ borderColor: colors.border }}
+                      >
+                        <Ionicons
+                          name="document-outline"
+                          size={18}
+                          color={colors.primary}
+                        />
+                        <Text
+                          className="flex-1 ml-2 text-sm"
+                          style={{ color: colors.text }}
+                          numberOfLines={1}
+                        >
+                          {file.name}
+                        </Text>
+                        <Ionicons
+                          name="chevron-forward"
+                          size={16}
+                          color={colors.muted}
+                        />
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+
+                <Text
+                  className="text-sm font-semibold mb-2"
+                  style={{ color: colors.text }}
+                >
+                  Paste a backup
+                </Text>
+                <TextInput
+                  value={pastedJson}
+                  onChangeText={setPastedJson}
+                  placeholder="Paste the contents of a backup file"
+                  placeholderTextColor={colors.muted}
+                  multiline
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  className="rounded-lg border p-3 mb-3"
+                  style={{
+                    color: colors.text,
+                    borderColor: colors.border,
+                    minHeight: 100,
+                    maxHeight: 200,
+                    textAlignVertical: "top",
+                  }}
+                />
+                <Button
+                  title="Preview Backup"
+                  onPress={handlePreviewPasted}
+                  disabled={!pastedJson.trim()}
+                />
+              </View>
+            )}
+          </ScrollView>
+        </SafeAreaView>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
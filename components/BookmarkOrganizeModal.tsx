@@ -0,0 +1,237 @@
+import React, { useContext, useEffect, useState } from "react";
+import {
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  View,
+  Text,
+  TextInput,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { Bookmark, BookmarksContext } from "../context/BookmarksContext";
+import { Button } from "./Button";
+
+interface Colors {
+  primary: string;
+  background: string;
+  card: string;
+  textPrimary: string;
+  textMuted: string;
+  border: string;
+}
+
+interface BookmarkOrganizeModalProps {
+  visible: boolean;
+  onClose: () => void;
+  bookmark: Bookmark | null;
+  title: string; // reference shown in the header, e.g. "John 3:16"
+  colors: Colors;
+}
+
+const parseTagInput = (input: string): string[] =>
+  input
+    .split(/[,\n]/)
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+
+export const BookmarkOrganizeModal: React.FC<BookmarkOrganizeModalProps> = ({
+  visible,
+  onClose,
+  bookmark,
+  title,
+  colors,
+}) => {
+  const { folders, allTags, organizeBookmark } = useContext(BookmarksContext);
+  const [folderId, setFolderId] = useState<string | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState("");
+
+  // Edit a copy, saved on "Save"
+  useEffect(() => {
+    if (!bookmark) return;
+    setFolderId(bookmark.folderId);
+    setTags(bookmark.tags);
+    setTagInput("");
+  }, [bookmark]);
+
+  if (!bookmark) return null;
+
+  const hasTag = (tag: string) =>
+    tags.some((t) => t.toLowerCase() === tag.toLowerCase());
+
+  const toggleTag = (tag: string) =>
+    setTags((prev) =>
+      hasTag(tag)
+        ? prev.filter((t) => t.toLowerCase() !== tag.toLowerCase())
+        : [...prev, tag]
+    );
+
+  const handleAddTags = () => {
+    const added = parseTagInput(tagInput).filter((tag) => !hasTag(tag));
+    if (added.length > 0) setTags((prev) => [...prev, ...added]);
+    setTagInput("");
+  };
+
+  const handleSave = () => {
+    organizeBookmark(bookmark.id, {
+      folderId,
+      tags: [...tags, ...parseTagInput(tagInput)],
+    });
+    onClose();
+  };
+
+  const suggestions = allTags.filter((tag) => !hasTag(tag));
+
+  const renderChip = (
+    label: string,
+    active: boolean,
+    onPress: () => void,
+    icon?: string
+  ) => (
+    <TouchableOpacity
+      key={label}
+      onPress={onPress}
+      className="flex-row items-center rounded-full px-3 py-1 m-1"
+      style={{
+        backgroundColor: active ? colors.primary : colors.primary + "15",
+      }}
+    >
+      {icon && (
+        <Ionicons
+          name={icon as any}
+          size={12}
+          color={active ? "#ffffff" : colors.primary}
+          style={{ marginRight: 4 }}
+        />
+      )}
+      <Text
+        className="text-sm"
+        style={{ color: active ? "#ffffff" : colors.primary }}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        className="flex-1 justify-center items-center"
+        activeOpacity={1}
+        onPress={onClose}
+        style={{ backgroundColor: colors.background + "CC" }}
+      >
+        <SafeAreaView
+          className="max-h-[90%] shadow shadow-black"
+          style={{
+            backgroundColor: colors.card,
+            borderRadius: 12,
+            width: "90%",
+          }}
+          onStartShouldSetResponder={() => true}
+        >
+          <View
+            className="flex-row items-center justify-between"
+            style={{
+              padding: 16,
+              backgroundColor: colors.primary,
+              borderTopLeftRadius: 12,
+              borderTopRightRadius: 12,
+            }}
+          >
+            <Text
+              style={{ color: "#ffffff", fontSize: 18, fontWeight: "bold" }}
+              numberOfLines={1}
+            >
+              Organize • {title}
+            </Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={22} color="#ffffff" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={{ padding: 16 }}>
+            <Text
+              className="text-sm font-semibold mb-1"
+              style={{ color: colors.textPrimary }}
+            >
+              Folder
+            </Text>
+            <View className="flex-row flex-wrap mb-4 -mx-1">
+              {renderChip(
+                "No folder",
+                folderId === null,
+                () => setFolderId(null),
+                "albums-outline"
+              )}
+              {folders.map((folder) =>
+                renderChip(
+                  folder.name,
+                  folderId === folder.id,
+                  () => setFolderId(folder.id),
+                  "folder-outline"
+                )
+              )}
+            </View>
+
+            <Text
+              className="text-sm font-semibold mb-1"
+              style={{ color: colors.textPrimary }}
+            >
+              Tags
+            </Text>
+            {tags.length > 0 && (
+              <View className="flex-row flex-wrap mb-2 -mx-1">
+                {tags.map((tag) =>
+                  renderChip(`#${tag}`, true, () => toggleTag(tag))
+                )}
+              </View>
+            )}
+            <View className="flex-row items-center mb-2">
+              <TextInput
+                value={tagInput}
+                onChangeText={setTagInput}
+                onSubmitEditing={handleAddTags}
+                placeholder="Add tags, separated by commas"
+                placeholderTextColor={colors.textMuted}
+                autoCapitalize="none"
+                returnKeyType="done"
+                className="flex-1 rounded-lg border px-3 py-2"
+                style={{
+                  color: colors.textPrimary,
+                  borderColor: colors.border,
+                }}
+              />
+              <TouchableOpacity
+                onPress={handleAddTags}
+                className="ml-2 p-2"
+                disabled={!tagInput.trim()}
+              >
+                <Ionicons
+                  name="add-circle"
+                  size={26}
+                  color={tagInput.trim() ? colors.primary : colors.textMuted}
+                />
+              </TouchableOpacity>
+            </View>
+            {suggestions.length > 0 && (
+              <View className="flex-row flex-wrap mb-4 -mx-1">
+                {suggestions.map((tag) =>
+                  renderChip(`#${tag}`, false, () => toggleTag(tag))
+                )}
+              </View>
+            )}
+
+            <Button title="Save" onPress={handleSave} />
+          </ScrollView>
+        </SafeAreaView>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
@@ -1,4 +1,10 @@
-import React, { useMemo, useState, useCallback, useEffect } from "react";
+import React, {
+  useMemo,
+  useState,
+  useCallback,
+  useEffect,
+  useRef,
+} from "react";
 import {
   View,
   Text,
@@ -11,9 +17,10 @@ import {
   ScrollView,
   ActivityIndicator,
   TextStyle,
+  PanResponder,
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
-import { Verse } from "../types";
+import { Story, Verse } from "../types";
 import {
   useTheme,
   type ColorScheme,
@@ -37,102 +44,13 @@ import { getThemeColors, type ThemeColors } from "../utils/themeUtils";
 import { getFontFamily } from "../utils/fontUtils";
 import { useDictionary } from "../hooks/useDictionary";
 import { useCommentary } from "../hooks/useCommentary";
-
-type ParsedNode = {
-  type: "text" | "opening-tag" | "closing-tag" | "self-closing-tag";
-  content?: string;
-  tag?: string;
-  fullTag?: string;
-};
-
-type TreeNode = {
-  type: "text" | "element" | "self-closing-tag";
-  content?: string;
-  tag?: string;
-  fullTag?: string;
-  children?: TreeNode[];
-};
-
-// Build a tree structure from parsed nodes to handle nesting
-const buildTree = (nodes: ParsedNode[]): TreeNode[] => {
-  const root: TreeNode[] = [];
-  let current: TreeNode[] = root;
-  const stack: TreeNode[][] = [];
-
-  for (const node of nodes) {
-    if (node.type === "opening-tag") {
-      const element: TreeNode = {
-        type: "element",
-        tag: node.tag,
-        fullTag: node.fullTag,
-        children: [],
-      };
-      current.push(element);
-      stack.push(current);
-      current = element.children!;
-    } else if (node.type === "closing-tag") {
-      if (stack.length > 0) {
-        current = stack.pop()!;
-      }
-    } else if (node.type === "self-closing-tag" || node.type === "text") {
-      current.push(node as TreeNode);
-    }
-  }
-
-  return root;
-};
-
-const parseXmlTags = (text: string): ParsedNode[] => {
-  if (!text) return [];
-
-  const nodes: ParsedNode[] = [];
-  let currentText = "";
-  let i = 0;
-
-  while (i < text.length) {
-    if (text[i] === "<") {
-      // Push any accumulated text before the tag
-      if (currentText) {
-        nodes.push({ type: "text", content: currentText });
-        currentText = "";
-      }
-
-      // Find the end of the tag
-      const tagEnd = text.indexOf(">", i);
-      if (tagEnd === -1) {
-        currentText += text.substring(i);
-        break;
-      }
-
-      const fullTag = text.substring(i, tagEnd + 1);
-
-      if (fullTag.startsWith("</")) {
-        // Closing tag
-        nodes.push({ type: "closing-tag", tag: fullTag });
-      } else if (fullTag.endsWith("/>")) {
-        // Self-closing tag
-        const tagName = fullTag.slice(1, -2).trim();
-        nodes.push({ type: "self-closing-tag", tag: tagName, fullTag });
-      } else {
-        // Opening tag
-        const tagName = fullTag.slice(1, -1).trim().split(" ")[0];
-        nodes.push({ type: "opening-tag", tag: tagName, fullTag });
-      }
-
-      i = tagEnd + 1;
-    } else {
-      currentText += text[i];
-      i++;
-    }
-  }
-
-  // Push any remaining text
-  if (currentText) {
-    nodes.push({ type: "text", content: currentText });
-  }
-
-  return nodes;
-};
+import { buildTree, parseXmlTags, type TreeNode } from "../utils/markupUtils";
+import {
+  NON_TEXT_TAGS,
+  getWordSpan,
+  type WordSpanStyle,
+} from "../utils/wordHighlights";
+import { WORD_DIFF_COLORS, type WordDiffSegment } from "../utils/wordDiff";
 
 // Render the tree to React elements
 const renderTree = (
@@ -142,18 +60,33 @@ const renderTree = (
   highlight?: string,
   fontFamily?: string,
   onTagPress?: (content: string) => void,
-  textColor?: string
+  textColor?: string,
+  wordSpans?: WordSpanStyle[]
 ): React.ReactNode[] => {
   const elements: React.ReactNode[] = [];
   let key = 0;
+  // Running count of reading-text words, for word-level highlights
+  let wordIndex = 0;
 
   const renderNode = (
     node: TreeNode,
-    overrideTextColor?: string
+    overrideTextColor?: string,
+    isReadingText = true
   ): React.ReactNode => {
     key++;
 
-    if (node.type === "text") {
+    if (node.type === "text" && wordSpans?.length && isReadingText) {
+      const { element, wordCount } = renderTextWithWordSpans(
+        node.content || "",
+        wordIndex,
+        wordSpans,
+        `text-${key}`,
+        fontFamily,
+        overrideTextColor || textColor
+      );
+      wordIndex += wordCount;
+      return element;
+    } else if (node.type === "text") {
       return renderTextWithHighlight(
         node.content || "",
         themeColors,
@@ -199,7 +132,7 @@ const renderTree = (
       if (isTextContainer) {
         // For text containers like <t>, do not colorize plain text, render children with outer textColor
         const children = ch.map((child: TreeNode) =>
-          renderNode(child, textColor)
+          renderNode(child, textColor, isReadingText)
         );
         return (
           <Text
@@ -215,7 +148,11 @@ const renderTree = (
       } else {
         // For marker elements, colorize and make clickable
         const children = ch.map((child: TreeNode) =>
-          renderNode(child, themeColors.tagColor)
+          renderNode(
+            child,
+            themeColors.tagColor,
+            isReadingText && !NON_TEXT_TAGS.has(node.tag || "")
+          )
         );
         return (
           <Text
@@ -301,6 +238,75 @@ const renderTextWithHighlight = (
   );
 };
 
+// Render plain text with word-level highlight spans. Words are numbered from
+// firstWord; returns the element and how many words the text contained.
+const renderTextWithWordSpans = (
+  text: string,
+  firstWord: number,
+  spans: WordSpanStyle[],
+  keyPrefix: string,
+  fontFamily?: string,
+  textColor?: string
+): { element: React.ReactNode; wordCount: number } => {
+  const innerStyle = { fontFamily, color: textColor };
+  const tokens = text
+    .split(/(\s+)/)
+    .filter(Boolean)
+    .map((part) => ({
+      text: part,
+      isSpace: /^\s+$/.test(part),
+      span: undefined as WordSpanStyle | undefined,
+    }));
+
+  let wordCount = 0;
+  tokens.forEach((token) => {
+    if (!token.isSpace) {
+      token.span = getWordSpan(spans, firstWord + wordCount);
+      wordCount++;
+    }
+  });
+  // Spaces inside a span are drawn with it, so the span reads as one block
+  tokens.forEach((token, i) => {
+    if (token.isSpace && tokens[i - 1]?.span === tokens[i + 1]?.span) {
+      token.span = tokens[i - 1]?.span;
+    }
+  });
+
+  // Group neighbouring tokens with the same span
+  const runs: { text: string; span?: WordSpanStyle }[] = [];
+  tokens.forEach((token) => {
+    const last = runs[runs.length - 1];
+    if (last && last.span === token.span) last.text += token.text;
+    else runs.push({ text: token.text, span: token.span });
+  });
+
+  const element = (
+    <Text key={keyPrefix} style={innerStyle}>
+      {runs.map((run, i) =>
+        run.span ? (
+          <Text
+            key={`${keyPrefix}-${i}`}
+            style={
+              run.span.style === "underline"
+                ? {
+                    textDecorationLine: "underline",
+                    textDecorationColor: run.span.color,
+                  }
+                : { backgroundColor: run.span.color + "55" }
+            }
+          >
+            {run.text}
+          </Text>
+        ) : (
+          run.text
+        )
+      )}
+    </Text>
+  );
+
+  return { element, wordCount };
+};
+
 // Helper to escape regex special characters
 const escapeRegex = (string: string) => {
   return string.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
@@ -314,7 +320,8 @@ const renderVerseTextWithXmlHighlight = (
   highlight?: string,
   fontFamily?: string,
   onTagPress?: (content: string) => void,
-  textColor?: string
+  textColor?: string,
+  wordSpans?: WordSpanStyle[]
 ): React.ReactNode[] => {
   if (!text) return [];
 
@@ -328,7 +335,8 @@ const renderVerseTextWithXmlHighlight = (
       highlight,
       fontFamily,
       onTagPress,
-      textColor
+      textColor,
+      wordSpans
     );
   } catch (error) {
     console.error("Error parsing XML tags:", error);
@@ -627,6 +635,63 @@ const renderCommentaryWithVerseLinks = (
   return parts;
 };
 
+// Render a verse as its differences from another translation: added words
+// in green, removed ones struck through in red, changed ones in amber
+const renderWordDiff = (segments: WordDiffSegment[]): React.ReactNode[] =>
+  segments.map((segment, index) => {
+    const separator = index < segments.length - 1 ? " " : "";
+    switch (segment.type) {
+      case "insert":
+        return (
+          <Text
+            key={index}
+            style={{
+              color: WORD_DIFF_COLORS.insert,
+              backgroundColor: WORD_DIFF_COLORS.insert + "20",
+            }}
+          >
+            {segment.text + separator}
+          </Text>
+        );
+      case "delete":
+        return (
+          <Text
+            key={index}
+            style={{
+              color: WORD_DIFF_COLORS.delete,
+              textDecorationLine: "line-through",
+            }}
+          >
+            {segment.text + separator}
+          </Text>
+        );
+      case "substitute":
+        return (
+          <Text key={index}>
+            <Text
+              style={{
+                color: WORD_DIFF_COLORS.delete,
+                textDecorationLine: "line-through",
+              }}
+            >
+              {segment.replaced + " "}
+            </Text>
+            <Text
+              style={{
+                color: WORD_DIFF_COLORS.substitute,
+                backgroundColor: WORD_DIFF_COLORS.substitute + "20",
+              }}
+            >
+              {segment.text + separator}
+            </Text>
+          </Text>
+        );
+      case "equal":
+      default:
+        return <Text key={index}>{segment.text + separator}</Text>;
+    }
+  });
+
 // Render dictionary text with colored non-alphabets and numbers
 const renderDictionaryText = (
   text: string,
@@ -810,6 +875,9 @@ const renderDictionaryText = (
   return parts;
 };
 
+// Points a verse number must be dragged before it selects rather than taps
+const DRAG_SELECT_THRESHOLD = 6;
+
 const STYLES = {
   container: {
     borderRadius: 8,
@@ -836,6 +904,14 @@ const STYLES = {
   },
 } as const;
 
+// Another translation's text for the same chapter, shown under each verse
+export interface ParallelText {
+  label: string; // translation abbreviation
+  verses: Verse[];
+  wordHighlights?: Map<number, WordSpanStyle[]>;
+  wordDiffs?: Map<number, WordDiffSegment[]>; // against the primary text
+}
+
 interface ChapterViewProps {
   verses: Verse[];
   bookName: string;
@@ -848,7 +924,15 @@ interface ChapterViewProps {
   onVerseRef?: (verseNumber: number, ref: View | null) => void;
   highlightVerse?: number;
   highlightedVerses?: Set<number>;
+  highlightColors?: Map<number, string>; // verse -> palette color
+  wordHighlights?: Map<number, WordSpanStyle[]>; // verse -> word spans
   bookmarkedVerses?: Set<number>;
+  selectedVerses?: Set<number>;
+  // Selection mode while set: taps toggle verses, dragging along the verse
+  // numbers selects a run of them
+  onSelectionChange?: (selectedVerses: Set<number>) => void;
+  notedVerses?: Set<number>;
+  onNotePress?: (verse: Verse) => void;
   style?: StyleProp<ViewStyle>;
   bookId?: number;
   isFullScreen?: boolean;
@@ -859,6 +943,11 @@ interface ChapterViewProps {
     chapter: number,
     verse: number
   ) => void;
+  onStrongsSearch?: (strongNumber: string) => void; // e.g. "G26"
+  parallelTexts?: ParallelText[];
+  // Shown instead of the verse text: how it differs from another translation
+  wordDiffs?: Map<number, WordDiffSegment[]>;
+  stories?: Story[]; // the chapter's section headings
 }
 
 type DictHistoryEntry = {
@@ -900,10 +989,20 @@ export const ChapterViewEnhanced: React.FC<ChapterViewProps> = ({
   onVerseRef,
   highlightVerse,
   highlightedVerses = new Set(),
+  highlightColors = new Map(),
+  wordHighlights = new Map(),
   bookmarkedVerses = new Set(),
+  selectedVerses = new Set(),
+  onSelectionChange,
+  notedVerses = new Set(),
+  onNotePress,
   style,
   isFullScreen,
   displayVersion,
+  onStrongsSearch,
+  parallelTexts = [],
+  wordDiffs,
+  stories = [],
 }) => {
   const { theme, colorScheme, fontFamily } = useTheme();
   const themeColors = getThemeColors(theme, colorScheme);
@@ -985,8 +1084,9 @@ export const ChapterViewEnhanced: React.FC<ChapterViewProps> = ({
   const testament = selectedVerse
     ? getTestament(selectedVerse.book_number, selectedVerse.book_name || "")
     : null;
-  const isNewTestament = testament === "NT";
-  const language = isNewTestament ? "Greek" : "Hebrew";
+  // The Apocrypha comes down in Greek, so it is tagged with Greek numbers
+  const isGreek = testament !== null && testament !== "OT";
+  const language = isGreek ? "Greek" : "Hebrew";
 
   // Load commentary when modal opens or changes
   useEffect(() => {
@@ -1021,9 +1121,9 @@ export const ChapterViewEnhanced: React.FC<ChapterViewProps> = ({
           getTestament(
             selectedVerse.book_number,
             selectedVerse.book_name || ""
-          ) === "NT"
-            ? "G"
-            : "H";
+          ) === "OT"
+            ? "H"
+            : "G";
         const full = `${prefix}${tagContent}`;
         const entry: DictHistoryEntry = { digits: tagContent, text, full };
 
@@ -1067,24 +1167,19 @@ export const ChapterViewEnhanced: React.FC<ChapterViewProps> = ({
     dictHistory,
   ]);
 
+  const currentStrongNumber = useMemo(() => {
+    const prefix = isGreek ? "G" : "H";
+    return currentDictIndex >= 0
+      ? dictHistory[currentDictIndex]?.full
+      : `${prefix}${tagContent}`;
+  }, [tagContent, isGreek, currentDictIndex, dictHistory]);
+
   const currentTitle = useMemo(() => {
     const isDictMode = displayVersion === "NASB" && /^\d+$/.test(tagContent);
     if (!isDictMode) return `Commentary for marker "${tagContent}"`;
 
-    const prefix = isNewTestament ? "G" : "H";
-    const full =
-      currentDictIndex >= 0
-        ? dictHistory[currentDictIndex]?.full
-        : `${prefix}${tagContent}`;
-    return `Strong's ${full}`;
-  }, [
-    tagContent,
-    displayVersion,
-    isNewTestament,
-    currentDictIndex,
-    dictHistory,
-    language,
-  ]);
+    return `Strong's ${currentStrongNumber}`;
+  }, [tagContent, displayVersion, currentStrongNumber]);
 
   const handleTagPress = useCallback((content: string, verse: Verse) => {
     const initialState: CommentaryState = {
@@ -1126,9 +1221,9 @@ export const ChapterViewEnhanced: React.FC<ChapterViewProps> = ({
         getTestament(
           selectedVerse.book_number,
           selectedVerse.book_name || ""
-        ) === "NT"
-          ? "G"
-          : "H";
+        ) === "OT"
+          ? "H"
+          : "G";
       const full = `${prefix}${digits}`;
       const entry: DictHistoryEntry = { digits, text, full };
 
@@ -1265,12 +1360,144 @@ export const ChapterViewEnhanced: React.FC<ChapterViewProps> = ({
     setModalStack([]);
   }, []);
 
+  const handleFindOccurrences = useCallback(() => {
+    if (!currentStrongNumber) return;
+    setModalStack([]);
+    onStrongsSearch?.(currentStrongNumber);
+  }, [currentStrongNumber, onStrongsSearch]);
+
   // Sort verses by verse number
   const sortedVerses = useMemo(
     () => [...verses].sort((a, b) => a.verse - b.verse),
     [verses]
   );
 
+  // Each parallel translation's verses by number
+  const parallelVerseMaps = useMemo(
+    () =>
+      parallelTexts.map(
+        (parallel) => new Map(parallel.verses.map((v) => [v.verse, v]))
+      ),
+    [parallelTexts]
+  );
+
+  // Section headings by the verse they go before
+  const storiesByVerse = useMemo(() => {
+    const byVerse = new Map<number, Story[]>();
+    [...stories]
+      .sort((a, b) => a.order_if_several - b.order_if_several)
+      .forEach((story) =>
+        byVerse.set(story.verse, [...(byVerse.get(story.verse) ?? []), story])
+      );
+    return byVerse;
+  }, [stories]);
+
+  // Verses that only the parallel translations have
+  const missingVerseNumbers = useMemo(() => {
+    const primaryNumbers = new Set(verses.map((v) => v.verse));
+    const numbers = new Set<number>();
+    parallelTexts.forEach((parallel) =>
+      parallel.verses.forEach((v) => {
+        if (!primaryNumbers.has(v.verse)) numbers.add(v.verse);
+      })
+    );
+    return Array.from(numbers).sort((a, b) => a - b);
+  }, [verses, parallelTexts]);
+
+  // Where each verse sits in the verse list, and how far below a verse's
+  // top its number is, for drag selection
+  const verseFramesRef = useRef<Record<number, { y: number; height: number }>>(
+    {}
+  );
+  const verseNumberTopsRef = useRef<Record<number, number>>({});
+  const dragRef = useRef<{
+    base: Set<number>;
+    startY: number;
+    target: number;
+    moved: boolean;
+  } | null>(null);
+  const selectionRef = useRef({ selectedVerses, onSelectionChange });
+  selectionRef.current = { selectedVerses, onSelectionChange };
+  const sortedVersesRef = useRef(sortedVerses);
+  sortedVersesRef.current = sortedVerses;
+
+  const toggleSelected = (verseNumber: number) => {
+    const { selectedVerses, onSelectionChange } = selectionRef.current;
+    const next = new Set(selectedVerses);
+    if (next.has(verseNumber)) next.delete(verseNumber);
+    else next.add(verseNumber);
+    onSelectionChange?.(next);
+  };
+
+  const getVerseAtY = (y: number): number => {
+    const list = sortedVersesRef.current;
+    const frames = verseFramesRef.current;
+    const found = list.find((v) => {
+      const frame = frames[v.verse];
+      return frame && y < frame.y + frame.height;
+    });
+    return (found ?? list[list.length - 1]).verse;
+  };
+
+  // Add every verse between the drag's start and target to the selection
+  // that existed when the drag began
+  const selectDraggedRun = (start: number, target: number) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    drag.target = target;
+    const [low, high] = start < target ? [start, target] : [target, start];
+    const next = new Set(drag.base);
+    sortedVersesRef.current.forEach((v) => {
+      if (v.verse >= low && v.verse <= high) next.add(v.verse);
+    });
+    selectionRef.current.onSelectionChange?.(next);
+  };
+
+  // One responder per verse number, kept across renders so a drag survives
+  // the selection updates it causes. A touch that doesn't move is a tap and
+  // toggles the verse like tapping its text.
+  const dragHandlersRef = useRef<Record<number, object>>({});
+
+  const createDragHandlers = (verseNumber: number) =>
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (event) => {
+        // locationY is within the number, which sits below the verse's top
+        dragRef.current = {
+          base: new Set(selectionRef.current.selectedVerses),
+          startY:
+            (verseFramesRef.current[verseNumber]?.y ?? 0) +
+            (verseNumberTopsRef.current[verseNumber] ?? 0) +
+            event.nativeEvent.locationY,
+          target: verseNumber,
+          moved: false,
+        };
+      },
+      onPanResponderMove: (_, gesture) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        if (!drag.moved && Math.abs(gesture.dy) < DRAG_SELECT_THRESHOLD) {
+          return;
+        }
+        const target = getVerseAtY(drag.startY + gesture.dy);
+        if (!drag.moved || target !== drag.target) {
+          drag.moved = true;
+          selectDraggedRun(verseNumber, target);
+        }
+      },
+      onPanResponderRelease: () => {
+        if (dragRef.current && !dragRef.current.moved) {
+          toggleSelected(verseNumber);
+        }
+        dragRef.current = null;
+      },
+      onPanResponderTerminate: () => {
+        dragRef.current = null;
+      },
+    }).panHandlers;
+
   const handleVerseLayout = (verseNumber: number, event: LayoutChangeEvent) => {
     onVerseLayout?.(verseNumber, event);
   };
@@ -1345,12 +1572,101 @@ export const ChapterViewEnhanced: React.FC<ChapterViewProps> = ({
     );
   }
 
+  const renderTranslationLabel = (label: string) => (
+    <Text
+      style={{
+        fontSize: isFullScreen ? fontSize - 6 : fontSize - 4,
+        lineHeight: fontSize * 1.4,
+        fontWeight: "600",
+        color: themeColors.primary,
+        fontFamily: actualFontFamily,
+        marginRight: 6,
+      }}
+    >
+      {label}
+    </Text>
+  );
+
+  // One translation's text under a verse in the interleaved comparison,
+  // labelled with its abbreviation. Without a parallel index it stands in
+  // for the primary translation, which lacks the verse.
+  const renderParallelLine = (verseNumber: number, parallelIndex?: number) => {
+    const parallel =
+      parallelIndex !== undefined ? parallelTexts[parallelIndex] : undefined;
+    const label = parallel ? parallel.label : (displayVersion ?? "");
+    const parallelVerse =
+      parallelIndex !== undefined
+        ? parallelVerseMaps[parallelIndex]?.get(verseNumber)
+        : undefined;
+    const wordDiff = parallel?.wordDiffs?.get(verseNumber);
+    const isFirst = parallelIndex === undefined;
+
+    return (
+      <View
+        key={label}
+        style={{
+          flexDirection: "row",
+          alignItems: "flex-start",
+          ...(!isFirst && {
+            marginTop: isFullScreen ? 4 : 6,
+            paddingTop: isFullScreen ? 4 : 6,
+            borderTopWidth: 1,
+            borderTopColor: themeColors.primary + "20",
+          }),
+        }}
+      >
+        {renderTranslationLabel(label)}
+        {parallelVerse ? (
+          <Text
+            style={{
+              fontSize,
+              lineHeight: fontSize * 1.4,
+              flexShrink: 1,
+              flexWrap: "wrap",
+              color: themeColors.textPrimary,
+              fontFamily: actualFontFamily,
+            }}
+            numberOfLines={0}
+          >
+            {wordDiff
+              ? renderWordDiff(wordDiff)
+              : renderVerseTextWithXmlHighlight(
+                  parallelVerse.text,
+                  fontSize,
+                  themeColors,
+                  undefined,
+                  actualFontFamily,
+                  (content) => handleTagPress(content, parallelVerse),
+                  themeColors.textPrimary,
+                  parallel?.wordHighlights?.get(verseNumber)
+                )}
+          </Text>
+        ) : (
+          <Text
+            style={{
+              fontSize: fontSize - 2,
+              lineHeight: fontSize * 1.4,
+              fontStyle: "italic",
+              color: themeColors.textMuted,
+              fontFamily: actualFontFamily,
+            }}
+          >
+            Not in this translation
+          </Text>
+        )}
+      </View>
+    );
+  };
+
   const renderVerseItem = (verse: Verse) => {
     const isHighlighted =
       highlightedVerses.has(verse.verse) || verse.verse === highlightVerse;
-    const verseTextColor = isHighlighted
-      ? themeColors.highlightText
-      : themeColors.textPrimary;
+    // User highlights use their palette color, the target verse the theme's
+    const highlightColor = highlightColors.get(verse.verse);
+    const verseTextColor =
+      isHighlighted && !highlightColor
+        ? themeColors.highlightText
+        : themeColors.textPrimary;
 
     const localOnTagPress = useCallback(
       (content: string) => {
@@ -1359,6 +1675,11 @@ export const ChapterViewEnhanced: React.FC<ChapterViewProps> = ({
       [handleTagPress, verse]
     );
 
+    const wordSpans = wordHighlights.get(verse.verse);
+    const wordDiff = wordDiffs?.get(verse.verse);
+    const isSelected = selectedVerses.has(verse.verse);
+    const isFramed = isHighlighted || isSelected;
+
     const renderedText = useMemo(
       () =>
         renderVerseTextWithXmlHighlight(
@@ -1368,7 +1689,8 @@ export const ChapterViewEnhanced: React.FC<ChapterViewProps> = ({
           undefined,
           actualFontFamily,
           localOnTagPress,
-          verseTextColor
+          verseTextColor,
+          wordSpans
         ),
       [
         verse.text,
@@ -1377,6 +1699,7 @@ export const ChapterViewEnhanced: React.FC<ChapterViewProps> = ({
         actualFontFamily,
         localOnTagPress,
         verseTextColor,
+        wordSpans,
       ]
     );
 
@@ -1384,28 +1707,47 @@ export const ChapterViewEnhanced: React.FC<ChapterViewProps> = ({
       <TouchableOpacity
         key={verse.verse}
         activeOpacity={1}
+        onPress={
+          onSelectionChange ? () => toggleSelected(verse.verse) : undefined
+        }
         onLongPress={() => handleVersePress(verse)}
+        onLayout={(event) => {
+          const { y, height } = event.nativeEvent.layout;
+          verseFramesRef.current[verse.verse] = { y, height };
+        }}
       >
         <View
           style={[
             STYLES.verse,
             {
-              backgroundColor: isHighlighted
-                ? themeColors.highlightBg
-                : "transparent",
+              backgroundColor: isSelected
+                ? themeColors.primary + "22"
+                : isHighlighted
+                  ? highlightColor
+                    ? highlightColor + "33"
+                    : themeColors.highlightBg
+                  : "transparent",
               borderRadius: 6,
-              padding: isHighlighted ? (isFullScreen ? 4 : 8) : 0,
-              borderWidth: isHighlighted ? 1 : 0,
-              borderColor: isHighlighted
-                ? themeColors.highlightBorder
-                : "transparent",
+              padding: isFramed ? (isFullScreen ? 4 : 8) : 0,
+              borderWidth: isFramed ? 1 : 0,
+              borderColor: isSelected
+                ? themeColors.primary
+                : isHighlighted
+                  ? highlightColor || themeColors.highlightBorder
+                  : "transparent",
               marginBottom: isFullScreen ? 4 : 8,
             },
           ]}
           onLayout={(event) => handleVerseLayout(verse.verse, event)}
           ref={(ref) => handleVerseRef(verse.verse, ref)}
         >
-          <View style={{ flexDirection: "row", alignItems: "flex-start" }}>
+          <View
+            style={{ flexDirection: "row", alignItems: "flex-start" }}
+            onLayout={(event) => {
+              verseNumberTopsRef.current[verse.verse] =
+                event.nativeEvent.layout.y;
+            }}
+          >
             {showVerseNumbers && (
               <View
                 style={{
@@ -1415,6 +1757,11 @@ export const ChapterViewEnhanced: React.FC<ChapterViewProps> = ({
                   marginRight: isFullScreen ? 0 : 2,
                   ...STYLES.verseNumber,
                 }}
+                {...(onSelectionChange && {
+                  hitSlop: { top: 8, bottom: 8, left: 12, right: 8 },
+                  ...(dragHandlersRef.current[verse.verse] ??=
+                    createDragHandlers(verse.verse)),
+                })}
               >
                 <Text
                   style={{
@@ -1432,7 +1779,7 @@ export const ChapterViewEnhanced: React.FC<ChapterViewProps> = ({
                   <Ionicons
                     name="star"
                     size={isFullScreen ? 10 : 12}
-                    color={themeColors.highlightIcon}
+                    color={highlightColor || themeColors.highlightIcon}
                     style={{ marginLeft: 2 }}
                   />
                 )}
@@ -1445,6 +1792,8 @@ export const ChapterViewEnhanced: React.FC<ChapterViewProps> = ({
                 alignItems: "flex-start",
               }}
             >
+              {parallelTexts.length > 0 &&
+                renderTranslationLabel(displayVersion ?? "")}
               <Text
                 style={{
                   fontSize,
@@ -1456,7 +1805,7 @@ export const ChapterViewEnhanced: React.FC<ChapterViewProps> = ({
                 }}
                 numberOfLines={0}
               >
-                {renderedText}
+                {wordDiff ? renderWordDiff(wordDiff) : renderedText}
               </Text>
               {bookmarkedVerses.has(verse.verse) && (
                 <Ionicons
@@ -1466,19 +1815,117 @@ export const ChapterViewEnhanced: React.FC<ChapterViewProps> = ({
                   style={{ marginLeft: 8, marginTop: 2 }}
                 />
               )}
+              {notedVerses.has(verse.verse) && (
+                <TouchableOpacity
+                  onPress={() => onNotePress?.(verse)}
+                  disabled={!onNotePress}
+                  hitSlop={8}
+                >
+                  <Ionicons
+                    name="document-text"
+                    size={isFullScreen ? 14 : 16}
+                    color={themeColors.primary}
+                    style={{ marginLeft: 8, marginTop: 2 }}
+                  />
+                </TouchableOpacity>
+              )}
             </View>
           </View>
+          {parallelTexts.map((_, i) => renderParallelLine(verse.verse, i))}
         </View>
       </TouchableOpacity>
     );
   };
 
-  const renderVerses = () => {
-    return (
-      <View style={{ gap: isFullScreen ? 4 : 12 }}>
-        {sortedVerses.map(renderVerseItem)}
+  // A verse only the parallel translations have, e.g. where versification
+  // splits or joins verses differently
+  const renderMissingVerseItem = (verseNumber: number) => (
+    <View
+      key={`missing-${verseNumber}`}
+      style={[STYLES.verse, { marginBottom: isFullScreen ? 4 : 8 }]}
+    >
+      <View style={{ flexDirection: "row", alignItems: "flex-start" }}>
+        {showVerseNumbers && (
+          <View
+            style={{
+              minWidth: isFullScreen ? 18 : 20,
+              marginRight: isFullScreen ? 0 : 2,
+              ...STYLES.verseNumber,
+            }}
+          >
+            <Text
+              style={{
+                fontSize: isFullScreen ? fontSize - 6 : fontSize - 4,
+                fontWeight: "600",
+                color: themeColors.verseNumber,
+                fontFamily: actualFontFamily,
+              }}
+            >
+              {verseNumber}
+            </Text>
+          </View>
+        )}
+        <View style={{ ...STYLES.verseText }}>
+          {renderParallelLine(verseNumber)}
+        </View>
       </View>
-    );
+      {parallelTexts.map((_, i) => renderParallelLine(verseNumber, i))}
+    </View>
+  );
+
+  // A section heading such as "The Sermon on the Mount"
+  const renderStoryHeading = (story: Story) => (
+    <Text
+      key={`story-${story.verse}-${story.order_if_several}`}
+      style={{
+        fontSize: isFullScreen ? fontSize - 1 : fontSize + 1,
+        lineHeight: fontSize * 1.5,
+        fontWeight: "bold",
+        color: themeColors.textPrimary,
+        fontFamily: actualFontFamily,
+        marginTop: isFullScreen ? 4 : 8,
+      }}
+    >
+      {stripTags(story.title)}
+    </Text>
+  );
+
+  const renderVerses = () => {
+    if (missingVerseNumbers.length === 0 && storiesByVerse.size === 0) {
+      return (
+        <View style={{ gap: isFullScreen ? 4 : 12 }}>
+          {sortedVerses.map(renderVerseItem)}
+        </View>
+      );
+    }
+
+    // Merge in verse order, headings before their verse; renderVerseItem
+    // still runs once per verse
+    const rows: React.ReactNode[] = [];
+    const pushRow = (verseNumber: number, row: React.ReactNode) => {
+      storiesByVerse
+        .get(verseNumber)
+        ?.forEach((story) => rows.push(renderStoryHeading(story)));
+      rows.push(row);
+    };
+    let missingIndex = 0;
+    sortedVerses.forEach((verse) => {
+      while (
+        missingIndex < missingVerseNumbers.length &&
+        missingVerseNumbers[missingIndex] < verse.verse
+      ) {
+        const verseNumber = missingVerseNumbers[missingIndex++];
+        pushRow(verseNumber, renderMissingVerseItem(verseNumber));
+      }
+      pushRow(verse.verse, renderVerseItem(verse));
+    });
+    missingVerseNumbers
+      .slice(missingIndex)
+      .forEach((verseNumber) =>
+        pushRow(verseNumber, renderMissingVerseItem(verseNumber))
+      );
+
+    return <View style={{ gap: isFullScreen ? 4 : 12 }}>{rows}</View>;
   };
 
   // Container style
@@ -1574,6 +2021,8 @@ export const ChapterViewEnhanced: React.FC<ChapterViewProps> = ({
               ` • ${highlightedVerses.size} highlighted`}
             {bookmarkedVerses.size > 0 &&
               ` • ${bookmarkedVerses.size} bookmarked`}
+            {notedVerses.size > 0 && ` • ${notedVerses.size} with notes`}
+            {selectedVerses.size > 0 && ` • ${selectedVerses.size} selected`}
           </Text>
         </View>
       </View>
@@ -1829,6 +2278,34 @@ export const ChapterViewEnhanced: React.FC<ChapterViewProps> = ({
                     )}
                   </ScrollView>
                 )}
+                {isDictMode && onStrongsSearch && (
+                  <TouchableOpacity
+                    onPress={handleFindOccurrences}
+                    style={{
+                      flexDirection: "row",
+                      alignItems: "center",
+                      justifyContent: "center",
+                      marginTop: 10,
+                    }}
+                    activeOpacity={0.7}
+                  >
+                    <Ionicons
+                      name="search"
+                      size={16}
+                      color={themeColors.primary}
+                    />
+                    <Text
+                      style={{
+                        color: themeColors.primary,
+                        fontWeight: "600",
+                        marginLeft: 6,
+                        fontFamily: actualFontFamily,
+                      }}
+                    >
+                      Find all occurrences of {currentStrongNumber}
+                    </Text>
+                  </TouchableOpacity>
+                )}
                 <TouchableOpacity
                   onPress={handleCloseModal}
                   style={{
@@ -0,0 +1,326 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  View,
+  Text,
+  TextInput,
+  Switch,
+  Share,
+  Alert,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import * as Clipboard from "expo-clipboard";
+import { Verse } from "../types";
+import { useCitationTemplates } from "../context/CitationTemplatesContext";
+import {
+  CitationOptions,
+  CitationTemplate,
+  ReferencePlacement,
+  formatCitation,
+  formatPassageReference,
+} from "../utils/citation";
+import { Button } from "./Button";
+
+interface CitationModalProps {
+  visible: boolean;
+  onClose: () => void;
+  verses: Verse[];
+  bookName: string;
+  version: string | null; // translation database, for its abbreviation
+  colors: any;
+  primaryTextColor: string;
+}
+
+const OPTION_SWITCHES: {
+  key: Exclude<keyof CitationOptions, "referencePlacement">;
+  label: string;
+}[] = [
+  { key: "includeVerseNumbers", label: "Verse numbers" },
+  { key: "includeTranslation", label: "Translation abbreviation" },
+  { key: "quoteText", label: "Quotation marks" },
+  { key: "versePerLine", label: "Each verse on its own line" },
+];
+
+const PLACEMENT_OPTIONS: { value: ReferencePlacement; label: string }[] = [
+  { value: "before", label: "Reference first" },
+  { value: "after", label: "Reference last" },
+];
+
+const getOptions = ({
+  includeVerseNumbers,
+  referencePlacement,
+  includeTranslation,
+  quoteText,
+  versePerLine,
+}: CitationOptions): CitationOptions => ({
+  includeVerseNumbers,
+  referencePlacement,
+  includeTranslation,
+  quoteText,
+  versePerLine,
+});
+
+const sameOptions = (a: CitationOptions, b: CitationOptions): boolean =>
+  JSON.stringify(getOptions(a)) === JSON.stringify(getOptions(b));
+
+export const CitationModal: React.FC<CitationModalProps> = ({
+  visible,
+  onClose,
+  verses,
+  bookName,
+  version,
+  colors,
+  primaryTextColor,
+}) => {
+  const {
+    templates,
+    activeTemplate,
+    setActiveTemplate,
+    saveTemplate,
+    deleteTemplate,
+  } = useCitationTemplates();
+  const [options, setOptions] = useState<CitationOptions>(() =>
+    getOptions(activeTemplate)
+  );
+  const [templateName, setTemplateName] = useState("");
+
+  // Start from the last used template each time the modal opens
+  useEffect(() => {
+    if (!visible) return;
+    setOptions(getOptions(activeTemplate));
+    setTemplateName("");
+  }, [visible]);
+
+  const citation = useMemo(
+    () => formatCitation(verses, options, bookName, version),
+    [verses, options, bookName, version]
+  );
+
+  if (verses.length === 0) return null;
+
+  const handleTemplatePress = (template: CitationTemplate) => {
+    setActiveTemplate(template.id);
+    setOptions(getOptions(template));
+  };
+
+  const handleTemplateLongPress = (template: CitationTemplate) => {
+    if (template.builtIn) return;
+    Alert.alert("Delete Template", `Delete "${template.name}"?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: () => deleteTemplate(template.id),
+      },
+    ]);
+  };
+
+  const handleSaveTemplate = () => {
+    if (!templateName.trim()) return;
+    saveTemplate(templateName, options);
+    setTemplateName("");
+  };
+
+  const handleCopy = async () => {
+    try {
+      await Clipboard.setStringAsync(citation);
+      onClose();
+      Alert.alert("Copied", "The verses were copied to the clipboard.");
+    } catch (error) {
+      console.error("Failed to copy verses:", error);
+      Alert.alert("Error", "Could not copy the verses.");
+    }
+  };
+
+  const handleShare = async () => {
+    try {
+      const result = await Share.share({ message: citation });
+      if (result.action === Share.sharedAction) onClose();
+    } catch (error) {
+      console.error("Failed to share verses:", error);
+    }
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    active: boolean,
+    onPress: () => void,
+    onLongPress?: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      onLongPress={onLongPress}
+      className="rounded-full px-3 py-1 mr-2 mb-2"
+      style={{
+        backgroundColor: active ? colors.primary : colors.primary + "15",
+      }}
+    >
+      <Text
+        className="text-sm"
+        style={{ color: active ? "#ffffff" : colors.primary }}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        className="flex-1 justify-center items-center"
+        activeOpacity={1}
+        onPress={onClose}
+        style={{ backgroundColor: colors.background?.default + "CC" }}
+      >
+        <SafeAreaView
+          className="max-h-[90%] shadow shadow-black"
+          style={{
+            backgroundColor: colors.card,
+            borderRadius: 12,
+            width: "92%",
+          }}
+          onStartShouldSetResponder={() => true}
+        >
+          <View
+            className="flex-row items-center justify-between"
+            style={{
+              padding: 16,
+              backgroundColor: colors.primary,
+              borderTopLeftRadius: 12,
+              borderTopRightRadius: 12,
+            }}
+          >
+            <Text
+              style={{
+                color: primaryTextColor,
+                fontSize: 18,
+                fontWeight: "bold",
+              }}
+              numberOfLines={1}
+            >
+              {formatPassageReference(verses, bookName)}
+            </Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={22} color={primaryTextColor} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={{ padding: 16 }}>
+            <Text
+              className="text-sm font-semibold mb-2"
+              style={{ color: colors.text?.primary }}
+            >
+              Template
+            </Text>
+            <View className="flex-row flex-wrap">
+              {templates.map((template) =>
+                renderChip(
+                  template.id,
+                  template.name,
+                  template.id === activeTemplate.id &&
+                    sameOptions(template, options),
+                  () => handleTemplatePress(template),
+                  () => handleTemplateLongPress(template)
+                )
+              )}
+            </View>
+            {templates.some((template) => !template.builtIn) && (
+              <Text className="text-xs mb-2" style={{ color: colors.muted }}>
+                Long-press a saved template to delete it.
+              </Text>
+            )}
+
+            {OPTION_SWITCHES.map(({ key, label }) => (
+              <View
+                key={key}
+                className="flex-row items-center justify-between py-1"
+              >
+                <Text style={{ color: colors.text?.primary }}>{label}</Text>
+                <Switch
+                  value={options[key]}
+                  onValueChange={(value) =>
+                    setOptions((prev) => ({ ...prev, [key]: value }))
+                  }
+                  thumbColor={options[key] ? colors.primary : "#f4f3f4"}
+                  trackColor={{
+                    false: "#D1D5DB",
+                    true: colors.primary + "80",
+                  }}
+                />
+              </View>
+            ))}
+            <View className="flex-row flex-wrap mt-2">
+              {PLACEMENT_OPTIONS.map((option) =>
+                renderChip(
+                  option.value,
+                  option.label,
+                  options.referencePlacement === option.value,
+                  () =>
+                    setOptions((prev) => ({
+                      ...prev,
+                      referencePlacement: option.value,
+                    }))
+                )
+              )}
+            </View>
+
+            <View
+              className="rounded-lg border p-3 my-3"
+              style={{ borderColor: colors.border?.default }}
+            >
+              <Text selectable style={{ color: colors.text?.primary }}>
+                {citation}
+              </Text>
+            </View>
+
+            <View className="flex-row items-center mb-4">
+              <TextInput
+                value={templateName}
+                onChangeText={setTemplateName}
+                onSubmitEditing={handleSaveTemplate}
+                placeholder="Save these options as a template"
+                placeholderTextColor={colors.muted}
+                returnKeyType="done"
+                className="flex-1 rounded-lg border px-3 py-2"
+                style={{
+                  color: colors.text?.primary,
+                  borderColor: colors.border?.default,
+                }}
+              />
+              <TouchableOpacity
+                onPress={handleSaveTemplate}
+                className="ml-2 p-2"
+                disabled={!templateName.trim()}
+              >
+                <Ionicons
+                  name="save-outline"
+                  size={24}
+                  color={templateName.trim() ? colors.primary : colors.muted}
+                />
+              </TouchableOpacity>
+            </View>
+
+            <View className="flex-row gap-3">
+              <View className="flex-1">
+                <Button title="Copy" onPress={handleCopy} />
+              </View>
+              <View className="flex-1">
+                <Button title="Share" onPress={handleShare} variant="outline" />
+              </View>
+            </View>
+          </ScrollView>
+        </SafeAreaView>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
@@ -0,0 +1,156 @@
+import React from "react";
+import { Modal, TouchableOpacity, View, Text } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { Verse } from "../types";
+import { useHighlights } from "../context/HighlightsContext";
+
+interface HighlightColorPickerProps {
+  visible: boolean;
+  onClose: () => void;
+  verses: Verse[]; // one verse, or a passage highlighted as a whole
+  colors: any;
+  primaryTextColor: string;
+}
+
+export const HighlightColorPicker: React.FC<HighlightColorPickerProps> = ({
+  visible,
+  onClose,
+  verses,
+  colors,
+  primaryTextColor,
+}) => {
+  const {
+    palette,
+    getVerseHighlight,
+    setVerseHighlight,
+    removeVerseHighlight,
+  } = useHighlights();
+
+  if (verses.length === 0) return null;
+
+  const first = verses[0];
+  const last = verses[verses.length - 1];
+  const reference =
+    first.verse === last.verse
+      ? `${first.book_name} ${first.chapter}:${first.verse}`
+      : `${first.book_name} ${first.chapter}:${first.verse}-${last.verse}`;
+
+  const highlights = verses.map((verse) =>
+    getVerseHighlight(verse.book_number, verse.chapter, verse.verse)
+  );
+  // A color is only marked current when every verse has it
+  const current = highlights.every(
+    (highlight) => highlight?.colorId === highlights[0]?.colorId
+  )
+    ? highlights[0]
+    : undefined;
+  const hasHighlight = highlights.some(Boolean);
+
+  const handleSelect = (colorId: string) => {
+    verses.forEach((verse) => setVerseHighlight(verse, colorId));
+    onClose();
+  };
+
+  const handleRemove = () => {
+    verses.forEach((verse) =>
+      removeVerseHighlight(verse.book_number, verse.chapter, verse.verse)
+    );
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        className="flex-1 justify-center items-center"
+        activeOpacity={1}
+        onPress={onClose}
+        style={{ backgroundColor: colors.background?.default + "CC" }}
+      >
+        <View
+          className="shadow shadow-black"
+          style={{
+            backgroundColor: colors.card,
+            borderRadius: 12,
+            width: "85%",
+            overflow: "hidden",
+          }}
+          onStartShouldSetResponder={() => true}
+        >
+          <View style={{ padding: 16, backgroundColor: colors.primary }}>
+            <Text
+              style={{
+                color: primaryTextColor,
+                fontSize: 18,
+                fontWeight: "bold",
+              }}
+            >
+              Highlight {reference}
+            </Text>
+          </View>
+
+          <View className="flex-row flex-wrap" style={{ padding: 12 }}>
+            {palette.map((entry) => {
+              const isSelected = current?.colorId === entry.id;
+              return (
+                <TouchableOpacity
+                  key={entry.id}
+                  onPress={() => handleSelect(entry.id)}
+                  className="items-center m-1 p-2 rounded-lg"
+                  style={{
+                    width: "30%",
+                    borderWidth: isSelected ? 2 : 1,
+                    borderColor: isSelected
+                      ? entry.color
+                      : colors.border?.default,
+                  }}
+                  accessibilityLabel={`Highlight as ${entry.label}`}
+                >
+                  <View
+                    className="w-8 h-8 rounded-full items-center justify-center mb-1"
+                    style={{ backgroundColor: entry.color }}
+                  >
+                    {isSelected && (
+                      <Ionicons name="checkmark" size={18} color="#000000" />
+                    )}
+                  </View>
+                  <Text
+                    className="text-xs"
+                    style={{ color: colors.text?.primary }}
+                    numberOfLines={1}
+                  >
+                    {entry.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {hasHighlight && (
+            <TouchableOpacity
+              onPress={handleRemove}
+              className="flex-row items-center justify-center p-3"
+              style={{
+                borderTopWidth: 1,
+                borderTopColor: colors.border?.default,
+              }}
+            >
+              <Ionicons
+                name="close-circle-outline"
+                size={18}
+                color={colors.muted}
+              />
+              <Text className="ml-2" style={{ color: colors.muted }}>
+                Remove Highlight
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
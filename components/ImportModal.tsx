@@ -0,0 +1,344 @@
+import React, { useEffect, useState } from "react";
+import {
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  View,
+  Text,
+  TextInput,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { ImportSummary, useImport } from "../hooks/useImport";
+import {
+  ImportFormat,
+  ImportKind,
+  ImportResult,
+  parseCsvImport,
+  parseOsisImport,
+} from "../utils/importers";
+import { Button } from "./Button";
+
+interface Colors {
+  primary: string;
+  background: string;
+  text: string;
+  muted: string;
+  card: string;
+  border: string;
+}
+
+interface ImportModalProps {
+  visible: boolean;
+  onClose: () => void;
+  colors: Colors;
+}
+
+const FORMAT_OPTIONS: { value: ImportFormat; label: string; hint: string }[] = [
+  {
+    value: "csv",
+    label: "CSV",
+    hint: 'One row per verse, passage or chapter: a "reference" column ("John 3:16-18" or "Psalm 23"), or book, chapter and verse columns. Optional note, color and type columns. Paste the rows or choose a file.',
+  },
+  {
+    value: "osis",
+    label: "OSIS",
+    hint: "OSIS references such as Gen.1.1 or John.3.16-John.3.18, separated by spaces or new lines. Paste them or choose a file.",
+  },
+  {
+    value: "mybible",
+    label: "MyBible",
+    hint: "Choose a MyBible bookmarks or highlights file (.SQLite3 or .db), e.g. from a MyBible backup saved to your device or cloud drive.",
+  },
+];
+
+const KIND_OPTIONS: { value: ImportKind; label: string }[] = [
+  { value: "bookmark", label: "Bookmarks" },
+  { value: "highlight", label: "Highlights" },
+];
+
+// Longest list of skipped rows shown in the report
+const MAX_SKIPPED_SHOWN = 50;
+
+export const ImportModal: React.FC<ImportModalProps> = ({
+  visible,
+  onClose,
+  colors,
+}) => {
+  const { pickImportFile, readTextFile, readMyBibleFile, applyImport } =
+    useImport();
+  const [format, setFormat] = useState<ImportFormat>("csv");
+  const [kind, setKind] = useState<ImportKind>("bookmark");
+  const [text, setText] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<{
+    summary: ImportSummary;
+    skipped: ImportResult["skipped"];
+  } | null>(null);
+
+  // Start over each time the modal opens
+  useEffect(() => {
+    if (!visible) return;
+    setText("");
+    setError(null);
+    setReport(null);
+  }, [visible]);
+
+  const runImport = async (read: () => Promise<ImportResult>) => {
+    setIsImporting(true);
+    setError(null);
+    try {
+      const result = await read();
+      if (result.items.length === 0 && result.skipped.length === 0) {
+        setError("Nothing to import.");
+        return;
+      }
+      const summary = await applyImport(result);
+      setReport({ summary, skipped: result.skipped });
+    } catch (err) {
+      console.error("Import failed:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handlePickMyBibleFile = async () => {
+    try {
+      const file = await pickImportFile();
+      if (file) await runImport(() => readMyBibleFile(file));
+    } catch (err) {
+      console.error("Failed to pick import file:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // A picked CSV or OSIS file fills the text box, to check before importing
+  const handlePickTextFile = async () => {
+    try {
+      const file = await pickImportFile();
+      if (!file) return;
+      setText(await readTextFile(file));
+      setError(null);
+    } catch (err) {
+      console.error("Failed to read import file:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleImportText = () =>
+    runImport(async () =>
+      format === "osis"
+        ? parseOsisImport(text, kind)
+        : parseCsvImport(text, kind)
+    );
+
+  const formatOption = FORMAT_OPTIONS.find(
+    (option) => option.value === format
+  )!;
+
+  const renderChip = (label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      onPress={onPress}
+      className="rounded-full px-3 py-1 mr-2 mb-2"
+      style={{
+        backgroundColor: active ? colors.primary : colors.primary + "15",
+      }}
+    >
+      <Text
+        className="text-sm"
+        style={{ color: active ? "#ffffff" : colors.primary }}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        className="flex-1 justify-center items-center"
+        activeOpacity={1}
+        onPress={onClose}
+        style={{ backgroundColor: colors.background + "CC" }}
+      >
+        <SafeAreaView
+          className="max-h-[90%] shadow shadow-black"
+          style={{
+            backgroundColor: colors.card,
+            borderRadius: 12,
+            width: "92%",
+          }}
+          onStartShouldSetResponder={() => true}
+        >
+          <View
+            className="flex-row items-center justify-between"
+            style={{
+              padding: 16,
+              backgroundColor: colors.primary,
+              borderTopLeftRadius: 12,
+              borderTopRightRadius: 12,
+            }}
+          >
+            <Text
+              style={{ color: "#ffffff", fontSize: 18, fontWeight: "bold" }}
+            >
+              Import From Other Apps
+            </Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={22} color="#ffffff" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={{ padding: 16 }}>
+            {error && (
+              <View
+                className="flex-row items-center rounded-lg p-3 mb-3"
+                style={{ backgroundColor: "#ef444420" }}
+              >
+                <Ionicons name="alert-circle" size={18} color="#ef4444" />
+                <Text className="flex-1 ml-2" style={{ color: "#ef4444" }}>
+                  {error}
+                </Text>
+              </View>
+            )}
+
+            {report ? (
+              <View>
+                <Text
+                  className="text-base font-semibold mb-2"
+                  style={{ color: colors.text }}
+                >
+                  Import finished
+                </Text>
+                <Text className="mb-1" style={{ color: colors.text }}>
+                  {report.summary.bookmarksAdded} bookmarks added
+                </Text>
+                <Text className="mb-1" style={{ color: colors.text }}>
+                  {report.summary.highlightsAdded} highlights added
+                </Text>
+                {report.summary.alreadyPresent > 0 && (
+                  <Text className="mb-1" style={{ color: colors.muted }}>
+                    {report.summary.alreadyPresent} verses were already saved
+                  </Text>
+                )}
+
+                {report.skipped.length > 0 && (
+                  <View className="mt-3">
+                    <Text
+                      className="text-sm font-semibold mb-1"
+                      style={{ color: colors.text }}
+                    >
+                      {report.skipped.length} rows skipped
+                    </Text>
+                    {report.skipped
+                      .slice(0, MAX_SKIPPED_SHOWN)
+                      .map((row, index) => (
+                        <Text
+                          key={index}
+                          className="text-xs mb-1"
+                          style={{ color: colors.muted }}
+                        >
+                          {row.row}: {row.reason}
+                        </Text>
+                      ))}
+                    {report.skipped.length > MAX_SKIPPED_SHOWN && (
+                      <Text className="text-xs" style={{ color: colors.muted }}>
+                        and {report.skipped.length - MAX_SKIPPED_SHOWN} more
+                      </Text>
+                    )}
+                  </View>
+                )}
+
+                <View className="mt-4">
+                  <Button title="Done" onPress={onClose} />
+                </View>
+              </View>
+            ) : (
+              <View>
+                <View className="flex-row flex-wrap">
+                  {FORMAT_OPTIONS.map((option) =>
+                    renderChip(option.label, format === option.value, () => {
+                      setFormat(option.value);
+                      setError(null);
+                    })
+                  )}
+                </View>
+                <Text className="text-xs mb-3" style={{ color: colors.muted }}>
+                  {formatOption.hint}
+                </Text>
+
+                {format === "mybible" ? (
+                  <Button
+                    title="Choose File"
+                    onPress={handlePickMyBibleFile}
+                    loading={isImporting}
+                    disabled={isImporting}
+                  />
+                ) : (
+                  <View>
+                    <Text
+                      className="text-sm font-semibold mb-2"
+                      style={{ color: colors.text }}
+                    >
+                      Import rows as
+                    </Text>
+                    <View className="flex-row flex-wrap">
+                      {KIND_OPTIONS.map((option) =>
+                        renderChip(option.label, kind === option.value, () =>
+                          setKind(option.value)
+                        )
+                      )}
+                    </View>
+                    <View className="mb-3">
+                      <Button
+                        title="Choose File"
+                        variant="outline"
+                        onPress={handlePickTextFile}
+                        disabled={isImporting}
+                      />
+                    </View>
+                    <TextInput
+                      value={text}
+                      onChangeText={setText}
+                      placeholder={
+                        format === "osis"
+                          ? "Gen.1.1 John.3.16"
+                          : "reference,note\nJohn 3:16,For God so loved"
+                      }
+                      placeholderTextColor={colors.muted}
+                      multiline
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                      className="rounded-lg border p-3 mb-3"
+                      style={{
+                        color: colors.text,
+                        borderColor: colors.border,
+                        minHeight: 120,
+                        maxHeight: 240,
+                        textAlignVertical: "top",
+                      }}
+                    />
+                    <Button
+                      title="Import"
+                      onPress={handleImportText}
+                      loading={isImporting}
+                      disabled={!text.trim() || isImporting}
+                    />
+                  </View>
+                )}
+              </View>
+            )}
+          </ScrollView>
+        </SafeAreaView>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
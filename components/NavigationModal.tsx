@@ -11,12 +11,14 @@ import { SafeAreaView } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { Book, ChapterInfo } from "../types";
 import { lightenColor } from "../utils/colorUtils";
+import { TESTAMENT_COLORS, TESTAMENT_NAMES } from "../utils/testamentUtils";
 
 interface NavigationModalProps {
   visible: boolean;
   onClose: () => void;
   books: Book[];
   oldTestament: Book[];
+  apocrypha: Book[]; // empty for translations without the deuterocanon
   newTestament: Book[];
   chapters: ChapterInfo[];
   versesList: number[];
@@ -37,11 +39,77 @@ interface NavigationModalProps {
   primaryTextColor: string;
 }
 
+// A testament's books as a grid of cards, hidden when it has none
+const BookSection = ({
+  title,
+  books,
+  fallbackColor,
+  colors,
+  onSelect,
+}: {
+  title: string;
+  books: Book[];
+  fallbackColor: string; // for books without a color of their own
+  colors: any;
+  onSelect: (book: Book) => void;
+}) => {
+  if (books.length === 0) return null;
+  return (
+    <View className="mb-6">
+      <View className="flex-row items-center justify-between mb-3">
+        <Text
+          style={{
+            color: colors.primary,
+            fontSize: 20,
+            fontWeight: "bold",
+          }}
+        >
+          {title}
+        </Text>
+        <Text style={{ color: colors.muted, fontSize: 12 }}>
+          {books.length} books
+        </Text>
+      </View>
+      <View className="flex-row flex-wrap justify-between">
+        {books.map((book) => (
+          <TouchableOpacity
+            key={book.book_number}
+            onPress={() => onSelect(book)}
+            className="p-3 rounded-lg shadow-sm mb-3 border-l-4"
+            style={{
+              width: "15%",
+              borderLeftColor: book.book_color || fallbackColor,
+              backgroundColor:
+                lightenColor(book.book_color || fallbackColor, 0.15) ||
+                colors.card,
+            }}
+          >
+            <Text
+              style={{
+                color: colors.text?.primary,
+                fontWeight: "600",
+                textAlign: "center",
+                fontSize: 12,
+              }}
+              numberOfLines={2}
+              adjustsFontSizeToFit
+              minimumFontScale={0.8}
+            >
+              {book.short_name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+};
+
 export const NavigationModal: React.FC<NavigationModalProps> = ({
   visible,
   onClose,
   books,
   oldTestament,
+  apocrypha,
   newTestament,
   chapters,
   versesList,
@@ -128,102 +196,27 @@ export const NavigationModal: React.FC<NavigationModalProps> = ({
           >
             Select Book
           </Text>
-          {oldTestament.length > 0 && (
-            <View className="mb-6">
-              <View className="flex-row items-center justify-between mb-3">
-                <Text
-                  style={{
-                    color: colors.primary,
-                    fontSize: 20,
-                    fontWeight: "bold",
-                  }}
-                >
-                  Old Testament
-                </Text>
-                <Text style={{ color: colors.muted, fontSize: 12 }}>
-                  {oldTestament.length} books
-                </Text>
-              </View>
-              <View className="flex-row flex-wrap justify-between">
-                {oldTestament.map((book) => (
-                  <TouchableOpacity
-                    key={book.book_number}
-                    onPress={() => handleBookSelect(book)}
-                    className="p-3 rounded-lg shadow-sm mb-3 border-l-4"
-                    style={{
-                      width: "15%",
-                      borderLeftColor: book.book_color || "#DC2626",
-                      backgroundColor:
-                        lightenColor(book.book_color || "#DC2626", 0.15) ||
-                        colors.card,
-                    }}
-                  >
-                    <Text
-                      style={{
-                        color: colors.text?.primary,
-                        fontWeight: "600",
-                        textAlign: "center",
-                        fontSize: 12,
-                      }}
-                      numberOfLines={2}
-                      adjustsFontSizeToFit
-                      minimumFontScale={0.8}
-                    >
-                      {book.short_name}
-                    </Text>
-                  </TouchableOpacity>
-                ))}
-              </View>
-            </View>
-          )}
-          {newTestament.length > 0 && (
-            <View className="mb-6">
-              <View className="flex-row items-center justify-between mb-3">
-                <Text
-                  style={{
-                    color: colors.primary,
-                    fontSize: 20,
-                    fontWeight: "bold",
-                  }}
-                >
-                  New Testament
-                </Text>
-                <Text style={{ color: colors.muted, fontSize: 12 }}>
-                  {newTestament.length} books
-                </Text>
-              </View>
-              <View className="flex-row flex-wrap justify-between">
-                {newTestament.map((book) => (
-                  <TouchableOpacity
-                    key={book.book_number}
-                    onPress={() => handleBookSelect(book)}
-                    className="p-3 rounded-lg shadow-sm mb-3 border-l-4"
-                    style={{
-                      width: "15%",
-                      borderLeftColor: book.book_color || "#059669",
-                      backgroundColor:
-                        lightenColor(book.book_color || "#059669", 0.15) ||
-                        colors.card,
-                    }}
-                  >
-                    <Text
-                      style={{
-                        color: colors.text?.primary,
-                        fontWeight: "600",
-                        textAlign: "center",
-                        fontSize: 12,
-                      }}
-                      numberOfLines={2}
-                      adjustsFontSizeToFit
-                      minimumFontScale={0.8}
-                    >
-                      {book.short_name}
-                    </Text>
-                  </TouchableOpacity>
-                ))}
-              </View>
-            </View>
-          )}
+          <BookSection
+            title={TESTAMENT_NAMES.OT}
+            books={oldTestament}
+            fallbackColor={TESTAMENT_COLORS.OT.color}
+            colors={colors}
+            onSelect={handleBookSelect}
+          />
+          <BookSection
+            title={TESTAMENT_NAMES.AP}
+            books={apocrypha}
+            fallbackColor={TESTAMENT_COLORS.AP.color}
+            colors={colors}
+            onSelect={handleBookSelect}
+          />
+          <BookSection
+            title={TESTAMENT_NAMES.NT}
+            books={newTestament}
+            fallbackColor={TESTAMENT_COLORS.NT.color}
+            colors={colors}
+            onSelect={handleBookSelect}
+          />
         </View>
         <View
           style={{
@@ -0,0 +1,356 @@
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import {
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  View,
+  Text,
+  TextInput,
+  Alert,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { BibleReference, Note, Verse } from "../types";
+import { useNotes } from "../context/NotesContext";
+import { formatNoteReference } from "../utils/noteFormatting";
+import { NoteText } from "./NoteText";
+import { Button } from "./Button";
+
+interface NoteEditorModalProps {
+  visible: boolean;
+  onClose: () => void;
+  verse: Verse | null;
+  lastVerse: number; // highest verse number in the chapter
+  initialEndVerse?: number; // prefill a range, e.g. from a verse selection
+  colors: any;
+  primaryTextColor: string;
+  onReferencePress?: (reference: BibleReference) => void;
+}
+
+interface Selection {
+  start: number;
+  end: number;
+}
+
+// Markup inserted by the toolbar; see utils/noteFormatting.ts
+const FORMAT_ACTIONS: {
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  prefix: string;
+  suffix: string;
+  lineStart?: boolean;
+}[] = [
+  { label: "Bold", icon: "text", prefix: "**", suffix: "**" },
+  { label: "List", icon: "list", prefix: "- ", suffix: "", lineStart: true },
+  { label: "Verse link", icon: "link", prefix: "[[", suffix: "]]" },
+];
+
+export const NoteEditorModal: React.FC<NoteEditorModalProps> = ({
+  visible,
+  onClose,
+  verse,
+  lastVerse,
+  initialEndVerse,
+  colors,
+  primaryTextColor,
+  onReferencePress,
+}) => {
+  const { addNote, updateNote, deleteNote, getVerseNotes } = useNotes();
+  const [content, setContent] = useState("");
+  const [endVerseText, setEndVerseText] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [selection, setSelection] = useState<Selection>({ start: 0, end: 0 });
+
+  const noteColors = {
+    text: colors.text?.primary,
+    muted: colors.muted,
+    primary: colors.primary,
+  };
+
+  const verseNotes = useMemo(
+    () =>
+      verse ? getVerseNotes(verse.book_number, verse.chapter, verse.verse) : [],
+    [verse, getVerseNotes]
+  );
+
+  const resetEditor = useCallback(() => {
+    setContent("");
+    setEndVerseText(
+      verse && initialEndVerse && initialEndVerse > verse.verse
+        ? String(initialEndVerse)
+        : ""
+    );
+    setEditingId(null);
+    setSelection({ start: 0, end: 0 });
+  }, [verse, initialEndVerse]);
+
+  // Start fresh for each verse
+  useEffect(() => {
+    resetEditor();
+  }, [verse, resetEditor]);
+
+  const applyFormat = useCallback(
+    (action: (typeof FORMAT_ACTIONS)[number]) => {
+      const { start, end } = selection;
+      if (action.lineStart) {
+        const lineStart = content.lastIndexOf("\n", start - 1) + 1;
+        setContent(
+          content.slice(0, lineStart) + action.prefix + content.slice(lineStart)
+        );
+        return;
+      }
+      setContent(
+        content.slice(0, start) +
+          action.prefix +
+          content.slice(start, end) +
+          action.suffix +
+          content.slice(end)
+      );
+    },
+    [content, selection]
+  );
+
+  const handleEdit = useCallback((note: Note) => {
+    setEditingId(note.id);
+    setContent(note.content);
+    setEndVerseText(note.endVerse ? String(note.endVerse) : "");
+  }, []);
+
+  const handleDelete = useCallback(
+    (note: Note) => {
+      Alert.alert("Delete Note", "Are you sure you want to delete this note?", [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => {
+            deleteNote(note.id);
+            if (editingId === note.id) resetEditor();
+          },
+        },
+      ]);
+    },
+    [deleteNote, editingId, resetEditor]
+  );
+
+  const handleSave = useCallback(() => {
+    if (!verse || !content.trim()) return;
+
+    const parsedEnd = parseInt(endVerseText, 10);
+    const endVerse =
+      parsedEnd > verse.verse ? Math.min(parsedEnd, lastVerse) : undefined;
+
+    if (editingId) {
+      updateNote(editingId, { content: content.trim(), endVerse });
+    } else {
+      addNote({
+        bookNumber: verse.book_number,
+        chapter: verse.chapter,
+        verse: verse.verse,
+        endVerse,
+        content: content.trim(),
+      });
+    }
+    resetEditor();
+  }, [
+    verse,
+    content,
+    endVerseText,
+    lastVerse,
+    editingId,
+    addNote,
+    updateNote,
+    resetEditor,
+  ]);
+
+  const handleReferencePress = useCallback(
+    (reference: BibleReference) => {
+      onClose();
+      onReferencePress?.(reference);
+    },
+    [onClose, onReferencePress]
+  );
+
+  if (!verse) return null;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        className="flex-1 justify-center items-center"
+        activeOpacity={1}
+        onPress={onClose}
+        style={{ backgroundColor: colors.background?.default + "CC" }}
+      >
+        <SafeAreaView
+          className="max-h-[90%] shadow shadow-black"
+          style={{
+            backgroundColor: colors.card,
+            borderRadius: 12,
+            width: "92%",
+          }}
+          onStartShouldSetResponder={() => true}
+        >
+          <View
+            className="flex-row items-center justify-between"
+            style={{
+              padding: 16,
+              borderBottomWidth: 1,
+              borderBottomColor: colors.border?.default,
+              backgroundColor: colors.primary,
+              borderTopLeftRadius: 12,
+              borderTopRightRadius: 12,
+            }}
+          >
+            <Text
+              style={{
+                color: primaryTextColor,
+                fontSize: 18,
+                fontWeight: "bold",
+              }}
+            >
+              Notes • {verse.book_name} {verse.chapter}:{verse.verse}
+            </Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={22} color={primaryTextColor} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            contentContainerStyle={{ padding: 16 }}
+            keyboardShouldPersistTaps="handled"
+          >
+            {verseNotes.map((note) => (
+              <View
+                key={note.id}
+                className="rounded-lg p-3 mb-3"
+                style={{
+                  borderWidth: 1,
+                  borderColor:
+                    note.id === editingId
+                      ? colors.primary
+                      : colors.border?.default,
+                }}
+              >
+                <View className="flex-row justify-between items-center mb-2">
+                  <Text className="text-xs" style={{ color: colors.muted }}>
+                    {note.endVerse ? `${formatNoteReference(note)} • ` : ""}
+                    {note.updatedAt.toLocaleDateString()}
+                  </Text>
+                  <View className="flex-row">
+                    <TouchableOpacity
+                      onPress={() => handleEdit(note)}
+                      className="px-2"
+                    >
+                      <Ionicons
+                        name="create-outline"
+                        size={18}
+                        color={colors.primary}
+                      />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => handleDelete(note)}
+                      className="px-2"
+                    >
+                      <Ionicons
+                        name="trash-outline"
+                        size={18}
+                        color={colors.muted}
+                      />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+                <NoteText
+                  content={note.content}
+                  colors={noteColors}
+                  onReferencePress={handleReferencePress}
+                />
+              </View>
+            ))}
+
+            {/* Editor */}
+            <View className="flex-row mb-2">
+              {FORMAT_ACTIONS.map((action) => (
+                <TouchableOpacity
+                  key={action.label}
+                  onPress={() => applyFormat(action)}
+                  className="flex-row items-center rounded-full px-3 py-1 mr-2"
+                  style={{ backgroundColor: colors.primary + "15" }}
+                  accessibilityLabel={action.label}
+                >
+                  <Ionicons
+                    name={action.icon}
+                    size={14}
+                    color={colors.primary}
+                  />
+                  <Text
+                    className="text-xs ml-1"
+                    style={{ color: colors.primary }}
+                  >
+                    {action.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TextInput
+              className="p-3 rounded-lg border text-base mb-3"
+              style={{
+                color: colors.text?.primary,
+                borderColor: colors.border?.default,
+                minHeight: 120,
+                textAlignVertical: "top",
+              }}
+              multiline
+              placeholder="Write a note… select a reference and tap Verse link to link it"
+              placeholderTextColor={colors.muted}
+              value={content}
+              onChangeText={setContent}
+              onSelectionChange={(e) => setSelection(e.nativeEvent.selection)}
+            />
+            <View className="flex-row items-center mb-4">
+              <Text className="text-sm mr-2" style={{ color: colors.muted }}>
+                Through verse
+              </Text>
+              <TextInput
+                className="px-3 py-1 rounded-lg border text-sm"
+                style={{
+                  color: colors.text?.primary,
+                  borderColor: colors.border?.default,
+                  minWidth: 56,
+                }}
+                keyboardType="number-pad"
+                placeholder={String(verse.verse)}
+                placeholderTextColor={colors.muted}
+                value={endVerseText}
+                onChangeText={(text) =>
+                  setEndVerseText(text.replace(/[^0-9]/g, ""))
+                }
+              />
+              <Text className="text-xs ml-2" style={{ color: colors.muted }}>
+                (optional)
+              </Text>
+            </View>
+            <Button
+              title={editingId ? "Update Note" : "Add Note"}
+              onPress={handleSave}
+              disabled={!content.trim()}
+            />
+            {editingId && (
+              <View className="mt-2">
+                <Button
+                  title="Cancel Edit"
+                  variant="outline"
+                  onPress={resetEditor}
+                />
+              </View>
+            )}
+          </ScrollView>
+        </SafeAreaView>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
@@ -0,0 +1,83 @@
+import React, { useMemo } from "react";
+import { Text, View } from "react-native";
+import { BibleReference } from "../types";
+import { parseNoteContent } from "../utils/noteFormatting";
+
+interface NoteTextProps {
+  content: string;
+  colors: any;
+  fontSize?: number;
+  numberOfLines?: number;
+  onReferencePress?: (reference: BibleReference) => void;
+}
+
+// Renders note markup: **bold**, "- " list items and [[verse]] links
+export const NoteText = React.memo(
+  ({
+    content,
+    colors,
+    fontSize = 14,
+    numberOfLines,
+    onReferencePress,
+  }: NoteTextProps) => {
+    const lines = useMemo(() => parseNoteContent(content), [content]);
+    const visibleLines = numberOfLines ? lines.slice(0, numberOfLines) : lines;
+
+    return (
+      <View>
+        {visibleLines.map((line, lineIndex) => (
+          <View key={lineIndex} className="flex-row">
+            {line.isListItem && (
+              <Text
+                style={{ color: colors.muted, fontSize, marginHorizontal: 6 }}
+              >
+                •
+              </Text>
+            )}
+            <Text
+              className="flex-1"
+              style={{
+                color: colors.text,
+                fontSize,
+                lineHeight: fontSize * 1.4,
+              }}
+              numberOfLines={numberOfLines ? 1 : undefined}
+            >
+              {line.segments.map((segment, index) => {
+                if (segment.type === "bold") {
+                  return (
+                    <Text key={index} style={{ fontWeight: "bold" }}>
+                      {segment.text}
+                    </Text>
+                  );
+                }
+                if (segment.type === "link" && segment.reference) {
+                  const reference = segment.reference;
+                  return (
+                    <Text
+                      key={index}
+                      style={{
+                        color: colors.primary,
+                        textDecorationLine: "underline",
+                      }}
+                      onPress={
+                        onReferencePress
+                          ? () => onReferencePress(reference)
+                          : undefined
+                      }
+                    >
+                      {segment.text}
+                    </Text>
+                  );
+                }
+                return segment.text;
+              })}
+              {/* Keep empty lines as vertical space */}
+              {line.segments.length === 0 && " "}
+            </Text>
+          </View>
+        ))}
+      </View>
+    );
+  }
+);
@@ -0,0 +1,138 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Animated, PanResponder, View } from "react-native";
+
+interface ReorderableListProps<T> {
+  items: T[];
+  keyExtractor: (item: T) => string;
+  // Rows must all be rowHeight tall so a drag distance maps to a position
+  renderRow: (
+    item: T,
+    dragHandleProps: object,
+    isDragging: boolean
+  ) => React.ReactNode;
+  rowHeight: number;
+  onReorder: (items: T[]) => void;
+}
+
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  const result = [...items];
+  const [moved] = result.splice(from, 1);
+  result.splice(to, 0, moved);
+  return result;
+};
+
+/**
+ * A list whose rows can be dragged into a new order by the handle that
+ * renderRow spreads dragHandleProps onto. The dragged row follows the
+ * finger and the others make room for it as it passes them.
+ */
+export function ReorderableList<T>({
+  items,
+  keyExtractor,
+  renderRow,
+  rowHeight,
+  onReorder,
+}: ReorderableListProps<T>) {
+  const [order, setOrder] = useState(items);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const dragY = useRef(new Animated.Value(0)).current;
+
+  // Latest values for the pan handlers, which are created once per row
+  const stateRef = useRef({ order, dragIndex, hoverIndex, onReorder });
+  stateRef.current = { order, dragIndex, hoverIndex, onReorder };
+
+  useEffect(() => {
+    setOrder(items);
+  }, [items]);
+
+  const getTargetIndex = (from: number, dy: number) =>
+    Math.max(
+      0,
+      Math.min(
+        stateRef.current.order.length - 1,
+        from + Math.round(dy / rowHeight)
+      )
+    );
+
+  // Responders must survive re-renders during a drag, so keep one per row
+  // position; they read everything else through stateRef
+  const handlersRef = useRef<Record<number, object>>({});
+
+  const createPanHandlers = (index: number) =>
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => {
+        dragY.setValue(0);
+        setDragIndex(index);
+        setHoverIndex(index);
+      },
+      onPanResponderMove: (_, gesture) => {
+        dragY.setValue(gesture.dy);
+        const target = getTargetIndex(index, gesture.dy);
+        if (target !== stateRef.current.hoverIndex) setHoverIndex(target);
+      },
+      onPanResponderRelease: (_, gesture) => {
+        const target = getTargetIndex(index, gesture.dy);
+        setDragIndex(null);
+        setHoverIndex(null);
+        dragY.setValue(0);
+        if (target !== index) {
+          const reordered = moveItem(stateRef.current.order, index, target);
+          setOrder(reordered);
+          stateRef.current.onReorder(reordered);
+        }
+      },
+      onPanResponderTerminate: () => {
+        setDragIndex(null);
+        setHoverIndex(null);
+        dragY.setValue(0);
+      },
+    }).panHandlers;
+
+  // Shift the rows between the dragged row and where it would land
+  const getOffset = (index: number): number => {
+    if (dragIndex === null || hoverIndex === null || index === dragIndex) {
+      return 0;
+    }
+    if (dragIndex < hoverIndex && index > dragIndex && index <= hoverIndex) {
+      return -rowHeight;
+    }
+    if (dragIndex > hoverIndex && index < dragIndex && index >= hoverIndex) {
+      return rowHeight;
+    }
+    return 0;
+  };
+
+  return (
+    <View style={{ height: order.length * rowHeight }}>
+      {order.map((item, index) => {
+        const isDragging = index === dragIndex;
+        return (
+          <Animated.View
+            key={keyExtractor(item)}
+            style={{
+              position: "absolute",
+              left: 0,
+              right: 0,
+              top: index * rowHeight,
+              height: rowHeight,
+              zIndex: isDragging ? 1 : 0,
+              transform: [
+                { translateY: isDragging ? dragY : getOffset(index) },
+              ],
+            }}
+          >
+            {renderRow(
+              item,
+              (handlersRef.current[index] ??= createPanHandlers(index)),
+              isDragging
+            )}
+          </Animated.View>
+        );
+      })}
+    </View>
+  );
+}
@@ -1,9 +1,16 @@
-import { getBookInfo ,BIBLE_BOOKS_MAP } from "../utils/testamentUtils";
+import { Testament } from "../types";
+import {
+  getBookInfo,
+  getTestament,
+  isApocryphaBook,
+  BIBLE_BOOKS_MAP,
+} from "../utils/testamentUtils";
 
 // Updated SearchScope type with refined categories and individual books
 export type SearchScope =
   | "whole"
   | "old-testament"
+  | "apocrypha"
   | "new-testament"
   | "law"
   | "historical"
@@ -16,10 +23,13 @@ export type SearchScope =
   | "vision"
   | `book-${number}`; // Add individual book scope
 
-// Book ranges for each category based on your BIBLE_BOOKS_MAP
+// Book ranges for each category based on your BIBLE_BOOKS_MAP. The
+// Apocrypha is numbered among the Old Testament books, so search with
+// getScopeBookNumbers rather than a range on its own.
 export const SCOPE_RANGES = {
   whole: null,
   "old-testament": { start: 10, end: 460 },
+  apocrypha: { start: 165, end: 790 }, // 1 Esdras to Prayer of Manasseh
   "new-testament": { start: 470, end: 730 },
   law: { start: 10, end: 50 }, // Genesis to Deuteronomy
   historical: { start: 60, end: 190 }, // Joshua to Esther
@@ -32,11 +42,43 @@ export const SCOPE_RANGES = {
   vision: { start: 730, end: 730 }, // Revelation only
 };
 
+// Testament each category scope keeps to within its range
+const SCOPE_TESTAMENTS: Record<string, Testament> = {
+  "Old Testament": "OT",
+  Apocrypha: "AP",
+  "New Testament": "NT",
+};
+
+// Books searched by a category scope; undefined searches every book
+export const getScopeBookNumbers = (
+  scope: Exclude<SearchScope, `book-${number}`>
+): number[] | undefined => {
+  const range = SCOPE_RANGES[scope];
+  if (!range) return undefined;
+  const testament = SCOPE_TESTAMENTS[SCOPE_CONFIG[scope].category];
+  return Object.keys(BIBLE_BOOKS_MAP)
+    .map(Number)
+    .filter(
+      (bookNumber) =>
+        bookNumber >= range.start &&
+        bookNumber <= range.end &&
+        getTestament(bookNumber, "") === testament
+    )
+    .sort((a, b) => a - b);
+};
+
 // Helper function to check if a scope is a book scope
 export const isBookScope = (scope: SearchScope): scope is `book-${number}` => {
   return scope.startsWith("book-");
 };
 
+// Whether a scope searches only deuterocanonical books
+export const isApocryphaScope = (scope: SearchScope): boolean => {
+  if (scope === "apocrypha") return true;
+  const bookNumber = getBookNumberFromScope(scope);
+  return bookNumber !== null && isApocryphaBook(bookNumber);
+};
+
 // Get book number from book scope
 export const getBookNumberFromScope = (scope: SearchScope): number | null => {
   if (isBookScope(scope)) {
@@ -82,6 +124,11 @@ export const SCOPE_CONFIG = {
     description: "Genesis - Malachi",
     category: "Old Testament",
   },
+  apocrypha: {
+    label: "Apocrypha",
+    description: "Tobit, Judith, Wisdom, Sirach, Maccabees and others",
+    category: "Apocrypha",
+  },
   "new-testament": {
     label: "New Testament",
     description: "Matthew - Revelation",
@@ -152,6 +199,7 @@ export const SCOPE_CATEGORIES = {
     "major-prophets",
     "minor-prophets",
   ],
+  Apocrypha: ["apocrypha"],
   "New Testament": [
     "new-testament",
     "gospels",
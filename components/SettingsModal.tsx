@@ -1,7 +1,16 @@
 import React from "react";
-import { Modal, TouchableOpacity, ScrollView, View, Text } from "react-native";
+import {
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  View,
+  Text,
+  Switch,
+} from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
 import { VersionSelector } from "./VersionSelector";
+import { ParallelLayout } from "../hooks/useMultiVersion";
 
 interface SettingsModalProps {
   visible: boolean;
@@ -18,11 +27,30 @@ interface SettingsModalProps {
   currentVersion: string;
   availableBibleVersions: string[]; // Changed from availableVersions
   handleVersionSelect: (version: string) => void;
-  handleSecondaryVersionSelect: (version: string) => void;
-  secondaryVersion: string | null;
+  handleSecondaryVersionSelect: (paneIndex: number, version: string) => void;
+  secondaryVersions: string[]; // one per parallel pane
+  canAddSecondaryVersion: boolean;
+  addSecondaryVersion: () => void;
+  removeSecondaryVersion: (paneIndex: number) => void;
+  parallelLayout: ParallelLayout;
+  setParallelLayout: (layout: ParallelLayout) => void;
+  canShowColumns: boolean; // columns need a landscape or tablet screen
+  showWordDiff: boolean;
+  setShowWordDiff: (show: boolean) => void;
   isSwitchingVersion: boolean;
 }
 
+const LAYOUT_OPTIONS: { value: ParallelLayout; label: string }[] = [
+  { value: "columns", label: "Side by side" },
+  { value: "interleaved", label: "Verse by verse" },
+];
+
+const PANE_TITLES = [
+  "Secondary Bible Version",
+  "Third Bible Version",
+  "Fourth Bible Version",
+];
+
 export const SettingsModal: React.FC<SettingsModalProps> = ({
   visible,
   onClose,
@@ -39,9 +67,73 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
   availableBibleVersions, // Changed from availableVersions
   handleVersionSelect,
   handleSecondaryVersionSelect,
-  secondaryVersion,
+  secondaryVersions,
+  canAddSecondaryVersion,
+  addSecondaryVersion,
+  removeSecondaryVersion,
+  parallelLayout,
+  setParallelLayout,
+  canShowColumns,
+  showWordDiff,
+  setShowWordDiff,
   isSwitchingVersion,
 }) => {
+  const primarySelector = (
+    <VersionSelector
+      currentVersion={currentVersion}
+      availableVersions={availableBibleVersions} // Changed
+      onVersionSelect={handleVersionSelect}
+      title="Primary Bible Version"
+      description="Choose your preferred Bible translation"
+      showCurrentVersion={true}
+      colors={versionSelectorColors}
+      disabled={isSwitchingVersion}
+      loading={isSwitchingVersion}
+    />
+  );
+
+  // Each pane offers the translations no other pane is showing
+  const renderSecondarySelector = (version: string, paneIndex: number) => (
+    <View key={`pane-${paneIndex}`}>
+      <VersionSelector
+        currentVersion={version}
+        selectedVersion={version}
+        availableVersions={availableBibleVersions.filter(
+          (v) =>
+            v !== currentVersion &&
+            (v === version || !secondaryVersions.includes(v))
+        )}
+        onVersionSelect={(v) => handleSecondaryVersionSelect(paneIndex, v)}
+        title={PANE_TITLES[paneIndex]}
+        description="Choose a different translation for comparison"
+        showCurrentVersion={true}
+        colors={versionSelectorColors}
+      />
+      <TouchableOpacity
+        onPress={() => removeSecondaryVersion(paneIndex)}
+        className="flex-row items-center justify-center -mt-2 mb-4"
+      >
+        <Ionicons name="remove-circle-outline" size={16} color={colors.muted} />
+        <Text style={{ color: colors.muted, fontSize: 12, marginLeft: 4 }}>
+          Remove from parallel view
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const addVersionButton = canAddSecondaryVersion && (
+    <TouchableOpacity
+      onPress={addSecondaryVersion}
+      className="flex-row items-center justify-center mx-4 mb-4 py-2 rounded-lg border"
+      style={{ borderColor: colors.primary }}
+    >
+      <Ionicons name="add" size={18} color={colors.primary} />
+      <Text style={{ color: colors.primary, fontWeight: "600", marginLeft: 4 }}>
+        Add Translation
+      </Text>
+    </TouchableOpacity>
+  );
+
   return (
     <Modal
       visible={visible}
@@ -172,7 +264,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                     marginBottom: 8,
                   }}
                 >
-                  Show two Bible versions side by side
+                  Read up to four Bible versions in parallel
                 </Text>
                 <TouchableOpacity
                   onPress={toggleMultiVersion}
@@ -188,70 +280,83 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                   />
                 </TouchableOpacity>
               </View>
+              {showMultiVersion && (
+                <View className="mb-2">
+                  <View className="flex-row flex-wrap">
+                    {LAYOUT_OPTIONS.map((option) => {
+                      const active = parallelLayout === option.value;
+                      return (
+                        <TouchableOpacity
+                          key={option.value}
+                          onPress={() => setParallelLayout(option.value)}
+                          className="rounded-full px-3 py-1 mr-2"
+                          style={{
+                            backgroundColor: active
+                              ? colors.primary
+                              : colors.primary + "15",
+                          }}
+                        >
+                          <Text
+                            className="text-sm"
+                            style={{
+                              color: active ? "#ffffff" : colors.primary,
+                            }}
+                          >
+                            {option.label}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  {!canShowColumns && parallelLayout === "columns" && (
+                    <Text
+                      style={{
+                        color: colors.muted,
+                        fontSize: 12,
+                        marginTop: 4,
+                      }}
+                    >
+                      Columns need a wider screen, so verses are shown one by
+                      one until you turn your device to landscape.
+                    </Text>
+                  )}
+                  <View className="flex-row justify-between items-center mt-2">
+                    <Text style={{ color: colors.text?.primary, flex: 1 }}>
+                      Highlight differences from the primary version: added
+                      words in green, missing in red, changed in amber
+                    </Text>
+                    <Switch
+                      value={showWordDiff}
+                      onValueChange={setShowWordDiff}
+                      thumbColor={showWordDiff ? colors.primary : "#f4f3f4"}
+                      trackColor={{
+                        false: "#D1D5DB",
+                        true: colors.primary + "80",
+                      }}
+                    />
+                  </View>
+                </View>
+              )}
             </View>
 
             {/* Bible Version Selection */}
             {isLandscape && showMultiVersion ? (
-              <View className="flex-row gap-4">
-                <View className="flex-1">
-                  <VersionSelector
-                    currentVersion={currentVersion}
-                    availableVersions={availableBibleVersions} // Changed
-                    onVersionSelect={handleVersionSelect}
-                    title="Primary Bible Version"
-                    description="Choose your preferred Bible translation"
-                    showCurrentVersion={true}
-                    colors={versionSelectorColors}
-                    disabled={isSwitchingVersion}
-                    loading={isSwitchingVersion}
-                  />
-                </View>
-                <View className="flex-1">
-                  <VersionSelector
-                    currentVersion={secondaryVersion || ""}
-                    selectedVersion={secondaryVersion || ""}
-                    availableVersions={availableBibleVersions.filter(
-                      // Changed
-                      (v) => v !== currentVersion
-                    )}
-                    onVersionSelect={handleSecondaryVersionSelect}
-                    title="Secondary Bible Version"
-                    description="Choose a different translation for comparison"
-                    showCurrentVersion={true}
-                    colors={versionSelectorColors}
-                  />
-                </View>
+              <View className="flex-row flex-wrap">
+                <View style={{ width: "50%" }}>{primarySelector}</View>
+                {secondaryVersions.map((version, paneIndex) => (
+                  <View key={`pane-${paneIndex}`} style={{ width: "50%" }}>
+                    {renderSecondarySelector(version, paneIndex)}
+                  </View>
+                ))}
               </View>
             ) : (
               <>
-                <VersionSelector
-                  currentVersion={currentVersion}
-                  availableVersions={availableBibleVersions} // Changed
-                  onVersionSelect={handleVersionSelect}
-                  title="Primary Bible Version"
-                  description="Choose your preferred Bible translation"
-                  showCurrentVersion={true}
-                  colors={versionSelectorColors}
-                  disabled={isSwitchingVersion}
-                  loading={isSwitchingVersion}
-                />
-                {showMultiVersion && (
-                  <VersionSelector
-                    currentVersion={secondaryVersion || ""}
-                    selectedVersion={secondaryVersion || ""}
-                    availableVersions={availableBibleVersions.filter(
-                      // Changed
-                      (v) => v !== currentVersion
-                    )}
-                    onVersionSelect={handleSecondaryVersionSelect}
-                    title="Secondary Bible Version"
-                    description="Choose a different translation for comparison"
-                    showCurrentVersion={true}
-                    colors={versionSelectorColors}
-                  />
-                )}
+                {primarySelector}
+                {showMultiVersion &&
+                  secondaryVersions.map(renderSecondarySelector)}
               </>
             )}
+            {showMultiVersion && addVersionButton}
           </ScrollView>
           <TouchableOpacity
             onPress={onClose}
@@ -0,0 +1,365 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  View,
+  Text,
+  Alert,
+  Image,
+  ImageBackground,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { LinearGradient } from "expo-linear-gradient";
+import * as Sharing from "expo-sharing";
+import { captureRef } from "react-native-view-shot";
+import { Verse } from "../types";
+import { useTheme } from "../context/ThemeContext";
+import { getVersionDisplayName } from "../utils/bibleVersionUtils";
+import { cleanVerseText, formatPassageReference } from "../utils/citation";
+import {
+  DEFAULT_VERSE_CARD_STYLE,
+  VERSE_CARD_BACKGROUNDS,
+  VERSE_CARD_FONTS,
+  VERSE_CARD_TEXT_SIZES,
+  VerseCardAlignment,
+  VerseCardBackground,
+  VerseCardStyle,
+  getSchemeGradientBackground,
+  getVerseCardFont,
+  getVerseCardTextColor,
+} from "../utils/verseCard";
+import { Button } from "./Button";
+
+interface VerseCardModalProps {
+  visible: boolean;
+  onClose: () => void;
+  verses: Verse[];
+  bookName: string;
+  version: string | null; // translation database, for its abbreviation
+  colors: any;
+  primaryTextColor: string;
+}
+
+const ALIGNMENT_OPTIONS: { value: VerseCardAlignment; label: string }[] = [
+  { value: "left", label: "Left" },
+  { value: "center", label: "Center" },
+  { value: "right", label: "Right" },
+];
+
+// Exported images are square, at a size social media keeps sharp
+const EXPORT_SIZE = 1080;
+
+export const VerseCardModal: React.FC<VerseCardModalProps> = ({
+  visible,
+  onClose,
+  verses,
+  bookName,
+  version,
+  colors,
+  primaryTextColor,
+}) => {
+  const { theme, colorScheme } = useTheme();
+  const cardRef = useRef<View>(null);
+  const [cardStyle, setCardStyle] = useState<VerseCardStyle>(
+    DEFAULT_VERSE_CARD_STYLE
+  );
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Open on the gradient of the app's current color scheme
+  useEffect(() => {
+    if (!visible) return;
+    setCardStyle({
+      ...DEFAULT_VERSE_CARD_STYLE,
+      background: getSchemeGradientBackground(colorScheme, theme),
+    });
+  }, [visible, colorScheme, theme]);
+
+  if (verses.length === 0) return null;
+
+  const { background } = cardStyle;
+  const font = getVerseCardFont(cardStyle.fontId);
+  const textColor = getVerseCardTextColor(background);
+  const text = verses.map((verse) => cleanVerseText(verse.text)).join(" ");
+  const reference = version
+    ? `${formatPassageReference(verses, bookName)} (${getVersionDisplayName(version)})`
+    : formatPassageReference(verses, bookName);
+
+  const updateStyle = (changes: Partial<VerseCardStyle>) =>
+    setCardStyle((prev) => ({ ...prev, ...changes }));
+
+  const handleShare = async () => {
+    setIsExporting(true);
+    try {
+      const uri = await captureRef(cardRef, {
+        format: "png",
+        quality: 1,
+        result: "tmpfile",
+        width: EXPORT_SIZE,
+        height: EXPORT_SIZE,
+      });
+      if (!(await Sharing.isAvailableAsync())) {
+        Alert.alert("Sharing Unavailable", "This device cannot share images.");
+        return;
+      }
+      await Sharing.shareAsync(uri, {
+        mimeType: "image/png",
+        dialogTitle: reference,
+        UTI: "public.png",
+      });
+    } catch (error) {
+      console.error("Failed to export verse image:", error);
+      Alert.alert("Error", "Could not create the verse image.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderCardContent = () => (
+    <View className="flex-1 justify-center" style={{ padding: 24 }}>
+      <Text
+        style={{
+          color: textColor,
+          fontSize: cardStyle.textSize,
+          lineHeight: cardStyle.textSize * 1.35,
+          fontFamily: font.fontFamily,
+          textAlign: cardStyle.alignment,
+        }}
+      >
+        {text}
+      </Text>
+      <Text
+        style={{
+          color: textColor,
+          fontSize: Math.max(12, cardStyle.textSize * 0.6),
+          fontFamily: font.fontFamily,
+          fontWeight: "600",
+          textAlign: cardStyle.alignment,
+          marginTop: 16,
+          opacity: 0.9,
+        }}
+      >
+        {reference}
+      </Text>
+    </View>
+  );
+
+  const renderCardBackground = (children: React.ReactNode) => {
+    switch (background.kind) {
+      case "gradient":
+        return (
+          <LinearGradient
+            colors={background.colors}
+            start={{ x: 0, y: 0 }}
+            end={{ x: 1, y: 1 }}
+            style={{ flex: 1 }}
+          >
+            {children}
+          </LinearGradient>
+        );
+      case "photo":
+        return (
+          <ImageBackground
+            source={background.source}
+            resizeMode="cover"
+            style={{ flex: 1 }}
+          >
+            <View style={{ flex: 1, backgroundColor: "rgba(0, 0, 0, 0.45)" }}>
+              {children}
+            </View>
+          </ImageBackground>
+        );
+      case "solid":
+      default:
+        return (
+          <View style={{ flex: 1, backgroundColor: background.color }}>
+            {children}
+          </View>
+        );
+    }
+  };
+
+  const renderSwatch = (option: VerseCardBackground) => {
+    const isSelected = option.id === background.id;
+    const swatchStyle = {
+      width: 40,
+      height: 40,
+      borderRadius: 8,
+      overflow: "hidden" as const,
+      borderWidth: isSelected ? 3 : 1,
+      borderColor: isSelected ? colors.primary : colors.border?.default,
+    };
+    return (
+      <TouchableOpacity
+        key={option.id}
+        onPress={() => updateStyle({ background: option })}
+        className="mr-2"
+        accessibilityLabel={`Background ${option.id}`}
+      >
+        {option.kind === "gradient" ? (
+          <LinearGradient
+            colors={option.colors}
+            start={{ x: 0, y: 0 }}
+            end={{ x: 1, y: 1 }}
+            style={swatchStyle}
+          />
+        ) : option.kind === "photo" ? (
+          <Image source={option.source} style={swatchStyle} />
+        ) : (
+          <View style={[swatchStyle, { backgroundColor: option.color }]} />
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    active: boolean,
+    onPress: () => void,
+    fontFamily?: string
+  ) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      className="rounded-full px-3 py-1 mr-2 mb-2"
+      style={{
+        backgroundColor: active ? colors.primary : colors.primary + "15",
+      }}
+    >
+      <Text
+        className="text-sm"
+        style={{ color: active ? "#ffffff" : colors.primary, fontFamily }}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderSectionTitle = (title: string) => (
+    <Text
+      className="text-sm font-semibold mb-2 mt-3"
+      style={{ color: colors.text?.primary }}
+    >
+      {title}
+    </Text>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        className="flex-1 justify-center items-center"
+        activeOpacity={1}
+        onPress={onClose}
+        style={{ backgroundColor: colors.background?.default + "CC" }}
+      >
+        <SafeAreaView
+          className="max-h-[92%] shadow shadow-black"
+          style={{
+            backgroundColor: colors.card,
+            borderRadius: 12,
+            width: "92%",
+          }}
+          onStartShouldSetResponder={() => true}
+        >
+          <View
+            className="flex-row items-center justify-between"
+            style={{
+              padding: 16,
+              backgroundColor: colors.primary,
+              borderTopLeftRadius: 12,
+              borderTopRightRadius: 12,
+            }}
+          >
+            <Text
+              style={{
+                color: primaryTextColor,
+                fontSize: 18,
+                fontWeight: "bold",
+              }}
+              numberOfLines={1}
+            >
+              Verse Image
+            </Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={22} color={primaryTextColor} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={{ padding: 16 }}>
+            {/* Preview, captured as the exported image */}
+            <View
+              ref={cardRef}
+              collapsable={false}
+              style={{
+                width: "100%",
+                aspectRatio: 1,
+                borderRadius: 8,
+                overflow: "hidden",
+              }}
+            >
+              {renderCardBackground(renderCardContent())}
+            </View>
+
+            {renderSectionTitle("Background")}
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {VERSE_CARD_BACKGROUNDS.map(renderSwatch)}
+            </ScrollView>
+
+            {renderSectionTitle("Font")}
+            <View className="flex-row flex-wrap">
+              {VERSE_CARD_FONTS.map((option) =>
+                renderChip(
+                  option.id,
+                  option.label,
+                  option.id === cardStyle.fontId,
+                  () => updateStyle({ fontId: option.id }),
+                  option.fontFamily
+                )
+              )}
+            </View>
+
+            {renderSectionTitle("Alignment")}
+            <View className="flex-row flex-wrap">
+              {ALIGNMENT_OPTIONS.map((option) =>
+                renderChip(
+                  option.value,
+                  option.label,
+                  option.value === cardStyle.alignment,
+                  () => updateStyle({ alignment: option.value })
+                )
+              )}
+            </View>
+
+            {renderSectionTitle("Text size")}
+            <View className="flex-row flex-wrap">
+              {VERSE_CARD_TEXT_SIZES.map((size) =>
+                renderChip(
+                  `size-${size}`,
+                  `${size}`,
+                  size === cardStyle.textSize,
+                  () => updateStyle({ textSize: size })
+                )
+              )}
+            </View>
+
+            <View className="mt-4">
+              <Button
+                title="Share Image"
+                onPress={handleShare}
+                loading={isExporting}
+                disabled={isExporting}
+              />
+            </View>
+          </ScrollView>
+        </SafeAreaView>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
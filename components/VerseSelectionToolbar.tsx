@@ -0,0 +1,96 @@
+import React from "react";
+import { TouchableOpacity, View, Text } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+interface VerseSelectionToolbarProps {
+  title: string; // the selected verses, e.g. "Romans 8:28-30, 35"
+  passageTitle?: string; // what bookmarks and notes cover, if more than title
+  onCopy: () => void;
+  onShare: () => void;
+  onImage: () => void;
+  onBookmark: () => void;
+  onHighlight: () => void;
+  onNote: () => void;
+  onCompare: () => void;
+  onClose: () => void;
+  colors: any;
+  primaryTextColor: string;
+}
+
+/**
+ * Actions for the verses selected in the reader. Shown at the bottom of
+ * the screen, in place of the chapter navigation, while a selection exists.
+ */
+export const VerseSelectionToolbar: React.FC<VerseSelectionToolbarProps> = ({
+  title,
+  passageTitle,
+  onCopy,
+  onShare,
+  onImage,
+  onBookmark,
+  onHighlight,
+  onNote,
+  onCompare,
+  onClose,
+  colors,
+  primaryTextColor,
+}) => {
+  const actions: {
+    label: string;
+    icon: keyof typeof Ionicons.glyphMap;
+    onPress: () => void;
+  }[] = [
+    { label: "Copy", icon: "copy-outline", onPress: onCopy },
+    { label: "Share", icon: "share-outline", onPress: onShare },
+    { label: "Image", icon: "image-outline", onPress: onImage },
+    { label: "Bookmark", icon: "bookmark-outline", onPress: onBookmark },
+    { label: "Highlight", icon: "color-fill-outline", onPress: onHighlight },
+    { label: "Note", icon: "create-outline", onPress: onNote },
+    { label: "Compare", icon: "git-compare-outline", onPress: onCompare },
+  ];
+
+  return (
+    <View
+      className="absolute left-3 right-3 rounded-xl px-3 pt-3 pb-2 z-50 shadow shadow-black"
+      style={{ bottom: 34, backgroundColor: colors.primary }}
+    >
+      <View className="flex-row items-center justify-between mb-1 px-1">
+        <Text
+          className="flex-1"
+          style={{ color: primaryTextColor, fontWeight: "bold" }}
+          numberOfLines={1}
+        >
+          {title}
+        </Text>
+        <TouchableOpacity onPress={onClose} hitSlop={8}>
+          <Ionicons name="close" size={20} color={primaryTextColor} />
+        </TouchableOpacity>
+      </View>
+      <Text
+        className="px-1 mb-2"
+        style={{ color: primaryTextColor, fontSize: 11, opacity: 0.8 }}
+      >
+        {passageTitle
+          ? `Bookmarks and notes cover the whole passage, ${passageTitle}.`
+          : "Tap verses, or drag along their numbers, to change the selection."}
+      </Text>
+      <View className="flex-row justify-between">
+        {actions.map((action) => (
+          <TouchableOpacity
+            key={action.label}
+            onPress={action.onPress}
+            className="items-center flex-1 py-1"
+            accessibilityLabel={action.label}
+          >
+            <Ionicons name={action.icon} size={20} color={primaryTextColor} />
+            <Text
+              style={{ color: primaryTextColor, fontSize: 11, marginTop: 2 }}
+            >
+              {action.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+};
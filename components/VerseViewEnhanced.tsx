@@ -28,6 +28,7 @@ interface VerseViewProps {
   highlight?: string; // verse number to highlight
   compact?: boolean; // compact mode for search results
   bookColor?: string;
+  title?: string; // header text in place of the verse reference
 }
 
 // Primary colors for each scheme and theme
@@ -523,6 +524,7 @@ export const VerseViewEnhanced: React.FC<VerseViewProps> = React.memo(
     style = {},
     highlight = undefined,
     compact = false,
+    title,
   }) => {
     const { theme, colorScheme, fontFamily } = useTheme();
     const defaultColors = getThemeColors(theme, colorScheme);
@@ -627,7 +629,7 @@ export const VerseViewEnhanced: React.FC<VerseViewProps> = React.memo(
                 }}
                 numberOfLines={2}
               >
-                {bookName} {chapterNumber}:{verseRangeText}
+                {title ?? `${bookName} ${chapterNumber}:${verseRangeText}`}
               </Text>
             </View>
 
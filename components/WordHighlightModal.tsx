@@ -0,0 +1,281 @@
+import React, { useState, useEffect, useMemo } from "react";
+import { Modal, TouchableOpacity, ScrollView, View, Text } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { Verse, WordHighlight } from "../types";
+import { useHighlights } from "../context/HighlightsContext";
+import { getVerseWords, getWordSpan } from "../utils/wordHighlights";
+import { Button } from "./Button";
+
+interface WordHighlightModalProps {
+  visible: boolean;
+  onClose: () => void;
+  verse: Verse | null;
+  version: string | null; // translation the verse text comes from
+  colors: any;
+  primaryTextColor: string;
+}
+
+interface WordRange {
+  start: number;
+  end: number;
+}
+
+const STYLE_OPTIONS: { value: WordHighlight["style"]; label: string }[] = [
+  { value: "highlight", label: "Highlight" },
+  { value: "underline", label: "Underline" },
+];
+
+export const WordHighlightModal: React.FC<WordHighlightModalProps> = ({
+  visible,
+  onClose,
+  verse,
+  version,
+  colors,
+  primaryTextColor,
+}) => {
+  const {
+    palette,
+    addWordHighlight,
+    removeWordHighlight,
+    getVerseWordHighlights,
+    getChapterWordHighlights,
+  } = useHighlights();
+  const [range, setRange] = useState<WordRange | null>(null);
+  const [anchor, setAnchor] = useState<number | null>(null);
+  const [style, setStyle] = useState<WordHighlight["style"]>("highlight");
+  const [colorId, setColorId] = useState(palette[0]?.id);
+
+  const words = useMemo(() => getVerseWords(verse?.text || ""), [verse]);
+
+  // Start fresh for each verse
+  useEffect(() => {
+    setRange(null);
+    setAnchor(null);
+  }, [verse]);
+
+  if (!verse || !version) return null;
+
+  const existing = getVerseWordHighlights(
+    verse.book_number,
+    verse.chapter,
+    verse.verse,
+    version
+  );
+  const existingSpans =
+    getChapterWordHighlights(verse.book_number, verse.chapter, version).get(
+      verse.verse
+    ) || [];
+
+  // First tap picks a word, second tap extends to a range, third starts over
+  const handleWordPress = (index: number) => {
+    if (anchor === null) {
+      setAnchor(index);
+      setRange({ start: index, end: index });
+    } else {
+      setRange({
+        start: Math.min(anchor, index),
+        end: Math.max(anchor, index),
+      });
+      setAnchor(null);
+    }
+  };
+
+  const handleSave = () => {
+    if (!range || !colorId) return;
+    addWordHighlight({
+      bookNumber: verse.book_number,
+      chapter: verse.chapter,
+      verse: verse.verse,
+      version,
+      startWord: range.start,
+      endWord: range.end,
+      style,
+      colorId,
+    });
+    setRange(null);
+    setAnchor(null);
+  };
+
+  const isSelected = (index: number) =>
+    range !== null && index >= range.start && index <= range.end;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        className="flex-1 justify-center items-center"
+        activeOpacity={1}
+        onPress={onClose}
+        style={{ backgroundColor: colors.background?.default + "CC" }}
+      >
+        <SafeAreaView
+          className="max-h-[90%] shadow shadow-black"
+          style={{
+            backgroundColor: colors.card,
+            borderRadius: 12,
+            width: "92%",
+          }}
+          onStartShouldSetResponder={() => true}
+        >
+          <View
+            className="flex-row items-center justify-between"
+            style={{
+              padding: 16,
+              backgroundColor: colors.primary,
+              borderTopLeftRadius: 12,
+              borderTopRightRadius: 12,
+            }}
+          >
+            <Text
+              style={{
+                color: primaryTextColor,
+                fontSize: 18,
+                fontWeight: "bold",
+              }}
+            >
+              Mark Words • {verse.book_name} {verse.chapter}:{verse.verse}
+            </Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={22} color={primaryTextColor} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={{ padding: 16 }}>
+            <Text className="text-xs mb-2" style={{ color: colors.muted }}>
+              Tap the first and last word to select them
+            </Text>
+            <View className="flex-row flex-wrap mb-4">
+              {words.map((word, index) => {
+                const span = getWordSpan(existingSpans, index);
+                return (
+                  <Text
+                    key={index}
+                    onPress={() => handleWordPress(index)}
+                    style={{
+                      fontSize: 16,
+                      lineHeight: 26,
+                      paddingHorizontal: 3,
+                      borderRadius: 4,
+                      color: colors.text?.primary,
+                      backgroundColor: isSelected(index)
+                        ? colors.primary + "40"
+                        : span?.style === "highlight"
+                          ? span.color + "55"
+                          : "transparent",
+                      textDecorationLine:
+                        span?.style === "underline" ? "underline" : "none",
+                      textDecorationColor: span?.color,
+                    }}
+                  >
+                    {word}
+                  </Text>
+                );
+              })}
+            </View>
+
+            <View className="flex-row mb-2">
+              {STYLE_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  onPress={() => setStyle(option.value)}
+                  className="rounded-full px-3 py-1 mr-2"
+                  style={{
+                    backgroundColor:
+                      style === option.value
+                        ? colors.primary
+                        : colors.primary + "15",
+                  }}
+                >
+                  <Text
+                    className="text-sm"
+                    style={{
+                      color:
+                        style === option.value
+                          ? primaryTextColor
+                          : colors.primary,
+                    }}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View className="flex-row flex-wrap mb-4">
+              {palette.map((entry) => (
+                <TouchableOpacity
+                  key={entry.id}
+                  onPress={() => setColorId(entry.id)}
+                  className="w-8 h-8 rounded-full mr-2 mb-2 items-center justify-center"
+                  style={{ backgroundColor: entry.color }}
+                  accessibilityLabel={entry.label}
+                >
+                  {colorId === entry.id && (
+                    <Ionicons name="checkmark" size={18} color="#000000" />
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Button
+              title={
+                style === "underline" ? "Underline Words" : "Highlight Words"
+              }
+              onPress={handleSave}
+              disabled={!range}
+            />
+
+            {existing.length > 0 && (
+              <View className="mt-4">
+                {existing.map((highlight) => (
+                  <View
+                    key={highlight.id}
+                    className="flex-row items-center py-2"
+                    style={{
+                      borderTopWidth: 1,
+                      borderTopColor: colors.border?.default,
+                    }}
+                  >
+                    <View
+                      className="w-3 h-3 rounded-full mr-2"
+                      style={{
+                        backgroundColor:
+                          palette.find((e) => e.id === highlight.colorId)
+                            ?.color || palette[0]?.color,
+                      }}
+                    />
+                    <Text
+                      className="flex-1 text-sm"
+                      style={{ color: colors.text?.primary }}
+                      numberOfLines={1}
+                    >
+                      “
+                      {words
+                        .slice(highlight.startWord, highlight.endWord + 1)
+                        .join(" ")}
+                      ”
+                    </Text>
+                    <TouchableOpacity
+                      onPress={() => removeWordHighlight(highlight.id)}
+                      hitSlop={8}
+                    >
+                      <Ionicons
+                        name="trash-outline"
+                        size={16}
+                        color={colors.muted}
+                      />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+            )}
+          </ScrollView>
+        </SafeAreaView>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
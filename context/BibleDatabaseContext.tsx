@@ -8,7 +8,15 @@ import React, {
 } from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { BibleDatabase } from "../services/BibleDatabase";
-import { Verse, SearchOptions } from "../types";
+import {
+  Verse,
+  SearchOptions,
+  SearchPage,
+  SearchMatchCounts,
+  SearchResult,
+  CrossVersionSearchResults,
+} from "../types";
+import { mergeResultsByReference } from "../utils/searchUtils";
 
 interface BibleDatabaseContextType {
   bibleDB: BibleDatabase | null;
@@ -21,6 +29,19 @@ interface BibleDatabaseContextType {
   initializationError: string | null;
   refreshDatabase: () => Promise<void>;
   searchVerses: (query: string, options?: SearchOptions) => Promise<Verse[]>;
+  searchVersesPage: (
+    query: string,
+    options?: SearchOptions
+  ) => Promise<SearchPage>;
+  countMatches: (
+    query: string,
+    options?: SearchOptions
+  ) => Promise<SearchMatchCounts>;
+  searchAcrossVersions: (
+    query: string,
+    versions: string[],
+    options?: SearchOptions
+  ) => Promise<CrossVersionSearchResults>;
   getDatabase: (version: string) => Promise<BibleDatabase | undefined>;
   retryInitialization: () => Promise<void>;
   preloadCurrentCommentary: () => Promise<void>;
@@ -330,6 +351,26 @@ export const BibleDatabaseProvider: React.FC<BibleDatabaseProviderProps> = ({
     [bibleDB]
   );
 
+  const searchVersesPage = useCallback(
+    async (query: string, options?: SearchOptions) => {
+      if (!bibleDB) {
+        throw new Error("Bible database not available");
+      }
+      return await bibleDB.searchVersesPage(query, options);
+    },
+    [bibleDB]
+  );
+
+  const countMatches = useCallback(
+    async (query: string, options?: SearchOptions) => {
+      if (!bibleDB) {
+        throw new Error("Bible database not available");
+      }
+      return await bibleDB.countMatches(query, options);
+    },
+    [bibleDB]
+  );
+
   const getDatabase = useCallback(
     async (version: string): Promise<BibleDatabase | undefined> => {
       if (openDatabases.current.has(version)) {
@@ -359,6 +400,98 @@ export const BibleDatabaseProvider: React.FC<BibleDatabaseProviderProps> = ({
     [initializeDatabase, preloadCurrentCommentary]
   );
 
+  // Run the same query against several versions in parallel. A limit
+  // applies to each version's own ranking, so every merged reference is then
+  // checked against the versions that did not return it; otherwise a verse
+  // ranked lower in one version would show as not matching there. Versions
+  // that fail to open or search are reported in failedVersions instead of
+  // failing the whole search.
+  const searchAcrossVersions = useCallback(
+    async (
+      query: string,
+      versions: string[],
+      options?: SearchOptions
+    ): Promise<CrossVersionSearchResults> => {
+      const openVersion = async (version: string) => {
+        const db =
+          version === currentVersion && bibleDB
+            ? bibleDB
+            : await getDatabase(version);
+        if (!db) {
+          throw new Error(`Database not available: ${version}`);
+        }
+        return db;
+      };
+
+      const outcomes = await Promise.allSettled(
+        versions.map(async (version) => {
+          const db = await openVersion(version);
+          return await db.searchVerses(query, options);
+        })
+      );
+
+      const byVersion: Record<string, SearchResult[]> = {};
+      const failedVersions: string[] = [];
+
+      outcomes.forEach((outcome, index) => {
+        const version = versions[index];
+        if (outcome.status === "fulfilled") {
+          byVersion[version] = outcome.value;
+        } else {
+          console.warn(`Search failed for ${version}:`, outcome.reason);
+          failedVersions.push(version);
+        }
+      });
+
+      const references = mergeResultsByReference(byVersion, versions);
+      const searchedVersions = Object.keys(byVersion);
+      const checks = await Promise.allSettled(
+        searchedVersions.map(async (version) => {
+          const found = new Set(
+            byVersion[version].map(
+              (r) => `${r.book_number}:${r.chapter}:${r.verse}`
+            )
+          );
+          const missing = references.filter(
+            (r) => !found.has(`${r.book_number}:${r.chapter}:${r.verse}`)
+          );
+          if (missing.length === 0) return;
+
+          const db = await openVersion(version);
+          const extra = await db.searchVerses(query, {
+            ...options,
+            limit: undefined,
+            offset: undefined,
+            cursor: undefined,
+            references: missing.map(({ book_number, chapter, verse }) => ({
+              book_number,
+              chapter,
+              verse,
+            })),
+          });
+          byVersion[version] = [...byVersion[version], ...extra];
+        })
+      );
+
+      // Without the check a version's markers can't be trusted
+      checks.forEach((check, index) => {
+        if (check.status === "rejected") {
+          const version = searchedVersions[index];
+          console.warn(`Search failed for ${version}:`, check.reason);
+          delete byVersion[version];
+          failedVersions.push(version);
+        }
+      });
+
+      return {
+        byReference: mergeResultsByReference(byVersion, versions),
+        byVersion,
+        failedVersions,
+      };
+    },
+    [bibleDB, currentVersion, getDatabase]
+  );
+
   const recoverDatabaseConnection = useCallback(async () => {
     console.log("Attempting to recover database connection...");
 
@@ -388,6 +521,9 @@ export const BibleDatabaseProvider: React.FC<BibleDatabaseProviderProps> = ({
     initializationError,
     refreshDatabase,
     searchVerses,
+    searchVersesPage,
+    countMatches,
+    searchAcrossVersions,
     getDatabase,
     retryInitialization,
     preloadCurrentCommentary: preloadCurrentCommentaryPublic,
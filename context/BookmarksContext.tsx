@@ -3,65 +3,357 @@ import React, {
   createContext,
   useState,
   useEffect,
+  useMemo,
   ReactNode,
   useCallback,
 } from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import { Verse } from "../types";
+import { BookmarkFolder, Verse } from "../types";
+import { migrateToKjvReference } from "../utils/versification";
 
-interface Bookmark extends Verse {
+export interface Bookmark extends Verse {
   id: string;
   title?: string;
   note?: string;
   createdAt: string;
   color?: string;
+  folderId: string | null; // BookmarkFolder id, null when not filed
+  tags: string[];
+  order: number; // position within its folder, for the custom sort
+  lastVisitedAt?: string;
+  endVerse?: number; // last verse of a range bookmark, inclusive
+  wholeChapter?: boolean; // covers the chapter, whatever its verse count
+}
+
+// A verse, a run of verses from one chapter, or a whole chapter to bookmark
+export interface ImportedBookmark {
+  verses: Verse[];
+  wholeChapter?: boolean;
+  note?: string;
 }
 
 interface BookmarksContextType {
   bookmarks: Bookmark[];
-  addBookmark: (verse: Verse) => void;
+  folders: BookmarkFolder[];
+  allTags: string[];
+  addBookmark: (verse: Verse) => boolean;
+  addPassageBookmark: (verses: Verse[]) => boolean;
+  addChapterBookmark: (verses: Verse[]) => boolean;
   removeBookmark: (id: string) => void;
   updateBookmark: (id: string, updates: Partial<Bookmark>) => void;
   isBookmarked: (verse: Verse) => boolean;
   getBookmarkId: (verse: Verse) => string;
   loadBookmarks: () => Promise<void>;
+  restoreBookmarks: (
+    bookmarks: Bookmark[],
+    folders: BookmarkFolder[]
+  ) => Promise<void>;
+  importBookmarks: (entries: ImportedBookmark[]) => number;
+  createFolder: (name: string) => BookmarkFolder;
+  renameFolder: (id: string, name: string) => void;
+  deleteFolder: (id: string) => void;
+  organizeBookmark: (
+    id: string,
+    changes: { folderId?: string | null; tags?: string[] }
+  ) => void;
+  reorderBookmarks: (orderedIds: string[]) => void;
+  markBookmarkVisited: (id: string) => void;
 }
 
 export const BookmarksContext = createContext<BookmarksContextType>({
   bookmarks: [],
-  addBookmark: () => {},
+  folders: [],
+  allTags: [],
+  addBookmark: () => false,
+  addPassageBookmark: () => false,
+  addChapterBookmark: () => false,
   removeBookmark: () => {},
   updateBookmark: () => {},
   isBookmarked: () => false,
   getBookmarkId: () => "",
   loadBookmarks: async () => {},
+  restoreBookmarks: async () => {},
+  importBookmarks: () => 0,
+  createFolder: () => ({ id: "", name: "", createdAt: "" }),
+  renameFolder: () => {},
+  deleteFolder: () => {},
+  organizeBookmark: () => {},
+  reorderBookmarks: () => {},
+  markBookmarkVisited: () => {},
 });
 
+const FOLDERS_STORAGE_KEY = "@bible_app_bookmark_folders";
+const BOOKMARK_COLOR = "#3B82F6";
+
+// Bookmarks saved before references were kept in KJV numbering, renumbered;
+// the same bookmark when nothing changes
+const migrateBookmarkReference = (bookmark: Bookmark): Bookmark => {
+  if (bookmark.wholeChapter) return bookmark;
+  const endVerse = getBookmarkEndVerse(bookmark);
+  const start = migrateToKjvReference({
+    book: bookmark.book_number,
+    chapter: bookmark.chapter,
+    verse: bookmark.verse,
+  });
+  const end = migrateToKjvReference({
+    book: bookmark.book_number,
+    chapter: bookmark.chapter,
+    verse: endVerse,
+  });
+  if (
+    start.book === bookmark.book_number &&
+    start.chapter === bookmark.chapter &&
+    start.verse === bookmark.verse &&
+    end.verse === endVerse
+  ) {
+    return bookmark;
+  }
+
+  const migratedEnd = end.verse > start.verse ? end.verse : undefined;
+  return {
+    ...bookmark,
+    id: buildBookmarkId(start.book, start.chapter, start.verse, migratedEnd),
+    book_number: start.book,
+    chapter: start.chapter,
+    verse: start.verse,
+    endVerse: migratedEnd,
+  };
+};
+
+/**
+ * Bookmarks saved before folders and tags existed have neither; file them
+ * nowhere and number them oldest first so the custom order starts out
+ * matching the order they were created in. References are renumbered to
+ * KJV, dropping any that then duplicate another bookmark.
+ */
+const migrateBookmarks = (stored: any[]): Bookmark[] => {
+  const byAge = [...stored].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+  const ids = new Set<string>();
+  return stored
+    .map((bookmark) =>
+      migrateBookmarkReference({
+        ...bookmark,
+        folderId: bookmark.folderId ?? null,
+        tags: Array.isArray(bookmark.tags) ? bookmark.tags : [],
+        order:
+          typeof bookmark.order === "number"
+            ? bookmark.order
+            : byAge.indexOf(bookmark),
+      })
+    )
+    .filter((bookmark) => {
+      if (ids.has(bookmark.id)) return false;
+      ids.add(bookmark.id);
+      return true;
+    });
+};
+
+const needsMigration = (stored: any[]): boolean =>
+  stored.some(
+    (bookmark) =>
+      !Array.isArray(bookmark.tags) ||
+      typeof bookmark.order !== "number" ||
+      migrateBookmarkReference(bookmark) !== bookmark
+  );
+
+/**
+ * Single verses keep their original "book-chapter-verse" id; ranges add
+ * their last verse and whole chapters drop the verse altogether.
+ */
+const buildBookmarkId = (
+  bookNumber: number,
+  chapter: number,
+  verse?: number,
+  endVerse?: number
+): string => {
+  if (verse === undefined) return `${bookNumber}-${chapter}`;
+  return endVerse !== undefined && endVerse > verse
+    ? `${bookNumber}-${chapter}-${verse}-${endVerse}`
+    : `${bookNumber}-${chapter}-${verse}`;
+};
+
+export const getBookmarkEndVerse = (bookmark: Bookmark): number =>
+  bookmark.endVerse ?? bookmark.verse;
+
+export const isPassageBookmark = (bookmark: Bookmark): boolean =>
+  !!bookmark.wholeChapter || getBookmarkEndVerse(bookmark) > bookmark.verse;
+
+// Whether a bookmark includes the given verse
+export const bookmarkCoversVerse = (
+  bookmark: Bookmark,
+  bookNumber: number,
+  chapter: number,
+  verse: number
+): boolean =>
+  bookmark.book_number === bookNumber &&
+  bookmark.chapter === chapter &&
+  (!!bookmark.wholeChapter ||
+    (verse >= bookmark.verse && verse <= getBookmarkEndVerse(bookmark)));
+
+// Whether a bookmark includes every verse of another one
+const bookmarkCoversBookmark = (outer: Bookmark, inner: Bookmark): boolean =>
+  outer.id !== inner.id &&
+  bookmarkCoversVerse(outer, inner.book_number, inner.chapter, inner.verse) &&
+  (outer.wholeChapter ||
+    (!inner.wholeChapter &&
+      getBookmarkEndVerse(inner) <= getBookmarkEndVerse(outer)));
+
+// "Romans 8", "Romans 8:28-39" or "Romans 8:28"
+export const formatBookmarkReference = (
+  bookmark: Bookmark,
+  bookName: string
+): string => {
+  if (bookmark.wholeChapter) return `${bookName} ${bookmark.chapter}`;
+  const endVerse = getBookmarkEndVerse(bookmark);
+  return endVerse > bookmark.verse
+    ? `${bookName} ${bookmark.chapter}:${bookmark.verse}-${endVerse}`
+    : `${bookName} ${bookmark.chapter}:${bookmark.verse}`;
+};
+
+const getBookmarkTitle = (text: string): string =>
+  text.slice(0, 50) + (text.length > 50 ? "..." : "");
+
+// Next position at the end of a folder
+const getNextOrder = (bookmarks: Bookmark[], folderId: string | null) =>
+  bookmarks.reduce(
+    (max, bookmark) =>
+      bookmark.folderId === folderId ? Math.max(max, bookmark.order + 1) : max,
+    0
+  );
+
+// Tags are compared without case or a leading "#"
+const normalizeTags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  return tags
+    .map((tag) => tag.trim().replace(/^#+/, ""))
+    .filter((tag) => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+// A bookmark for a run of verses from one chapter, or the whole chapter.
+// Its folder and position are settled by addCoveringBookmarkTo.
+const createCoveringBookmark = (
+  verses: Verse[],
+  wholeChapter: boolean
+): Bookmark => {
+  const sorted = [...verses].sort((a, b) => a.verse - b.verse);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+
+  return {
+    ...first,
+    text: sorted.map((verse) => verse.text).join(" "),
+    id: wholeChapter
+      ? buildBookmarkId(first.book_number, first.chapter)
+      : buildBookmarkId(
+          first.book_number,
+          first.chapter,
+          first.verse,
+          last.verse
+        ),
+    title: getBookmarkTitle(first.text),
+    createdAt: new Date().toISOString(),
+    color: BOOKMARK_COLOR,
+    folderId: null,
+    tags: [],
+    order: 0,
+    ...((wholeChapter || last.verse > first.verse) && {
+      endVerse: last.verse,
+    }),
+    ...(wholeChapter && { wholeChapter }),
+  };
+};
+
+/**
+ * The bookmarks with a new one added, or null when an existing bookmark
+ * already covers it. Bookmarks it covers are folded into the new one,
+ * which keeps their folder, tags and notes.
+ */
+const addCoveringBookmarkTo = (
+  bookmarks: Bookmark[],
+  bookmark: Bookmark
+): Bookmark[] | null => {
+  if (
+    bookmarks.some(
+      (existing) =>
+        existing.id === bookmark.id ||
+        bookmarkCoversBookmark(existing, bookmark)
+    )
+  ) {
+    return null;
+  }
+
+  const absorbed = bookmarks.filter((existing) =>
+    bookmarkCoversBookmark(bookmark, existing)
+  );
+  const kept = bookmarks.filter((existing) => !absorbed.includes(existing));
+  const filed = absorbed.find((existing) => existing.folderId !== null);
+  const notes = [bookmark, ...absorbed]
+    .map((existing) => existing.note?.trim())
+    .filter(Boolean);
+  const folderId = filed?.folderId ?? null;
+
+  return [
+    ...kept,
+    {
+      ...bookmark,
+      folderId,
+      order: filed ? filed.order : getNextOrder(kept, folderId),
+      tags: normalizeTags(
+        [bookmark, ...absorbed].flatMap((existing) => existing.tags)
+      ),
+      ...(notes.length > 0 && { note: notes.join("\n\n") }),
+    },
+  ];
+};
+
 export const BookmarksProvider = ({ children }: { children: ReactNode }) => {
   const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const [folders, setFolders] = useState<BookmarkFolder[]>([]);
   const STORAGE_KEY = "@bible_app_bookmarks";
 
   // Generate consistent bookmark ID
   const getBookmarkId = useCallback((verse: Verse): string => {
-    return `${verse.book_number}-${verse.chapter}-${verse.verse}`;
+    return buildBookmarkId(verse.book_number, verse.chapter, verse.verse);
   }, []);
 
-  // Check if verse is bookmarked
+  // Check if verse is bookmarked, on its own or as part of a passage
   const isBookmarked = useCallback(
-    (verse: Verse): boolean => {
-      const id = getBookmarkId(verse);
-      return bookmarks.some((bookmark) => bookmark.id === id);
-    },
-    [bookmarks, getBookmarkId]
+    (verse: Verse): boolean =>
+      bookmarks.some((bookmark) =>
+        bookmarkCoversVerse(
+          bookmark,
+          verse.book_number,
+          verse.chapter,
+          verse.verse
+        )
+      ),
+    [bookmarks]
   );
 
   // Load bookmarks from storage
   const loadBookmarks = useCallback(async (): Promise<void> => {
     try {
-      const json = await AsyncStorage.getItem(STORAGE_KEY);
+      const [json, foldersJson] = await Promise.all([
+        AsyncStorage.getItem(STORAGE_KEY),
+        AsyncStorage.getItem(FOLDERS_STORAGE_KEY),
+      ]);
       if (json) {
         const storedBookmarks = JSON.parse(json);
-        setBookmarks(storedBookmarks);
+        const migrated = migrateBookmarks(storedBookmarks);
+        setBookmarks(migrated);
+        if (needsMigration(storedBookmarks)) {
+          await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(migrated));
+        }
+      }
+      if (foldersJson) {
+        setFolders(JSON.parse(foldersJson));
       }
     } catch (err) {
       console.error("Failed to load bookmarks:", err);
@@ -82,25 +374,75 @@ export const BookmarksProvider = ({ children }: { children: ReactNode }) => {
     []
   );
 
-  // Add a new bookmark
+  // Save folders to storage
+  const saveFolders = useCallback(
+    async (newFolders: BookmarkFolder[]): Promise<void> => {
+      try {
+        setFolders(newFolders);
+        await AsyncStorage.setItem(
+          FOLDERS_STORAGE_KEY,
+          JSON.stringify(newFolders)
+        );
+      } catch (err) {
+        console.error("Failed to save bookmark folders:", err);
+        throw err;
+      }
+    },
+    []
+  );
+
+  // Add a new bookmark. Returns false when the verse is already bookmarked.
   const addBookmark = useCallback(
-    (verse: Verse): void => {
+    (verse: Verse): boolean => {
       const exists = isBookmarked(verse);
-      if (exists) return;
+      if (exists) return false;
 
       const newBookmark: Bookmark = {
         ...verse,
         id: getBookmarkId(verse),
-        title: verse.text.slice(0, 50) + (verse.text.length > 50 ? "..." : ""),
+        title: getBookmarkTitle(verse.text),
         createdAt: new Date().toISOString(),
-        color: "#3B82F6", // Changed to a more pleasant blue
+        color: BOOKMARK_COLOR,
+        folderId: null,
+        tags: [],
+        order: getNextOrder(bookmarks, null),
       };
 
       saveBookmarks([...bookmarks, newBookmark]);
+      return true;
     },
     [bookmarks, getBookmarkId, isBookmarked, saveBookmarks]
   );
 
+  /**
+   * Bookmark a run of verses from one chapter, or the whole chapter.
+   * Nothing is added when an existing bookmark already covers it.
+   */
+  const addCoveringBookmark = useCallback(
+    (verses: Verse[], wholeChapter: boolean): boolean => {
+      if (verses.length === 0) return false;
+      const updated = addCoveringBookmarkTo(
+        bookmarks,
+        createCoveringBookmark(verses, wholeChapter)
+      );
+      if (!updated) return false;
+
+      saveBookmarks(updated);
+      return true;
+    },
+    [bookmarks, saveBookmarks]
+  );
+
+  const addPassageBookmark = useCallback(
+    (verses: Verse[]): boolean => addCoveringBookmark(verses, false),
+    [addCoveringBookmark]
+  );
+
+  const addChapterBookmark = useCallback(
+    (verses: Verse[]): boolean => addCoveringBookmark(verses, true),
+    [addCoveringBookmark]
+  );
+
   // Remove a bookmark
   const removeBookmark = useCallback(
     (id: string): void => {
@@ -121,6 +463,142 @@ export const BookmarksProvider = ({ children }: { children: ReactNode }) => {
     [bookmarks, saveBookmarks]
   );
 
+  // Replace all bookmarks and folders, e.g. when restoring a backup
+  const restoreBookmarks = useCallback(
+    async (
+      restored: Bookmark[],
+      restoredFolders: BookmarkFolder[]
+    ): Promise<void> => {
+      await saveFolders(restoredFolders);
+      await saveBookmarks(migrateBookmarks(restored));
+    },
+    [saveBookmarks, saveFolders]
+  );
+
+  // Add bookmarks from another app in one save, skipping any an existing
+  // bookmark already covers. Returns how many were added.
+  const importBookmarks = useCallback(
+    (entries: ImportedBookmark[]): number => {
+      let updated = bookmarks;
+      let added = 0;
+
+      entries.forEach(({ verses, wholeChapter = false, note }) => {
+        if (verses.length === 0) return;
+        const next = addCoveringBookmarkTo(updated, {
+          ...createCoveringBookmark(verses, wholeChapter),
+          ...(note && { note }),
+        });
+        if (!next) return;
+        updated = next;
+        added++;
+      });
+
+      if (added > 0) saveBookmarks(updated);
+      return added;
+    },
+    [bookmarks, saveBookmarks]
+  );
+
+  const createFolder = useCallback(
+    (name: string): BookmarkFolder => {
+      const folder: BookmarkFolder = {
+        id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6),
+        name: name.trim(),
+        createdAt: new Date().toISOString(),
+      };
+      saveFolders([...folders, folder]);
+      return folder;
+    },
+    [folders, saveFolders]
+  );
+
+  const renameFolder = useCallback(
+    (id: string, name: string): void => {
+      saveFolders(
+        folders.map((folder) =>
+          folder.id === id ? { ...folder, name: name.trim() } : folder
+        )
+      );
+    },
+    [folders, saveFolders]
+  );
+
+  // Delete a folder; its bookmarks move to the end of the unfiled ones
+  const deleteFolder = useCallback(
+    (id: string): void => {
+      let nextOrder = getNextOrder(bookmarks, null);
+      saveFolders(folders.filter((folder) => folder.id !== id));
+      saveBookmarks(
+        bookmarks.map((bookmark) =>
+          bookmark.folderId === id
+            ? { ...bookmark, folderId: null, order: nextOrder++ }
+            : bookmark
+        )
+      );
+    },
+    [bookmarks, folders, saveBookmarks, saveFolders]
+  );
+
+  // Move a bookmark to another folder (at its end) and/or replace its tags
+  const organizeBookmark = useCallback(
+    (
+      id: string,
+      changes: { folderId?: string | null; tags?: string[] }
+    ): void => {
+      const { folderId, tags } = changes;
+      saveBookmarks(
+        bookmarks.map((bookmark) => {
+          if (bookmark.id !== id) return bookmark;
+          const moved =
+            folderId !== undefined && folderId !== bookmark.folderId;
+          return {
+            ...bookmark,
+            ...(moved && {
+              folderId,
+              order: getNextOrder(bookmarks, folderId),
+            }),
+            ...(tags && { tags: normalizeTags(tags) }),
+          };
+        })
+      );
+    },
+    [bookmarks, saveBookmarks]
+  );
+
+  // Give the listed bookmarks the positions they have in orderedIds
+  const reorderBookmarks = useCallback(
+    (orderedIds: string[]): void => {
+      const positions = new Map(orderedIds.map((id, index) => [id, index]));
+      saveBookmarks(
+        bookmarks.map((bookmark) =>
+          positions.has(bookmark.id)
+            ? { ...bookmark, order: positions.get(bookmark.id)! }
+            : bookmark
+        )
+      );
+    },
+    [bookmarks, saveBookmarks]
+  );
+
+  const markBookmarkVisited = useCallback(
+    (id: string): void => {
+      updateBookmark(id, { lastVisitedAt: new Date().toISOString() });
+    },
+    [updateBookmark]
+  );
+
+  const allTags = useMemo(() => {
+    const tags = new Map<string, string>();
+    bookmarks.forEach((bookmark) =>
+      bookmark.tags.forEach((tag) => {
+        if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+      })
+    );
+    return Array.from(tags.values()).sort((a, b) =>
+      a.localeCompare(b, undefined, { sensitivity: "base" })
+    );
+  }, [bookmarks]);
+
   // Load bookmarks on mount
   useEffect(() => {
     loadBookmarks();
@@ -128,12 +606,24 @@ export const BookmarksProvider = ({ children }: { children: ReactNode }) => {
 
   const contextValue: BookmarksContextType = {
     bookmarks,
+    folders,
+    allTags,
     addBookmark,
+    addPassageBookmark,
+    addChapterBookmark,
     removeBookmark,
     updateBookmark,
     isBookmarked,
     getBookmarkId,
     loadBookmarks,
+    restoreBookmarks,
+    importBookmarks,
+    createFolder,
+    renameFolder,
+    deleteFolder,
+    organizeBookmark,
+    reorderBookmarks,
+    markBookmarkVisited,
   };
 
   return (
@@ -0,0 +1,131 @@
+// context/CitationTemplatesContext.tsx
+import React, {
+  createContext,
+  useState,
+  useEffect,
+  useContext,
+  ReactNode,
+  useCallback,
+  useMemo,
+} from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  CitationOptions,
+  CitationTemplate,
+  DEFAULT_CITATION_TEMPLATES,
+} from "../utils/citation";
+
+interface CitationTemplatesContextType {
+  templates: CitationTemplate[]; // built-in ones first, then saved ones
+  activeTemplate: CitationTemplate;
+  setActiveTemplate: (id: string) => void;
+  saveTemplate: (name: string, options: CitationOptions) => CitationTemplate;
+  deleteTemplate: (id: string) => void;
+}
+
+const CitationTemplatesContext = createContext<
+  CitationTemplatesContextType | undefined
+>(undefined);
+
+const STORAGE_KEY = "@bible_app_citation_templates";
+
+interface StoredCitationTemplates {
+  templates: CitationTemplate[];
+  activeTemplateId: string;
+}
+
+export const CitationTemplatesProvider = ({
+  children,
+}: {
+  children: ReactNode;
+}) => {
+  const [savedTemplates, setSavedTemplates] = useState<CitationTemplate[]>([]);
+  const [activeTemplateId, setActiveTemplateId] = useState(
+    DEFAULT_CITATION_TEMPLATES[0].id
+  );
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const json = await AsyncStorage.getItem(STORAGE_KEY);
+        if (json) {
+          const stored: StoredCitationTemplates = JSON.parse(json);
+          setSavedTemplates(stored.templates ?? []);
+          if (stored.activeTemplateId) {
+            setActiveTemplateId(stored.activeTemplateId);
+          }
+        }
+      } catch (err) {
+        console.error("Failed to load citation templates:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, []);
+
+  useEffect(() => {
+    if (loading) return;
+    const stored: StoredCitationTemplates = {
+      templates: savedTemplates,
+      activeTemplateId,
+    };
+    AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(stored)).catch((err) =>
+      console.error("Failed to save citation templates:", err)
+    );
+  }, [savedTemplates, activeTemplateId, loading]);
+
+  const templates = useMemo(
+    () => [...DEFAULT_CITATION_TEMPLATES, ...savedTemplates],
+    [savedTemplates]
+  );
+
+  // Fall back to the first template if the active one was deleted
+  const activeTemplate =
+    templates.find((template) => template.id === activeTemplateId) ??
+    templates[0];
+
+  const saveTemplate = useCallback(
+    (name: string, options: CitationOptions): CitationTemplate => {
+      const template: CitationTemplate = {
+        ...options,
+        id: Date.now().toString(36),
+        name: name.trim(),
+      };
+      setSavedTemplates((prev) => [...prev, template]);
+      setActiveTemplateId(template.id);
+      return template;
+    },
+    []
+  );
+
+  const deleteTemplate = useCallback((id: string) => {
+    setSavedTemplates((prev) => prev.filter((template) => template.id !== id));
+  }, []);
+
+  const contextValue: CitationTemplatesContextType = {
+    templates,
+    activeTemplate,
+    setActiveTemplate: setActiveTemplateId,
+    saveTemplate,
+    deleteTemplate,
+  };
+
+  return (
+    <CitationTemplatesContext.Provider value={contextValue}>
+      {children}
+    </CitationTemplatesContext.Provider>
+  );
+};
+
+export const useCitationTemplates = (): CitationTemplatesContextType => {
+  const context = useContext(CitationTemplatesContext);
+  if (context === undefined) {
+    throw new Error(
+      "useCitationTemplates must be used within a CitationTemplatesProvider"
+    );
+  }
+  return context;
+};
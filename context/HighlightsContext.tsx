@@ -7,25 +7,76 @@ import React, {
   useEffect,
 } from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import { Verse } from "../types";
+import { HighlightCategory, Verse, WordHighlight } from "../types";
+import { WordSpanStyle } from "../utils/wordHighlights";
+import { migrateToKjvReference } from "../utils/versification";
 
 export interface HighlightedVerse {
   bookId: number;
   chapter: number;
   verse: number;
+  colorId: string; // HighlightCategory id
   timestamp: number;
 }
 
 interface HighlightsContextType {
   highlightedVerses: Map<string, HighlightedVerse>;
-  toggleVerseHighlight: (verse: Verse) => void;
+  palette: HighlightCategory[];
+  wordHighlights: WordHighlight[];
+  toggleVerseHighlight: (verse: Verse, colorId?: string) => void;
+  setVerseHighlight: (verse: Verse, colorId: string) => void;
+  removeVerseHighlight: (
+    bookId: number,
+    chapter: number,
+    verse: number
+  ) => void;
   isVerseHighlighted: (
     bookId: number,
     chapter: number,
     verse: number
   ) => boolean;
+  getVerseHighlight: (
+    bookId: number,
+    chapter: number,
+    verse: number
+  ) => HighlightedVerse | undefined;
   clearHighlights: () => void;
   getChapterHighlights: (bookId: number, chapter: number) => number[];
+  getChapterHighlightColors: (
+    bookId: number,
+    chapter: number
+  ) => Map<number, string>;
+  getHighlightCategory: (colorId: string) => HighlightCategory;
+  addWordHighlight: (
+    highlight: Omit<WordHighlight, "id" | "createdAt">
+  ) => void;
+  removeWordHighlight: (id: string) => void;
+  getVerseWordHighlights: (
+    bookId: number,
+    chapter: number,
+    verse: number,
+    version: string
+  ) => WordHighlight[];
+  getChapterWordHighlights: (
+    bookId: number,
+    chapter: number,
+    version: string | null
+  ) => Map<number, WordSpanStyle[]>;
+  addPaletteEntry: (label: string, color: string) => void;
+  updatePaletteEntry: (
+    id: string,
+    updates: Partial<Pick<HighlightCategory, "label" | "color">>
+  ) => void;
+  removePaletteEntry: (id: string) => void;
+  resetPalette: () => void;
+  importHighlights: (
+    highlights: Omit<HighlightedVerse, "timestamp">[]
+  ) => number;
+  restoreHighlights: (
+    highlights: HighlightedVerse[],
+    wordHighlights: WordHighlight[],
+    palette: HighlightCategory[]
+  ) => void;
   loading: boolean;
 }
 
@@ -34,6 +85,20 @@ const HighlightsContext = createContext<HighlightsContextType | undefined>(
 );
 
 const HIGHLIGHTS_STORAGE_KEY = "bible_highlights";
+const PALETTE_STORAGE_KEY = "bible_highlight_palette";
+const WORD_HIGHLIGHTS_STORAGE_KEY = "bible_word_highlights";
+
+// Highlights saved before colors existed use the first entry
+export const DEFAULT_HIGHLIGHT_PALETTE: HighlightCategory[] = [
+  { id: "yellow", color: "#FACC15", label: "Highlight" },
+  { id: "green", color: "#4ADE80", label: "Promise" },
+  { id: "blue", color: "#60A5FA", label: "Command" },
+  { id: "purple", color: "#C084FC", label: "Prayer" },
+  { id: "pink", color: "#F472B6", label: "Love" },
+  { id: "orange", color: "#FB923C", label: "Warning" },
+];
+
+const DEFAULT_COLOR_ID = DEFAULT_HIGHLIGHT_PALETTE[0].id;
 
 export const HighlightsProvider: React.FC<{ children: ReactNode }> = ({
   children,
@@ -41,6 +106,10 @@ export const HighlightsProvider: React.FC<{ children: ReactNode }> = ({
   const [highlightedVerses, setHighlightedVerses] = useState<
     Map<string, HighlightedVerse>
   >(new Map());
+  const [palette, setPalette] = useState<HighlightCategory[]>(
+    DEFAULT_HIGHLIGHT_PALETTE
+  );
+  const [wordHighlights, setWordHighlights] = useState<WordHighlight[]>([]);
   const [loading, setLoading] = useState(true);
 
   // Load highlights from storage on app start
@@ -55,22 +124,72 @@ export const HighlightsProvider: React.FC<{ children: ReactNode }> = ({
     }
   }, [highlightedVerses, loading]);
 
+  useEffect(() => {
+    if (!loading) {
+      AsyncStorage.setItem(PALETTE_STORAGE_KEY, JSON.stringify(palette)).catch(
+        (error) => console.error("Failed to save highlight palette:", error)
+      );
+    }
+  }, [palette, loading]);
+
+  useEffect(() => {
+    if (!loading) {
+      AsyncStorage.setItem(
+        WORD_HIGHLIGHTS_STORAGE_KEY,
+        JSON.stringify(wordHighlights)
+      ).catch((error) =>
+        console.error("Failed to save word highlights:", error)
+      );
+    }
+  }, [wordHighlights, loading]);
+
   const loadHighlightsFromStorage = async () => {
     try {
-      const storedHighlights = await AsyncStorage.getItem(
-        HIGHLIGHTS_STORAGE_KEY
-      );
+      const [storedHighlights, storedPalette, storedWordHighlights] =
+        await Promise.all([
+          AsyncStorage.getItem(HIGHLIGHTS_STORAGE_KEY),
+          AsyncStorage.getItem(PALETTE_STORAGE_KEY),
+          AsyncStorage.getItem(WORD_HIGHLIGHTS_STORAGE_KEY),
+        ]);
+
+      const loadedPalette: HighlightCategory[] = storedPalette
+        ? JSON.parse(storedPalette)
+        : DEFAULT_HIGHLIGHT_PALETTE;
+      if (loadedPalette.length > 0) {
+        setPalette(loadedPalette);
+      }
+      const fallbackColorId = loadedPalette[0]?.id ?? DEFAULT_COLOR_ID;
+
       if (storedHighlights) {
         const parsedHighlights = JSON.parse(storedHighlights);
         const highlightsMap = new Map<string, HighlightedVerse>();
 
-        // Convert array back to Map
-        parsedHighlights.forEach(([key, value]: [string, HighlightedVerse]) => {
-          highlightsMap.set(key, value);
+        // Convert array back to Map. Highlights from before colors were
+        // added have no colorId and get the default color, and ones from
+        // before references were kept in KJV numbering are renumbered.
+        parsedHighlights.forEach(([, value]: [string, HighlightedVerse]) => {
+          const { book, chapter, verse } = migrateToKjvReference({
+            book: value.bookId,
+            chapter: value.chapter,
+            verse: value.verse,
+          });
+          const key = `${book}-${chapter}-${verse}`;
+          if (highlightsMap.has(key)) return;
+          highlightsMap.set(key, {
+            ...value,
+            bookId: book,
+            chapter,
+            verse,
+            colorId: value.colorId ?? fallbackColorId,
+          });
         });
 
         setHighlightedVerses(highlightsMap);
       }
+
+      if (storedWordHighlights) {
+        setWordHighlights(JSON.parse(storedWordHighlights));
+      }
     } catch (error) {
       console.error("Failed to load highlights from storage:", error);
     } finally {
@@ -99,27 +218,45 @@ export const HighlightsProvider: React.FC<{ children: ReactNode }> = ({
     return `${bookId}-${chapter}-${verse}`;
   };
 
-  const toggleVerseHighlight = (verse: Verse) => {
+  const setVerseHighlight = (verse: Verse, colorId: string) => {
     const key = getVerseKey(verse.book_number, verse.chapter, verse.verse);
 
     setHighlightedVerses((prev) => {
       const newHighlights = new Map(prev);
+      newHighlights.set(key, {
+        bookId: verse.book_number,
+        chapter: verse.chapter,
+        verse: verse.verse,
+        colorId,
+        timestamp: Date.now(),
+      });
+      return newHighlights;
+    });
+  };
 
-      if (newHighlights.has(key)) {
-        newHighlights.delete(key);
-      } else {
-        newHighlights.set(key, {
-          bookId: verse.book_number,
-          chapter: verse.chapter,
-          verse: verse.verse,
-          timestamp: Date.now(),
-        });
-      }
+  const removeVerseHighlight = (
+    bookId: number,
+    chapter: number,
+    verse: number
+  ) => {
+    const key = getVerseKey(bookId, chapter, verse);
 
+    setHighlightedVerses((prev) => {
+      if (!prev.has(key)) return prev;
+      const newHighlights = new Map(prev);
+      newHighlights.delete(key);
       return newHighlights;
     });
   };
 
+  const toggleVerseHighlight = (verse: Verse, colorId?: string) => {
+    if (isVerseHighlighted(verse.book_number, verse.chapter, verse.verse)) {
+      removeVerseHighlight(verse.book_number, verse.chapter, verse.verse);
+    } else {
+      setVerseHighlight(verse, colorId ?? palette[0]?.id ?? DEFAULT_COLOR_ID);
+    }
+  };
+
   const isVerseHighlighted = (
     bookId: number,
     chapter: number,
@@ -129,8 +266,17 @@ export const HighlightsProvider: React.FC<{ children: ReactNode }> = ({
     return highlightedVerses.has(key);
   };
 
+  const getVerseHighlight = (
+    bookId: number,
+    chapter: number,
+    verse: number
+  ): HighlightedVerse | undefined => {
+    return highlightedVerses.get(getVerseKey(bookId, chapter, verse));
+  };
+
   const clearHighlights = () => {
     setHighlightedVerses(new Map());
+    setWordHighlights([]);
   };
 
   const getChapterHighlights = (bookId: number, chapter: number): number[] => {
@@ -145,14 +291,227 @@ export const HighlightsProvider: React.FC<{ children: ReactNode }> = ({
     return highlights.sort((a, b) => a - b);
   };
 
+  // Unknown ids (e.g. a removed palette entry) fall back to the first color
+  const getHighlightCategory = (colorId: string): HighlightCategory => {
+    return (
+      palette.find((entry) => entry.id === colorId) ??
+      palette[0] ??
+      DEFAULT_HIGHLIGHT_PALETTE[0]
+    );
+  };
+
+  // Verse number -> display color for the verses highlighted in a chapter
+  const getChapterHighlightColors = (
+    bookId: number,
+    chapter: number
+  ): Map<number, string> => {
+    const colors = new Map<number, string>();
+
+    highlightedVerses.forEach((value) => {
+      if (value.bookId === bookId && value.chapter === chapter) {
+        colors.set(value.verse, getHighlightCategory(value.colorId).color);
+      }
+    });
+
+    return colors;
+  };
+
+  const addWordHighlight = (
+    highlight: Omit<WordHighlight, "id" | "createdAt">
+  ) => {
+    const createdAt = Date.now();
+    setWordHighlights((prev) => [
+      ...prev,
+      {
+        ...highlight,
+        id: `${highlight.bookNumber}-${highlight.chapter}-${highlight.verse}-${createdAt}`,
+        createdAt,
+      },
+    ]);
+  };
+
+  const removeWordHighlight = (id: string) => {
+    setWordHighlights((prev) => prev.filter((h) => h.id !== id));
+  };
+
+  const getVerseWordHighlights = (
+    bookId: number,
+    chapter: number,
+    verse: number,
+    version: string
+  ): WordHighlight[] => {
+    return wordHighlights.filter(
+      (h) =>
+        h.bookNumber === bookId &&
+        h.chapter === chapter &&
+        h.verse === verse &&
+        h.version === version
+    );
+  };
+
+  // Verse number -> word spans to draw, for one translation of a chapter
+  const getChapterWordHighlights = (
+    bookId: number,
+    chapter: number,
+    version: string | null
+  ): Map<number, WordSpanStyle[]> => {
+    const spans = new Map<number, WordSpanStyle[]>();
+    if (!version) return spans;
+
+    wordHighlights.forEach((h) => {
+      if (
+        h.bookNumber !== bookId ||
+        h.chapter !== chapter ||
+        h.version !== version
+      ) {
+        return;
+      }
+      const verseSpans = spans.get(h.verse) || [];
+      verseSpans.push({
+        startWord: h.startWord,
+        endWord: h.endWord,
+        style: h.style,
+        color: getHighlightCategory(h.colorId).color,
+      });
+      spans.set(h.verse, verseSpans);
+    });
+
+    return spans;
+  };
+
+  const addPaletteEntry = (label: string, color: string) => {
+    setPalette((prev) => [
+      ...prev,
+      { id: `custom-${Date.now()}`, label: label.trim() || "Untitled", color },
+    ]);
+  };
+
+  const updatePaletteEntry = (
+    id: string,
+    updates: Partial<Pick<HighlightCategory, "label" | "color">>
+  ) => {
+    setPalette((prev) =>
+      prev.map((entry) => (entry.id === id ? { ...entry, ...updates } : entry))
+    );
+  };
+
+  // Highlights using a removed color move to the first remaining one
+  const removePaletteEntry = (id: string) => {
+    const remaining = palette.filter((entry) => entry.id !== id);
+    if (remaining.length === 0 || remaining.length === palette.length) return;
+
+    setPalette(remaining);
+    setHighlightedVerses((prev) => {
+      const newHighlights = new Map(prev);
+      newHighlights.forEach((value, key) => {
+        if (value.colorId === id) {
+          newHighlights.set(key, { ...value, colorId: remaining[0].id });
+        }
+      });
+      return newHighlights;
+    });
+  };
+
+  const resetPalette = () => {
+    const defaultIds = new Set(DEFAULT_HIGHLIGHT_PALETTE.map((e) => e.id));
+    setPalette(DEFAULT_HIGHLIGHT_PALETTE);
+    setHighlightedVerses((prev) => {
+      const newHighlights = new Map(prev);
+      newHighlights.forEach((value, key) => {
+        if (!defaultIds.has(value.colorId)) {
+          newHighlights.set(key, { ...value, colorId: DEFAULT_COLOR_ID });
+        }
+      });
+      return newHighlights;
+    });
+  };
+
+  // Add highlights from another app without changing verses that are
+  // already highlighted. Returns how many were added.
+  const importHighlights = (
+    highlights: Omit<HighlightedVerse, "timestamp">[]
+  ): number => {
+    const newHighlights = new Map(highlightedVerses);
+    const timestamp = Date.now();
+    let added = 0;
+
+    highlights.forEach((highlight) => {
+      const key = getVerseKey(
+        highlight.bookId,
+        highlight.chapter,
+        highlight.verse
+      );
+      if (newHighlights.has(key)) return;
+      newHighlights.set(key, { ...highlight, timestamp });
+      added++;
+    });
+
+    if (added > 0) setHighlightedVerses(newHighlights);
+    return added;
+  };
+
+  // Replace all highlights and the palette, e.g. when restoring a backup.
+  // References are renumbered to KJV as on loading; where two then meet on
+  // one verse, the later highlight is kept.
+  const restoreHighlights = (
+    highlights: HighlightedVerse[],
+    restoredWordHighlights: WordHighlight[],
+    restoredPalette: HighlightCategory[]
+  ) => {
+    const newPalette =
+      restoredPalette.length > 0 ? restoredPalette : DEFAULT_HIGHLIGHT_PALETTE;
+    const paletteIds = new Set(newPalette.map((entry) => entry.id));
+    const newHighlights = new Map<string, HighlightedVerse>();
+    highlights.forEach((highlight) => {
+      const { book, chapter, verse } = migrateToKjvReference({
+        book: highlight.bookId,
+        chapter: highlight.chapter,
+        verse: highlight.verse,
+      });
+      const key = getVerseKey(book, chapter, verse);
+      const existing = newHighlights.get(key);
+      if (existing && existing.timestamp >= highlight.timestamp) return;
+      newHighlights.set(key, {
+        ...highlight,
+        bookId: book,
+        chapter,
+        verse,
+        colorId: paletteIds.has(highlight.colorId)
+          ? highlight.colorId
+          : newPalette[0].id,
+      });
+    });
+
+    setPalette(newPalette);
+    setHighlightedVerses(newHighlights);
+    setWordHighlights(restoredWordHighlights);
+  };
+
   return (
     <HighlightsContext.Provider
       value={{
         highlightedVerses,
+        palette,
+        wordHighlights,
         toggleVerseHighlight,
+        setVerseHighlight,
+        removeVerseHighlight,
         isVerseHighlighted,
+        getVerseHighlight,
         clearHighlights,
         getChapterHighlights,
+        getChapterHighlightColors,
+        getHighlightCategory,
+        addWordHighlight,
+        removeWordHighlight,
+        getVerseWordHighlights,
+        getChapterWordHighlights,
+        addPaletteEntry,
+        updatePaletteEntry,
+        removePaletteEntry,
+        resetPalette,
+        importHighlights,
+        restoreHighlights,
         loading,
       }}
     >
@@ -0,0 +1,192 @@
+// context/NotesContext.tsx
+import React, {
+  createContext,
+  useState,
+  useEffect,
+  useContext,
+  ReactNode,
+  useCallback,
+} from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Note } from "../types";
+import { migrateToKjvReference } from "../utils/versification";
+
+export interface NewNote {
+  bookNumber: number;
+  chapter: number;
+  verse: number;
+  endVerse?: number;
+  content: string;
+}
+
+interface NotesContextType {
+  notes: Note[];
+  loading: boolean;
+  addNote: (note: NewNote) => Note;
+  updateNote: (
+    id: string,
+    updates: Partial<Pick<Note, "content" | "endVerse">>
+  ) => void;
+  deleteNote: (id: string) => void;
+  getVerseNotes: (bookNumber: number, chapter: number, verse: number) => Note[];
+  getChapterNoteVerses: (bookNumber: number, chapter: number) => Set<number>;
+  restoreNotes: (notes: Note[]) => void;
+}
+
+const NotesContext = createContext<NotesContextType | undefined>(undefined);
+
+// Notes key on book/chapter/verse only, so they show in every translation
+const STORAGE_KEY = "@bible_app_notes";
+
+const coversVerse = (note: Note, verse: number): boolean =>
+  verse >= note.verse && verse <= (note.endVerse ?? note.verse);
+
+// Notes saved before references were kept in KJV numbering, renumbered
+const migrateNoteReference = (note: Note): Note => {
+  const start = migrateToKjvReference({
+    book: note.bookNumber,
+    chapter: note.chapter,
+    verse: note.verse,
+  });
+  const end = note.endVerse
+    ? migrateToKjvReference({
+        book: note.bookNumber,
+        chapter: note.chapter,
+        verse: note.endVerse,
+      }).verse
+    : undefined;
+  return {
+    ...note,
+    bookNumber: start.book,
+    chapter: start.chapter,
+    verse: start.verse,
+    endVerse: end && end > start.verse ? end : undefined,
+  };
+};
+
+export const NotesProvider = ({ children }: { children: ReactNode }) => {
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Load notes from storage
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const json = await AsyncStorage.getItem(STORAGE_KEY);
+        if (json) {
+          const parsed: any[] = JSON.parse(json);
+          setNotes(
+            parsed.map((note) =>
+              migrateNoteReference({
+                ...note,
+                createdAt: new Date(note.createdAt),
+                updatedAt: new Date(note.updatedAt),
+              })
+            )
+          );
+        }
+      } catch (err) {
+        console.error("Failed to load notes:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, []);
+
+  // Save whenever notes change
+  useEffect(() => {
+    if (loading) return;
+    AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(notes)).catch((err) =>
+      console.error("Failed to save notes:", err)
+    );
+  }, [notes, loading]);
+
+  const addNote = useCallback((note: NewNote): Note => {
+    const now = new Date();
+    const created: Note = {
+      ...note,
+      endVerse:
+        note.endVerse && note.endVerse > note.verse ? note.endVerse : undefined,
+      id: `${note.bookNumber}-${note.chapter}-${note.verse}-${now.getTime()}`,
+      createdAt: now,
+      updatedAt: now,
+    };
+    setNotes((prev) => [...prev, created]);
+    return created;
+  }, []);
+
+  const updateNote = useCallback(
+    (id: string, updates: Partial<Pick<Note, "content" | "endVerse">>) => {
+      setNotes((prev) =>
+        prev.map((note) =>
+          note.id === id ? { ...note, ...updates, updatedAt: new Date() } : note
+        )
+      );
+    },
+    []
+  );
+
+  const deleteNote = useCallback((id: string) => {
+    setNotes((prev) => prev.filter((note) => note.id !== id));
+  }, []);
+
+  // Notes on a verse, including ranges that span it, oldest first
+  const getVerseNotes = useCallback(
+    (bookNumber: number, chapter: number, verse: number): Note[] =>
+      notes
+        .filter(
+          (note) =>
+            note.bookNumber === bookNumber &&
+            note.chapter === chapter &&
+            coversVerse(note, verse)
+        )
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+    [notes]
+  );
+
+  const getChapterNoteVerses = useCallback(
+    (bookNumber: number, chapter: number): Set<number> => {
+      const verses = new Set<number>();
+      notes.forEach((note) => {
+        if (note.bookNumber !== bookNumber || note.chapter !== chapter) return;
+        for (let v = note.verse; v <= (note.endVerse ?? note.verse); v++) {
+          verses.add(v);
+        }
+      });
+      return verses;
+    },
+    [notes]
+  );
+
+  // Replace all notes, e.g. when restoring a backup, renumbered as on loading
+  const restoreNotes = useCallback((restored: Note[]) => {
+    setNotes(restored.map(migrateNoteReference));
+  }, []);
+
+  const contextValue: NotesContextType = {
+    notes,
+    loading,
+    addNote,
+    updateNote,
+    deleteNote,
+    getVerseNotes,
+    getChapterNoteVerses,
+    restoreNotes,
+  };
+
+  return (
+    <NotesContext.Provider value={contextValue}>
+      {children}
+    </NotesContext.Provider>
+  );
+};
+
+export const useNotes = (): NotesContextType => {
+  const context = useContext(NotesContext);
+  if (context === undefined) {
+    throw new Error("useNotes must be used within a NotesProvider");
+  }
+  return context;
+};
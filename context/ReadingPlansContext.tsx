@@ -0,0 +1,255 @@
+// context/ReadingPlansContext.tsx
+import React, {
+  createContext,
+  useState,
+  useEffect,
+  useContext,
+  useMemo,
+  ReactNode,
+  useCallback,
+} from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  ReadingPlan,
+  ReadingPlanProgress,
+  ReadingProgress,
+  ReadingStreak,
+} from "../types";
+import {
+  calculateStreak,
+  getBuiltInPlans,
+  getCompletedDayCount,
+  getNextDayIndex,
+  parseReadingPlan,
+  reschedulePlan,
+  fromDateKey,
+  toDateKey,
+} from "../utils/readingPlans";
+
+export interface StoredReadingPlans {
+  customPlans: ReadingPlan[];
+  progress: Record<string, ReadingPlanProgress>;
+}
+
+interface ReadingPlansContextType {
+  plans: ReadingPlan[];
+  customPlans: ReadingPlan[];
+  progress: Record<string, ReadingPlanProgress>;
+  loading: boolean;
+  getPlan: (planId: string) => ReadingPlan | undefined;
+  startPlan: (planId: string) => void;
+  stopPlan: (planId: string) => void;
+  toggleDayComplete: (planId: string, dayIndex: number) => void;
+  reschedule: (planId: string) => void;
+  importPlan: (json: string) => ReadingPlan;
+  removePlan: (planId: string) => void;
+  getPlanPosition: (planId: string) => ReadingProgress | null;
+  getStreak: (planId: string) => ReadingStreak;
+  restoreReadingPlans: (data: StoredReadingPlans) => void;
+}
+
+const ReadingPlansContext = createContext<ReadingPlansContextType | undefined>(
+  undefined
+);
+
+// Stored next to "@bible_app_bookmarks"
+const STORAGE_KEY = "@bible_app_reading_plans";
+
+export const ReadingPlansProvider = ({ children }: { children: ReactNode }) => {
+  const [stored, setStored] = useState<StoredReadingPlans>({
+    customPlans: [],
+    progress: {},
+  });
+  const [loading, setLoading] = useState(true);
+
+  // Load plans and progress from storage
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const json = await AsyncStorage.getItem(STORAGE_KEY);
+        if (json) {
+          const parsed = JSON.parse(json);
+          setStored({
+            customPlans: parsed.customPlans || [],
+            progress: parsed.progress || {},
+          });
+        }
+      } catch (err) {
+        console.error("Failed to load reading plans:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, []);
+
+  // Save whenever plans or progress change
+  useEffect(() => {
+    if (loading) return;
+    AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(stored)).catch((err) =>
+      console.error("Failed to save reading plans:", err)
+    );
+  }, [stored, loading]);
+
+  const plans = useMemo(
+    () => [...getBuiltInPlans(), ...stored.customPlans],
+    [stored.customPlans]
+  );
+
+  const getPlan = useCallback(
+    (planId: string) => plans.find((plan) => plan.id === planId),
+    [plans]
+  );
+
+  const updateProgress = useCallback(
+    (
+      planId: string,
+      update: (progress: ReadingPlanProgress) => ReadingPlanProgress
+    ) => {
+      setStored((prev) => {
+        const current = prev.progress[planId];
+        if (!current) return prev;
+        return {
+          ...prev,
+          progress: { ...prev.progress, [planId]: update(current) },
+        };
+      });
+    },
+    []
+  );
+
+  const startPlan = useCallback((planId: string) => {
+    setStored((prev) => ({
+      ...prev,
+      progress: {
+        ...prev.progress,
+        [planId]: { planId, startDate: toDateKey(), completedDays: {} },
+      },
+    }));
+  }, []);
+
+  const stopPlan = useCallback((planId: string) => {
+    setStored((prev) => {
+      const { [planId]: _removed, ...progress } = prev.progress;
+      return { ...prev, progress };
+    });
+  }, []);
+
+  const toggleDayComplete = useCallback(
+    (planId: string, dayIndex: number) => {
+      updateProgress(planId, (progress) => {
+        const completedDays = { ...progress.completedDays };
+        if (completedDays[dayIndex] !== undefined) {
+          delete completedDays[dayIndex];
+        } else {
+          completedDays[dayIndex] = toDateKey();
+        }
+        return { ...progress, completedDays };
+      });
+    },
+    [updateProgress]
+  );
+
+  const reschedule = useCallback(
+    (planId: string) => {
+      const plan = getPlan(planId);
+      if (!plan) return;
+      updateProgress(planId, (progress) => reschedulePlan(plan, progress));
+    },
+    [getPlan, updateProgress]
+  );
+
+  // Importing a plan with the same id replaces it but keeps its progress
+  const importPlan = useCallback((json: string): ReadingPlan => {
+    const plan = parseReadingPlan(json);
+    setStored((prev) => ({
+      ...prev,
+      customPlans: [
+        ...prev.customPlans.filter((existing) => existing.id !== plan.id),
+        plan,
+      ],
+    }));
+    return plan;
+  }, []);
+
+  const removePlan = useCallback((planId: string) => {
+    setStored((prev) => {
+      const { [planId]: _removed, ...progress } = prev.progress;
+      return {
+        customPlans: prev.customPlans.filter((plan) => plan.id !== planId),
+        progress,
+      };
+    });
+  }, []);
+
+  // Where the reader is in a plan: the next unchecked reading
+  const getPlanPosition = useCallback(
+    (planId: string): ReadingProgress | null => {
+      const plan = getPlan(planId);
+      const progress = stored.progress[planId];
+      if (!plan || !progress) return null;
+
+      const nextDay = getNextDayIndex(plan, progress);
+      const reading = nextDay >= 0 ? plan.days[nextDay].readings[0] : undefined;
+      const lastCompleted = Object.values(progress.completedDays).sort().pop();
+
+      return {
+        bookNumber: reading?.bookNumber ?? 0,
+        chapter: reading?.chapter ?? 0,
+        verse: reading?.startVerse ?? 1,
+        timestamp: lastCompleted ? fromDateKey(lastCompleted) : new Date(),
+        percentage: Math.round(
+          (getCompletedDayCount(progress) / plan.days.length) * 100
+        ),
+      };
+    },
+    [getPlan, stored.progress]
+  );
+
+  const getStreak = useCallback(
+    (planId: string): ReadingStreak =>
+      calculateStreak(
+        Object.values(stored.progress[planId]?.completedDays || {})
+      ),
+    [stored.progress]
+  );
+
+  // Replace imported plans and all progress, e.g. when restoring a backup
+  const restoreReadingPlans = useCallback((data: StoredReadingPlans) => {
+    setStored(data);
+  }, []);
+
+  const contextValue: ReadingPlansContextType = {
+    plans,
+    customPlans: stored.customPlans,
+    progress: stored.progress,
+    loading,
+    getPlan,
+    startPlan,
+    stopPlan,
+    toggleDayComplete,
+    reschedule,
+    importPlan,
+    removePlan,
+    getPlanPosition,
+    getStreak,
+    restoreReadingPlans,
+  };
+
+  return (
+    <ReadingPlansContext.Provider value={contextValue}>
+      {children}
+    </ReadingPlansContext.Provider>
+  );
+};
+
+export const useReadingPlans = (): ReadingPlansContextType => {
+  const context = useContext(ReadingPlansContext);
+  if (context === undefined) {
+    throw new Error(
+      "useReadingPlans must be used within a ReadingPlansProvider"
+    );
+  }
+  return context;
+};
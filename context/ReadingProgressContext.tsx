@@ -0,0 +1,223 @@
+// context/ReadingProgressContext.tsx
+import React, {
+  createContext,
+  useState,
+  useEffect,
+  useContext,
+  ReactNode,
+  useCallback,
+} from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { ReadingHistoryEntry, ReadingProgress } from "../types";
+import {
+  APOCRYPHA_CHAPTER_COUNTS,
+  BOOK_CHAPTER_COUNTS,
+} from "../utils/testamentUtils";
+
+export interface StoredReadingProgress {
+  readChapters: Record<string, string>; // "book-chapter" -> last read ISO time
+  history: ReadingHistoryEntry[]; // newest first
+  lastPositions: Record<string, ReadingProgress>; // by version file name
+}
+
+interface ReadingProgressContextType {
+  readChapters: Record<string, string>;
+  history: ReadingHistoryEntry[];
+  lastPositions: Record<string, ReadingProgress>;
+  loading: boolean;
+  savePosition: (
+    version: string,
+    position: Omit<ReadingProgress, "timestamp">
+  ) => void;
+  markChapterRead: (
+    version: string,
+    bookNumber: number,
+    chapter: number
+  ) => void;
+  isChapterRead: (bookNumber: number, chapter: number) => boolean;
+  getReadChapters: (bookNumber: number) => number[];
+  getBookCompletion: (bookNumber: number, chapterCount?: number) => number;
+  clearHistory: () => void;
+  restoreReadingProgress: (data: StoredReadingProgress) => void;
+}
+
+const ReadingProgressContext = createContext<
+  ReadingProgressContextType | undefined
+>(undefined);
+
+const STORAGE_KEY = "@bible_app_reading_progress";
+const MAX_HISTORY_ENTRIES = 500;
+
+const getChapterKey = (bookNumber: number, chapter: number): string =>
+  `${bookNumber}-${chapter}`;
+
+export const ReadingProgressProvider = ({
+  children,
+}: {
+  children: ReactNode;
+}) => {
+  const [stored, setStored] = useState<StoredReadingProgress>({
+    readChapters: {},
+    history: [],
+    lastPositions: {},
+  });
+  const [loading, setLoading] = useState(true);
+
+  // Load progress from storage
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const json = await AsyncStorage.getItem(STORAGE_KEY);
+        if (json) {
+          const parsed = JSON.parse(json);
+          const lastPositions: Record<string, ReadingProgress> = {};
+          Object.entries(parsed.lastPositions || {}).forEach(
+            ([version, position]: [string, any]) => {
+              lastPositions[version] = {
+                ...position,
+                timestamp: new Date(position.timestamp),
+              };
+            }
+          );
+
+          setStored({
+            readChapters: parsed.readChapters || {},
+            history: parsed.history || [],
+            lastPositions,
+          });
+        }
+      } catch (err) {
+        console.error("Failed to load reading progress:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, []);
+
+  // Save whenever progress changes
+  useEffect(() => {
+    if (loading) return;
+    AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(stored)).catch((err) =>
+      console.error("Failed to save reading progress:", err)
+    );
+  }, [stored, loading]);
+
+  const savePosition = useCallback(
+    (version: string, position: Omit<ReadingProgress, "timestamp">) => {
+      setStored((prev) => ({
+        ...prev,
+        lastPositions: {
+          ...prev.lastPositions,
+          [version]: { ...position, timestamp: new Date() },
+        },
+      }));
+    },
+    []
+  );
+
+  const markChapterRead = useCallback(
+    (version: string, bookNumber: number, chapter: number) => {
+      setStored((prev) => {
+        const readAt = new Date().toISOString();
+        const latest = prev.history[0];
+
+        // Re-reading the chapter just finished doesn't add a new entry
+        const isRepeat =
+          latest?.bookNumber === bookNumber &&
+          latest.chapter === chapter &&
+          latest.version === version;
+        const history = isRepeat
+          ? [{ ...latest, readAt }, ...prev.history.slice(1)]
+          : [{ bookNumber, chapter, version, readAt }, ...prev.history].slice(
+              0,
+              MAX_HISTORY_ENTRIES
+            );
+
+        return {
+          ...prev,
+          readChapters: {
+            ...prev.readChapters,
+            [getChapterKey(bookNumber, chapter)]: readAt,
+          },
+          history,
+        };
+      });
+    },
+    []
+  );
+
+  const isChapterRead = useCallback(
+    (bookNumber: number, chapter: number): boolean =>
+      stored.readChapters[getChapterKey(bookNumber, chapter)] !== undefined,
+    [stored.readChapters]
+  );
+
+  const getReadChapters = useCallback(
+    (bookNumber: number): number[] => {
+      const prefix = `${bookNumber}-`;
+      return Object.keys(stored.readChapters)
+        .filter((key) => key.startsWith(prefix))
+        .map((key) => Number(key.slice(prefix.length)))
+        .sort((a, b) => a - b);
+    },
+    [stored.readChapters]
+  );
+
+  // Percentage of a book's chapters read in any translation
+  const getBookCompletion = useCallback(
+    (bookNumber: number, chapterCount?: number): number => {
+      const total =
+        chapterCount ||
+        BOOK_CHAPTER_COUNTS[bookNumber] ||
+        APOCRYPHA_CHAPTER_COUNTS[bookNumber];
+      if (!total) return 0;
+      const read = getReadChapters(bookNumber).filter(
+        (chapter) => chapter <= total
+      ).length;
+      return Math.round((read / total) * 100);
+    },
+    [getReadChapters]
+  );
+
+  // Only the timeline; read markers and last positions are kept
+  const clearHistory = useCallback(() => {
+    setStored((prev) => ({ ...prev, history: [] }));
+  }, []);
+
+  // Replace all progress, e.g. when restoring a backup
+  const restoreReadingProgress = useCallback((data: StoredReadingProgress) => {
+    setStored(data);
+  }, []);
+
+  const contextValue: ReadingProgressContextType = {
+    readChapters: stored.readChapters,
+    history: stored.history,
+    lastPositions: stored.lastPositions,
+    loading,
+    savePosition,
+    markChapterRead,
+    isChapterRead,
+    getReadChapters,
+    getBookCompletion,
+    clearHistory,
+    restoreReadingProgress,
+  };
+
+  return (
+    <ReadingProgressContext.Provider value={contextValue}>
+      {children}
+    </ReadingProgressContext.Provider>
+  );
+};
+
+export const useReadingProgress = (): ReadingProgressContextType => {
+  const context = useContext(ReadingProgressContext);
+  if (context === undefined) {
+    throw new Error(
+      "useReadingProgress must be used within a ReadingProgressProvider"
+    );
+  }
+  return context;
+};
@@ -79,7 +79,7 @@ const primaryColors: Record<ColorScheme, { light: string; dark: string }> = {
   yellow: { light: "#F59E0B", dark: "#D97706" },
 };
 
-const gradientMap: Record<
+export const gradientMap: Record<
   ColorScheme,
   { light: [string, string]; dark: [string, string] }
 > = {
@@ -111,6 +111,7 @@ interface ThemeContextType {
   navTheme: NavTheme;
   gradientColors: GradientColors;
   toggleTheme: () => void;
+  setTheme: (theme: Theme) => void;
   setColorScheme: (scheme: ColorScheme) => void;
   setFontFamily: (family: FontFamily) => void;
 }
@@ -253,6 +254,7 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({ children }) => {
     navTheme,
     gradientColors,
     toggleTheme,
+    setTheme,
     setColorScheme,
     setFontFamily,
   };
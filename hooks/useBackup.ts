@@ -0,0 +1,203 @@
+// hooks/useBackup.ts
+import { useCallback, useContext } from "react";
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system/legacy";
+import * as Sharing from "expo-sharing";
+import { BookmarksContext } from "../context/BookmarksContext";
+import { useHighlights } from "../context/HighlightsContext";
+import { useNotes } from "../context/NotesContext";
+import { useReadingPlans } from "../context/ReadingPlansContext";
+import { useReadingProgress } from "../context/ReadingProgressContext";
+import { useTheme } from "../context/ThemeContext";
+import { useBibleDatabase } from "../context/BibleDatabaseContext";
+import {
+  BackupData,
+  BackupFile,
+  ParsedBackup,
+  RestoreMode,
+  createBackup,
+  getBackupFileName,
+  mergeBackupData,
+  parseBackup,
+} from "../utils/backup";
+
+export interface BackupFileInfo {
+  name: string;
+  uri: string;
+}
+
+const BACKUP_DIRECTORY = `${FileSystem.documentDirectory}backups/`;
+
+/**
+ * Export all user data to a JSON file and restore it again, either
+ * replacing what is on the device or merging with it.
+ */
+export const useBackup = () => {
+  const { bookmarks, folders, restoreBookmarks } = useContext(BookmarksContext);
+  const { highlightedVerses, wordHighlights, palette, restoreHighlights } =
+    useHighlights();
+  const { notes, restoreNotes } = useNotes();
+  const { customPlans, progress, restoreReadingPlans } = useReadingPlans();
+  const { readChapters, history, lastPositions, restoreReadingProgress } =
+    useReadingProgress();
+  const {
+    theme,
+    colorScheme,
+    fontFamily,
+    setTheme,
+    setColorScheme,
+    setFontFamily,
+  } = useTheme();
+  const { currentVersion, availableVersions, switchVersion } =
+    useBibleDatabase();
+
+  const getCurrentData = useCallback(
+    (): BackupData => ({
+      bookmarks,
+      bookmarkFolders: folders,
+      highlights: Array.from(highlightedVerses.values()),
+      wordHighlights,
+      highlightPalette: palette,
+      notes,
+      readingPlans: { customPlans, progress },
+      readingProgress: { readChapters, history, lastPositions },
+      settings: {
+        theme,
+        colorScheme,
+        fontFamily,
+        bibleVersion: currentVersion,
+      },
+    }),
+    [
+      bookmarks,
+      folders,
+      highlightedVerses,
+      wordHighlights,
+      palette,
+      notes,
+      customPlans,
+      progress,
+      readChapters,
+      history,
+      lastPositions,
+      theme,
+      colorScheme,
+      fontFamily,
+      currentVersion,
+    ]
+  );
+
+  // Write a backup file and offer to send it elsewhere as a file, so it can
+  // be saved to a drive or another device and restored there
+  const exportBackup = useCallback(async (): Promise<string> => {
+    const dirInfo = await FileSystem.getInfoAsync(BACKUP_DIRECTORY);
+    if (!dirInfo.exists) {
+      await FileSystem.makeDirectoryAsync(BACKUP_DIRECTORY, {
+        intermediates: true,
+      });
+    }
+
+    const json = JSON.stringify(createBackup(getCurrentData()));
+    const uri = BACKUP_DIRECTORY + getBackupFileName();
+    await FileSystem.writeAsStringAsync(uri, json);
+
+    try {
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(uri, {
+          mimeType: "application/json",
+          dialogTitle: "Bible backup",
+          UTI: "public.json",
+        });
+      }
+    } catch (err) {
+      console.error("Failed to share backup:", err);
+    }
+
+    return uri;
+  }, [getCurrentData]);
+
+  // Backups saved on this device, newest first
+  const listBackupFiles = useCallback(async (): Promise<BackupFileInfo[]> => {
+    const dirInfo = await FileSystem.getInfoAsync(BACKUP_DIRECTORY);
+    if (!dirInfo.exists) return [];
+
+    const names = await FileSystem.readDirectoryAsync(BACKUP_DIRECTORY);
+    return names
+      .filter((name) => name.endsWith(".json"))
+      .sort()
+      .reverse()
+      .map((name) => ({ name, uri: BACKUP_DIRECTORY + name }));
+  }, []);
+
+  // A backup file chosen from the device or a cloud drive, e.g. one exported
+  // on another phone. Resolves to null when the picker is dismissed.
+  const pickBackupFile = useCallback(async (): Promise<ParsedBackup | null> => {
+    const picked = await DocumentPicker.getDocumentAsync({
+      type: ["application/json", "text/plain", "application/octet-stream"],
+      copyToCacheDirectory: true,
+    });
+    if (picked.canceled || picked.assets.length === 0) return null;
+
+    const json = await FileSystem.readAsStringAsync(picked.assets[0].uri);
+    return parseBackup(json);
+  }, []);
+
+  const readBackupFile = useCallback(
+    async (uri: string): Promise<ParsedBackup> => {
+      const json = await FileSystem.readAsStringAsync(uri);
+      return parseBackup(json);
+    },
+    []
+  );
+
+  const restoreBackup = useCallback(
+    async (backup: BackupFile, mode: RestoreMode): Promise<void> => {
+      const data = mergeBackupData(getCurrentData(), backup.data, mode);
+
+      await restoreBookmarks(data.bookmarks, data.bookmarkFolders);
+      restoreHighlights(
+        data.highlights,
+        data.wordHighlights,
+        data.highlightPalette
+      );
+      restoreNotes(data.notes);
+      restoreReadingPlans(data.readingPlans);
+      restoreReadingProgress(data.readingProgress);
+
+      const { settings } = data;
+      if (settings.theme) setTheme(settings.theme);
+      if (settings.colorScheme) setColorScheme(settings.colorScheme);
+      if (settings.fontFamily) setFontFamily(settings.fontFamily);
+      if (
+        settings.bibleVersion &&
+        settings.bibleVersion !== currentVersion &&
+        availableVersions.includes(settings.bibleVersion)
+      ) {
+        await switchVersion(settings.bibleVersion);
+      }
+    },
+    [
+      getCurrentData,
+      restoreBookmarks,
+      restoreHighlights,
+      restoreNotes,
+      restoreReadingPlans,
+      restoreReadingProgress,
+      setTheme,
+      setColorScheme,
+      setFontFamily,
+      currentVersion,
+      availableVersions,
+      switchVersion,
+    ]
+  );
+
+  return {
+    getCurrentData,
+    exportBackup,
+    listBackupFiles,
+    pickBackupFile,
+    readBackupFile,
+    restoreBackup,
+  };
+};
@@ -0,0 +1,57 @@
+// file: src/hooks/useConcordance.ts
+import { useCallback } from "react";
+import { SearchOptions, StrongsConcordance } from "../types";
+import { useBibleDatabase } from "../context/BibleDatabaseContext";
+import { cleanDictionaryDefinition } from "./useDictionary";
+import { parseStrongsNumber } from "../utils/strongsUtils";
+
+// Strong's tags are only present in the NASB module
+export const CONCORDANCE_DATABASE = "nasb.sqlite3";
+const DICTIONARY_DATABASE = "secedictionary.sqlite3";
+
+export const useConcordance = () => {
+  const { getDatabase } = useBibleDatabase();
+
+  const loadConcordance = useCallback(
+    async (
+      strongNumber: string,
+      options?: SearchOptions
+    ): Promise<StrongsConcordance> => {
+      if (!parseStrongsNumber(strongNumber)) {
+        throw new Error(`"${strongNumber}" is not a valid Strong's number`);
+      }
+
+      const nasbDB = await getDatabase(CONCORDANCE_DATABASE);
+      if (!nasbDB) {
+        throw new Error("NASB database not loaded");
+      }
+
+      return await nasbDB.getStrongsConcordance(strongNumber, options);
+    },
+    [getDatabase]
+  );
+
+  // First paragraph of the dictionary entry, used as a heading for results
+  const loadDefinitionSummary = useCallback(
+    async (strongNumber: string): Promise<string | null> => {
+      const parsed = parseStrongsNumber(strongNumber);
+      if (!parsed) return null;
+
+      try {
+        const dictionaryDB = await getDatabase(DICTIONARY_DATABASE);
+        const definition = await dictionaryDB?.getDictionaryDefinition(
+          parsed.full
+        );
+        if (!definition) return null;
+
+        return cleanDictionaryDefinition(definition).split("\n\n")[0] || null;
+      } catch (error) {
+        console.error(`[Concordance] Error loading definition:`, error);
+        return null;
+      }
+    },
+    [getDatabase]
+  );
+
+  return { loadConcordance, loadDefinitionSummary };
+};
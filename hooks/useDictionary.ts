@@ -1,10 +1,28 @@
 // file: src/hooks/useDictionary.ts
 import { useCallback } from "react";
-import { Verse } from "../types";
+import { DictionaryEntry, Verse } from "../types";
 import { useBibleDatabase } from "../context/BibleDatabaseContext";
 import { getVersionKey, stripTags } from "../utils/bibleDatabaseUtils";
 import { getTestament } from "../utils/testamentUtils";
 
+// Clean up dictionary text - remove HTML tags and extra whitespace but preserve line breaks
+export const cleanDictionaryDefinition = (definition: string): string => {
+  let cleanedDefinition = stripTags(definition)
+    .replace(/\u200e/g, "") // remove LRM
+    .replace(/&#x200e;/gi, "") // remove entity if present
+    .replace(/\.\s+/g, ".\n\n")
+    .trim();
+
+  cleanedDefinition = cleanedDefinition.replace(
+    /LN:\s*\d+(?:\.\d+)?(?:\s*,\s*\d+(?:\.\d+)?)*\s*(?:;)?\s*(?=[A-Za-z]|$)/gi,
+    ""
+  );
+
+  return cleanedDefinition
+    .replace(/([a-zA-Z])(KJV)/gi, "$1 KJV")
+    .replace(/([a-zA-Z])(Derivation)/gi, "$1 Derivation");
+};
+
 export const useDictionary = (displayVersion: string | undefined) => {
   const { getDatabase } = useBibleDatabase();
 
@@ -37,8 +55,8 @@ export const useDictionary = (displayVersion: string | undefined) => {
           verse.book_number,
           verse.book_name || ""
         );
-        const isNewTestament = testament === "NT";
-        const prefix = isNewTestament ? "G" : "H";
+        // Greek numbers cover the Apocrypha as well as the New Testament
+        const prefix = testament === "OT" ? "H" : "G";
         const strongNumber = `${prefix}${tagContent}`;
 
         console.log(
@@ -49,26 +67,12 @@ export const useDictionary = (displayVersion: string | undefined) => {
           await dictionaryDB.getDictionaryDefinition(strongNumber);
 
         if (definition) {
-          // Clean up the definition text - remove HTML tags and extra whitespace but preserve line breaks
-          let cleanedDefinition = stripTags(definition)
-            .replace(/\u200e/g, "") // remove LRM
-            .replace(/&#x200e;/gi, "") // remove entity if present
-            .replace(/\.\s+/g, ".\n\n")
-            .trim();
-
-          cleanedDefinition = cleanedDefinition.replace(
-            /LN:\s*\d+(?:\.\d+)?(?:\s*,\s*\d+(?:\.\d+)?)*\s*(?:;)?\s*(?=[A-Za-z]|$)/gi,
-            ""
-          );
-
-          cleanedDefinition = cleanedDefinition
-            .replace(/([a-zA-Z])(KJV)/gi, "$1 KJV")
-            .replace(/([a-zA-Z])(Derivation)/gi, "$1 Derivation");
-
-          return `Strong's ${strongNumber} (${isNewTestament ? "Greek" : "Hebrew"}):\n\n${cleanedDefinition}`;
+          const cleanedDefinition = cleanDictionaryDefinition(definition);
+
+          return `Strong's ${strongNumber} (${prefix === "G" ? "Greek" : "Hebrew"}):\n\n${cleanedDefinition}`;
         } else {
           console.log(`No definition found for Strong's ${strongNumber}`);
-          return `No definition found for Strong's ${strongNumber} (${isNewTestament ? "Greek" : "Hebrew"})`;
+          return `No definition found for Strong's ${strongNumber} (${prefix === "G" ? "Greek" : "Hebrew"})`;
         }
       } catch (error) {
         console.error(`[Dictionary] Error loading definition:`, error);
@@ -78,5 +82,45 @@ export const useDictionary = (displayVersion: string | undefined) => {
     [displayVersion, getDatabase]
   );
 
-  return { loadDictionaryDefinition };
+  // Browse/search entries for the dictionary screen, with cleaned definitions
+  const searchDictionaryEntries = useCallback(
+    async (
+      query: string,
+      limit?: number,
+      offset?: number
+    ): Promise<DictionaryEntry[]> => {
+      const dictionaryDB = await getDatabase("secedictionary.sqlite3");
+      if (!dictionaryDB) {
+        throw new Error("Dictionary database not loaded");
+      }
+
+      const entries = await dictionaryDB.searchDictionary(query, limit, offset);
+      return entries.map((entry) => ({
+        ...entry,
+        definition: cleanDictionaryDefinition(entry.definition),
+      }));
+    },
+    [getDatabase]
+  );
+
+  const loadDictionaryEntry = useCallback(
+    async (topic: string): Promise<DictionaryEntry | null> => {
+      const dictionaryDB = await getDatabase("secedictionary.sqlite3");
+      if (!dictionaryDB) {
+        throw new Error("Dictionary database not loaded");
+      }
+
+      const entry = await dictionaryDB.getDictionaryEntry(topic);
+      return entry
+        ? { ...entry, definition: cleanDictionaryDefinition(entry.definition) }
+        : null;
+    },
+    [getDatabase]
+  );
+
+  return {
+    loadDictionaryDefinition,
+    searchDictionaryEntries,
+    loadDictionaryEntry,
+  };
 };
@@ -0,0 +1,251 @@
+// hooks/useImport.ts
+import { useCallback, useContext } from "react";
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system/legacy";
+import * as SQLite from "expo-sqlite";
+import { Verse } from "../types";
+import { BookmarksContext } from "../context/BookmarksContext";
+import { useHighlights } from "../context/HighlightsContext";
+import { useBibleDatabase } from "../context/BibleDatabaseContext";
+import { stripTags } from "../utils/bibleDatabaseUtils";
+import { getBookInfo } from "../utils/testamentUtils";
+import {
+  ImportKind,
+  ImportResult,
+  ImportedItem,
+  SqliteRow,
+  expandImportedItems,
+  findClosestPaletteEntry,
+  getMyBibleTableKind,
+  parseMyBibleRows,
+  toKjvImportedItem,
+} from "../utils/importers";
+import { alignVerses, getMatchingChapters } from "../utils/versification";
+
+export interface ImportFileInfo {
+  name: string;
+  uri: string;
+}
+
+export interface ImportSummary {
+  bookmarksAdded: number;
+  highlightsAdded: number;
+  alreadyPresent: number;
+}
+
+// Picked MyBible files are copied here, since SQLite opens databases by
+// name within a directory, and deleted once read
+const IMPORT_DIRECTORY = `${FileSystem.documentDirectory}imports`;
+const SQLITE_EXTENSIONS = /\.(sqlite3?|db)$/i;
+
+/**
+ * Bring bookmarks and highlights from other Bible apps into this one.
+ * Parsing lives in utils/importers; this hook reads files and applies the
+ * parsed rows to the bookmarks and highlights contexts.
+ */
+export const useImport = () => {
+  const { importBookmarks } = useContext(BookmarksContext);
+  const { palette, importHighlights } = useHighlights();
+  const { bibleDB } = useBibleDatabase();
+
+  // Let the user choose a file on the device or in a cloud drive. Resolves
+  // to null when the picker is dismissed.
+  const pickImportFile =
+    useCallback(async (): Promise<ImportFileInfo | null> => {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: "*/*",
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled || picked.assets.length === 0) return null;
+
+      const [asset] = picked.assets;
+      return { name: asset.name, uri: asset.uri };
+    }, []);
+
+  // Text of a picked CSV or OSIS file
+  const readTextFile = useCallback(
+    (file: ImportFileInfo): Promise<string> =>
+      FileSystem.readAsStringAsync(file.uri),
+    []
+  );
+
+  // Read every bookmarks/highlights table of a MyBible user data file
+  const readMyBibleFile = useCallback(
+    async (file: ImportFileInfo): Promise<ImportResult> => {
+      if (!SQLITE_EXTENSIONS.test(file.name)) {
+        throw new Error(
+          "Choose a MyBible bookmarks or highlights file (.SQLite3 or .db)."
+        );
+      }
+
+      const dirInfo = await FileSystem.getInfoAsync(IMPORT_DIRECTORY);
+      if (!dirInfo.exists) {
+        await FileSystem.makeDirectoryAsync(IMPORT_DIRECTORY, {
+          intermediates: true,
+        });
+      }
+      const copyName = `import-${Date.now()}.sqlite3`;
+      const copyUri = `${IMPORT_DIRECTORY}/${copyName}`;
+      await FileSystem.copyAsync({ from: file.uri, to: copyUri });
+
+      const db = await SQLite.openDatabaseAsync(
+        copyName,
+        undefined,
+        IMPORT_DIRECTORY
+      );
+      const result: ImportResult = { items: [], skipped: [] };
+
+      try {
+        const tables = await db.getAllAsync<{ name: string }>(
+          "SELECT name FROM sqlite_master WHERE type = 'table'"
+        );
+        for (const { name } of tables) {
+          const kind = getMyBibleTableKind(name);
+          if (!kind) continue;
+
+          const rows = await db.getAllAsync<SqliteRow>(
+            `SELECT * FROM "${name.replace(/"/g, '""')}"`
+          );
+          const tableResult = parseMyBibleRows(name, rows, kind);
+          result.items.push(...tableResult.items);
+          result.skipped.push(...tableResult.skipped);
+        }
+      } finally {
+        await db.closeAsync();
+        await FileSystem.deleteAsync(copyUri, { idempotent: true });
+      }
+
+      if (result.items.length === 0 && result.skipped.length === 0) {
+        throw new Error(
+          "No bookmarks or highlights tables were found in this file."
+        );
+      }
+      return result;
+    },
+    []
+  );
+
+  // The verses of each item in the open translation, for bookmark titles
+  // and the length of whole chapters. Items are numbered as in the KJV, so
+  // chapters the translation numbers differently are read and renumbered
+  // the way parallel translations are.
+  const loadVerses = useCallback(
+    async (items: ImportedItem[]): Promise<Verse[][]> => {
+      const scheme = bibleDB?.versification ?? "kjv";
+      const chapters = new Map<string, Verse[]>();
+      const loadChapter = async (
+        bookNumber: number,
+        chapter: number
+      ): Promise<Verse[]> => {
+        const key = `${bookNumber}:${chapter}`;
+        let verses = chapters.get(key);
+        if (!verses) {
+          try {
+            verses = bibleDB
+              ? await bibleDB.getVerses(bookNumber, chapter)
+              : [];
+          } catch (error) {
+            console.warn(`Could not load ${key} for imported items:`, error);
+            verses = [];
+          }
+          chapters.set(key, verses);
+        }
+        return verses;
+      };
+
+      const loaded: Verse[][] = [];
+      for (const item of items) {
+        const verseNumbers = expandImportedItems([item]).map((v) => v.verse);
+        const found: Verse[] = [];
+        for (const { book, chapter } of getMatchingChapters(
+          item.bookNumber,
+          item.chapter,
+          verseNumbers,
+          "kjv",
+          scheme
+        )) {
+          found.push(...(await loadChapter(book, chapter)));
+        }
+        const byVerse = new Map(
+          alignVerses(found, scheme, item.bookNumber, item.chapter, "kjv").map(
+            (v) => [v.verse, v]
+          )
+        );
+
+        const numbers =
+          item.wholeChapter && byVerse.size > 0
+            ? Array.from(byVerse.keys())
+            : verseNumbers;
+        loaded.push(
+          numbers.map((verse): Verse => {
+            const match = byVerse.get(verse);
+            return match
+              ? { ...match, text: stripTags(match.text) }
+              : {
+                  book_number: item.bookNumber,
+                  chapter: item.chapter,
+                  verse,
+                  text: "",
+                  book_name: getBookInfo(item.bookNumber)?.short,
+                };
+          })
+        );
+      }
+      return loaded;
+    },
+    [bibleDB]
+  );
+
+  // Bookmarks keep their ranges and chapters; highlights are stored a verse
+  // at a time
+  const applyImport = useCallback(
+    async (result: ImportResult): Promise<ImportSummary> => {
+      const scheme = result.versification ?? bibleDB?.versification ?? "kjv";
+      const items = result.items.map((item) => toKjvImportedItem(item, scheme));
+      const byKind = (kind: ImportKind) =>
+        items.filter((item) => item.kind === kind);
+
+      const bookmarkItems = byKind("bookmark");
+      const bookmarkVerses = await loadVerses(bookmarkItems);
+      const bookmarksAdded = importBookmarks(
+        bookmarkItems.map((item, index) => ({
+          verses: bookmarkVerses[index],
+          wholeChapter: item.wholeChapter,
+          note: item.note,
+        }))
+      );
+
+      const highlightItems = byKind("highlight");
+      const highlightVerses = await loadVerses(highlightItems);
+      const highlights = highlightItems.flatMap((item, index) => {
+        const colorId =
+          findClosestPaletteEntry(item.color, palette)?.id ?? palette[0].id;
+        return highlightVerses[index].map((verse) => ({
+          bookId: verse.book_number,
+          chapter: verse.chapter,
+          verse: verse.verse,
+          colorId,
+        }));
+      });
+      const highlightsAdded = importHighlights(highlights);
+
+      return {
+        bookmarksAdded,
+        highlightsAdded,
+        alreadyPresent:
+          bookmarkItems.length -
+          bookmarksAdded +
+          highlights.length -
+          highlightsAdded,
+      };
+    },
+    [bibleDB, importBookmarks, importHighlights, loadVerses, palette]
+  );
+
+  return {
+    pickImportFile,
+    readTextFile,
+    readMyBibleFile,
+    applyImport,
+  };
+};
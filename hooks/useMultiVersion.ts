@@ -4,36 +4,61 @@ import { Alert, ScrollView } from "react-native";
 import { Verse } from "../types";
 import { BibleDatabase } from "../services/BibleDatabase";
 import { useBibleDatabase } from "../context/BibleDatabaseContext";
+import { getVersionVersification } from "../utils/bibleVersionUtils";
+import { alignVerses, getMatchingChapters } from "../utils/versification";
+
+// Translations read side by side: the primary one plus up to three more
+export const MAX_PARALLEL_VERSIONS = 4;
+
+// Panes in columns, or every translation stacked under each verse number
+export type ParallelLayout = "columns" | "interleaved";
 
 export const useMultiVersion = (
   bookId: number,
   chapter: number,
   verses: Verse[]
 ) => {
-  const { currentVersion, availableVersions, switchVersion } =
+  const { bibleDB, currentVersion, availableVersions, getDatabase } =
     useBibleDatabase();
   const [showMultiVersion, setShowMultiVersion] = useState(false);
-  const [secondaryVersion, setSecondaryVersion] = useState<string | null>(null);
-  const [secondaryVerses, setSecondaryVerses] = useState<Verse[]>([]);
+  const [parallelLayout, setParallelLayout] =
+    useState<ParallelLayout>("columns");
+  // Mark how each parallel translation's wording differs from the primary
+  const [showWordDiff, setShowWordDiff] = useState(false);
+  // One entry per parallel pane, in display order
+  const [secondaryVersions, setSecondaryVersions] = useState<string[]>([]);
+  const [secondaryVerses, setSecondaryVerses] = useState<
+    Record<string, Verse[]>
+  >({});
   const [secondaryLoading, setSecondaryLoading] = useState(false);
   const [isSwitchingVersion, setIsSwitchingVersion] = useState(false);
   const [secondaryFailureCount, setSecondaryFailureCount] = useState(0);
-  const secondaryDBCache = useRef<Record<string, BibleDatabase>>({});
-  const secondaryScrollViewRef = useRef<ScrollView>(null);
+  const secondaryScrollViewRefs = useRef<
+    Record<string, React.RefObject<ScrollView | null>>
+  >({});
   const [secondaryVerseMeasurements, setSecondaryVerseMeasurements] = useState<
-    Record<number, number>
+    Record<string, Record<number, number>>
+  >({});
+  const [secondaryContentHeights, setSecondaryContentHeights] = useState<
+    Record<string, number>
   >({});
-  const [secondaryContentHeight, setSecondaryContentHeight] = useState(1);
+
+  // First translation not already on screen, if any
+  const getUnusedVersion = useCallback(
+    (usedVersions: string[]) =>
+      availableVersions.find(
+        (v) => v !== currentVersion && !usedVersions.includes(v)
+      ),
+    [availableVersions, currentVersion]
+  );
 
   const toggleMultiVersion = useCallback(async () => {
     setSecondaryFailureCount(0);
     if (!showMultiVersion) {
-      if (!secondaryVersion) {
-        const otherVersions = availableVersions.filter(
-          (v) => v !== currentVersion
-        );
-        if (otherVersions.length > 0) {
-          setSecondaryVersion(otherVersions[0]);
+      if (secondaryVersions.length === 0) {
+        const otherVersion = getUnusedVersion([]);
+        if (otherVersion) {
+          setSecondaryVersions([otherVersion]);
         } else {
           Alert.alert("Info", "No other Bible versions available");
           return;
@@ -42,12 +67,12 @@ export const useMultiVersion = (
       setShowMultiVersion(true);
     } else {
       setShowMultiVersion(false);
-      setSecondaryVerses([]);
+      setSecondaryVerses({});
     }
-  }, [showMultiVersion, secondaryVersion, availableVersions, currentVersion]);
+  }, [showMultiVersion, secondaryVersions, getUnusedVersion]);
 
   const handleSecondaryVersionSelect = useCallback(
-    (version: string) => {
+    (paneIndex: number, version: string) => {
       if (version === currentVersion) {
         Alert.alert(
           "Error",
@@ -55,18 +80,64 @@ export const useMultiVersion = (
         );
         return;
       }
-      setSecondaryVersion(version);
+      if (secondaryVersions.some((v, i) => v === version && i !== paneIndex)) {
+        Alert.alert("Error", "This version is already shown in another pane");
+        return;
+      }
+      setSecondaryVersions((prev) =>
+        prev.map((v, i) => (i === paneIndex ? version : v))
+      );
+    },
+    [currentVersion, secondaryVersions]
+  );
+
+  const canAddSecondaryVersion =
+    secondaryVersions.length < MAX_PARALLEL_VERSIONS - 1 &&
+    getUnusedVersion(secondaryVersions) !== undefined;
+
+  const addSecondaryVersion = useCallback(() => {
+    if (secondaryVersions.length >= MAX_PARALLEL_VERSIONS - 1) return;
+    const otherVersion = getUnusedVersion(secondaryVersions);
+    if (!otherVersion) {
+      Alert.alert("Info", "No other Bible versions available");
+      return;
+    }
+    setSecondaryVersions((prev) => [...prev, otherVersion]);
+    setShowMultiVersion(true);
+  }, [secondaryVersions, getUnusedVersion]);
+
+  // Removing the last parallel pane leaves single-version reading
+  const removeSecondaryVersion = useCallback(
+    (paneIndex: number) => {
+      if (secondaryVersions.length <= 1) {
+        setShowMultiVersion(false);
+        setSecondaryVerses({});
+        return;
+      }
+      setSecondaryVersions((prev) => prev.filter((_, i) => i !== paneIndex));
     },
-    [currentVersion]
+    [secondaryVersions.length]
   );
 
+  const getSecondaryScrollViewRef = useCallback((version: string) => {
+    if (!secondaryScrollViewRefs.current[version]) {
+      secondaryScrollViewRefs.current[version] = { current: null };
+    }
+    return secondaryScrollViewRefs.current[version];
+  }, []);
+
   const loadSecondaryVerses = useCallback(
-    async (dbInstance: BibleDatabase, retryCount = 0) => {
+    async (
+      dbInstance: BibleDatabase,
+      book: number,
+      chapterNumber: number,
+      retryCount = 0
+    ): Promise<Verse[]> => {
       const maxRetries = 3;
       if (retryCount >= maxRetries)
         throw new Error(`Failed after ${maxRetries} retries`);
       try {
-        return await dbInstance.getVerses(bookId, chapter);
+        return await dbInstance.getVerses(book, chapterNumber);
       } catch (error) {
         console.error(
           `Secondary load attempt ${retryCount + 1} failed:`,
@@ -74,47 +145,105 @@ export const useMultiVersion = (
         );
         if (retryCount < maxRetries - 1) {
           await new Promise((resolve) => setTimeout(resolve, 500));
-          return loadSecondaryVerses(dbInstance, retryCount + 1);
+          return loadSecondaryVerses(
+            dbInstance,
+            book,
+            chapterNumber,
+            retryCount + 1
+          );
         }
         throw error;
       }
     },
-    [bookId, chapter]
+    []
+  );
+
+  // Databases come from the shared cache in BibleDatabaseContext, which
+  // also closes them
+  const loadVersionVerses = useCallback(
+    async (dbName: string): Promise<Verse[]> => {
+      if (dbName === currentVersion) return verses;
+      const dbInstance = await getDatabase(dbName);
+      if (!dbInstance) throw new Error(`Could not open ${dbName}`);
+
+      const primaryScheme =
+        bibleDB?.versification ?? getVersionVersification(currentVersion);
+      if (dbInstance.versification === primaryScheme) {
+        return loadSecondaryVerses(dbInstance, bookId, chapter);
+      }
+      // Numbered differently: fetch every chapter holding this chapter's
+      // verses and renumber them to match the primary translation
+      const chapters = getMatchingChapters(
+        bookId,
+        chapter,
+        verses.map((v) => v.verse),
+        primaryScheme,
+        dbInstance.versification
+      );
+      const chapterVerses = await Promise.all(
+        chapters.map((c) => loadSecondaryVerses(dbInstance, c.book, c.chapter))
+      );
+      return alignVerses(
+        chapterVerses.flat(),
+        dbInstance.versification,
+        bookId,
+        chapter,
+        primaryScheme
+      );
+    },
+    [
+      bookId,
+      chapter,
+      bibleDB,
+      currentVersion,
+      verses,
+      getDatabase,
+      loadSecondaryVerses,
+    ]
   );
 
   useEffect(() => {
     const loadSecondary = async () => {
-      if (!showMultiVersion || !secondaryVersion || !verses.length) return;
+      if (!showMultiVersion || !secondaryVersions.length || !verses.length)
+        return;
       setSecondaryLoading(true);
       try {
-        let secondaryChapterVerses: Verse[] = [];
-        const dbName = secondaryVersion;
-        let dbInstance = secondaryDBCache.current[dbName];
-        if (!dbInstance) {
-          dbInstance = new BibleDatabase(dbName);
-          await dbInstance.init();
-          secondaryDBCache.current[dbName] = dbInstance;
-        }
-        if (secondaryVersion === currentVersion) {
-          secondaryChapterVerses = verses;
-        } else {
-          secondaryChapterVerses = await loadSecondaryVerses(dbInstance!);
+        const results = await Promise.allSettled(
+          secondaryVersions.map(loadVersionVerses)
+        );
+        const loaded: Record<string, Verse[]> = {};
+        const failedVersions: string[] = [];
+        results.forEach((result, i) => {
+          if (result.status === "fulfilled") {
+            loaded[secondaryVersions[i]] = result.value;
+          } else {
+            console.error("Failed to load secondary version:", result.reason);
+            loaded[secondaryVersions[i]] = [];
+            failedVersions.push(secondaryVersions[i]);
+          }
+        });
+        setSecondaryVerses(loaded);
+
+        if (failedVersions.length === 0) {
+          setSecondaryFailureCount(0);
+          return;
         }
-        setSecondaryFailureCount(0);
-        setSecondaryVerses(secondaryChapterVerses);
-      } catch (error) {
-        console.error("Failed to load secondary version:", error);
         const newFailureCount = secondaryFailureCount + 1;
         setSecondaryFailureCount(newFailureCount);
         if (newFailureCount >= 3) {
+          const remaining = secondaryVersions.filter(
+            (v) => !failedVersions.includes(v)
+          );
           Alert.alert(
             "Version Load Error",
-            `Failed to load ${secondaryVersion}. Disabling multi-version.`
+            remaining.length > 0
+              ? `Failed to load ${failedVersions.join(", ")}. Removing it from the parallel view.`
+              : `Failed to load ${failedVersions.join(", ")}. Disabling multi-version.`
           );
-          setShowMultiVersion(false);
-          setSecondaryVersion(null);
+          if (remaining.length === 0) setShowMultiVersion(false);
+          setSecondaryVersions(remaining);
+          setSecondaryFailureCount(0);
         }
-        setSecondaryVerses([]);
       } finally {
         setSecondaryLoading(false);
       }
@@ -122,33 +251,26 @@ export const useMultiVersion = (
     loadSecondary();
   }, [
     showMultiVersion,
-    secondaryVersion,
-    currentVersion,
+    secondaryVersions,
     bookId,
     chapter,
     verses,
-    loadSecondaryVerses,
+    loadVersionVerses,
     secondaryFailureCount,
   ]);
 
-  useEffect(() => {
-    if (!showMultiVersion && Object.keys(secondaryDBCache.current).length > 0) {
-      Object.values(secondaryDBCache.current).forEach((db) =>
-        db.close().catch(console.error)
-      );
-      secondaryDBCache.current = {};
-    }
-  }, [showMultiVersion]);
-
   const handleSecondaryVerseLayout = useCallback(
-    (verseNumber: number, event: any) => {
+    (version: string, verseNumber: number, event: any) => {
       // LayoutChangeEvent removed for simplicity, adjust if needed
       const { height } = event.nativeEvent.layout;
       if (height > 0) {
         setSecondaryVerseMeasurements((prev) =>
-          prev[verseNumber] === height
+          prev[version]?.[verseNumber] === height
             ? prev
-            : { ...prev, [verseNumber]: height }
+            : {
+                ...prev,
+                [version]: { ...prev[version], [verseNumber]: height },
+              }
         );
       }
     },
@@ -156,32 +278,35 @@ export const useMultiVersion = (
   );
 
   const handleSecondaryContentSizeChange = useCallback(
-    (w: number, h: number) => {
-      setSecondaryContentHeight(h);
+    (version: string, w: number, h: number) => {
+      setSecondaryContentHeights((prev) =>
+        prev[version] === h ? prev : { ...prev, [version]: h }
+      );
     },
     []
   );
 
-  const handleSecondaryScroll = useCallback((event: any) => {
-    // Sync logic will be in useScrollSync
-  }, []);
-
   return {
     showMultiVersion,
     setShowMultiVersion,
-    secondaryVersion,
-    setSecondaryVersion,
+    parallelLayout,
+    setParallelLayout,
+    showWordDiff,
+    setShowWordDiff,
+    secondaryVersions,
     secondaryVerses,
     secondaryLoading,
     isSwitchingVersion,
     setIsSwitchingVersion, // Added this line to fix the error
-    secondaryScrollViewRef,
+    getSecondaryScrollViewRef,
     secondaryVerseMeasurements,
-    secondaryContentHeight,
+    secondaryContentHeights,
     toggleMultiVersion,
     handleSecondaryVersionSelect,
+    canAddSecondaryVersion,
+    addSecondaryVersion,
+    removeSecondaryVersion,
     handleSecondaryVerseLayout,
     handleSecondaryContentSizeChange,
-    handleSecondaryScroll,
   };
 };
@@ -16,6 +16,7 @@ export const useNavigationModal = (
   const [showNavigation, setShowNavigation] = useState(false);
   const [books, setBooks] = useState<Book[]>([]);
   const [oldTestament, setOldTestament] = useState<Book[]>([]);
+  const [apocrypha, setApocrypha] = useState<Book[]>([]);
   const [newTestament, setNewTestament] = useState<Book[]>([]);
   const [chapters, setChapters] = useState<ChapterInfo[]>([]);
   const [versesList, setVersesList] = useState<number[]>([]);
@@ -44,6 +45,7 @@ export const useNavigationModal = (
       }));
       setBooks(booksWithTestament);
       setOldTestament(booksWithTestament.filter((b) => b.testament === "OT"));
+      setApocrypha(booksWithTestament.filter((b) => b.testament === "AP"));
       setNewTestament(booksWithTestament.filter((b) => b.testament === "NT"));
     } catch (error) {
       console.error("Failed to load books:", error);
@@ -205,6 +207,7 @@ export const useNavigationModal = (
     setShowNavigation,
     books,
     oldTestament,
+    apocrypha,
     newTestament,
     chapters,
     versesList,
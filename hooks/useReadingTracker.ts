@@ -0,0 +1,87 @@
+// file: src/hooks/useReadingTracker.ts
+import { useCallback, useEffect, useRef } from "react";
+import { Verse } from "../types";
+import { useReadingProgress } from "../context/ReadingProgressContext";
+import { READ_DEPTH_THRESHOLD } from "./useScrollSync";
+
+// Wait for scrolling to settle before saving the position
+const POSITION_SAVE_DELAY = 1000;
+const defaultVerseHeight = 80;
+
+/**
+ * Records the reader's place in the open chapter for "continue reading",
+ * and marks the chapter read once enough of it has been on screen.
+ * Pass the returned handler to useScrollSync as onScrollDepth.
+ */
+export const useReadingTracker = (
+  version: string,
+  bookId: number,
+  chapter: number,
+  targetVerse: number | undefined,
+  verses: Verse[],
+  verseMeasurements: Record<number, number>
+) => {
+  const { savePosition, markChapterRead } = useReadingProgress();
+  const maxDepthRef = useRef(0);
+  const markedReadRef = useRef(false);
+  const saveTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Latest values for the delayed save
+  const versesRef = useRef(verses);
+  const measurementsRef = useRef(verseMeasurements);
+  versesRef.current = verses;
+  measurementsRef.current = verseMeasurements;
+
+  // Opening a chapter is enough to resume there later
+  useEffect(() => {
+    if (saveTimeout.current) clearTimeout(saveTimeout.current);
+    maxDepthRef.current = 0;
+    markedReadRef.current = false;
+    savePosition(version, {
+      bookNumber: bookId,
+      chapter,
+      verse: targetVerse || 1,
+      percentage: 0,
+    });
+  }, [version, bookId, chapter, targetVerse, savePosition]);
+
+  // First verse at the top of the viewport
+  const getTopVerse = useCallback((offsetY: number): number => {
+    let cumulative = 0;
+    for (const verse of versesRef.current) {
+      cumulative += measurementsRef.current[verse.verse] || defaultVerseHeight;
+      if (offsetY < cumulative) return verse.verse;
+    }
+    return versesRef.current[versesRef.current.length - 1]?.verse || 1;
+  }, []);
+
+  const handleScrollDepth = useCallback(
+    (offsetY: number, depth: number) => {
+      maxDepthRef.current = Math.max(maxDepthRef.current, depth);
+
+      if (!markedReadRef.current && depth >= READ_DEPTH_THRESHOLD) {
+        markedReadRef.current = true;
+        markChapterRead(version, bookId, chapter);
+      }
+
+      if (saveTimeout.current) clearTimeout(saveTimeout.current);
+      saveTimeout.current = setTimeout(() => {
+        savePosition(version, {
+          bookNumber: bookId,
+          chapter,
+          verse: getTopVerse(offsetY),
+          percentage: Math.round(maxDepthRef.current * 100),
+        });
+      }, POSITION_SAVE_DELAY);
+    },
+    [version, bookId, chapter, markChapterRead, savePosition, getTopVerse]
+  );
+
+  useEffect(() => {
+    return () => {
+      if (saveTimeout.current) clearTimeout(saveTimeout.current);
+    };
+  }, []);
+
+  return { handleScrollDepth };
+};
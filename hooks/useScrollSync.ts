@@ -1,5 +1,5 @@
 // Updated hooks/useScrollSync.ts
-import { useCallback, useRef, useEffect } from "react";
+import { useCallback, useRef, useEffect, useMemo } from "react";
 import {
   NativeSyntheticEvent,
   NativeScrollEvent,
@@ -8,15 +8,25 @@ import {
 import { Animated } from "react-native";
 import { Verse } from "../types";
 
+// Share of a chapter (bottom of the viewport / content height) that must
+// have been on screen before it counts as read
+export const READ_DEPTH_THRESHOLD = 0.9;
+
+// A scroll view kept verse-aligned with the others in the parallel view
+export interface ScrollSyncPane {
+  verses: Verse[];
+  verseMeasurements: Record<number, number>;
+  contentHeight: number;
+  scrollViewRef: React.RefObject<ScrollView | null>;
+}
+
 export const useScrollSync = (
   showMultiVersion: boolean,
   scrollViewHeight: number,
   contentHeight: number,
-  secondaryContentHeight: number,
   verses: Verse[],
   verseMeasurements: Record<number, number>,
-  secondaryVerses: Verse[],
-  secondaryVerseMeasurements: Record<number, number>,
+  secondaryPanes: ScrollSyncPane[],
   isLandscape: boolean,
   isFullScreen: boolean,
   setIsFullScreen: (full: boolean) => void,
@@ -25,135 +35,117 @@ export const useScrollSync = (
   scrollY: Animated.Value,
   setShowEnd: (show: boolean) => void,
   primaryScrollViewRef: React.RefObject<ScrollView | null>,
-  secondaryScrollViewRef: React.RefObject<ScrollView | null>
+  onScrollDepth?: (offsetY: number, depth: number) => void
 ) => {
   const isSyncing = useRef(false);
-  const lastPrimaryOffset = useRef(0);
-  const lastSecondaryOffset = useRef(0);
-  const primarySyncTimeout = useRef<NodeJS.Timeout | null>(null);
-  const secondarySyncTimeout = useRef<NodeJS.Timeout | null>(null);
+  // Last offset of every pane; the primary pane is index 0
+  const lastOffsets = useRef<number[]>([]);
+  const syncTimeouts = useRef<(NodeJS.Timeout | null)[]>([]);
   const defaultVerseHeight = 80;
 
-  const syncToSecondary = useCallback(() => {
-    if (!showMultiVersion || isSyncing.current) return;
-    isSyncing.current = true;
-    const primaryOffset = lastPrimaryOffset.current;
-    const viewHeight = scrollViewHeight;
-    let targetY = 0;
-    const maxSecondary = Math.max(secondaryContentHeight - viewHeight, 0);
+  const panes = useMemo<ScrollSyncPane[]>(
+    () => [
+      {
+        verses,
+        verseMeasurements,
+        contentHeight,
+        scrollViewRef: primaryScrollViewRef,
+      },
+      ...secondaryPanes,
+    ],
+    [
+      verses,
+      verseMeasurements,
+      contentHeight,
+      primaryScrollViewRef,
+      secondaryPanes,
+    ]
+  );
 
-    let cumulative = 0;
-    let verseIndex = -1;
-    for (let i = 0; i < verses.length; i++) {
-      const verseNum = verses[i].verse;
-      const height = verseMeasurements[verseNum] || defaultVerseHeight;
-      if (primaryOffset < cumulative + height) {
-        verseIndex = i;
-        break;
-      }
-      cumulative += height;
-    }
+  // Offset in target that shows the verse at offset in source at the same
+  // position, falling back to the same share of the chapter when the verse
+  // is missing from target
+  const getAlignedOffset = useCallback(
+    (source: ScrollSyncPane, target: ScrollSyncPane, offset: number) => {
+      const viewHeight = scrollViewHeight;
+      const maxTarget = Math.max(target.contentHeight - viewHeight, 0);
 
-    if (verseIndex !== -1) {
-      const startY = cumulative;
-      const verseNum = verses[verseIndex].verse;
-      const secIndex = secondaryVerses.findIndex((v) => v.verse === verseNum);
-      if (secIndex !== -1) {
-        let secCumulative = 0;
-        for (let j = 0; j < secIndex; j++) {
-          secCumulative +=
-            secondaryVerseMeasurements[secondaryVerses[j].verse] ||
-            defaultVerseHeight;
+      let cumulative = 0;
+      let verseIndex = -1;
+      for (let i = 0; i < source.verses.length; i++) {
+        const verseNum = source.verses[i].verse;
+        const height = source.verseMeasurements[verseNum] || defaultVerseHeight;
+        if (offset < cumulative + height) {
+          verseIndex = i;
+          break;
         }
-        targetY = secCumulative - startY + primaryOffset;
-      } else {
-        const maxPrimary = Math.max(contentHeight - viewHeight, 0);
-        const progress = maxPrimary > 0 ? primaryOffset / maxPrimary : 0;
-        targetY = progress * maxSecondary;
-      }
-    } else {
-      targetY = maxSecondary;
-    }
-
-    targetY = Math.max(0, Math.min(targetY, maxSecondary));
-    // Assume secondaryScrollViewRef is passed or global
-    secondaryScrollViewRef.current?.scrollTo({ y: targetY, animated: false });
-    requestAnimationFrame(() => {
-      isSyncing.current = false;
-    });
-  }, [
-    showMultiVersion,
-    scrollViewHeight,
-    contentHeight,
-    secondaryContentHeight,
-    verses,
-    verseMeasurements,
-    secondaryVerses,
-    secondaryVerseMeasurements,
-  ]);
-
-  const syncToPrimary = useCallback(() => {
-    if (!showMultiVersion || isSyncing.current) return;
-    isSyncing.current = true;
-    const secondaryOffset = lastSecondaryOffset.current;
-    const viewHeight = scrollViewHeight;
-    let targetY = 0;
-    const maxPrimary = Math.max(contentHeight - viewHeight, 0);
-
-    let cumulative = 0;
-    let verseIndex = -1;
-    for (let i = 0; i < secondaryVerses.length; i++) {
-      const verseNum = secondaryVerses[i].verse;
-      const height = secondaryVerseMeasurements[verseNum] || defaultVerseHeight;
-      if (secondaryOffset < cumulative + height) {
-        verseIndex = i;
-        break;
+        cumulative += height;
       }
-      cumulative += height;
-    }
 
-    if (verseIndex !== -1) {
-      const startY = cumulative;
-      const verseNum = secondaryVerses[verseIndex].verse;
-      const priIndex = verses.findIndex((v) => v.verse === verseNum);
-      if (priIndex !== -1) {
-        let priCumulative = 0;
-        for (let j = 0; j < priIndex; j++) {
-          priCumulative +=
-            verseMeasurements[verses[j].verse] || defaultVerseHeight;
+      let targetY = maxTarget;
+      if (verseIndex !== -1) {
+        const verseNum = source.verses[verseIndex].verse;
+        const targetIndex = target.verses.findIndex(
+          (v) => v.verse === verseNum
+        );
+        if (targetIndex !== -1) {
+          let targetCumulative = 0;
+          for (let j = 0; j < targetIndex; j++) {
+            targetCumulative +=
+              target.verseMeasurements[target.verses[j].verse] ||
+              defaultVerseHeight;
+          }
+          targetY = targetCumulative - cumulative + offset;
+        } else {
+          const maxSource = Math.max(source.contentHeight - viewHeight, 0);
+          const progress = maxSource > 0 ? offset / maxSource : 0;
+          targetY = progress * maxTarget;
         }
-        targetY = priCumulative - startY + secondaryOffset;
-      } else {
-        const maxSecondary = Math.max(secondaryContentHeight - viewHeight, 0);
-        const progress = maxSecondary > 0 ? secondaryOffset / maxSecondary : 0;
-        targetY = progress * maxPrimary;
       }
-    } else {
-      targetY = maxPrimary;
-    }
+      return Math.max(0, Math.min(targetY, maxTarget));
+    },
+    [scrollViewHeight]
+  );
 
-    targetY = Math.max(0, Math.min(targetY, maxPrimary));
-    primaryScrollViewRef.current?.scrollTo({ y: targetY, animated: false });
-    scrollY.setValue(targetY);
-    requestAnimationFrame(() => {
-      isSyncing.current = false;
-    });
-  }, [
-    showMultiVersion,
-    scrollViewHeight,
-    contentHeight,
-    secondaryContentHeight,
-    secondaryVerses,
-    secondaryVerseMeasurements,
-    verses,
-    verseMeasurements,
-    scrollY,
-  ]);
+  // Scroll every other pane to the verse at the top of the given one
+  const syncFromPane = useCallback(
+    (paneIndex: number) => {
+      if (!showMultiVersion || isSyncing.current) return;
+      const source = panes[paneIndex];
+      if (!source) return;
+      isSyncing.current = true;
+      const offset = lastOffsets.current[paneIndex] || 0;
+
+      panes.forEach((target, i) => {
+        if (i === paneIndex) return;
+        const targetY = getAlignedOffset(source, target, offset);
+        target.scrollViewRef.current?.scrollTo({ y: targetY, animated: false });
+        lastOffsets.current[i] = targetY;
+        if (i === 0) scrollY.setValue(targetY);
+      });
+      requestAnimationFrame(() => {
+        isSyncing.current = false;
+      });
+    },
+    [showMultiVersion, panes, getAlignedOffset, scrollY]
+  );
+
+  const scheduleSync = useCallback(
+    (paneIndex: number) => {
+      const pending = syncTimeouts.current[paneIndex];
+      if (pending) clearTimeout(pending);
+      syncTimeouts.current[paneIndex] = setTimeout(
+        () => syncFromPane(paneIndex),
+        150
+      );
+    },
+    [syncFromPane]
+  );
 
   const handleScroll = useCallback(
     (event: NativeSyntheticEvent<NativeScrollEvent>) => {
       const offsetY = event.nativeEvent.contentOffset.y;
-      lastPrimaryOffset.current = offsetY;
+      lastOffsets.current[0] = offsetY;
       if (isLandscape) {
         const scrollDelta = offsetY - lastScrollYRef.current;
         if (scrollDelta > scrollThreshold && !isFullScreen && offsetY > 100)
@@ -162,24 +154,24 @@ export const useScrollSync = (
       }
       scrollY.setValue(offsetY);
       if (isSyncing.current) return;
-      if (primarySyncTimeout.current) clearTimeout(primarySyncTimeout.current);
-      primarySyncTimeout.current = setTimeout(syncToSecondary, 150);
+      scheduleSync(0);
     },
     [
       isLandscape,
       scrollThreshold,
       isFullScreen,
-      syncToSecondary,
+      scheduleSync,
       scrollY,
       setIsFullScreen,
       lastScrollYRef,
     ]
   );
 
+  // paneIndex counts the secondary panes only
   const handleSecondaryScroll = useCallback(
-    (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    (paneIndex: number, event: NativeSyntheticEvent<NativeScrollEvent>) => {
       const offsetY = event.nativeEvent.contentOffset.y;
-      lastSecondaryOffset.current = offsetY;
+      lastOffsets.current[paneIndex + 1] = offsetY;
       if (isLandscape) {
         const scrollDelta = offsetY - lastScrollYRef.current;
         if (scrollDelta > scrollThreshold && !isFullScreen && offsetY > 100)
@@ -187,15 +179,13 @@ export const useScrollSync = (
         lastScrollYRef.current = offsetY;
       }
       if (isSyncing.current) return;
-      if (secondarySyncTimeout.current)
-        clearTimeout(secondarySyncTimeout.current);
-      secondarySyncTimeout.current = setTimeout(syncToPrimary, 150);
+      scheduleSync(paneIndex + 1);
     },
     [
       isLandscape,
       scrollThreshold,
       isFullScreen,
-      syncToPrimary,
+      scheduleSync,
       lastScrollYRef,
       setIsFullScreen,
     ]
@@ -205,6 +195,12 @@ export const useScrollSync = (
     const listener = scrollY.addListener(({ value }) => {
       if (value + scrollViewHeight >= contentHeight - 20) setShowEnd(true);
       else setShowEnd(false);
+      if (onScrollDepth && contentHeight > 0) {
+        onScrollDepth(
+          value,
+          Math.min((value + scrollViewHeight) / contentHeight, 1)
+        );
+      }
       if (isLandscape) {
         const scrollDelta = value - lastScrollYRef.current;
         if (scrollDelta > scrollThreshold && !isFullScreen && value > 100) {
@@ -224,40 +220,38 @@ export const useScrollSync = (
     lastScrollYRef,
     isFullScreen,
     setIsFullScreen,
+    onScrollDepth,
   ]);
 
+  // Chapters short enough to fit on screen are fully visible without scrolling
   useEffect(() => {
-    if (showMultiVersion && secondaryVerses.length > 0) {
-      const timer = setTimeout(syncToSecondary, 100);
-      return () => clearTimeout(timer);
-    }
-  }, [showMultiVersion, secondaryVerses.length, syncToSecondary]);
+    if (!onScrollDepth || contentHeight <= 0 || scrollViewHeight <= 0) return;
+    if (verses.length === 0) return;
+    if (scrollViewHeight >= contentHeight) onScrollDepth(0, 1);
+  }, [onScrollDepth, contentHeight, scrollViewHeight, verses.length]);
 
-  // Late sync for primary when verses load in multi-version mode
+  // Align newly loaded panes with the primary one
+  const loadedPanesKey = secondaryPanes
+    .map((pane) => pane.verses.length)
+    .join(",");
   useEffect(() => {
-    if (showMultiVersion && verses.length > 0 && secondaryVerses.length > 0) {
-      const timer = setTimeout(syncToSecondary, 100);
+    if (showMultiVersion && verses.length > 0 && secondaryPanes.length > 0) {
+      const timer = setTimeout(() => syncFromPane(0), 100);
       return () => clearTimeout(timer);
     }
-  }, [
-    showMultiVersion,
-    verses.length,
-    secondaryVerses.length,
-    syncToSecondary,
-  ]);
+  }, [showMultiVersion, verses.length, loadedPanesKey, syncFromPane]);
 
   useEffect(() => {
     return () => {
-      if (primarySyncTimeout.current) clearTimeout(primarySyncTimeout.current);
-      if (secondarySyncTimeout.current)
-        clearTimeout(secondarySyncTimeout.current);
+      syncTimeouts.current.forEach((timeout) => {
+        if (timeout) clearTimeout(timeout);
+      });
     };
   }, []);
 
   return {
     handleScroll,
     handleSecondaryScroll,
-    syncToSecondary,
-    syncToPrimary,
+    syncFromPane,
   };
 };
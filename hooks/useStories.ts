@@ -0,0 +1,35 @@
+// hooks/useStories.ts
+import { useEffect, useState } from "react";
+import { Story } from "../types";
+import { useBibleDatabase } from "../context/BibleDatabaseContext";
+
+/**
+ * Section headings of a chapter in the current translation, or of the whole
+ * book when no chapter is given. Translations without a stories table have
+ * none.
+ */
+export const useStories = (bookNumber: number, chapter?: number): Story[] => {
+  const { bibleDB } = useBibleDatabase();
+  const [stories, setStories] = useState<Story[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadStories = async () => {
+      try {
+        const loaded = bibleDB
+          ? await bibleDB.getStories(bookNumber, chapter)
+          : [];
+        if (!cancelled) setStories(loaded);
+      } catch (error) {
+        console.error("Failed to load section headings:", error);
+        if (!cancelled) setStories([]);
+      }
+    };
+    loadStories();
+    return () => {
+      cancelled = true;
+    };
+  }, [bibleDB, bookNumber, chapter]);
+
+  return stories;
+};
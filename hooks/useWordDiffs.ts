@@ -0,0 +1,59 @@
+// hooks/useWordDiffs.ts
+import { useEffect, useState } from "react";
+import { InteractionManager } from "react-native";
+import { Verse } from "../types";
+import { WordDiffSegment, getCachedWordDiff } from "../utils/wordDiff";
+
+// Verse number -> segments of the parallel text against the primary one
+export type VerseWordDiffs = Map<number, WordDiffSegment[]>;
+
+/**
+ * Word differences between the primary translation and each parallel one,
+ * keyed by version. Diffs are worked out after scrolling and animations
+ * settle rather than while rendering, and pairs already seen come from the
+ * cache in utils/wordDiff.
+ */
+export const useWordDiffs = (
+  enabled: boolean,
+  verses: Verse[],
+  secondaryVersions: string[],
+  secondaryVerses: Record<string, Verse[]>
+): Record<string, VerseWordDiffs> => {
+  const [wordDiffs, setWordDiffs] = useState<Record<string, VerseWordDiffs>>(
+    {}
+  );
+
+  useEffect(() => {
+    if (!enabled || verses.length === 0) {
+      setWordDiffs({});
+      return;
+    }
+
+    let cancelled = false;
+    const task = InteractionManager.runAfterInteractions(() => {
+      const primaryTexts = new Map(verses.map((v) => [v.verse, v.text]));
+      const diffs: Record<string, VerseWordDiffs> = {};
+      secondaryVersions.forEach((version) => {
+        const versionDiffs: VerseWordDiffs = new Map();
+        (secondaryVerses[version] ?? []).forEach((verse) => {
+          const primaryText = primaryTexts.get(verse.verse);
+          // Verses missing from one side have nothing to compare
+          if (primaryText === undefined) return;
+          versionDiffs.set(
+            verse.verse,
+            getCachedWordDiff(primaryText, verse.text)
+          );
+        });
+        diffs[version] = versionDiffs;
+      });
+      if (!cancelled) setWordDiffs(diffs);
+    });
+
+    return () => {
+      cancelled = true;
+      task.cancel();
+    };
+  }, [enabled, verses, secondaryVersions, secondaryVerses]);
+
+  return wordDiffs;
+};
@@ -15,6 +15,7 @@ import { Book } from "../services/BibleDatabase";
 import { getTestament, verifyBookDistribution } from "../utils/testamentUtils";
 import { useBibleDatabase } from "../context/BibleDatabaseContext";
 import { useTheme } from "../context/ThemeContext";
+import { useReadingProgress } from "../context/ReadingProgressContext";
 import { lightenColor } from "../utils/colorUtils";
 
 type BookListScreenNavigationProp = StackNavigationProp<
@@ -36,6 +37,7 @@ export default function BookListScreen({ navigation }: Props) {
   // Use the context
   const { bibleDB, currentVersion } = useBibleDatabase();
   const { theme, navTheme } = useTheme();
+  const { getBookCompletion, getReadChapters } = useReadingProgress();
   const primaryColor = navTheme.colors.primary;
   const lightPrimaryBg = lightenColor(primaryColor, 0.95);
   const primaryBorder = lightenColor(primaryColor, 0.5);
@@ -74,7 +76,13 @@ export default function BookListScreen({ navigation }: Props) {
   };
 
   const oldTestament = books.filter((book) => book.testament === "OT");
+  // Empty, and so hidden, for translations without the deuterocanon
+  const apocrypha = books.filter((book) => book.testament === "AP");
   const newTestament = books.filter((book) => book.testament === "NT");
+  const chaptersRead = books.reduce(
+    (sum, book) => sum + getReadChapters(book.book_number).length,
+    0
+  );
 
   const bgClass = theme === "dark" ? "bg-gray-900" : "bg-gray-50";
   const cardBgClass = theme === "dark" ? "bg-gray-800" : "bg-white";
@@ -125,6 +133,7 @@ export default function BookListScreen({ navigation }: Props) {
       (theme === "dark" ? "#374151" : "#fff"); // Adjust fallback for dark mode
 
     const textColor = theme === "dark" ? "#F3F4F6" : "#1F2937";
+    const completion = getBookCompletion(book.book_number, book.chapters);
 
     return (
       <TouchableOpacity
@@ -147,6 +156,17 @@ export default function BookListScreen({ navigation }: Props) {
         >
           {book.short_name}
         </Text>
+        {completion > 0 && (
+          <View
+            className="h-1 rounded-full mt-1 overflow-hidden"
+            style={{ backgroundColor: textColor + "20" }}
+          >
+            <View
+              className="h-1 rounded-full"
+              style={{ width: `${completion}%`, backgroundColor: borderColor }}
+            />
+          </View>
+        )}
       </TouchableOpacity>
     );
   };
@@ -189,6 +209,32 @@ export default function BookListScreen({ navigation }: Props) {
           </View>
         </View>
 
+        {/* Apocrypha Section */}
+        {apocrypha.length > 0 && (
+          <View className="mb-6">
+            <View className="flex-row items-center justify-between mb-3">
+              <Text
+                className="text-xl font-bold"
+                style={{ color: primaryColor }}
+              >
+                Apocrypha
+              </Text>
+              <Text className={`text-sm ${textSecondaryClass}`}>
+                {apocrypha.length} books
+              </Text>
+            </View>
+            <View className="flex-row flex-wrap justify-between">
+              {apocrypha.map((book) => (
+                <BookCard
+                  key={book.book_number}
+                  book={book}
+                  color="#D97706" // Fallback amber for the Apocrypha
+                />
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* New Testament Section */}
         <View className="mb-6">
           <View className="flex-row items-center justify-between mb-3">
@@ -221,7 +267,13 @@ export default function BookListScreen({ navigation }: Props) {
           <Text className="text-sm text-center text-white">
             📚 Total: {books.length} books • OT: {oldTestament.length} • NT:{" "}
             {newTestament.length}
+            {apocrypha.length > 0 && ` • Apocrypha: ${apocrypha.length}`}
           </Text>
+          {chaptersRead > 0 && (
+            <Text className="text-xs text-center text-white mt-1">
+              ✓ {chaptersRead} chapters read
+            </Text>
+          )}
         </View>
       </ScrollView>
     </View>
@@ -16,13 +16,24 @@ import {
   RefreshControl,
   Platform,
   StyleSheet,
+  TextInput,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { StackNavigationProp } from "@react-navigation/stack";
-import { RootStackParamList, Verse } from "../types";
+import { BookmarkSortOrder, RootStackParamList, Verse } from "../types";
 import { VerseViewEnhanced } from "../components/VerseViewEnhanced";
+import { BookmarkOrganizeModal } from "../components/BookmarkOrganizeModal";
+import { ReorderableList } from "../components/ReorderableList";
 import { useBibleDatabase } from "../context/BibleDatabaseContext";
-import { BookmarksContext } from "../context/BookmarksContext";
+import {
+  Bookmark,
+  BookmarksContext,
+  formatBookmarkReference,
+  getBookmarkEndVerse,
+  isPassageBookmark,
+} from "../context/BookmarksContext";
+import { useNotes } from "../context/NotesContext";
+import { useHighlights } from "../context/HighlightsContext";
 import Ionicons from "react-native-vector-icons/Ionicons";
 import {
   useTheme,
@@ -30,7 +41,8 @@ import {
   type Theme,
   type FontFamily,
 } from "../context/ThemeContext";
-import { getBookInfo } from "../utils/testamentUtils";
+import { getBookInfo, getTestament } from "../utils/testamentUtils";
+import { fromKjvReference } from "../utils/versification";
 
 type BookmarksScreenNavigationProp = StackNavigationProp<
   RootStackParamList,
@@ -41,21 +53,17 @@ interface Props {
   navigation: BookmarksScreenNavigationProp;
 }
 
+// Bookmark id -> the verses it covers, in order
 interface VerseDetailsState {
-  [key: string]: Verse;
+  [key: string]: Verse[];
 }
 
 interface BookLongNamesState {
   [key: number]: string;
 }
 
-interface ContextBookmark {
-  id: string;
-  book_number: number;
-  chapter: number;
-  verse: number;
-  createdAt: string;
-}
+// "all", "unfiled" or a BookmarkFolder id
+type FolderFilter = string;
 
 // Constants
 const BOOK_COLORS: { [key: string]: string } = {
@@ -69,6 +77,14 @@ const BOOK_COLORS: { [key: string]: string } = {
 };
 
 const BATCH_SIZE = 5;
+const REORDER_ROW_HEIGHT = 56;
+
+const SORT_OPTIONS: { value: BookmarkSortOrder; label: string }[] = [
+  { value: "created", label: "Date Added" },
+  { value: "canonical", label: "Bible Order" },
+  { value: "visited", label: "Last Visited" },
+  { value: "custom", label: "My Order" },
+];
 const FALLBACK_COLORS = [
   "#3B82F6",
   "#EF4444",
@@ -239,13 +255,47 @@ const formatDate = (dateString: string): string => {
   });
 };
 
-const getBookmarksKey = (bookmarks: ContextBookmark[]): string => {
+const getBookmarksKey = (bookmarks: Bookmark[]): string => {
   return bookmarks
     .map((b) => b.id)
     .sort()
     .join(",");
 };
 
+const getTime = (dateString?: string): number =>
+  dateString ? new Date(dateString).getTime() : 0;
+
+const sortBookmarks = (
+  bookmarks: Bookmark[],
+  sortOrder: BookmarkSortOrder,
+  folderRank: Map<string | null, number>
+): Bookmark[] =>
+  [...bookmarks].sort((a, b) => {
+    switch (sortOrder) {
+      case "canonical":
+        return (
+          a.book_number - b.book_number ||
+          a.chapter - b.chapter ||
+          a.verse - b.verse
+        );
+      case "visited":
+        // Never-visited bookmarks last, newest first among them
+        return (
+          getTime(b.lastVisitedAt) - getTime(a.lastVisitedAt) ||
+          getTime(b.createdAt) - getTime(a.createdAt)
+        );
+      case "custom":
+        // Custom order is kept per folder, so group by folder first
+        return (
+          (folderRank.get(a.folderId) ?? 0) -
+            (folderRank.get(b.folderId) ?? 0) || a.order - b.order
+        );
+      case "created":
+      default:
+        return getTime(b.createdAt) - getTime(a.createdAt);
+    }
+  });
+
 export default function BookmarksScreen({ navigation }: Props) {
   // Theme
   const { theme, colorScheme, fontFamily } = useTheme();
@@ -254,13 +304,33 @@ export default function BookmarksScreen({ navigation }: Props) {
 
   // Context and state
   const { bibleDB, currentVersion } = useBibleDatabase();
-  const { bookmarks, removeBookmark, loadBookmarks } =
-    useContext(BookmarksContext);
+  const {
+    bookmarks,
+    folders,
+    allTags,
+    removeBookmark,
+    loadBookmarks,
+    createFolder,
+    renameFolder,
+    deleteFolder,
+    reorderBookmarks,
+    markBookmarkVisited,
+  } = useContext(BookmarksContext);
+  const { notes } = useNotes();
+  const { highlightedVerses } = useHighlights();
 
   const [verseDetails, setVerseDetails] = useState<VerseDetailsState>({});
   const [bookLongNames, setBookLongNames] = useState<BookLongNamesState>({});
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [folderFilter, setFolderFilter] = useState<FolderFilter>("all");
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [sortOrder, setSortOrder] = useState<BookmarkSortOrder>("created");
+  const [isReordering, setIsReordering] = useState(false);
+  const [organizing, setOrganizing] = useState<Bookmark | null>(null);
+  // null: hidden, "": new folder, otherwise the id of the folder renamed
+  const [folderEditId, setFolderEditId] = useState<string | null>(null);
+  const [folderName, setFolderName] = useState("");
 
   // Refs
   const previousBookmarksRef = useRef<string>("");
@@ -268,26 +338,54 @@ export default function BookmarksScreen({ navigation }: Props) {
   const initialLoadRef = useRef(false);
 
   // Memoized values
-  const bookmarksKey = useMemo(
-    () => getBookmarksKey(bookmarks as ContextBookmark[]),
-    [bookmarks]
-  );
+  const bookmarksKey = useMemo(() => getBookmarksKey(bookmarks), [bookmarks]);
 
   const sortedBookmarks = useMemo(
     () =>
-      [...(bookmarks as ContextBookmark[])].sort(
+      [...bookmarks].sort(
         (a, b) =>
           new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
       ),
     [bookmarks]
   );
 
+  // Bookmarks in the chosen folder and with the chosen tag, sorted
+  const visibleBookmarks = useMemo(() => {
+    const folderRank = new Map<string | null, number>([[null, -1]]);
+    folders.forEach((folder, index) => folderRank.set(folder.id, index));
+
+    const filtered = bookmarks.filter(
+      (bookmark) =>
+        (folderFilter === "all" ||
+          (folderFilter === "unfiled"
+            ? bookmark.folderId === null
+            : bookmark.folderId === folderFilter)) &&
+        (tagFilter === null ||
+          bookmark.tags.some(
+            (tag) => tag.toLowerCase() === tagFilter.toLowerCase()
+          ))
+    );
+    return sortBookmarks(filtered, sortOrder, folderRank);
+  }, [bookmarks, folders, folderFilter, tagFilter, sortOrder]);
+
+  const folderNames = useMemo(() => {
+    const names: Record<string, string> = {};
+    folders.forEach((folder) => (names[folder.id] = folder.name));
+    return names;
+  }, [folders]);
+
+  // Dragging only makes sense inside one folder, in the custom order
+  const canReorder =
+    sortOrder === "custom" && folderFilter !== "all" && tagFilter === null;
+
   // Event handlers
   const handleBookmarkPress = useCallback(
-    (verse: Verse) => {
+    (verse: Verse, bookmarkId?: string) => {
+      if (bookmarkId) markBookmarkVisited(bookmarkId);
+
       const bookInfo = getBookInfo(verse.book_number);
       const longName = bookInfo?.long || verse.book_name || "Unknown Book";
-      const testament = verse.book_number >= 470 ? "NT" : "OT";
+      const testament = getTestament(verse.book_number, longName);
 
       // Use the same pattern as VerseListScreen
       const tabNavigation = navigation.getParent();
@@ -302,7 +400,7 @@ export default function BookmarksScreen({ navigation }: Props) {
         },
       });
     },
-    [navigation]
+    [navigation, markBookmarkVisited]
   );
 
   const handleDeleteBookmark = useCallback(
@@ -323,6 +421,66 @@ export default function BookmarksScreen({ navigation }: Props) {
     [removeBookmark]
   );
 
+  const handleSaveFolder = useCallback(() => {
+    const name = folderName.trim();
+    if (name) {
+      if (folderEditId) {
+        renameFolder(folderEditId, name);
+      } else {
+        setFolderFilter(createFolder(name).id);
+      }
+    }
+    setFolderEditId(null);
+    setFolderName("");
+  }, [folderName, folderEditId, renameFolder, createFolder]);
+
+  const handleFolderLongPress = useCallback(
+    (folderId: string, name: string) => {
+      Alert.alert(name, undefined, [
+        {
+          text: "Rename",
+          onPress: () => {
+            setFolderEditId(folderId);
+            setFolderName(name);
+          },
+        },
+        {
+          text: "Delete Folder",
+          style: "destructive",
+          onPress: () =>
+            Alert.alert(
+              "Delete Folder",
+              `Delete "${name}"? Its bookmarks will be kept without a folder.`,
+              [
+                { text: "Cancel", style: "cancel" },
+                {
+                  text: "Delete",
+                  style: "destructive",
+                  onPress: () => {
+                    deleteFolder(folderId);
+                    setFolderFilter("all");
+                  },
+                },
+              ]
+            ),
+        },
+        { text: "Cancel", style: "cancel" },
+      ]);
+    },
+    [deleteFolder]
+  );
+
+  const handleReorder = useCallback(
+    (reordered: Bookmark[]) =>
+      reorderBookmarks(reordered.map((bookmark) => bookmark.id)),
+    [reorderBookmarks]
+  );
+
+  // Leave reorder mode when it no longer applies
+  useEffect(() => {
+    if (!canReorder) setIsReordering(false);
+  }, [canReorder]);
+
   const handleRetryLoad = useCallback(() => {
     setLoading(true);
     initialLoadRef.current = false;
@@ -390,6 +548,38 @@ export default function BookmarksScreen({ navigation }: Props) {
     }
     previousBookmarksRef.current = bookmarksKey;
 
+    // Range and chapter bookmarks show their whole passage. Bookmarks are
+    // kept in KJV numbering and read in the translation's own.
+    const loadBookmarkPassage = async (bookmark: Bookmark) => {
+      const start = fromKjvReference(bibleDB.versification, {
+        book: bookmark.book_number,
+        chapter: bookmark.chapter,
+        verse: bookmark.verse,
+      });
+      if (!isPassageBookmark(bookmark)) {
+        const verse = await bibleDB.getVerse(
+          start.book,
+          start.chapter,
+          start.verse
+        );
+        return verse ? [verse] : [];
+      }
+
+      const chapterVerses = await bibleDB.getVerses(start.book, start.chapter);
+      const end = fromKjvReference(bibleDB.versification, {
+        book: bookmark.book_number,
+        chapter: bookmark.chapter,
+        verse: getBookmarkEndVerse(bookmark),
+      });
+      // A passage running into the next chapter here ends with this one
+      const endVerse = end.chapter === start.chapter ? end.verse : Infinity;
+      return bookmark.wholeChapter
+        ? chapterVerses
+        : chapterVerses.filter(
+            (verse) => verse.verse >= start.verse && verse.verse <= endVerse
+          );
+    };
+
     const loadVerseDetails = async () => {
       const newVerseDetails: VerseDetailsState = {};
       const newBookLongNames: BookLongNamesState = { ...bookLongNames };
@@ -400,19 +590,15 @@ export default function BookmarksScreen({ navigation }: Props) {
 
           const batchPromises = batch.map(async (bookmark) => {
             try {
-              const [verse, book] = await Promise.all([
-                bibleDB.getVerse(
-                  bookmark.book_number,
-                  bookmark.chapter,
-                  bookmark.verse
-                ),
+              const [passage, book] = await Promise.all([
+                loadBookmarkPassage(bookmark),
                 !newBookLongNames[bookmark.book_number]
                   ? bibleDB.getBook(bookmark.book_number)
                   : Promise.resolve(null),
               ]);
 
-              if (verse) {
-                newVerseDetails[bookmark.id] = verse;
+              if (passage.length > 0) {
+                newVerseDetails[bookmark.id] = passage;
               }
 
               if (book && !newBookLongNames[bookmark.book_number]) {
@@ -603,8 +789,9 @@ export default function BookmarksScreen({ navigation }: Props) {
   );
 
   const renderBookmarkItem = useCallback(
-    (bookmark: ContextBookmark) => {
-      const verse = verseDetails[bookmark.id];
+    (bookmark: Bookmark) => {
+      const passage = verseDetails[bookmark.id];
+      const verse = passage?.[0];
       const longName =
         verse && bookLongNames[verse.book_number]
           ? bookLongNames[verse.book_number]
@@ -684,16 +871,73 @@ export default function BookmarksScreen({ navigation }: Props) {
           }}
         >
           <VerseViewEnhanced
-            verses={[verse]}
+            verses={passage}
+            title={formatBookmarkReference(bookmark, longName)}
             bookName={longName}
             chapterNumber={verse.chapter}
             showVerseNumbers={true}
             fontSize={16}
-            onVersePress={() => handleBookmarkPress(verse)}
+            onVersePress={() => handleBookmarkPress(verse, bookmark.id)}
             compact={true}
             bookColor={bookColor}
           />
 
+          {(bookmark.folderId || bookmark.tags.length > 0) && (
+            <View
+              style={{
+                flexDirection: "row",
+                flexWrap: "wrap",
+                alignItems: "center",
+                paddingHorizontal: 16,
+                paddingTop: 8,
+                backgroundColor: themeColors.surface,
+                gap: 6,
+              }}
+            >
+              {bookmark.folderId && folderNames[bookmark.folderId] && (
+                <View style={{ flexDirection: "row", alignItems: "center" }}>
+                  <Ionicons
+                    name="folder-outline"
+                    size={12}
+                    color={themeColors.textMuted}
+                  />
+                  <Text
+                    style={{
+                      color: themeColors.textMuted,
+                      fontSize: 12,
+                      marginLeft: 4,
+                      fontFamily: actualFontFamily,
+                    }}
+                  >
+                    {folderNames[bookmark.folderId]}
+                  </Text>
+                </View>
+              )}
+              {bookmark.tags.map((tag) => (
+                <TouchableOpacity
+                  key={tag}
+                  onPress={() => setTagFilter(tag)}
+                  style={{
+                    backgroundColor: themeColors.primary + "15",
+                    borderRadius: 999,
+                    paddingHorizontal: 8,
+                    paddingVertical: 2,
+                  }}
+                >
+                  <Text
+                    style={{
+                      color: themeColors.tagColor,
+                      fontSize: 12,
+                      fontFamily: actualFontFamily,
+                    }}
+                  >
+                    #{tag}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
           <View
             style={{
               flexDirection: "row",
@@ -725,6 +969,33 @@ export default function BookmarksScreen({ navigation }: Props) {
             <View
               style={{ flexDirection: "row", alignItems: "center", gap: 8 }}
             >
+              <TouchableOpacity
+                onPress={() => setOrganizing(bookmark)}
+                style={{
+                  flexDirection: "row",
+                  alignItems: "center",
+                  paddingHorizontal: 8,
+                  paddingVertical: 4,
+                }}
+              >
+                <Ionicons
+                  name="pricetags-outline"
+                  size={12}
+                  color={themeColors.textMuted}
+                />
+                <Text
+                  style={{
+                    color: themeColors.textMuted,
+                    fontSize: 12,
+                    fontWeight: "500",
+                    marginLeft: 4,
+                    fontFamily: actualFontFamily,
+                  }}
+                >
+                  Organize
+                </Text>
+              </TouchableOpacity>
+
               <TouchableOpacity
                 onPress={() => handleDeleteBookmark(bookmark.id)}
                 style={{
@@ -753,7 +1024,7 @@ export default function BookmarksScreen({ navigation }: Props) {
               </TouchableOpacity>
 
               <TouchableOpacity
-                onPress={() => handleBookmarkPress(verse)}
+                onPress={() => handleBookmarkPress(verse, bookmark.id)}
                 style={{
                   flexDirection: "row",
                   alignItems: "center",
@@ -788,6 +1059,7 @@ export default function BookmarksScreen({ navigation }: Props) {
     [
       verseDetails,
       bookLongNames,
+      folderNames,
       handleBookmarkPress,
       handleDeleteBookmark,
       themeColors,
@@ -795,9 +1067,276 @@ export default function BookmarksScreen({ navigation }: Props) {
     ]
   );
 
+  const getBookmarkReference = (bookmark: Bookmark): string => {
+    const bookName =
+      bookLongNames[bookmark.book_number] ||
+      getBookInfo(bookmark.book_number)?.long ||
+      bookmark.book_name ||
+      "Unknown Book";
+    return formatBookmarkReference(bookmark, bookName);
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    active: boolean,
+    onPress: () => void,
+    onLongPress?: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      onLongPress={onLongPress}
+      style={{
+        backgroundColor: active
+          ? themeColors.primary
+          : themeColors.primary + "15",
+        borderRadius: 999,
+        paddingHorizontal: 12,
+        paddingVertical: 4,
+        marginRight: 8,
+        marginBottom: 8,
+      }}
+    >
+      <Text
+        style={{
+          color: active ? "white" : themeColors.primary,
+          fontSize: 13,
+          fontFamily: actualFontFamily,
+        }}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderFilters = () => (
+    <View style={{ marginBottom: 8 }}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {renderChip("all", "All", folderFilter === "all", () =>
+          setFolderFilter("all")
+        )}
+        {folders.length > 0 &&
+          renderChip("unfiled", "No Folder", folderFilter === "unfiled", () =>
+            setFolderFilter("unfiled")
+          )}
+        {folders.map((folder) =>
+          renderChip(
+            folder.id,
+            folder.name,
+            folderFilter === folder.id,
+            () => setFolderFilter(folder.id),
+            () => handleFolderLongPress(folder.id, folder.name)
+          )
+        )}
+        {renderChip("new-folder", "+ Folder", false, () => {
+          setFolderEditId("");
+          setFolderName("");
+        })}
+      </ScrollView>
+
+      {folderEditId !== null && (
+        <View
+          style={{
+            flexDirection: "row",
+            alignItems: "center",
+            marginBottom: 8,
+          }}
+        >
+          <TextInput
+            value={folderName}
+            onChangeText={setFolderName}
+            onSubmitEditing={handleSaveFolder}
+            placeholder={folderEditId ? "Folder name" : "New folder name"}
+            placeholderTextColor={themeColors.textMuted}
+            autoFocus
+            style={{
+              flex: 1,
+              color: themeColors.textPrimary,
+              borderColor: themeColors.border,
+              borderWidth: 1,
+              borderRadius: 8,
+              paddingHorizontal: 12,
+              paddingVertical: 8,
+              fontFamily: actualFontFamily,
+            }}
+          />
+          <TouchableOpacity
+            onPress={handleSaveFolder}
+            style={{ marginLeft: 8, padding: 4 }}
+          >
+            <Ionicons
+              name="checkmark-circle"
+              size={28}
+              color={themeColors.primary}
+            />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => setFolderEditId(null)}
+            style={{ padding: 4 }}
+          >
+            <Ionicons
+              name="close-circle"
+              size={28}
+              color={themeColors.textMuted}
+            />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {allTags.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {allTags.map((tag) =>
+            renderChip(`tag-${tag}`, `#${tag}`, tagFilter === tag, () =>
+              setTagFilter(tagFilter === tag ? null : tag)
+            )
+          )}
+        </ScrollView>
+      )}
+
+      <View
+        style={{
+          flexDirection: "row",
+          alignItems: "center",
+          justifyContent: "space-between",
+        }}
+      >
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {SORT_OPTIONS.map((option) =>
+            renderChip(
+              `sort-${option.value}`,
+              option.label,
+              sortOrder === option.value,
+              () => setSortOrder(option.value)
+            )
+          )}
+        </ScrollView>
+        {canReorder && visibleBookmarks.length > 1 && (
+          <TouchableOpacity
+            onPress={() => setIsReordering((prev) => !prev)}
+            style={{
+              flexDirection: "row",
+              alignItems: "center",
+              marginLeft: 8,
+              marginBottom: 8,
+            }}
+          >
+            <Ionicons
+              name={isReordering ? "checkmark" : "swap-vertical"}
+              size={16}
+              color={themeColors.primary}
+            />
+            <Text
+              style={{
+                color: themeColors.primary,
+                fontWeight: "500",
+                marginLeft: 4,
+                fontFamily: actualFontFamily,
+              }}
+            >
+              {isReordering ? "Done" : "Reorder"}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      {sortOrder === "custom" && !canReorder && (
+        <Text
+          style={{
+            color: themeColors.textMuted,
+            fontSize: 12,
+            fontFamily: actualFontFamily,
+          }}
+        >
+          Choose a folder to drag its bookmarks into order.
+        </Text>
+      )}
+    </View>
+  );
+
+  const renderReorderRow = (
+    bookmark: Bookmark,
+    dragHandleProps: object,
+    isDragging: boolean
+  ) => (
+    <View
+      style={{
+        height: REORDER_ROW_HEIGHT - 8,
+        flexDirection: "row",
+        alignItems: "center",
+        backgroundColor: themeColors.card,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: isDragging ? themeColors.primary : themeColors.border,
+        paddingRight: 12,
+        elevation: isDragging ? 4 : 0,
+      }}
+    >
+      <View
+        {...dragHandleProps}
+        style={{
+          paddingHorizontal: 12,
+          height: "100%",
+          justifyContent: "center",
+        }}
+      >
+        <Ionicons
+          name="reorder-three"
+          size={24}
+          color={themeColors.textMuted}
+        />
+      </View>
+      <View style={{ flex: 1 }}>
+        <Text
+          numberOfLines={1}
+          style={{
+            color: themeColors.textPrimary,
+            fontWeight: "600",
+            fontFamily: actualFontFamily,
+          }}
+        >
+          {getBookmarkReference(bookmark)}
+        </Text>
+        {!!bookmark.title && (
+          <Text
+            numberOfLines={1}
+            style={{
+              color: themeColors.textMuted,
+              fontSize: 12,
+              fontFamily: actualFontFamily,
+            }}
+          >
+            {bookmark.title}
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+
   const renderBookmarksList = () => (
     <View style={{ gap: 16, marginBottom: 160 }}>
-      {sortedBookmarks.map(renderBookmarkItem)}
+      {renderFilters()}
+      {visibleBookmarks.length === 0 ? (
+        <Text
+          style={{
+            color: themeColors.textMuted,
+            textAlign: "center",
+            paddingVertical: 32,
+            fontFamily: actualFontFamily,
+          }}
+        >
+          No bookmarks match these filters
+        </Text>
+      ) : isReordering ? (
+        <ReorderableList
+          items={visibleBookmarks}
+          keyExtractor={(bookmark) => bookmark.id}
+          renderRow={renderReorderRow}
+          rowHeight={REORDER_ROW_HEIGHT}
+          onReorder={handleReorder}
+        />
+      ) : (
+        visibleBookmarks.map(renderBookmarkItem)
+      )}
     </View>
   );
 
@@ -855,6 +1394,55 @@ export default function BookmarksScreen({ navigation }: Props) {
           {getVersionDisplayName(currentVersion)} Version
         </Text>
       )}
+      <View
+        style={{
+          flexDirection: "row",
+          justifyContent: "center",
+          marginTop: 8,
+          gap: 24,
+        }}
+      >
+        <TouchableOpacity
+          onPress={() => navigation.navigate("Notes")}
+          style={{ flexDirection: "row", alignItems: "center" }}
+        >
+          <Ionicons
+            name="document-text-outline"
+            size={16}
+            color={themeColors.primary}
+          />
+          <Text
+            style={{
+              color: themeColors.primary,
+              fontWeight: "500",
+              marginLeft: 6,
+              fontFamily: actualFontFamily,
+            }}
+          >
+            My Notes ({notes.length})
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => navigation.navigate("Highlights")}
+          style={{ flexDirection: "row", alignItems: "center" }}
+        >
+          <Ionicons
+            name="color-fill-outline"
+            size={16}
+            color={themeColors.primary}
+          />
+          <Text
+            style={{
+              color: themeColors.primary,
+              fontWeight: "500",
+              marginLeft: 6,
+              fontFamily: actualFontFamily,
+            }}
+          >
+            Highlights ({highlightedVerses.size})
+          </Text>
+        </TouchableOpacity>
+      </View>
     </View>
   );
 
@@ -887,6 +1475,14 @@ export default function BookmarksScreen({ navigation }: Props) {
       >
         {bookmarks.length === 0 ? renderEmptyState() : renderBookmarksList()}
       </ScrollView>
+
+      <BookmarkOrganizeModal
+        visible={organizing !== null}
+        onClose={() => setOrganizing(null)}
+        bookmark={organizing}
+        title={organizing ? getBookmarkReference(organizing) : ""}
+        colors={themeColors}
+      />
     </SafeAreaView>
   );
 }
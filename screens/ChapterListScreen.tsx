@@ -11,10 +11,15 @@ import {
 import { SafeAreaView } from "react-native-safe-area-context";
 import { StackNavigationProp } from "@react-navigation/stack";
 import { RouteProp } from "@react-navigation/native";
-import { RootStackParamList } from "../types";
+import { Ionicons } from "@expo/vector-icons";
+import { RootStackParamList, Story } from "../types";
 import { useBibleDatabase } from "../context/BibleDatabaseContext";
 import { useTheme } from "../context/ThemeContext";
+import { useReadingProgress } from "../context/ReadingProgressContext";
 import { lightenColor } from "../utils/colorUtils";
+import { TESTAMENT_COLORS, TESTAMENT_NAMES } from "../utils/testamentUtils";
+import { stripTags } from "../utils/bibleDatabaseUtils";
+import { useStories } from "../hooks/useStories";
 
 type ChapterListScreenNavigationProp = StackNavigationProp<
   RootStackParamList,
@@ -42,10 +47,14 @@ export default function ChapterListScreen({ navigation, route }: Props) {
   const [loading, setLoading] = useState(false);
   const [verseMapping, setVerseMapping] = useState<VerseMapping>({});
   const [chapterCount, setChapterCount] = useState(0);
+  // Section headings, for jumping straight to a passage
+  const stories = useStories(Number(book.book_number));
+  const [showOutline, setShowOutline] = useState(false);
 
   // Use the context
   const { bibleDB, currentVersion } = useBibleDatabase();
   const { theme, navTheme } = useTheme();
+  const { isChapterRead, getReadChapters } = useReadingProgress();
   const primaryColor = navTheme.colors.primary;
 
   const bgClass = theme === "dark" ? "bg-gray-900" : "bg-gray-50";
@@ -146,6 +155,17 @@ export default function ChapterListScreen({ navigation, route }: Props) {
     }
   };
 
+  const handleStoryPress = (story: Story) => {
+    navigation.navigate("Reader", {
+      bookId: book.book_number,
+      chapter: story.chapter,
+      verse: story.verse,
+      bookName: book.long_name,
+      bookColor: book.book_color,
+      testament: book.testament,
+    });
+  };
+
   const handleLongPress = (chapter: number) => {
     const verseCount = verseMapping[chapter] || 0;
     Alert.alert(
@@ -169,7 +189,7 @@ export default function ChapterListScreen({ navigation, route }: Props) {
     if (book.book_color) {
       return `${theme === "dark" ? "bg-gray-800" : "bg-white"} border-l-4`;
     } else {
-      const testamentScheme = book.testament === "OT" ? "red" : "green";
+      const testamentScheme = TESTAMENT_COLORS[book.testament ?? "NT"].scheme;
       const lightBg = `bg-${testamentScheme}-50`;
       const lightBorder = `border-${testamentScheme}-200`;
       const darkBg = `bg-${testamentScheme}-900/20`;
@@ -197,7 +217,7 @@ export default function ChapterListScreen({ navigation, route }: Props) {
     if (book.book_color) {
       return book.book_color;
     } else {
-      const baseColor = book.testament === "OT" ? "#DC2626" : "#059669";
+      const baseColor = TESTAMENT_COLORS[book.testament ?? "NT"].color;
       return theme === "dark" ? lightenColor(baseColor, 0.6) : baseColor;
     }
   };
@@ -281,6 +301,9 @@ export default function ChapterListScreen({ navigation, route }: Props) {
     (sum, count) => sum + count,
     0
   );
+  const readCount = getReadChapters(Number(book.book_number)).filter(
+    (chapter) => chapter <= chapterCount
+  ).length;
 
   return (
     <SafeAreaView className={`flex-1 ${bgClass}`}>
@@ -304,6 +327,14 @@ export default function ChapterListScreen({ navigation, route }: Props) {
               {currentVersion.replace(".sqlite3", "").toUpperCase()} •{" "}
               {chapterCount} chapters • {totalVerses} total verses
             </Text>
+            {readCount > 0 && (
+              <Text
+                className="text-xs text-center mt-1"
+                style={{ color: primaryColor }}
+              >
+                ✓ {readCount} of {chapterCount} chapters read
+              </Text>
+            )}
           </View>
 
           {/* Chapters Grid */}
@@ -329,6 +360,15 @@ export default function ChapterListScreen({ navigation, route }: Props) {
                   }
                 >
                   {getChapterDisplay(chapter)}
+                  {isChapterRead(Number(book.book_number), chapter) && (
+                    <View className="absolute top-1 right-1">
+                      <Ionicons
+                        name="checkmark-circle"
+                        size={14}
+                        color={primaryColor}
+                      />
+                    </View>
+                  )}
                 </TouchableOpacity>
               ))}
             </View>
@@ -355,12 +395,54 @@ export default function ChapterListScreen({ navigation, route }: Props) {
             </View>
           )}
 
+          {/* Section Outline */}
+          {stories.length > 0 && (
+            <View className={`mt-6 ${cardBgClass} rounded-lg p-4 shadow-sm`}>
+              <TouchableOpacity
+                className="flex-row justify-between items-center"
+                onPress={() => setShowOutline((prev) => !prev)}
+              >
+                <Text className={`text-lg font-bold ${textPrimaryClass}`}>
+                  Outline
+                </Text>
+                <View className="flex-row items-center">
+                  <Text className={`text-xs ${textSecondaryClass} mr-1`}>
+                    {stories.length} sections
+                  </Text>
+                  <Ionicons
+                    name={showOutline ? "chevron-up" : "chevron-down"}
+                    size={16}
+                    color={primaryColor}
+                  />
+                </View>
+              </TouchableOpacity>
+              {showOutline &&
+                stories.map((story) => (
+                  <TouchableOpacity
+                    key={`${story.chapter}-${story.verse}-${story.order_if_several}`}
+                    className={`flex-row items-center py-2 border-b ${borderClass}`}
+                    onPress={() => handleStoryPress(story)}
+                    activeOpacity={0.7}
+                  >
+                    <Text
+                      className="text-xs font-semibold"
+                      style={{ color: primaryColor, width: 56 }}
+                    >
+                      {story.chapter}:{story.verse}
+                    </Text>
+                    <Text className={`flex-1 text-sm ${textPrimaryClass}`}>
+                      {stripTags(story.title)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+            </View>
+          )}
+
           {/* Book Information */}
           <View className={`mt-6 ${lightGrayClass} rounded-lg p-4`}>
             <View className="flex-row justify-between items-center">
               <Text className={`text-sm ${textTertiaryClass}`}>
-                {book.testament === "OT" ? "Old Testament" : "New Testament"}{" "}
-                Book
+                {TESTAMENT_NAMES[book.testament ?? "NT"]} Book
               </Text>
               <Text className={`text-xs ${textSecondaryClass}`}>
                 {currentVersion.replace(".sqlite3", "").toUpperCase()}
@@ -0,0 +1,470 @@
+import React, { useState, useCallback, useEffect, useRef } from "react";
+import {
+  Text,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  View,
+  ActivityIndicator,
+  FlatList,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { StackNavigationProp } from "@react-navigation/stack";
+import { RouteProp } from "@react-navigation/native";
+import { Ionicons } from "@expo/vector-icons";
+import { RootStackParamList, DictionaryEntry } from "../types";
+import { useTheme } from "../context/ThemeContext";
+import { useDictionary } from "../hooks/useDictionary";
+import { Button } from "../components/Button";
+
+type DictionaryScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  "Dictionary"
+>;
+
+interface Props {
+  navigation: DictionaryScreenNavigationProp;
+  route?: RouteProp<RootStackParamList, "Dictionary">;
+}
+
+const PAGE_SIZE = 50;
+
+// An opened entry; entry is null when the topic isn't in the dictionary
+type DictionaryHistoryEntry = {
+  topic: string;
+  entry: DictionaryEntry | null;
+};
+
+// Split definition text so Strong's references (G25, H157) become links
+const renderDefinitionWithLinks = (
+  text: string,
+  onStrongPress: (topic: string) => void,
+  colors: any
+): React.ReactNode[] =>
+  text.split(/\b([HG]\d+)\b/).map((part, index) =>
+    index % 2 === 1 ? (
+      <Text
+        key={index}
+        onPress={() => onStrongPress(part)}
+        style={{
+          color: colors.primary,
+          fontWeight: "bold",
+          textDecorationLine: "underline",
+        }}
+      >
+        {part}
+      </Text>
+    ) : (
+      <Text key={index}>{part}</Text>
+    )
+  );
+
+const DictionaryEntryItem = React.memo(
+  ({
+    entry,
+    onPress,
+    colors,
+  }: {
+    entry: DictionaryEntry;
+    onPress: (topic: string) => void;
+    colors: any;
+  }) => (
+    <TouchableOpacity
+      onPress={() => onPress(entry.topic)}
+      className="rounded-lg p-3 mb-2"
+      style={{
+        backgroundColor: colors.card,
+        borderColor: colors.border,
+        borderWidth: 1,
+      }}
+    >
+      <View className="flex-row items-baseline">
+        <Text className="font-bold mr-2" style={{ color: colors.primary }}>
+          {entry.topic}
+        </Text>
+        {(entry.lexeme || entry.transliteration) && (
+          <Text className="text-sm" style={{ color: colors.text }}>
+            {[entry.lexeme, entry.transliteration].filter(Boolean).join(" • ")}
+          </Text>
+        )}
+      </View>
+      <Text
+        className="text-xs mt-1"
+        style={{ color: colors.muted }}
+        numberOfLines={2}
+      >
+        {entry.short_definition || entry.definition.replace(/\s+/g, " ")}
+      </Text>
+    </TouchableOpacity>
+  )
+);
+
+const EntryDetail = React.memo(
+  ({
+    item,
+    loading,
+    canGoForward,
+    onBack,
+    onForward,
+    onShowList,
+    onStrongPress,
+    onFindVerses,
+    colors,
+  }: {
+    item: DictionaryHistoryEntry | null;
+    loading: boolean;
+    canGoForward: boolean;
+    onBack: () => void;
+    onForward: () => void;
+    onShowList: () => void;
+    onStrongPress: (topic: string) => void;
+    onFindVerses: (topic: string) => void;
+    colors: any;
+  }) => (
+    <View className="flex-1">
+      <View className="flex-row items-center justify-between mb-4">
+        <TouchableOpacity onPress={onBack} className="p-2">
+          <Ionicons name="arrow-back" size={22} color={colors.primary} />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onShowList} className="px-4 py-2">
+          <Text className="font-medium" style={{ color: colors.primary }}>
+            All entries
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={onForward}
+          disabled={!canGoForward}
+          className="p-2"
+        >
+          <Ionicons
+            name="arrow-forward"
+            size={22}
+            color={canGoForward ? colors.primary : colors.border}
+          />
+        </TouchableOpacity>
+      </View>
+
+      {loading || !item ? (
+        <ActivityIndicator size="large" color={colors.primary} />
+      ) : (
+        <ScrollView showsVerticalScrollIndicator={false}>
+          <Text className="text-2xl font-bold" style={{ color: colors.text }}>
+            {item.topic}
+          </Text>
+          {item.entry && (item.entry.lexeme || item.entry.transliteration) && (
+            <Text className="text-lg mb-2" style={{ color: colors.muted }}>
+              {[item.entry.lexeme, item.entry.transliteration]
+                .filter(Boolean)
+                .join(" • ")}
+            </Text>
+          )}
+
+          {item.entry ? (
+            <Text
+              className="text-base mt-2"
+              style={{ color: colors.text, lineHeight: 24 }}
+            >
+              {renderDefinitionWithLinks(
+                item.entry.definition,
+                onStrongPress,
+                colors
+              )}
+            </Text>
+          ) : (
+            <Text className="text-base mt-2" style={{ color: colors.muted }}>
+              No dictionary entry found for {item.topic}
+            </Text>
+          )}
+
+          <TouchableOpacity
+            onPress={() => onFindVerses(item.topic)}
+            className="p-4 rounded-lg mt-6 mb-8"
+            style={{ backgroundColor: colors.primary }}
+          >
+            <Text className="font-semibold text-center text-white">
+              Find NASB verses using {item.topic}
+            </Text>
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+    </View>
+  )
+);
+
+export default function DictionaryScreen({ navigation, route }: Props) {
+  const { searchDictionaryEntries, loadDictionaryEntry } =
+    useDictionary(undefined);
+  const { theme, navTheme } = useTheme();
+  const isDark = theme === "dark";
+
+  const colors = {
+    primary: navTheme.colors.primary,
+    background: isDark ? "#0f172a" : "#f8fafc",
+    text: isDark ? "#ffffff" : "#000000",
+    muted: isDark ? "#9ca3af" : "#6b7280",
+    card: isDark ? "#1e293b" : "#ffffff",
+    border: isDark ? "#374151" : "#e5e7eb",
+  };
+
+  const [query, setQuery] = useState("");
+  const [entries, setEntries] = useState<DictionaryEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [entryLoading, setEntryLoading] = useState(false);
+  // Opened entries with back/forward position; the entry list is shown on
+  // top of the history without changing it
+  const [history, setHistory] = useState<{
+    items: DictionaryHistoryEntry[];
+    index: number;
+    showList: boolean;
+  }>({ items: [], index: -1, showList: true });
+
+  const activeQueryRef = useRef<string | null>(null);
+
+  const runSearch = useCallback(
+    async (text: string) => {
+      activeQueryRef.current = text;
+      setLoading(true);
+      setError(null);
+
+      try {
+        const page = await searchDictionaryEntries(text, PAGE_SIZE, 0);
+        if (activeQueryRef.current !== text) return;
+        setEntries(page);
+        setHasMore(page.length === PAGE_SIZE);
+      } catch (err) {
+        console.error("Dictionary search error:", err);
+        setError("Failed to load the dictionary. Please try again.");
+      } finally {
+        if (activeQueryRef.current === text) setLoading(false);
+      }
+    },
+    [searchDictionaryEntries]
+  );
+
+  const loadMoreEntries = useCallback(async () => {
+    const text = activeQueryRef.current;
+    if (text === null || !hasMore || loading || loadingMore) return;
+
+    try {
+      setLoadingMore(true);
+      const page = await searchDictionaryEntries(
+        text,
+        PAGE_SIZE,
+        entries.length
+      );
+      if (activeQueryRef.current !== text) return;
+      setEntries((prev) => [...prev, ...page]);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (err) {
+      console.error("Failed to load more dictionary entries:", err);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [hasMore, loading, loadingMore, entries.length, searchDictionaryEntries]);
+
+  // Browse all entries when the screen opens
+  useEffect(() => {
+    runSearch("");
+  }, [runSearch]);
+
+  // Open an entry, dropping any forward history
+  const openEntry = useCallback(
+    async (topic: string) => {
+      const normalized = topic.toUpperCase();
+      setEntryLoading(true);
+      setHistory((prev) => {
+        const items = [
+          ...prev.items.slice(0, prev.index + 1),
+          { topic: normalized, entry: null },
+        ];
+        return { items, index: items.length - 1, showList: false };
+      });
+
+      let entry: DictionaryEntry | null = null;
+      try {
+        entry = await loadDictionaryEntry(normalized);
+      } catch (err) {
+        console.error(`Error loading dictionary entry ${normalized}:`, err);
+      }
+
+      setHistory((prev) => ({
+        ...prev,
+        items: prev.items.map((item, idx) =>
+          idx === prev.index && item.topic === normalized
+            ? { topic: normalized, entry }
+            : item
+        ),
+      }));
+      setEntryLoading(false);
+    },
+    [loadDictionaryEntry]
+  );
+
+  // Going back from the first entry returns to the list
+  const goBack = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.showList) return prev;
+      return prev.index > 0
+        ? { ...prev, index: prev.index - 1 }
+        : { ...prev, showList: true };
+    });
+  }, []);
+
+  const goForward = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.showList) {
+        return prev.index >= 0 ? { ...prev, showList: false } : prev;
+      }
+      return prev.index < prev.items.length - 1
+        ? { ...prev, index: prev.index + 1 }
+        : prev;
+    });
+  }, []);
+
+  const showList = useCallback(() => {
+    setHistory((prev) => ({ ...prev, showList: true }));
+  }, []);
+
+  // Concordance of the verses tagged with this number
+  const handleFindVerses = useCallback(
+    (topic: string) => {
+      navigation.popTo("Search", { query: topic });
+    },
+    [navigation]
+  );
+
+  // Entries requested by other screens
+  const routeTopic = route?.params?.topic;
+  useEffect(() => {
+    if (!routeTopic) return;
+    openEntry(routeTopic);
+    navigation.setParams({ topic: undefined });
+  }, [routeTopic, openEntry, navigation]);
+
+  const clearSearch = useCallback(() => {
+    setQuery("");
+    runSearch("");
+  }, [runSearch]);
+
+  const currentItem =
+    !history.showList && history.index >= 0
+      ? history.items[history.index]
+      : null;
+
+  const keyExtractor = useCallback((item: DictionaryEntry) => item.topic, []);
+
+  const renderItem = useCallback(
+    ({ item }: { item: DictionaryEntry }) => (
+      <DictionaryEntryItem entry={item} onPress={openEntry} colors={colors} />
+    ),
+    [openEntry, colors]
+  );
+
+  if (currentItem) {
+    return (
+      <SafeAreaView style={{ flex: 1, backgroundColor: colors.background }}>
+        <View className="flex-1 px-4 -mt-8">
+          <EntryDetail
+            item={currentItem}
+            loading={entryLoading && !currentItem.entry}
+            canGoForward={history.index < history.items.length - 1}
+            onBack={goBack}
+            onForward={goForward}
+            onShowList={showList}
+            onStrongPress={openEntry}
+            onFindVerses={handleFindVerses}
+            colors={colors}
+          />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={{ flex: 1, backgroundColor: colors.background }}>
+      <View className="flex-1 px-4 -mt-8">
+        <View className="flex-row items-center mb-4">
+          <View
+            className="flex-1 rounded-lg shadow-sm border"
+            style={{
+              backgroundColor: colors.card,
+              borderColor: colors.border,
+            }}
+          >
+            <TextInput
+              className="p-4 text-base"
+              placeholder="Strong's number, word or transliteration..."
+              placeholderTextColor={colors.muted}
+              value={query}
+              onChangeText={setQuery}
+              onSubmitEditing={() => runSearch(query)}
+              returnKeyType="search"
+              autoCapitalize="none"
+              style={{ color: colors.text }}
+            />
+          </View>
+          {query.length > 0 && (
+            <TouchableOpacity onPress={clearSearch} className="ml-2">
+              <Text
+                className="font-medium p-4"
+                style={{ color: colors.primary }}
+              >
+                Clear
+              </Text>
+            </TouchableOpacity>
+          )}
+          {history.index >= 0 && (
+            <TouchableOpacity onPress={goForward} className="ml-1 p-2">
+              <Ionicons name="arrow-forward" size={22} color={colors.primary} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {error ? (
+          <View className="flex-1 justify-center items-center p-6">
+            <Text
+              className="text-lg text-center mb-4"
+              style={{ color: colors.primary }}
+            >
+              {error}
+            </Text>
+            <Button title="Try Again" onPress={() => runSearch(query)} />
+          </View>
+        ) : loading ? (
+          <ActivityIndicator size="large" color={colors.primary} />
+        ) : (
+          <FlatList
+            data={entries}
+            keyExtractor={keyExtractor}
+            renderItem={renderItem}
+            onEndReached={loadMoreEntries}
+            onEndReachedThreshold={0.5}
+            ListEmptyComponent={
+              <Text
+                className="text-center py-8"
+                style={{ color: colors.muted }}
+              >
+                No dictionary entries found
+              </Text>
+            }
+            ListFooterComponent={
+              loadingMore ? (
+                <ActivityIndicator
+                  size="small"
+                  color={colors.primary}
+                  style={{ paddingVertical: 16 }}
+                />
+              ) : null
+            }
+            initialNumToRender={15}
+            contentContainerStyle={{ paddingBottom: 20 }}
+            keyboardShouldPersistTaps="handled"
+          />
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
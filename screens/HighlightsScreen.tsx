@@ -0,0 +1,552 @@
+import React, {
+  useState,
+  useCallback,
+  useMemo,
+  useEffect,
+  useRef,
+} from "react";
+import {
+  Text,
+  TextInput,
+  ScrollView,
+  FlatList,
+  TouchableOpacity,
+  View,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { StackNavigationProp } from "@react-navigation/stack";
+import { Ionicons } from "@expo/vector-icons";
+import { HighlightCategory, RootStackParamList } from "../types";
+import { useTheme } from "../context/ThemeContext";
+import { useBibleDatabase } from "../context/BibleDatabaseContext";
+import { HighlightedVerse, useHighlights } from "../context/HighlightsContext";
+import { getBookInfo } from "../utils/testamentUtils";
+import { stripTags } from "../utils/bibleDatabaseUtils";
+import { fromKjvReference } from "../utils/versification";
+
+type HighlightsScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  "Highlights"
+>;
+
+interface Props {
+  navigation: HighlightsScreenNavigationProp;
+}
+
+// Colors offered when editing the palette
+const HIGHLIGHT_SWATCHES = [
+  "#FACC15",
+  "#4ADE80",
+  "#60A5FA",
+  "#C084FC",
+  "#F472B6",
+  "#FB923C",
+  "#F87171",
+  "#2DD4BF",
+  "#A3E635",
+  "#94A3B8",
+];
+
+const getHighlightKey = (highlight: HighlightedVerse): string =>
+  `${highlight.bookId}-${highlight.chapter}-${highlight.verse}`;
+
+const FilterChip = React.memo(
+  ({
+    label,
+    selected,
+    onPress,
+    colors,
+    swatch,
+  }: {
+    label: string;
+    selected: boolean;
+    onPress: () => void;
+    colors: any;
+    swatch?: string;
+  }) => (
+    <TouchableOpacity
+      onPress={onPress}
+      className="flex-row items-center rounded-full px-3 py-1 m-1"
+      style={{
+        backgroundColor: selected ? colors.primary : colors.primary + "15",
+      }}
+    >
+      {swatch && (
+        <View
+          className="w-3 h-3 rounded-full mr-1"
+          style={{ backgroundColor: swatch }}
+        />
+      )}
+      <Text
+        className="text-sm"
+        style={{ color: selected ? "#ffffff" : colors.primary }}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  )
+);
+
+const HighlightCard = React.memo(
+  ({
+    highlight,
+    category,
+    text,
+    onPress,
+    onRemove,
+    colors,
+  }: {
+    highlight: HighlightedVerse;
+    category: HighlightCategory;
+    text?: string;
+    onPress: (highlight: HighlightedVerse) => void;
+    onRemove: (highlight: HighlightedVerse) => void;
+    colors: any;
+  }) => (
+    <TouchableOpacity
+      onPress={() => onPress(highlight)}
+      className="rounded-lg mb-3 flex-row overflow-hidden"
+      style={{
+        backgroundColor: colors.card,
+        borderColor: colors.border,
+        borderWidth: 1,
+      }}
+    >
+      <View style={{ width: 6, backgroundColor: category.color }} />
+      <View className="flex-1 p-3">
+        <View className="flex-row justify-between items-center mb-1">
+          <Text className="font-semibold" style={{ color: colors.text }}>
+            {getBookInfo(highlight.bookId)?.long || `Book ${highlight.bookId}`}{" "}
+            {highlight.chapter}:{highlight.verse}
+          </Text>
+          <TouchableOpacity onPress={() => onRemove(highlight)} hitSlop={8}>
+            <Ionicons name="close" size={16} color={colors.muted} />
+          </TouchableOpacity>
+        </View>
+        <Text className="text-xs mb-1" style={{ color: colors.muted }}>
+          {category.label} •{" "}
+          {new Date(highlight.timestamp).toLocaleDateString()}
+        </Text>
+        {text !== undefined ? (
+          <Text className="text-sm" style={{ color: colors.text }}>
+            {text}
+          </Text>
+        ) : (
+          <ActivityIndicator size="small" color={colors.primary} />
+        )}
+      </View>
+    </TouchableOpacity>
+  )
+);
+
+const PaletteEntryEditor = React.memo(
+  ({
+    entry,
+    canRemove,
+    onChange,
+    onRemove,
+    colors,
+  }: {
+    entry: HighlightCategory;
+    canRemove: boolean;
+    onChange: (
+      id: string,
+      updates: Partial<Pick<HighlightCategory, "label" | "color">>
+    ) => void;
+    onRemove: (id: string) => void;
+    colors: any;
+  }) => {
+    const [label, setLabel] = useState(entry.label);
+
+    useEffect(() => setLabel(entry.label), [entry.label]);
+
+    return (
+      <View className="mb-3">
+        <View className="flex-row items-center">
+          <View
+            className="w-6 h-6 rounded-full mr-2"
+            style={{ backgroundColor: entry.color }}
+          />
+          <TextInput
+            className="flex-1 px-3 py-2 rounded-lg border text-sm"
+            style={{ color: colors.text, borderColor: colors.border }}
+            value={label}
+            onChangeText={setLabel}
+            onEndEditing={() =>
+              label.trim() && label.trim() !== entry.label
+                ? onChange(entry.id, { label: label.trim() })
+                : setLabel(entry.label)
+            }
+            placeholder="Label"
+            placeholderTextColor={colors.muted}
+          />
+          {canRemove && (
+            <TouchableOpacity
+              onPress={() => onRemove(entry.id)}
+              className="ml-2"
+              hitSlop={8}
+            >
+              <Ionicons name="trash-outline" size={18} color={colors.muted} />
+            </TouchableOpacity>
+          )}
+        </View>
+        <View className="flex-row flex-wrap mt-2 ml-8">
+          {HIGHLIGHT_SWATCHES.map((swatch) => (
+            <TouchableOpacity
+              key={swatch}
+              onPress={() => onChange(entry.id, { color: swatch })}
+              className="w-6 h-6 rounded-full mr-2 mb-1 items-center justify-center"
+              style={{ backgroundColor: swatch }}
+            >
+              {swatch === entry.color && (
+                <Ionicons name="checkmark" size={14} color="#000000" />
+              )}
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+    );
+  }
+);
+
+export default function HighlightsScreen({ navigation }: Props) {
+  const {
+    highlightedVerses,
+    palette,
+    loading,
+    removeVerseHighlight,
+    getHighlightCategory,
+    addPaletteEntry,
+    updatePaletteEntry,
+    removePaletteEntry,
+    resetPalette,
+  } = useHighlights();
+  const { bibleDB, currentVersion } = useBibleDatabase();
+  const { theme, navTheme } = useTheme();
+  const isDark = theme === "dark";
+
+  const colors = {
+    primary: navTheme.colors.primary,
+    background: isDark ? "#0f172a" : "#f8fafc",
+    text: isDark ? "#ffffff" : "#000000",
+    muted: isDark ? "#9ca3af" : "#6b7280",
+    card: isDark ? "#1e293b" : "#ffffff",
+    border: isDark ? "#374151" : "#e5e7eb",
+  };
+
+  const [colorFilter, setColorFilter] = useState<string | null>(null);
+  const [bookFilter, setBookFilter] = useState<number | null>(null);
+  const [showPalette, setShowPalette] = useState(false);
+  const [verseTexts, setVerseTexts] = useState<Record<string, string>>({});
+  const requestedTextsRef = useRef(new Set<string>());
+  const isMountedRef = useRef(true);
+
+  const allHighlights = useMemo(
+    () =>
+      Array.from(highlightedVerses.values()).sort(
+        (a, b) => b.timestamp - a.timestamp
+      ),
+    [highlightedVerses]
+  );
+
+  const colorCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    allHighlights.forEach((highlight) => {
+      const id = getHighlightCategory(highlight.colorId).id;
+      counts[id] = (counts[id] || 0) + 1;
+    });
+    return counts;
+  }, [allHighlights, getHighlightCategory]);
+
+  const highlightBooks = useMemo(
+    () =>
+      Array.from(new Set(allHighlights.map((h) => h.bookId))).sort(
+        (a, b) => a - b
+      ),
+    [allHighlights]
+  );
+
+  const filteredHighlights = useMemo(
+    () =>
+      allHighlights.filter(
+        (highlight) =>
+          (colorFilter === null ||
+            getHighlightCategory(highlight.colorId).id === colorFilter) &&
+          (bookFilter === null || highlight.bookId === bookFilter)
+      ),
+    [allHighlights, colorFilter, bookFilter, getHighlightCategory]
+  );
+
+  // Highlights are kept in KJV numbering; this is where the current
+  // translation has the verse
+  const getTranslationReference = useCallback(
+    (highlight: HighlightedVerse) =>
+      fromKjvReference(bibleDB?.versification ?? "kjv", {
+        book: highlight.bookId,
+        chapter: highlight.chapter,
+        verse: highlight.verse,
+      }),
+    [bibleDB]
+  );
+
+  useEffect(() => {
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  // Verse text depends on the selected translation
+  useEffect(() => {
+    requestedTextsRef.current = new Set();
+    setVerseTexts({});
+  }, [currentVersion]);
+
+  useEffect(() => {
+    if (!bibleDB) return;
+    const missing = filteredHighlights.filter(
+      (highlight) => !requestedTextsRef.current.has(getHighlightKey(highlight))
+    );
+    if (missing.length === 0) return;
+    missing.forEach((highlight) =>
+      requestedTextsRef.current.add(getHighlightKey(highlight))
+    );
+
+    const loadTexts = async () => {
+      const loaded: Record<string, string> = {};
+      for (const highlight of missing) {
+        try {
+          const reference = getTranslationReference(highlight);
+          const verse = await bibleDB.getVerse(
+            reference.book,
+            reference.chapter,
+            reference.verse
+          );
+          loaded[getHighlightKey(highlight)] = verse
+            ? stripTags(verse.text)
+            : "Verse not available in this translation";
+        } catch (error) {
+          console.error("Failed to load highlighted verse:", error);
+          loaded[getHighlightKey(highlight)] = "";
+        }
+      }
+      if (isMountedRef.current) {
+        setVerseTexts((prev) => ({ ...prev, ...loaded }));
+      }
+    };
+
+    loadTexts();
+  }, [bibleDB, filteredHighlights, getTranslationReference]);
+
+  const handleHighlightPress = useCallback(
+    (highlight: HighlightedVerse) => {
+      const reference = getTranslationReference(highlight);
+      navigation.getParent()?.navigate("Bible", {
+        screen: "Reader",
+        params: {
+          bookId: reference.book,
+          chapter: reference.chapter,
+          verse: reference.verse,
+          bookName:
+            getBookInfo(reference.book)?.long || `Book ${reference.book}`,
+        },
+      });
+    },
+    [navigation, getTranslationReference]
+  );
+
+  const handleRemove = useCallback(
+    (highlight: HighlightedVerse) =>
+      removeVerseHighlight(
+        highlight.bookId,
+        highlight.chapter,
+        highlight.verse
+      ),
+    [removeVerseHighlight]
+  );
+
+  const handleRemovePaletteEntry = useCallback(
+    (id: string) => {
+      const entry = palette.find((e) => e.id === id);
+      Alert.alert(
+        "Remove Color",
+        `Highlights labelled "${entry?.label}" will use "${
+          palette.find((e) => e.id !== id)?.label
+        }" instead.`,
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Remove",
+            style: "destructive",
+            onPress: () => {
+              if (colorFilter === id) setColorFilter(null);
+              removePaletteEntry(id);
+            },
+          },
+        ]
+      );
+    },
+    [palette, colorFilter, removePaletteEntry]
+  );
+
+  const handleAddPaletteEntry = useCallback(() => {
+    const unused =
+      HIGHLIGHT_SWATCHES.find(
+        (swatch) => !palette.some((entry) => entry.color === swatch)
+      ) ?? HIGHLIGHT_SWATCHES[0];
+    addPaletteEntry("New label", unused);
+  }, [palette, addPaletteEntry]);
+
+  if (loading) {
+    return (
+      <SafeAreaView style={{ flex: 1, backgroundColor: colors.background }}>
+        <View className="flex-1 justify-center items-center">
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const listHeader = (
+    <>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        className="mb-1"
+      >
+        <FilterChip
+          label={`All (${allHighlights.length})`}
+          selected={colorFilter === null}
+          onPress={() => setColorFilter(null)}
+          colors={colors}
+        />
+        {palette.map((entry) => (
+          <FilterChip
+            key={entry.id}
+            label={`${entry.label} (${colorCounts[entry.id] || 0})`}
+            swatch={entry.color}
+            selected={colorFilter === entry.id}
+            onPress={() => setColorFilter(entry.id)}
+            colors={colors}
+          />
+        ))}
+      </ScrollView>
+
+      {highlightBooks.length > 1 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          className="mb-1"
+        >
+          <FilterChip
+            label="All books"
+            selected={bookFilter === null}
+            onPress={() => setBookFilter(null)}
+            colors={colors}
+          />
+          {highlightBooks.map((bookNumber) => (
+            <FilterChip
+              key={bookNumber}
+              label={getBookInfo(bookNumber)?.short || String(bookNumber)}
+              selected={bookFilter === bookNumber}
+              onPress={() => setBookFilter(bookNumber)}
+              colors={colors}
+            />
+          ))}
+        </ScrollView>
+      )}
+
+      <TouchableOpacity
+        onPress={() => setShowPalette((prev) => !prev)}
+        className="flex-row items-center my-2"
+      >
+        <Ionicons
+          name={showPalette ? "chevron-down" : "color-palette-outline"}
+          size={20}
+          color={colors.primary}
+        />
+        <Text className="ml-2 font-medium" style={{ color: colors.primary }}>
+          Edit colors and labels
+        </Text>
+      </TouchableOpacity>
+
+      {showPalette && (
+        <View
+          className="rounded-lg p-3 mb-4"
+          style={{
+            backgroundColor: colors.card,
+            borderColor: colors.border,
+            borderWidth: 1,
+          }}
+        >
+          {palette.map((entry) => (
+            <PaletteEntryEditor
+              key={entry.id}
+              entry={entry}
+              canRemove={palette.length > 1}
+              onChange={updatePaletteEntry}
+              onRemove={handleRemovePaletteEntry}
+              colors={colors}
+            />
+          ))}
+          <View className="flex-row justify-between mt-1">
+            <TouchableOpacity
+              onPress={handleAddPaletteEntry}
+              className="flex-row items-center"
+            >
+              <Ionicons
+                name="add-circle-outline"
+                size={18}
+                color={colors.primary}
+              />
+              <Text className="ml-1" style={{ color: colors.primary }}>
+                Add color
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={resetPalette}>
+              <Text style={{ color: colors.muted }}>Reset to defaults</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </>
+  );
+
+  return (
+    <SafeAreaView style={{ flex: 1, backgroundColor: colors.background }}>
+      <FlatList
+        className="flex-1 px-4 -mt-8"
+        data={filteredHighlights}
+        keyExtractor={getHighlightKey}
+        ListHeaderComponent={listHeader}
+        renderItem={({ item }) => (
+          <HighlightCard
+            highlight={item}
+            category={getHighlightCategory(item.colorId)}
+            text={verseTexts[getHighlightKey(item)]}
+            onPress={handleHighlightPress}
+            onRemove={handleRemove}
+            colors={colors}
+          />
+        )}
+        keyboardShouldPersistTaps="handled"
+        contentContainerStyle={{ paddingBottom: 24 }}
+        ListEmptyComponent={
+          <View className="items-center mt-12">
+            <Ionicons
+              name="color-fill-outline"
+              size={48}
+              color={colors.muted}
+            />
+            <Text className="mt-3 text-center" style={{ color: colors.muted }}>
+              {allHighlights.length === 0
+                ? "No highlights yet. Long-press a verse in the reader and choose Highlight."
+                : "No highlights match these filters."}
+            </Text>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+}
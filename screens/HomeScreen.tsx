@@ -10,10 +10,11 @@ import {
   Platform,
 } from "react-native";
 import { StackNavigationProp } from "@react-navigation/stack";
-import { RootStackParamList } from "../types";
+import { RootStackParamList, ReadingProgress } from "../types";
 import { Button } from "../components/Button";
 import { BibleDatabaseError, Verse } from "../services/BibleDatabase";
 import { useBibleDatabase } from "../context/BibleDatabaseContext";
+import { useReadingProgress } from "../context/ReadingProgressContext";
 import { VerseViewEnhanced } from "../components/VerseViewEnhanced";
 import MatrixRN from "../components/MatrixRN";
 import { Fonts } from "../utils/fonts";
@@ -24,6 +25,8 @@ import {
   type FontFamily,
 } from "../context/ThemeContext";
 import Footer from "../components/Footer";
+import { getBookInfo } from "../utils/testamentUtils";
+import { getVersionDisplayName } from "../utils/bibleVersionUtils";
 
 type HomeScreenNavigationProp = StackNavigationProp<RootStackParamList, "Home">;
 
@@ -150,7 +153,9 @@ export default function HomeScreen({ navigation }: Props) {
     isInitializing,
     initializationError,
     retryInitialization,
+    switchVersion,
   } = useBibleDatabase();
+  const { lastPositions, history } = useReadingProgress();
 
   const [verseRange, setVerseRange] = useState<Verse[] | null>(null);
   const [bookLongName, setBookLongName] = useState<string>("");
@@ -274,6 +279,37 @@ export default function HomeScreen({ navigation }: Props) {
     });
   };
 
+  // Last place read in each translation, current translation first
+  const continuePositions = Object.entries(lastPositions)
+    .filter(([, position]) => position.bookNumber > 0)
+    .sort(([versionA, a], [versionB, b]) => {
+      if (versionA === currentVersion) return -1;
+      if (versionB === currentVersion) return 1;
+      return b.timestamp.getTime() - a.timestamp.getTime();
+    })
+    .slice(0, 3);
+
+  const openChapter = (bookNumber: number, chapter: number, verse?: number) => {
+    navigation.navigate("Reader", {
+      bookId: bookNumber,
+      chapter,
+      verse,
+      bookName: getBookInfo(bookNumber)?.long || "Unknown Book",
+    });
+  };
+
+  const handleContinueReading = async (
+    version: string,
+    position: ReadingProgress
+  ) => {
+    try {
+      if (version !== currentVersion) await switchVersion(version);
+    } catch (err) {
+      console.error("Failed to switch version:", err);
+    }
+    openChapter(position.bookNumber, position.chapter, position.verse);
+  };
+
   // Early returns (must be before main return)
   if (initializationError) {
     return (
@@ -415,6 +451,123 @@ export default function HomeScreen({ navigation }: Props) {
         </Text>
       </View>
 
+      {/* Continue Reading */}
+      {continuePositions.length > 0 && (
+        <View style={{ marginBottom: 24, marginRight: isLandscape ? 48 : 0 }}>
+          <Text
+            style={{
+              fontSize: 18,
+              fontWeight: "600",
+              color: themeColors.textPrimary,
+              marginBottom: 12,
+              fontFamily: actualFontFamily,
+            }}
+          >
+            Continue Where You Left Off
+          </Text>
+          {continuePositions.map(([version, position]) => (
+            <TouchableOpacity
+              key={version}
+              onPress={() => handleContinueReading(version, position)}
+              style={{
+                backgroundColor: themeColors.card,
+                borderWidth: 1,
+                borderColor:
+                  version === currentVersion
+                    ? themeColors.primary
+                    : themeColors.border,
+                borderRadius: 8,
+                padding: 12,
+                marginBottom: 8,
+                flexDirection: "row",
+                justifyContent: "space-between",
+                alignItems: "center",
+              }}
+            >
+              <View style={{ flex: 1 }}>
+                <Text
+                  style={{
+                    fontSize: 16,
+                    fontWeight: "500",
+                    color: themeColors.textPrimary,
+                    fontFamily: actualFontFamily,
+                  }}
+                >
+                  {getBookInfo(position.bookNumber)?.long || "Unknown Book"}{" "}
+                  {position.chapter}:{position.verse}
+                </Text>
+                <Text
+                  style={{
+                    fontSize: 12,
+                    color: themeColors.textMuted,
+                    fontFamily: actualFontFamily,
+                  }}
+                >
+                  {getVersionDisplayName(version)} •{" "}
+                  {position.timestamp.toLocaleDateString()}
+                  {position.percentage > 0 &&
+                    ` • ${position.percentage}% of chapter`}
+                </Text>
+              </View>
+              <Text style={{ color: themeColors.primary, fontSize: 18 }}>
+                →
+              </Text>
+            </TouchableOpacity>
+          ))}
+
+          {history.length > 0 && (
+            <View
+              style={{ flexDirection: "row", flexWrap: "wrap", marginTop: 4 }}
+            >
+              <Text
+                style={{
+                  fontSize: 12,
+                  color: themeColors.textMuted,
+                  marginRight: 4,
+                  paddingVertical: 4,
+                  fontFamily: actualFontFamily,
+                }}
+              >
+                Recently read:
+              </Text>
+              {history.slice(0, 5).map((entry) => (
+                <TouchableOpacity
+                  key={`${entry.version}-${entry.bookNumber}-${entry.chapter}-${entry.readAt}`}
+                  onPress={() => openChapter(entry.bookNumber, entry.chapter)}
+                  style={{ paddingHorizontal: 4, paddingVertical: 4 }}
+                >
+                  <Text
+                    style={{
+                      fontSize: 12,
+                      color: themeColors.primary,
+                      fontFamily: actualFontFamily,
+                    }}
+                  >
+                    {getBookInfo(entry.bookNumber)?.short || entry.bookNumber}{" "}
+                    {entry.chapter}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity
+                onPress={() => navigation.navigate("ReadingHistory")}
+                style={{ paddingHorizontal: 4, paddingVertical: 4 }}
+              >
+                <Text
+                  style={{
+                    fontSize: 12,
+                    fontWeight: "600",
+                    color: themeColors.primary,
+                    fontFamily: actualFontFamily,
+                  }}
+                >
+                  All history →
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      )}
+
       {/* Verse of the Day */}
       <View style={{ marginBottom: 24 }}>
         <View
@@ -520,6 +673,11 @@ export default function HomeScreen({ navigation }: Props) {
           onPress={() => navigation.navigate("BookList")}
           variant="outline"
         />
+        <Button
+          title="Reading Plans"
+          onPress={() => navigation.navigate("ReadingPlans")}
+          variant="outline"
+        />
       </View>
 
       {/* Quick Tips */}
@@ -0,0 +1,298 @@
+import React, { useState, useCallback, useMemo } from "react";
+import {
+  Text,
+  TextInput,
+  ScrollView,
+  FlatList,
+  TouchableOpacity,
+  View,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { StackNavigationProp } from "@react-navigation/stack";
+import { Ionicons } from "@expo/vector-icons";
+import { BibleReference, Note, RootStackParamList } from "../types";
+import { useTheme } from "../context/ThemeContext";
+import { useNotes } from "../context/NotesContext";
+import { useBibleDatabase } from "../context/BibleDatabaseContext";
+import { NoteText } from "../components/NoteText";
+import { getBookInfo } from "../utils/testamentUtils";
+import {
+  formatNoteReference,
+  stripNoteFormatting,
+} from "../utils/noteFormatting";
+import { fromKjvReference } from "../utils/versification";
+
+type NotesScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  "Notes"
+>;
+
+interface Props {
+  navigation: NotesScreenNavigationProp;
+}
+
+const PREVIEW_LINES = 6;
+
+const BookFilterChip = React.memo(
+  ({
+    label,
+    selected,
+    onPress,
+    colors,
+  }: {
+    label: string;
+    selected: boolean;
+    onPress: () => void;
+    colors: any;
+  }) => (
+    <TouchableOpacity
+      onPress={onPress}
+      className="rounded-full px-3 py-1 m-1"
+      style={{
+        backgroundColor: selected ? colors.primary : colors.primary + "15",
+      }}
+    >
+      <Text
+        className="text-sm"
+        style={{ color: selected ? "#ffffff" : colors.primary }}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  )
+);
+
+const NoteCard = React.memo(
+  ({
+    note,
+    onPress,
+    onDelete,
+    onReferencePress,
+    colors,
+  }: {
+    note: Note;
+    onPress: (note: Note) => void;
+    onDelete: (note: Note) => void;
+    onReferencePress: (reference: BibleReference) => void;
+    colors: any;
+  }) => (
+    <TouchableOpacity
+      onPress={() => onPress(note)}
+      className="rounded-lg p-3 mb-3"
+      style={{
+        backgroundColor: colors.card,
+        borderColor: colors.border,
+        borderWidth: 1,
+      }}
+    >
+      <View className="flex-row justify-between items-center mb-2">
+        <Text className="font-semibold" style={{ color: colors.primary }}>
+          {formatNoteReference(note)}
+        </Text>
+        <TouchableOpacity onPress={() => onDelete(note)} hitSlop={8}>
+          <Ionicons name="trash-outline" size={16} color={colors.muted} />
+        </TouchableOpacity>
+      </View>
+      <NoteText
+        content={note.content}
+        colors={colors}
+        numberOfLines={PREVIEW_LINES}
+        onReferencePress={onReferencePress}
+      />
+      <Text className="text-xs mt-2" style={{ color: colors.muted }}>
+        {note.updatedAt.getTime() !== note.createdAt.getTime()
+          ? `Edited ${note.updatedAt.toLocaleDateString()}`
+          : note.createdAt.toLocaleDateString()}
+      </Text>
+    </TouchableOpacity>
+  )
+);
+
+export default function NotesScreen({ navigation }: Props) {
+  const { notes, loading, deleteNote } = useNotes();
+  const { bibleDB } = useBibleDatabase();
+  const { theme, navTheme } = useTheme();
+  const isDark = theme === "dark";
+
+  const colors = {
+    primary: navTheme.colors.primary,
+    background: isDark ? "#0f172a" : "#f8fafc",
+    text: isDark ? "#ffffff" : "#000000",
+    muted: isDark ? "#9ca3af" : "#6b7280",
+    card: isDark ? "#1e293b" : "#ffffff",
+    border: isDark ? "#374151" : "#e5e7eb",
+  };
+
+  const [query, setQuery] = useState("");
+  const [bookFilter, setBookFilter] = useState<number | null>(null);
+
+  // Books that have notes, in Bible order
+  const noteBooks = useMemo(
+    () =>
+      Array.from(new Set(notes.map((note) => note.bookNumber))).sort(
+        (a, b) => a - b
+      ),
+    [notes]
+  );
+
+  const filteredNotes = useMemo(() => {
+    const term = query.trim().toLowerCase();
+    return notes
+      .filter((note) => bookFilter === null || note.bookNumber === bookFilter)
+      .filter(
+        (note) =>
+          !term ||
+          stripNoteFormatting(note.content).toLowerCase().includes(term) ||
+          formatNoteReference(note).toLowerCase().includes(term)
+      )
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }, [notes, query, bookFilter]);
+
+  const openReader = useCallback(
+    (bookNumber: number, chapter: number, verse?: number) => {
+      navigation.getParent()?.navigate("Bible", {
+        screen: "Reader",
+        params: {
+          bookId: bookNumber,
+          chapter,
+          verse,
+          bookName: getBookInfo(bookNumber)?.long || `Book ${bookNumber}`,
+        },
+      });
+    },
+    [navigation]
+  );
+
+  // Notes are kept in KJV numbering; open the verse where the current
+  // translation has it
+  const handleNotePress = useCallback(
+    (note: Note) => {
+      const reference = fromKjvReference(bibleDB?.versification ?? "kjv", {
+        book: note.bookNumber,
+        chapter: note.chapter,
+        verse: note.verse,
+      });
+      openReader(reference.book, reference.chapter, reference.verse);
+    },
+    [bibleDB, openReader]
+  );
+
+  const handleReferencePress = useCallback(
+    (reference: BibleReference) =>
+      openReader(reference.bookNumber, reference.chapter, reference.startVerse),
+    [openReader]
+  );
+
+  const handleDelete = useCallback(
+    (note: Note) => {
+      Alert.alert(
+        "Delete Note",
+        `Delete your note on ${formatNoteReference(note)}?`,
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Delete",
+            style: "destructive",
+            onPress: () => deleteNote(note.id),
+          },
+        ]
+      );
+    },
+    [deleteNote]
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={{ flex: 1, backgroundColor: colors.background }}>
+        <View className="flex-1 justify-center items-center">
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={{ flex: 1, backgroundColor: colors.background }}>
+      <View className="flex-1 px-4 -mt-8">
+        <TextInput
+          className="p-3 rounded-lg border text-base mb-2"
+          style={{
+            color: colors.text,
+            borderColor: colors.border,
+            backgroundColor: colors.card,
+          }}
+          placeholder="Search notes"
+          placeholderTextColor={colors.muted}
+          value={query}
+          onChangeText={setQuery}
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+        />
+
+        {noteBooks.length > 1 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            className="mb-2 flex-grow-0"
+          >
+            <BookFilterChip
+              label="All"
+              selected={bookFilter === null}
+              onPress={() => setBookFilter(null)}
+              colors={colors}
+            />
+            {noteBooks.map((bookNumber) => (
+              <BookFilterChip
+                key={bookNumber}
+                label={getBookInfo(bookNumber)?.short || String(bookNumber)}
+                selected={bookFilter === bookNumber}
+                onPress={() => setBookFilter(bookNumber)}
+                colors={colors}
+              />
+            ))}
+          </ScrollView>
+        )}
+
+        <Text className="text-sm mb-2" style={{ color: colors.muted }}>
+          {filteredNotes.length} of {notes.length} note
+          {notes.length !== 1 ? "s" : ""}
+        </Text>
+
+        <FlatList
+          data={filteredNotes}
+          keyExtractor={(note) => note.id}
+          renderItem={({ item }) => (
+            <NoteCard
+              note={item}
+              onPress={handleNotePress}
+              onDelete={handleDelete}
+              onReferencePress={handleReferencePress}
+              colors={colors}
+            />
+          )}
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={{ paddingBottom: 24 }}
+          ListEmptyComponent={
+            <View className="items-center mt-12">
+              <Ionicons
+                name="document-text-outline"
+                size={48}
+                color={colors.muted}
+              />
+              <Text
+                className="mt-3 text-center"
+                style={{ color: colors.muted }}
+              >
+                {notes.length === 0
+                  ? "No notes yet. Long-press a verse in the reader and choose Add Note."
+                  : "No notes match your search."}
+              </Text>
+            </View>
+          }
+        />
+      </View>
+    </SafeAreaView>
+  );
+}
@@ -19,21 +19,61 @@ import {
 import { SafeAreaView } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { useFocusEffect } from "@react-navigation/native";
-import { BookmarksContext } from "../context/BookmarksContext";
+import * as Clipboard from "expo-clipboard";
+import {
+  BookmarksContext,
+  bookmarkCoversVerse,
+} from "../context/BookmarksContext";
 import { useHighlights } from "../context/HighlightsContext";
+import { useNotes } from "../context/NotesContext";
 import { useBibleDatabase } from "../context/BibleDatabaseContext";
-import { ChapterViewEnhanced } from "../components/ChapterViewEnhanced";
+import {
+  ChapterViewEnhanced,
+  ParallelText,
+} from "../components/ChapterViewEnhanced";
 import { SettingsModal } from "../components/SettingsModal";
 import { NavigationModal } from "../components/NavigationModal";
+import { NoteEditorModal } from "../components/NoteEditorModal";
+import { HighlightColorPicker } from "../components/HighlightColorPicker";
+import { WordHighlightModal } from "../components/WordHighlightModal";
+import { VerseSelectionToolbar } from "../components/VerseSelectionToolbar";
+import { CitationModal } from "../components/CitationModal";
+import { VerseCardModal } from "../components/VerseCardModal";
+import { useCitationTemplates } from "../context/CitationTemplatesContext";
 import { useChapterLoader } from "../hooks/useChapterLoader";
 import { useMultiVersion } from "../hooks/useMultiVersion";
 import { useNavigationModal } from "../hooks/useNavigationModal";
-import { useScrollSync } from "../hooks/useScrollSync";
+import { ScrollSyncPane, useScrollSync } from "../hooks/useScrollSync";
+import { useReadingTracker } from "../hooks/useReadingTracker";
+import { useWordDiffs } from "../hooks/useWordDiffs";
+import { useStories } from "../hooks/useStories";
 import { useThemeColors } from "../hooks/useThemeColors";
 import { getVersionDisplayName } from "../utils/bibleVersionUtils";
-import { Verse } from "../types";
+import { formatCitation, formatPassageReference } from "../utils/citation";
+import {
+  VerseReference,
+  getVerseReference,
+  toKjvReference,
+  translateVerse,
+} from "../utils/versification";
+import { BibleReference, Verse } from "../types";
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get("window");
+// Shortest side, in points, from which a device counts as a tablet
+const TABLET_MIN_WIDTH = 600;
+
+// Runs a per-chapter lookup once for each chapter the references fall in
+const lookupByChapter = <T,>(
+  references: VerseReference[],
+  lookup: (bookNumber: number, chapter: number) => T
+): T[] => {
+  const results = new Map<string, T>();
+  return references.map(({ book, chapter }) => {
+    const key = `${book}:${chapter}`;
+    if (!results.has(key)) results.set(key, lookup(book, chapter));
+    return results.get(key) as T;
+  });
+};
 
 export default function ReaderScreen({
   navigation,
@@ -43,12 +83,16 @@ export default function ReaderScreen({
   route: any;
 }) {
   const { bookId, chapter, bookName, verse: targetVerse } = route.params;
-  const { addBookmark, bookmarks } = useContext(BookmarksContext);
+  const { addBookmark, addPassageBookmark, addChapterBookmark, bookmarks } =
+    useContext(BookmarksContext);
   const {
-    toggleVerseHighlight,
     getChapterHighlights,
+    getChapterHighlightColors,
+    getChapterWordHighlights,
     loading: highlightedVersesLoading,
   } = useHighlights();
+  const { getChapterNoteVerses } = useNotes();
+  const { activeTemplate } = useCitationTemplates();
   const {
     bibleDB,
     currentVersion,
@@ -76,9 +120,9 @@ export default function ReaderScreen({
   const multiVersion = useMultiVersion(bookId, chapter, verses);
   const {
     showMultiVersion,
+    secondaryVersions,
     secondaryVerses,
     secondaryLoading,
-    secondaryScrollViewRef,
     ...multiProps
   } = multiVersion;
   const navModal = useNavigationModal(
@@ -92,8 +136,43 @@ export default function ReaderScreen({
   const [fontSize, setFontSize] = useState(16);
   const [uiMode, setUiMode] = useState(0);
   const [isLandscape, setIsLandscape] = useState(screenWidth > screenHeight);
+  const [isTablet, setIsTablet] = useState(
+    Math.min(screenWidth, screenHeight) >= TABLET_MIN_WIDTH
+  );
+  // Selected verses shown on their own, each with every parallel
+  // translation under it
+  const [comparedVerses, setComparedVerses] = useState<Set<number> | null>(
+    null
+  );
+  // Parallel translations sit in columns where there is room for them and
+  // are interleaved verse by verse on phones in portrait, when comparing
+  // selected verses, or on request
+  const hasRoomForColumns = isLandscape || isTablet;
+  const showColumns =
+    hasRoomForColumns &&
+    multiProps.parallelLayout === "columns" &&
+    !comparedVerses;
   const [_showEnd, setShowEnd] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [noteVerse, setNoteVerse] = useState<Verse | null>(null);
+  const [noteEndVerse, setNoteEndVerse] = useState<number | undefined>();
+  const [colorPickerVerses, setColorPickerVerses] = useState<Verse[]>([]);
+  // Verses to cite or turn into an image, with the translation they were
+  // read in, which may be a parallel one
+  const [citationTarget, setCitationTarget] = useState<{
+    verses: Verse[];
+    version: string | null;
+  } | null>(null);
+  const [cardTarget, setCardTarget] = useState<{
+    verses: Verse[];
+    version: string | null;
+  } | null>(null);
+  const [wordHighlightTarget, setWordHighlightTarget] = useState<{
+    verse: Verse;
+    version: string | null;
+  } | null>(null);
+  // Verses picked for a passage action; selection mode while non-empty
+  const [selectedVerses, setSelectedVerses] = useState<Set<number>>(new Set());
   const lastScrollYRef = useRef(0);
   const [scrollThreshold] = useState(50);
   const scrollY = useRef(new Animated.Value(0)).current;
@@ -101,15 +180,37 @@ export default function ReaderScreen({
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const isFullScreen = uiMode === 2;
   const hideHeader = uiMode === 1 || uiMode === 2;
+  const { handleScrollDepth } = useReadingTracker(
+    currentVersion,
+    bookId,
+    chapter,
+    targetVerse,
+    verses,
+    chapterProps.verseMeasurements
+  );
+  const secondaryPanes = useMemo<ScrollSyncPane[]>(
+    () =>
+      secondaryVersions.map((version) => ({
+        verses: secondaryVerses[version] ?? [],
+        verseMeasurements: multiProps.secondaryVerseMeasurements[version] ?? {},
+        contentHeight: multiProps.secondaryContentHeights[version] ?? 1,
+        scrollViewRef: multiProps.getSecondaryScrollViewRef(version),
+      })),
+    [
+      secondaryVersions,
+      secondaryVerses,
+      multiProps.secondaryVerseMeasurements,
+      multiProps.secondaryContentHeights,
+      multiProps.getSecondaryScrollViewRef,
+    ]
+  );
   const scrollSync = useScrollSync(
-    showMultiVersion,
+    showMultiVersion && showColumns,
     chapterProps.scrollViewHeight,
     chapterProps.contentHeight,
-    multiProps.secondaryContentHeight,
     verses,
     chapterProps.verseMeasurements,
-    secondaryVerses,
-    multiProps.secondaryVerseMeasurements,
+    secondaryPanes,
     isLandscape,
     isFullScreen,
     () => {}, // Placeholder, no longer used for setting full screen
@@ -118,7 +219,7 @@ export default function ReaderScreen({
     scrollY,
     setShowEnd,
     primaryScrollViewRef,
-    secondaryScrollViewRef
+    handleScrollDepth
   );
   const { handleScroll, handleSecondaryScroll } = scrollSync;
 
@@ -149,19 +250,316 @@ export default function ReaderScreen({
     };
   }, [resetButtonOpacity]);
 
-  const bookmarkedVerses = useMemo(() => {
-    const chapterBookmarks = bookmarks.filter(
-      (b) => b.book_number === bookId && b.chapter === chapter
-    );
-    return new Set(chapterBookmarks.map((b) => b.verse));
-  }, [bookmarks, bookId, chapter]);
+  // Bookmarks, highlights and notes are kept in KJV verse numbering, so
+  // the chapter's verses are looked up by their KJV references
+  const versification = bibleDB?.versification ?? "kjv";
+  const kjvReferences = useMemo(
+    () =>
+      verses.map((v) => toKjvReference(versification, getVerseReference(v))),
+    [verses, versification]
+  );
+  const toKjvVerse = useCallback(
+    (verse: Verse) => translateVerse(verse, versification, "kjv"),
+    [versification]
+  );
+  // A passage stays within the KJV chapter its first verse falls in
+  const toKjvPassage = useCallback(
+    (passage: Verse[]) => {
+      const kjvPassage = passage.map(toKjvVerse);
+      return kjvPassage.filter(
+        (v) =>
+          v.book_number === kjvPassage[0]?.book_number &&
+          v.chapter === kjvPassage[0]?.chapter
+      );
+    },
+    [toKjvVerse]
+  );
+
+  // Verses covered by any bookmark, including range and chapter bookmarks
+  const bookmarkedVerses = useMemo(
+    () =>
+      new Set(
+        verses
+          .filter((_, i) => {
+            const { book, chapter: kjvChapter, verse } = kjvReferences[i];
+            return bookmarks.some((b) =>
+              bookmarkCoversVerse(b, book, kjvChapter, verse)
+            );
+          })
+          .map((v) => v.verse)
+      ),
+    [bookmarks, verses, kjvReferences]
+  );
 
   // REFACTOR: Memoize highlightedVerses to prevent re-compute on every render (uses getChapterHighlights which may query storage)
-  const highlightedVerses = useMemo(
-    () => getChapterHighlights(bookId, chapter),
-    [bookId, chapter, getChapterHighlights]
+  const highlightedVerses = useMemo(() => {
+    const chapterHighlights = lookupByChapter(
+      kjvReferences,
+      getChapterHighlights
+    );
+    return verses
+      .filter((_, i) => chapterHighlights[i].includes(kjvReferences[i].verse))
+      .map((v) => v.verse);
+  }, [verses, kjvReferences, getChapterHighlights]);
+
+  const highlightColors = useMemo(() => {
+    const chapterColors = lookupByChapter(
+      kjvReferences,
+      getChapterHighlightColors
+    );
+    const colorsByVerse = new Map<number, string>();
+    verses.forEach((v, i) => {
+      const color = chapterColors[i].get(kjvReferences[i].verse);
+      if (color) colorsByVerse.set(v.verse, color);
+    });
+    return colorsByVerse;
+  }, [verses, kjvReferences, getChapterHighlightColors]);
+
+  // Word spans only line up with the translation they were made in
+  const wordHighlights = useMemo(
+    () => getChapterWordHighlights(bookId, chapter, currentVersion),
+    [bookId, chapter, currentVersion, getChapterWordHighlights]
+  );
+  const secondaryWordHighlights = useMemo(
+    () =>
+      Object.fromEntries(
+        secondaryVersions.map((version) => [
+          version,
+          getChapterWordHighlights(bookId, chapter, version),
+        ])
+      ),
+    [bookId, chapter, secondaryVersions, getChapterWordHighlights]
+  );
+
+  // Section headings of the translation being read
+  const stories = useStories(bookId, chapter);
+
+  const wordDiffs = useWordDiffs(
+    showMultiVersion && multiProps.showWordDiff,
+    verses,
+    secondaryVersions,
+    secondaryVerses
+  );
+
+  // The chapter, or just the verses being compared
+  const displayedVerses = useMemo(
+    () =>
+      comparedVerses
+        ? verses.filter((v) => comparedVerses.has(v.verse))
+        : verses,
+    [verses, comparedVerses]
   );
 
+  // Outside columns, parallel translations go under each verse
+  const stackedParallelTexts = useMemo<ParallelText[]>(
+    () =>
+      showMultiVersion && !showColumns
+        ? secondaryVersions.map((version) => ({
+            label: getVersionDisplayName(version),
+            verses: (secondaryVerses[version] ?? []).filter(
+              (v) => !comparedVerses || comparedVerses.has(v.verse)
+            ),
+            wordHighlights: secondaryWordHighlights[version],
+            wordDiffs: wordDiffs[version],
+          }))
+        : [],
+    [
+      showMultiVersion,
+      showColumns,
+      secondaryVersions,
+      secondaryVerses,
+      comparedVerses,
+      secondaryWordHighlights,
+      wordDiffs,
+    ]
+  );
+
+  const notedVerses = useMemo(() => {
+    const chapterNotes = lookupByChapter(kjvReferences, getChapterNoteVerses);
+    return new Set(
+      verses
+        .filter((_, i) => chapterNotes[i].has(kjvReferences[i].verse))
+        .map((v) => v.verse)
+    );
+  }, [verses, kjvReferences, getChapterNoteVerses]);
+
+  const lastVerse = useMemo(
+    () => verses.reduce((max, v) => Math.max(max, v.verse), 0),
+    [verses]
+  );
+
+  // A selection, or a comparison of one, belongs to the chapter it was
+  // made in
+  useEffect(() => {
+    setSelectedVerses(new Set());
+    setComparedVerses(null);
+  }, [bookId, chapter]);
+
+  // Closing the parallel view, or failing to open it, ends a comparison
+  useEffect(() => {
+    if (!showMultiVersion && comparedVerses) setComparedVerses(null);
+  }, [showMultiVersion, comparedVerses]);
+
+  const isSelecting = selectedVerses.size > 0;
+  const clearSelection = useCallback(() => setSelectedVerses(new Set()), []);
+
+  // The verses picked, which copying, sharing, images and highlights use
+  const selectedVerseList = useMemo(
+    () => verses.filter((v) => selectedVerses.has(v.verse)),
+    [selectedVerses, verses]
+  );
+
+  // Range bookmarks and notes cover one passage: every verse from the first
+  // picked to the last
+  const selectedPassage = useMemo(() => {
+    if (selectedVerses.size === 0) return [];
+    const numbers = Array.from(selectedVerses);
+    const start = Math.min(...numbers);
+    const end = Math.max(...numbers);
+    return verses.filter((v) => v.verse >= start && v.verse <= end);
+  }, [selectedVerses, verses]);
+
+  const selectionTitle = useMemo(
+    () =>
+      selectedVerseList.length > 0
+        ? formatPassageReference(selectedVerseList, bookName)
+        : "",
+    [selectedVerseList, bookName]
+  );
+
+  // Set only when the passage takes in verses that weren't picked
+  const passageTitle = useMemo(
+    () =>
+      selectedPassage.length > selectedVerseList.length
+        ? formatPassageReference(selectedPassage, bookName)
+        : undefined,
+    [selectedPassage, selectedVerseList, bookName]
+  );
+
+  const handleBookmarkSelection = useCallback(
+    (wholeChapter: boolean) => {
+      const added = wholeChapter
+        ? addChapterBookmark(toKjvPassage(verses))
+        : addPassageBookmark(toKjvPassage(selectedPassage));
+      const title = wholeChapter
+        ? `${bookName} ${chapter}`
+        : (passageTitle ?? selectionTitle);
+      if (added) {
+        Alert.alert("Bookmarked!", `${title} added to bookmarks.`);
+        clearSelection();
+      } else {
+        Alert.alert(
+          "Already Bookmarked",
+          `${title} is already covered by a bookmark.`
+        );
+      }
+    },
+    [
+      addChapterBookmark,
+      addPassageBookmark,
+      toKjvPassage,
+      verses,
+      selectedPassage,
+      selectionTitle,
+      passageTitle,
+      bookName,
+      chapter,
+      clearSelection,
+    ]
+  );
+
+  // Copy straight away with the last used citation template
+  const handleCopySelection = useCallback(async () => {
+    try {
+      await Clipboard.setStringAsync(
+        formatCitation(
+          selectedVerseList,
+          activeTemplate,
+          bookName,
+          currentVersion
+        )
+      );
+      Alert.alert("Copied", `${selectionTitle} copied to the clipboard.`);
+      clearSelection();
+    } catch (error) {
+      console.error("Failed to copy verses:", error);
+      Alert.alert("Error", "Could not copy the selected verses.");
+    }
+  }, [
+    selectedVerseList,
+    activeTemplate,
+    bookName,
+    currentVersion,
+    selectionTitle,
+    clearSelection,
+  ]);
+
+  // Sharing goes through the citation options first
+  const handleShareSelection = useCallback(() => {
+    setCitationTarget({ verses: selectedVerseList, version: currentVersion });
+    clearSelection();
+  }, [selectedVerseList, currentVersion, clearSelection]);
+
+  const handleImageSelection = useCallback(() => {
+    setCardTarget({ verses: selectedVerseList, version: currentVersion });
+    clearSelection();
+  }, [selectedVerseList, currentVersion, clearSelection]);
+
+  const handleBookmarkSelectionPress = useCallback(() => {
+    const message = passageTitle
+      ? `A passage bookmark covers every verse from the first selected to the last: ${passageTitle}.`
+      : selectionTitle;
+    Alert.alert("Bookmark", message, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Bookmark Passage",
+        onPress: () => handleBookmarkSelection(false),
+      },
+      {
+        text: "Bookmark Whole Chapter",
+        onPress: () => handleBookmarkSelection(true),
+      },
+    ]);
+  }, [selectionTitle, passageTitle, handleBookmarkSelection]);
+
+  const handleHighlightSelection = useCallback(() => {
+    setColorPickerVerses(selectedVerseList.map(toKjvVerse));
+    clearSelection();
+  }, [selectedVerseList, toKjvVerse, clearSelection]);
+
+  // Notes cover a range of verses, so start the note at the selection's
+  // first verse and prefill its last
+  const handleNoteSelection = useCallback(() => {
+    if (selectedPassage.length === 0) return;
+    const kjvPassage = toKjvPassage(selectedPassage);
+    setNoteEndVerse(kjvPassage[kjvPassage.length - 1].verse);
+    setNoteVerse(kjvPassage[0]);
+    clearSelection();
+  }, [selectedPassage, toKjvPassage, clearSelection]);
+
+  // Opens the parallel view if needed; when there is no other translation
+  // it stays closed and the comparison is dropped again
+  const handleCompareSelection = useCallback(() => {
+    setComparedVerses(new Set(selectedVerses));
+    if (!showMultiVersion) multiProps.toggleMultiVersion();
+    clearSelection();
+  }, [
+    selectedVerses,
+    showMultiVersion,
+    multiProps.toggleMultiVersion,
+    clearSelection,
+  ]);
+
+  const handleNotePress = useCallback(
+    (verse: Verse) => setNoteVerse(toKjvVerse(verse)),
+    [toKjvVerse]
+  );
+
+  const closeNoteEditor = useCallback(() => {
+    setNoteVerse(null);
+    setNoteEndVerse(undefined);
+  }, []);
+
   const handleVersionSelect = useCallback(
     async (version: string) => {
       if (version === currentVersion) return;
@@ -177,6 +575,15 @@ export default function ReaderScreen({
     [currentVersion, switchVersion, multiProps.setIsSwitchingVersion]
   );
 
+  // Opened from a result found in another translation. The param is cleared
+  // once used so it doesn't override a later choice in the version picker.
+  const requestedVersion: string | undefined = route.params.version;
+  useEffect(() => {
+    if (!requestedVersion) return;
+    navigation.setParams({ version: undefined });
+    handleVersionSelect(requestedVersion);
+  }, [requestedVersion, navigation, handleVersionSelect]);
+
   const increaseFontSize = useCallback(
     () => setFontSize((prev) => Math.min(prev + 1, 24)),
     []
@@ -187,24 +594,43 @@ export default function ReaderScreen({
   );
 
   const handleVersePress = useCallback(
-    (verse: Verse) => {
+    (verse: Verse, version: string | null = currentVersion) => {
       const isHighlighted = highlightedVerses.includes(verse.verse);
+      const hasNotes = notedVerses.has(verse.verse);
       Alert.alert(
         `${verse.book_name} ${verse.chapter}:${verse.verse}`,
         "Options:",
         [
           { text: "Cancel", style: "cancel" },
           {
-            text: isHighlighted ? "Remove Highlight" : "Highlight",
-            onPress: () => toggleVerseHighlight(verse),
+            text: isHighlighted ? "Change Highlight" : "Highlight",
+            onPress: () => setColorPickerVerses([toKjvVerse(verse)]),
+          },
+          {
+            text: "Highlight Words",
+            onPress: () => setWordHighlightTarget({ verse, version }),
           },
           {
             text: "Bookmark",
             onPress: () => {
-              addBookmark(verse);
-              Alert.alert("Bookmarked!", "Verse added to bookmarks.");
+              if (addBookmark(toKjvVerse(verse))) {
+                Alert.alert("Bookmarked!", "Verse added to bookmarks.");
+              } else {
+                Alert.alert(
+                  "Already Bookmarked",
+                  "This verse is already in your bookmarks."
+                );
+              }
             },
           },
+          {
+            text: "Select Verses",
+            onPress: () => setSelectedVerses(new Set([verse.verse])),
+          },
+          {
+            text: hasNotes ? "Notes" : "Add Note",
+            onPress: () => setNoteVerse(toKjvVerse(verse)),
+          },
           {
             text: "Center Verse",
             onPress: () =>
@@ -214,21 +640,46 @@ export default function ReaderScreen({
               }),
           },
           {
-            text: "Share",
-            onPress: () => Alert.alert("Share", "Coming soon!"),
+            text: "Copy / Share",
+            onPress: () => setCitationTarget({ verses: [verse], version }),
           },
         ]
       );
     },
     [
+      currentVersion,
       highlightedVerses,
-      toggleVerseHighlight,
+      notedVerses,
       addBookmark,
+      toKjvVerse,
       navigation,
       route.params,
     ]
   );
 
+  // Follow a [[verse]] link in a note
+  const handleNoteReferencePress = useCallback(
+    (reference: BibleReference) =>
+      navigation.navigate("Reader", {
+        bookId: reference.bookNumber,
+        chapter: reference.chapter,
+        bookName: reference.bookName,
+        verse: reference.startVerse,
+      }),
+    [navigation]
+  );
+
+  // Open the Strong's concordance for a number tapped in the dictionary
+  const handleStrongsSearch = useCallback(
+    (strongNumber: string) => {
+      navigation.getParent()?.navigate("SearchTab", {
+        screen: "Search",
+        params: { query: strongNumber },
+      });
+    },
+    [navigation]
+  );
+
   const goToPreviousChapter = useCallback(() => {
     if (chapter > 1)
       navigation.navigate("Reader", {
@@ -274,6 +725,7 @@ export default function ReaderScreen({
       const { width, height } = Dimensions.get("window");
       const currentIsLandscape = width > height;
       setIsLandscape(currentIsLandscape);
+      setIsTablet(Math.min(width, height) >= TABLET_MIN_WIDTH);
     }, [])
   );
 
@@ -282,6 +734,7 @@ export default function ReaderScreen({
       const { width: newWidth, height: newHeight } = Dimensions.get("window");
       const newIsLandscape = newWidth > newHeight;
       setIsLandscape(newIsLandscape);
+      setIsTablet(Math.min(newWidth, newHeight) >= TABLET_MIN_WIDTH);
     };
     updateLayout();
     const subscription = Dimensions.addEventListener("change", updateLayout);
@@ -303,9 +756,6 @@ export default function ReaderScreen({
 
   const renderMultiVersionContent = () => {
     const primaryDisplay = getVersionDisplayName(currentVersion);
-    const secondaryDisplay = getVersionDisplayName(
-      multiProps.secondaryVersion || ""
-    );
 
     const renderPrimaryContent = () => {
       if (chapterLoading) {
@@ -367,8 +817,27 @@ export default function ReaderScreen({
             onLayout={chapterProps.handleChapterContainerLayout}
             style={{}}
           >
+            {comparedVerses && (
+              <View
+                className="flex-row items-center mx-3 mt-2 px-3 py-2 rounded-lg"
+                style={{ backgroundColor: colors.primary + "15" }}
+              >
+                <Text
+                  className="flex-1"
+                  style={{ color: colors.text?.primary }}
+                  numberOfLines={1}
+                >
+                  Comparing {formatPassageReference(displayedVerses, bookName)}
+                </Text>
+                <TouchableOpacity onPress={() => setComparedVerses(null)}>
+                  <Text style={{ color: colors.primary, fontWeight: "600" }}>
+                    Whole Chapter
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            )}
             <ChapterViewEnhanced
-              verses={verses}
+              verses={displayedVerses}
               bookName={bookName}
               chapterNumber={chapter}
               bookId={bookId}
@@ -378,62 +847,63 @@ export default function ReaderScreen({
               onVerseLayout={chapterProps.handleVerseLayout}
               highlightVerse={targetVerse}
               highlightedVerses={new Set(highlightedVerses)}
+              highlightColors={highlightColors}
+              wordHighlights={wordHighlights}
               bookmarkedVerses={bookmarkedVerses}
+              selectedVerses={selectedVerses}
+              onSelectionChange={isSelecting ? setSelectedVerses : undefined}
+              notedVerses={notedVerses}
+              onNotePress={handleNotePress}
               isFullScreen={isFullScreen}
               displayVersion={primaryDisplay}
               colors={colors}
+              onStrongsSearch={handleStrongsSearch}
+              parallelTexts={stackedParallelTexts}
+              stories={stories}
             />
           </View>
         </ScrollView>
       );
     };
 
-    if (!showMultiVersion) {
+    if (!showMultiVersion || !showColumns) {
       return renderPrimaryContent();
     }
 
-    return (
-      <View className="flex-1 flex-row">
+    const renderPaneHeader = (label: string) => (
+      <View
+        style={{
+          backgroundColor: colors.muted + "20",
+          paddingVertical: 8,
+          paddingHorizontal: 16,
+          borderBottomWidth: 1,
+          borderBottomColor: colors.border?.default,
+        }}
+      >
+        <Text
+          style={{ color: colors.primary, fontSize: 14, fontWeight: "600" }}
+          numberOfLines={1}
+        >
+          {label}
+        </Text>
+      </View>
+    );
+
+    const renderSecondaryPane = (version: string, paneIndex: number) => {
+      const secondaryDisplay = getVersionDisplayName(version);
+      const paneVerses = secondaryVerses[version] ?? [];
+      const isLastPane = paneIndex === secondaryVersions.length - 1;
+
+      return (
         <View
+          key={version}
           style={{
             flex: 1,
-            borderRightWidth: 1,
+            borderRightWidth: isLastPane ? 0 : 1,
             borderRightColor: colors.border?.default,
           }}
         >
-          <View
-            style={{
-              backgroundColor: colors.muted + "20",
-              paddingVertical: 8,
-              paddingHorizontal: 16,
-              borderBottomWidth: 1,
-              borderBottomColor: colors.border?.default,
-            }}
-          >
-            <Text
-              style={{ color: colors.primary, fontSize: 14, fontWeight: "600" }}
-            >
-              {primaryDisplay}
-            </Text>
-          </View>
-          {renderPrimaryContent()}
-        </View>
-        <View style={{ flex: 1 }}>
-          <View
-            style={{
-              backgroundColor: colors.muted + "20",
-              paddingVertical: 8,
-              paddingHorizontal: 16,
-              borderBottomWidth: 1,
-              borderBottomColor: colors.border?.default,
-            }}
-          >
-            <Text
-              style={{ color: colors.primary, fontSize: 14, fontWeight: "600" }}
-            >
-              {secondaryDisplay}
-            </Text>
-          </View>
+          {renderPaneHeader(secondaryDisplay)}
           {secondaryLoading ? (
             <View
               style={{
@@ -445,7 +915,7 @@ export default function ReaderScreen({
               <ActivityIndicator size="small" color={colors.primary} />
               <Text style={{ color: colors.muted, marginTop: 8 }}>Loading</Text>
             </View>
-          ) : secondaryVerses.length === 0 ? (
+          ) : paneVerses.length === 0 ? (
             <View
               style={{
                 flex: 1,
@@ -469,36 +939,68 @@ export default function ReaderScreen({
             </View>
           ) : (
             <ScrollView
-              ref={secondaryScrollViewRef}
+              ref={multiProps.getSecondaryScrollViewRef(version)}
               showsVerticalScrollIndicator={false}
               contentContainerStyle={{
                 paddingBottom: 40,
                 paddingTop: hideHeader ? 10 : 0,
               }}
-              onScroll={handleSecondaryScroll}
+              onScroll={(event) => handleSecondaryScroll(paneIndex, event)}
               scrollEventThrottle={16}
-              onContentSizeChange={multiProps.handleSecondaryContentSizeChange}
+              onContentSizeChange={(w, h) =>
+                multiProps.handleSecondaryContentSizeChange(version, w, h)
+              }
               onLayout={chapterProps.handleScrollViewLayout}
             >
               <ChapterViewEnhanced
-                verses={secondaryVerses}
+                verses={paneVerses}
                 bookName={bookName}
                 chapterNumber={chapter}
                 bookId={bookId}
                 showVerseNumbers
                 fontSize={fontSize}
-                onVersePress={handleVersePress}
-                onVerseLayout={multiProps.handleSecondaryVerseLayout}
+                onVersePress={(verse) => handleVersePress(verse, version)}
+                onVerseLayout={(verseNumber, event) =>
+                  multiProps.handleSecondaryVerseLayout(
+                    version,
+                    verseNumber,
+                    event
+                  )
+                }
                 highlightVerse={targetVerse}
                 highlightedVerses={new Set(highlightedVerses)}
+                highlightColors={highlightColors}
+                wordHighlights={secondaryWordHighlights[version]}
+                wordDiffs={wordDiffs[version]}
                 bookmarkedVerses={bookmarkedVerses}
+                selectedVerses={selectedVerses}
+                onSelectionChange={isSelecting ? setSelectedVerses : undefined}
+                notedVerses={notedVerses}
+                onNotePress={handleNotePress}
                 isFullScreen={isFullScreen}
                 displayVersion={secondaryDisplay}
                 colors={colors}
+                onStrongsSearch={handleStrongsSearch}
               />
             </ScrollView>
           )}
         </View>
+      );
+    };
+
+    return (
+      <View className="flex-1 flex-row">
+        <View
+          style={{
+            flex: 1,
+            borderRightWidth: 1,
+            borderRightColor: colors.border?.default,
+          }}
+        >
+          {renderPaneHeader(primaryDisplay)}
+          {renderPrimaryContent()}
+        </View>
+        {secondaryVersions.map(renderSecondaryPane)}
       </View>
     );
   };
@@ -748,7 +1250,15 @@ export default function ReaderScreen({
         availableBibleVersions={availableBibleVersions} // Fixed: Changed from availableVersions
         handleVersionSelect={handleVersionSelect}
         handleSecondaryVersionSelect={multiProps.handleSecondaryVersionSelect}
-        secondaryVersion={multiProps.secondaryVersion}
+        secondaryVersions={secondaryVersions}
+        canAddSecondaryVersion={multiProps.canAddSecondaryVersion}
+        addSecondaryVersion={multiProps.addSecondaryVersion}
+        removeSecondaryVersion={multiProps.removeSecondaryVersion}
+        parallelLayout={multiProps.parallelLayout}
+        setParallelLayout={multiProps.setParallelLayout}
+        canShowColumns={hasRoomForColumns}
+        showWordDiff={multiProps.showWordDiff}
+        setShowWordDiff={multiProps.setShowWordDiff}
         isSwitchingVersion={multiProps.isSwitchingVersion}
       />
       <NavigationModal
@@ -758,85 +1268,148 @@ export default function ReaderScreen({
         colors={colors}
         primaryTextColor={primaryTextColor}
       />
+      <NoteEditorModal
+        visible={noteVerse !== null}
+        onClose={closeNoteEditor}
+        verse={noteVerse}
+        lastVerse={lastVerse}
+        initialEndVerse={noteEndVerse}
+        colors={colors}
+        primaryTextColor={primaryTextColor}
+        onReferencePress={handleNoteReferencePress}
+      />
+      <WordHighlightModal
+        visible={wordHighlightTarget !== null}
+        onClose={() => setWordHighlightTarget(null)}
+        verse={wordHighlightTarget?.verse ?? null}
+        version={wordHighlightTarget?.version ?? null}
+        colors={colors}
+        primaryTextColor={primaryTextColor}
+      />
+      <CitationModal
+        visible={citationTarget !== null}
+        onClose={() => setCitationTarget(null)}
+        verses={citationTarget?.verses ?? []}
+        bookName={bookName}
+        version={citationTarget?.version ?? null}
+        colors={colors}
+        primaryTextColor={primaryTextColor}
+      />
+      <VerseCardModal
+        visible={cardTarget !== null}
+        onClose={() => setCardTarget(null)}
+        verses={cardTarget?.verses ?? []}
+        bookName={bookName}
+        version={cardTarget?.version ?? null}
+        colors={colors}
+        primaryTextColor={primaryTextColor}
+      />
+      <HighlightColorPicker
+        visible={colorPickerVerses.length > 0}
+        onClose={() => setColorPickerVerses([])}
+        verses={colorPickerVerses}
+        colors={colors}
+        primaryTextColor={primaryTextColor}
+      />
 
       {/* Chapter Content */}
       {renderMultiVersionContent()}
 
-      {/* Full screen toggle button - always visible, positioned absolutely */}
-      <Animated.View
-        className={`absolute left-1/2 -ml-6 size-12 rounded-full items-center justify-center z-50`}
-        style={{ opacity: buttonOpacity, bottom: 44 }}
-      >
-        <TouchableOpacity
-          onPress={() => {
-            setUiMode((prev) => (prev + 1) % 3);
-            resetButtonOpacity();
-          }}
-          className={`absolute left-1/2 -ml-6 size-12 rounded-full items-center justify-center z-50`}
-          style={{ backgroundColor: colors.primary }}
-        >
-          <Text
+      {/* Selection actions replace the chapter navigation while selecting */}
+      {isSelecting ? (
+        <VerseSelectionToolbar
+          title={selectionTitle}
+          passageTitle={passageTitle}
+          onCopy={handleCopySelection}
+          onShare={handleShareSelection}
+          onImage={handleImageSelection}
+          onBookmark={handleBookmarkSelectionPress}
+          onHighlight={handleHighlightSelection}
+          onNote={handleNoteSelection}
+          onCompare={handleCompareSelection}
+          onClose={clearSelection}
+          colors={colors}
+          primaryTextColor={primaryTextColor}
+        />
+      ) : (
+        <>
+          {/* Full screen toggle button - always visible, positioned absolutely */}
+          <Animated.View
+            className={`absolute left-1/2 -ml-6 size-12 rounded-full items-center justify-center z-50`}
+            style={{ opacity: buttonOpacity, bottom: 44 }}
+          >
+            <TouchableOpacity
+              onPress={() => {
+                setUiMode((prev) => (prev + 1) % 3);
+                resetButtonOpacity();
+              }}
+              className={`absolute left-1/2 -ml-6 size-12 rounded-full items-center justify-center z-50`}
+              style={{ backgroundColor: colors.primary }}
+            >
+              <Text
+                style={{
+                  color: "white",
+                  fontSize: 24,
+                  fontWeight: "bold",
+                }}
+              >
+                {isFullScreen ? "◱" : "◲"}
+              </Text>
+            </TouchableOpacity>
+          </Animated.View>
+          <Animated.View
             style={{
-              color: "white",
-              fontSize: 24,
-              fontWeight: "bold",
+              position: "absolute",
+              bottom: 34,
+              left: 0,
+              right: 0,
+              height: 60,
+              flexDirection: "row",
+              justifyContent: "space-between",
+              alignItems: "center",
+              paddingHorizontal: 16,
+              opacity: buttonOpacity,
             }}
           >
-            {isFullScreen ? "◱" : "◲"}
-          </Text>
-        </TouchableOpacity>
-      </Animated.View>
-      <Animated.View
-        style={{
-          position: "absolute",
-          bottom: 34,
-          left: 0,
-          right: 0,
-          height: 60,
-          flexDirection: "row",
-          justifyContent: "space-between",
-          alignItems: "center",
-          paddingHorizontal: 16,
-          opacity: buttonOpacity,
-        }}
-      >
-        <TouchableOpacity
-          onPress={() => {
-            goToPreviousChapter();
-            resetButtonOpacity();
-          }}
-          disabled={chapter <= 1}
-          style={{
-            width: 35,
-            height: 35,
-            backgroundColor: colors.primary,
-            borderRadius: "100%",
-            justifyContent: "center",
-            alignItems: "center",
-            marginLeft: 28,
-          }}
-        >
-          <Ionicons name="chevron-back" size={24} color="white" />
-        </TouchableOpacity>
-        <View style={{ flex: 1, alignItems: "center" }} />
-        <TouchableOpacity
-          onPress={() => {
-            goToNextChapter();
-            resetButtonOpacity();
-          }}
-          style={{
-            width: 35,
-            height: 35,
-            backgroundColor: colors.primary,
-            borderRadius: "100%",
-            justifyContent: "center",
-            alignItems: "center",
-            marginRight: 28,
-          }}
-        >
-          <Ionicons name="chevron-forward" size={24} color="white" />
-        </TouchableOpacity>
-      </Animated.View>
+            <TouchableOpacity
+              onPress={() => {
+                goToPreviousChapter();
+                resetButtonOpacity();
+              }}
+              disabled={chapter <= 1}
+              style={{
+                width: 35,
+                height: 35,
+                backgroundColor: colors.primary,
+                borderRadius: "100%",
+                justifyContent: "center",
+                alignItems: "center",
+                marginLeft: 28,
+              }}
+            >
+              <Ionicons name="chevron-back" size={24} color="white" />
+            </TouchableOpacity>
+            <View style={{ flex: 1, alignItems: "center" }} />
+            <TouchableOpacity
+              onPress={() => {
+                goToNextChapter();
+                resetButtonOpacity();
+              }}
+              style={{
+                width: 35,
+                height: 35,
+                backgroundColor: colors.primary,
+                borderRadius: "100%",
+                justifyContent: "center",
+                alignItems: "center",
+                marginRight: 28,
+              }}
+            >
+              <Ionicons name="chevron-forward" size={24} color="white" />
+            </TouchableOpacity>
+          </Animated.View>
+        </>
+      )}
     </View>
   );
 }
@@ -0,0 +1,196 @@
+import React, { useCallback, useMemo } from "react";
+import {
+  Text,
+  SectionList,
+  TouchableOpacity,
+  View,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { StackNavigationProp } from "@react-navigation/stack";
+import { Ionicons } from "@expo/vector-icons";
+import { ReadingHistoryEntry, RootStackParamList } from "../types";
+import { useTheme } from "../context/ThemeContext";
+import { useReadingProgress } from "../context/ReadingProgressContext";
+import { Button } from "../components/Button";
+import { getBookInfo } from "../utils/testamentUtils";
+import { getVersionDisplayName } from "../utils/bibleVersionUtils";
+
+type ReadingHistoryScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  "ReadingHistory"
+>;
+
+interface Props {
+  navigation: ReadingHistoryScreenNavigationProp;
+}
+
+const getDayLabel = (date: Date): string => {
+  const today = new Date();
+  const yesterday = new Date(today);
+  yesterday.setDate(today.getDate() - 1);
+
+  if (date.toDateString() === today.toDateString()) return "Today";
+  if (date.toDateString() === yesterday.toDateString()) return "Yesterday";
+  return date.toLocaleDateString(undefined, {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    year: date.getFullYear() === today.getFullYear() ? undefined : "numeric",
+  });
+};
+
+const HistoryRow = React.memo(
+  ({
+    entry,
+    onPress,
+    colors,
+  }: {
+    entry: ReadingHistoryEntry;
+    onPress: (entry: ReadingHistoryEntry) => void;
+    colors: any;
+  }) => (
+    <TouchableOpacity
+      onPress={() => onPress(entry)}
+      className="flex-row items-center rounded-lg p-3 mb-2"
+      style={{
+        backgroundColor: colors.card,
+        borderColor: colors.border,
+        borderWidth: 1,
+      }}
+    >
+      <View className="flex-1">
+        <Text className="font-semibold" style={{ color: colors.text }}>
+          {getBookInfo(entry.bookNumber)?.long || `Book ${entry.bookNumber}`}{" "}
+          {entry.chapter}
+        </Text>
+        <Text className="text-xs mt-1" style={{ color: colors.muted }}>
+          {getVersionDisplayName(entry.version)} •{" "}
+          {new Date(entry.readAt).toLocaleTimeString(undefined, {
+            hour: "numeric",
+            minute: "2-digit",
+          })}
+        </Text>
+      </View>
+      <Ionicons name="chevron-forward" size={18} color={colors.muted} />
+    </TouchableOpacity>
+  )
+);
+
+export default function ReadingHistoryScreen({ navigation }: Props) {
+  const { history, loading, clearHistory } = useReadingProgress();
+  const { theme, navTheme } = useTheme();
+  const isDark = theme === "dark";
+
+  const colors = {
+    primary: navTheme.colors.primary,
+    background: isDark ? "#0f172a" : "#f8fafc",
+    text: isDark ? "#ffffff" : "#000000",
+    muted: isDark ? "#9ca3af" : "#6b7280",
+    card: isDark ? "#1e293b" : "#ffffff",
+    border: isDark ? "#374151" : "#e5e7eb",
+  };
+
+  // The timeline, one section per day, newest first like the history itself
+  const sections = useMemo(() => {
+    const byDay = new Map<string, ReadingHistoryEntry[]>();
+    history.forEach((entry) => {
+      const label = getDayLabel(new Date(entry.readAt));
+      byDay.set(label, [...(byDay.get(label) ?? []), entry]);
+    });
+    return Array.from(byDay, ([title, data]) => ({ title, data }));
+  }, [history]);
+
+  // Chapters are opened in the translation they were read in
+  const handleEntryPress = useCallback(
+    (entry: ReadingHistoryEntry) => {
+      navigation.navigate("Reader", {
+        bookId: entry.bookNumber,
+        chapter: entry.chapter,
+        bookName:
+          getBookInfo(entry.bookNumber)?.long || `Book ${entry.bookNumber}`,
+        version: entry.version,
+      });
+    },
+    [navigation]
+  );
+
+  const handleClear = useCallback(() => {
+    Alert.alert(
+      "Clear History",
+      "Remove every chapter from your reading history? Chapters stay marked as read.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Clear", style: "destructive", onPress: clearHistory },
+      ]
+    );
+  }, [clearHistory]);
+
+  if (loading) {
+    return (
+      <SafeAreaView style={{ flex: 1, backgroundColor: colors.background }}>
+        <View className="flex-1 justify-center items-center">
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={{ flex: 1, backgroundColor: colors.background }}>
+      <View className="flex-1 px-4 -mt-8">
+        <Text className="text-sm mb-2" style={{ color: colors.muted }}>
+          {history.length} chapter{history.length !== 1 ? "s" : ""} read
+        </Text>
+
+        <SectionList
+          sections={sections}
+          keyExtractor={(entry) =>
+            `${entry.version}-${entry.bookNumber}-${entry.chapter}-${entry.readAt}`
+          }
+          renderItem={({ item }) => (
+            <HistoryRow
+              entry={item}
+              onPress={handleEntryPress}
+              colors={colors}
+            />
+          )}
+          renderSectionHeader={({ section }) => (
+            <Text
+              className="font-semibold mt-3 mb-2"
+              style={{ color: colors.primary }}
+            >
+              {section.title}
+            </Text>
+          )}
+          stickySectionHeadersEnabled={false}
+          contentContainerStyle={{ paddingBottom: 24 }}
+          ListFooterComponent={
+            history.length > 0 ? (
+              <View className="mt-4">
+                <Button
+                  title="Clear History"
+                  variant="outline"
+                  onPress={handleClear}
+                />
+              </View>
+            ) : null
+          }
+          ListEmptyComponent={
+            <View className="items-center mt-12">
+              <Ionicons name="time-outline" size={48} color={colors.muted} />
+              <Text
+                className="mt-3 text-center"
+                style={{ color: colors.muted }}
+              >
+                No reading history yet. Chapters you read to the end show up
+                here.
+              </Text>
+            </View>
+          }
+        />
+      </View>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,450 @@
+import React, { useCallback, useMemo } from "react";
+import {
+  Text,
+  TouchableOpacity,
+  View,
+  FlatList,
+  Alert,
+  Share,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { StackNavigationProp } from "@react-navigation/stack";
+import { RouteProp } from "@react-navigation/native";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  RootStackParamList,
+  BibleReference,
+  ReadingPlanDay,
+  ReadingStreak,
+} from "../types";
+import { useTheme } from "../context/ThemeContext";
+import { useReadingPlans } from "../context/ReadingPlansContext";
+import { Button } from "../components/Button";
+import { getBookInfo, getTestament } from "../utils/testamentUtils";
+import { formatReference } from "../utils/referenceParser";
+import {
+  fromDateKey,
+  getCompletedDayCount,
+  getMissedDays,
+  getNextDayIndex,
+  getScheduledDate,
+  getScheduledDayIndex,
+  serializeReadingPlan,
+} from "../utils/readingPlans";
+
+type ReadingPlanScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  "ReadingPlan"
+>;
+type ReadingPlanScreenRouteProp = RouteProp<RootStackParamList, "ReadingPlan">;
+
+interface Props {
+  navigation: ReadingPlanScreenNavigationProp;
+  route: ReadingPlanScreenRouteProp;
+}
+
+type DayStatus = "done" | "today" | "missed" | "upcoming";
+
+const formatDate = (dateKey: string): string =>
+  fromDateKey(dateKey).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+  });
+
+const ReadingChips = React.memo(
+  ({
+    readings,
+    onReadingPress,
+    colors,
+  }: {
+    readings: BibleReference[];
+    onReadingPress: (reading: BibleReference) => void;
+    colors: any;
+  }) => (
+    <View className="flex-row flex-wrap -mx-1 mt-1">
+      {readings.map((reading, index) => (
+        <TouchableOpacity
+          key={`${formatReference(reading)}-${index}`}
+          onPress={() => onReadingPress(reading)}
+          className="rounded-full px-3 py-1 m-1"
+          style={{ backgroundColor: colors.primary + "15" }}
+        >
+          <Text className="text-sm" style={{ color: colors.primary }}>
+            {formatReference(reading)}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  )
+);
+
+const PlanDayItem = React.memo(
+  ({
+    day,
+    dayIndex,
+    date,
+    status,
+    onToggle,
+    onReadingPress,
+    colors,
+  }: {
+    day: ReadingPlanDay;
+    dayIndex: number;
+    date?: string;
+    status?: DayStatus;
+    onToggle?: (dayIndex: number) => void;
+    onReadingPress: (reading: BibleReference) => void;
+    colors: any;
+  }) => {
+    const labelColor =
+      status === "missed"
+        ? colors.warning
+        : status === "today"
+          ? colors.primary
+          : colors.muted;
+
+    return (
+      <View
+        className="flex-row rounded-lg p-3 mb-2"
+        style={{
+          backgroundColor: colors.card,
+          borderColor: status === "today" ? colors.primary : colors.border,
+          borderWidth: 1,
+        }}
+      >
+        {onToggle && (
+          <TouchableOpacity
+            onPress={() => onToggle(dayIndex)}
+            className="mr-3 pt-1"
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <Ionicons
+              name={status === "done" ? "checkmark-circle" : "ellipse-outline"}
+              size={26}
+              color={status === "done" ? colors.primary : colors.muted}
+            />
+          </TouchableOpacity>
+        )}
+        <View className="flex-1">
+          <Text className="text-xs font-medium" style={{ color: labelColor }}>
+            Day {dayIndex + 1}
+            {date && ` • ${formatDate(date)}`}
+            {status === "today" && " • Today"}
+            {status === "missed" && " • Missed"}
+          </Text>
+          {day.title && (
+            <Text className="font-semibold" style={{ color: colors.text }}>
+              {day.title}
+            </Text>
+          )}
+          <ReadingChips
+            readings={day.readings}
+            onReadingPress={onReadingPress}
+            colors={colors}
+          />
+        </View>
+      </View>
+    );
+  }
+);
+
+const PlanStats = React.memo(
+  ({
+    completed,
+    total,
+    streak,
+    colors,
+  }: {
+    completed: number;
+    total: number;
+    streak: ReadingStreak;
+    colors: any;
+  }) => (
+    <View className="flex-row mb-4">
+      {[
+        { label: "Completed", value: `${completed}/${total}` },
+        { label: "Streak", value: `🔥 ${streak.current}` },
+        { label: "Best", value: `${streak.longest}` },
+      ].map(({ label, value }) => (
+        <View
+          key={label}
+          className="flex-1 rounded-lg p-3 mx-1 items-center"
+          style={{
+            backgroundColor: colors.card,
+            borderColor: colors.border,
+            borderWidth: 1,
+          }}
+        >
+          <Text className="text-lg font-bold" style={{ color: colors.text }}>
+            {value}
+          </Text>
+          <Text className="text-xs" style={{ color: colors.muted }}>
+            {label}
+          </Text>
+        </View>
+      ))}
+    </View>
+  )
+);
+
+export default function ReadingPlanScreen({ navigation, route }: Props) {
+  const { planId } = route.params;
+  const {
+    getPlan,
+    progress: allProgress,
+    startPlan,
+    stopPlan,
+    toggleDayComplete,
+    reschedule,
+    removePlan,
+    getStreak,
+  } = useReadingPlans();
+  const { theme, navTheme } = useTheme();
+  const isDark = theme === "dark";
+
+  const colors = {
+    primary: navTheme.colors.primary,
+    background: isDark ? "#0f172a" : "#f8fafc",
+    text: isDark ? "#ffffff" : "#000000",
+    muted: isDark ? "#9ca3af" : "#6b7280",
+    card: isDark ? "#1e293b" : "#ffffff",
+    border: isDark ? "#374151" : "#e5e7eb",
+    warning: isDark ? "#fbbf24" : "#b45309",
+  };
+
+  const plan = getPlan(planId);
+  const progress = allProgress[planId];
+
+  const missedDays = useMemo(
+    () => (plan && progress ? getMissedDays(plan, progress) : []),
+    [plan, progress]
+  );
+  const todayIndex = progress ? getScheduledDayIndex(progress) : -1;
+  const nextDayIndex = plan && progress ? getNextDayIndex(plan, progress) : 0;
+
+  const getDayStatus = useCallback(
+    (dayIndex: number): DayStatus | undefined => {
+      if (!progress) return undefined;
+      if (progress.completedDays[dayIndex] !== undefined) return "done";
+      if (dayIndex === todayIndex) return "today";
+      return dayIndex < todayIndex ? "missed" : "upcoming";
+    },
+    [progress, todayIndex]
+  );
+
+  const handleReadingPress = useCallback(
+    (reading: BibleReference) => {
+      navigation.navigate("Reader", {
+        bookId: reading.bookNumber,
+        chapter: reading.chapter,
+        verse: reading.startVerse,
+        bookName: getBookInfo(reading.bookNumber)?.long || reading.bookName,
+        testament: getTestament(reading.bookNumber, reading.bookName),
+      });
+    },
+    [navigation]
+  );
+
+  const handleToggle = useCallback(
+    (dayIndex: number) => toggleDayComplete(planId, dayIndex),
+    [planId, toggleDayComplete]
+  );
+
+  const handleStop = useCallback(() => {
+    Alert.alert(
+      "Stop Plan",
+      "Your checkmarks and streak for this plan will be cleared.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Stop",
+          style: "destructive",
+          onPress: () => stopPlan(planId),
+        },
+      ]
+    );
+  }, [planId, stopPlan]);
+
+  const handleRemove = useCallback(() => {
+    Alert.alert("Remove Plan", "Delete this imported plan?", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: () => {
+          removePlan(planId);
+          navigation.goBack();
+        },
+      },
+    ]);
+  }, [planId, removePlan, navigation]);
+
+  const handleShare = useCallback(async () => {
+    if (!plan) return;
+    try {
+      await Share.share({
+        title: plan.name,
+        message: serializeReadingPlan(plan),
+      });
+    } catch (err) {
+      console.error("Failed to share reading plan:", err);
+    }
+  }, [plan]);
+
+  const keyExtractor = useCallback(
+    (_: ReadingPlanDay, index: number) => String(index),
+    []
+  );
+
+  const renderItem = useCallback(
+    ({ item, index }: { item: ReadingPlanDay; index: number }) => (
+      <PlanDayItem
+        day={item}
+        dayIndex={index}
+        date={progress ? getScheduledDate(progress, index) : undefined}
+        status={getDayStatus(index)}
+        onToggle={progress ? handleToggle : undefined}
+        onReadingPress={handleReadingPress}
+        colors={colors}
+      />
+    ),
+    [progress, getDayStatus, handleToggle, handleReadingPress, colors]
+  );
+
+  if (!plan) {
+    return (
+      <SafeAreaView style={{ flex: 1, backgroundColor: colors.background }}>
+        <View className="flex-1 justify-center items-center p-6">
+          <Text
+            className="text-lg text-center mb-4"
+            style={{ color: colors.primary }}
+          >
+            This reading plan is no longer available.
+          </Text>
+          <Button title="Back to Plans" onPress={() => navigation.goBack()} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const header = (
+    <View className="pb-2">
+      <Text className="text-xl font-bold mb-1" style={{ color: colors.text }}>
+        {plan.name}
+      </Text>
+      {plan.description && (
+        <Text className="text-sm mb-3" style={{ color: colors.muted }}>
+          {plan.description}
+        </Text>
+      )}
+
+      {progress ? (
+        <>
+          <PlanStats
+            completed={getCompletedDayCount(progress)}
+            total={plan.days.length}
+            streak={getStreak(planId)}
+            colors={colors}
+          />
+
+          {/* Catch up */}
+          {missedDays.length > 0 && (
+            <View
+              className="rounded-lg p-3 mb-4"
+              style={{
+                backgroundColor: colors.warning + "15",
+                borderColor: colors.warning,
+                borderWidth: 1,
+              }}
+            >
+              <Text className="text-sm mb-2" style={{ color: colors.text }}>
+                You're {missedDays.length}{" "}
+                {missedDays.length === 1 ? "day" : "days"} behind. Check off the
+                missed days as you catch up, or move the rest of the schedule so
+                day {nextDayIndex + 1} starts today.
+              </Text>
+              <Button
+                title="Reschedule from Today"
+                onPress={() => reschedule(planId)}
+                variant="outline"
+              />
+            </View>
+          )}
+
+          {nextDayIndex >= 0 ? (
+            <View className="mb-4">
+              <Text
+                className="font-semibold mb-2"
+                style={{ color: colors.text }}
+              >
+                Up Next
+              </Text>
+              <PlanDayItem
+                day={plan.days[nextDayIndex]}
+                dayIndex={nextDayIndex}
+                date={getScheduledDate(progress, nextDayIndex)}
+                status={getDayStatus(nextDayIndex)}
+                onToggle={handleToggle}
+                onReadingPress={handleReadingPress}
+                colors={colors}
+              />
+            </View>
+          ) : (
+            <Text
+              className="text-center font-semibold mb-4"
+              style={{ color: colors.primary }}
+            >
+              🎉 Plan complete!
+            </Text>
+          )}
+        </>
+      ) : (
+        <View className="mb-4">
+          <Button title="Start Plan" onPress={() => startPlan(planId)} />
+        </View>
+      )}
+
+      <View className="flex-row justify-between items-center mb-2">
+        <Text className="font-semibold" style={{ color: colors.text }}>
+          All Days
+        </Text>
+        <View className="flex-row">
+          <TouchableOpacity onPress={handleShare} className="ml-4">
+            <Text className="text-sm" style={{ color: colors.primary }}>
+              Share
+            </Text>
+          </TouchableOpacity>
+          {progress && (
+            <TouchableOpacity onPress={handleStop} className="ml-4">
+              <Text className="text-sm" style={{ color: colors.warning }}>
+                Stop
+              </Text>
+            </TouchableOpacity>
+          )}
+          {!plan.builtIn && (
+            <TouchableOpacity onPress={handleRemove} className="ml-4">
+              <Text className="text-sm" style={{ color: colors.warning }}>
+                Remove
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={{ flex: 1, backgroundColor: colors.background }}>
+      <FlatList
+        className="flex-1 px-4 -mt-8"
+        data={plan.days}
+        keyExtractor={keyExtractor}
+        renderItem={renderItem}
+        ListHeaderComponent={header}
+        initialNumToRender={10}
+        windowSize={7}
+        contentContainerStyle={{ paddingBottom: 24 }}
+      />
+    </SafeAreaView>
+  );
+}
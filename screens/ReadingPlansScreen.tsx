@@ -0,0 +1,269 @@
+import React, { useState, useCallback } from "react";
+import {
+  Text,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  View,
+  ActivityIndicator,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { StackNavigationProp } from "@react-navigation/stack";
+import { Ionicons } from "@expo/vector-icons";
+import { RootStackParamList, ReadingPlan, ReadingPlanProgress } from "../types";
+import { useTheme } from "../context/ThemeContext";
+import { useReadingPlans } from "../context/ReadingPlansContext";
+import { Button } from "../components/Button";
+import { getCompletedDayCount, getMissedDays } from "../utils/readingPlans";
+
+type ReadingPlansScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  "ReadingPlans"
+>;
+
+interface Props {
+  navigation: ReadingPlansScreenNavigationProp;
+}
+
+const ProgressBar = React.memo(
+  ({ percentage, colors }: { percentage: number; colors: any }) => (
+    <View
+      className="h-2 rounded-full overflow-hidden"
+      style={{ backgroundColor: colors.border }}
+    >
+      <View
+        className="h-2 rounded-full"
+        style={{ width: `${percentage}%`, backgroundColor: colors.primary }}
+      />
+    </View>
+  )
+);
+
+const PlanCard = React.memo(
+  ({
+    plan,
+    progress,
+    streak,
+    onPress,
+    colors,
+  }: {
+    plan: ReadingPlan;
+    progress?: ReadingPlanProgress;
+    streak?: number;
+    onPress: (planId: string) => void;
+    colors: any;
+  }) => {
+    const completed = progress ? getCompletedDayCount(progress) : 0;
+    const percentage = Math.round((completed / plan.days.length) * 100);
+    const missed = progress ? getMissedDays(plan, progress).length : 0;
+
+    return (
+      <TouchableOpacity
+        onPress={() => onPress(plan.id)}
+        className="rounded-lg p-4 mb-3"
+        style={{
+          backgroundColor: colors.card,
+          borderColor: colors.border,
+          borderWidth: 1,
+        }}
+      >
+        <View className="flex-row justify-between items-center mb-1">
+          <Text
+            className="font-semibold text-base flex-1"
+            style={{ color: colors.text }}
+          >
+            {plan.name}
+          </Text>
+          <Text className="text-xs" style={{ color: colors.muted }}>
+            {plan.days.length} days
+          </Text>
+        </View>
+
+        {progress ? (
+          <>
+            <View className="my-2">
+              <ProgressBar percentage={percentage} colors={colors} />
+            </View>
+            <View className="flex-row justify-between">
+              <Text className="text-xs" style={{ color: colors.muted }}>
+                {completed} of {plan.days.length} days • {percentage}%
+              </Text>
+              {!!streak && (
+                <Text className="text-xs" style={{ color: colors.primary }}>
+                  🔥 {streak}-day streak
+                </Text>
+              )}
+            </View>
+            {missed > 0 && (
+              <Text className="text-xs mt-1" style={{ color: colors.warning }}>
+                {missed} {missed === 1 ? "day" : "days"} behind schedule
+              </Text>
+            )}
+          </>
+        ) : (
+          plan.description && (
+            <Text className="text-sm" style={{ color: colors.muted }}>
+              {plan.description}
+            </Text>
+          )
+        )}
+      </TouchableOpacity>
+    );
+  }
+);
+
+export default function ReadingPlansScreen({ navigation }: Props) {
+  const { plans, progress, loading, getStreak, importPlan } = useReadingPlans();
+  const { theme, navTheme } = useTheme();
+  const isDark = theme === "dark";
+
+  const colors = {
+    primary: navTheme.colors.primary,
+    background: isDark ? "#0f172a" : "#f8fafc",
+    text: isDark ? "#ffffff" : "#000000",
+    muted: isDark ? "#9ca3af" : "#6b7280",
+    card: isDark ? "#1e293b" : "#ffffff",
+    border: isDark ? "#374151" : "#e5e7eb",
+    warning: isDark ? "#fbbf24" : "#b45309",
+  };
+
+  const [showImport, setShowImport] = useState(false);
+  const [importText, setImportText] = useState("");
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const openPlan = useCallback(
+    (planId: string) => navigation.navigate("ReadingPlan", { planId }),
+    [navigation]
+  );
+
+  const handleImport = useCallback(() => {
+    try {
+      const plan = importPlan(importText);
+      setImportText("");
+      setImportError(null);
+      setShowImport(false);
+      openPlan(plan.id);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : "Import failed");
+    }
+  }, [importPlan, importText, openPlan]);
+
+  if (loading) {
+    return (
+      <SafeAreaView style={{ flex: 1, backgroundColor: colors.background }}>
+        <View className="flex-1 justify-center items-center">
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const activePlans = plans.filter((plan) => progress[plan.id]);
+  const otherPlans = plans.filter((plan) => !progress[plan.id]);
+
+  return (
+    <SafeAreaView style={{ flex: 1, backgroundColor: colors.background }}>
+      <ScrollView
+        className="flex-1 px-4 -mt-8"
+        contentContainerStyle={{ paddingBottom: 24 }}
+        keyboardShouldPersistTaps="handled"
+      >
+        {activePlans.length > 0 && (
+          <>
+            <Text
+              className="text-lg font-semibold mb-3"
+              style={{ color: colors.text }}
+            >
+              My Plans
+            </Text>
+            {activePlans.map((plan) => (
+              <PlanCard
+                key={plan.id}
+                plan={plan}
+                progress={progress[plan.id]}
+                streak={getStreak(plan.id).current}
+                onPress={openPlan}
+                colors={colors}
+              />
+            ))}
+          </>
+        )}
+
+        <Text
+          className="text-lg font-semibold mb-3 mt-2"
+          style={{ color: colors.text }}
+        >
+          {activePlans.length > 0 ? "More Plans" : "Reading Plans"}
+        </Text>
+        {otherPlans.map((plan) => (
+          <PlanCard
+            key={plan.id}
+            plan={plan}
+            onPress={openPlan}
+            colors={colors}
+          />
+        ))}
+
+        {/* Import */}
+        <TouchableOpacity
+          onPress={() => setShowImport((prev) => !prev)}
+          className="flex-row items-center mt-2 mb-3"
+        >
+          <Ionicons
+            name={showImport ? "chevron-down" : "add-circle-outline"}
+            size={20}
+            color={colors.primary}
+          />
+          <Text className="ml-2 font-medium" style={{ color: colors.primary }}>
+            Import a plan
+          </Text>
+        </TouchableOpacity>
+
+        {showImport && (
+          <View
+            className="rounded-lg p-3"
+            style={{
+              backgroundColor: colors.card,
+              borderColor: colors.border,
+              borderWidth: 1,
+            }}
+          >
+            <Text className="text-xs mb-2" style={{ color: colors.muted }}>
+              Paste a plan shared as JSON, e.g. {"{"}"name": "Lent", "days":
+              [["Joel 2:12-17", "Ps 51"], ["Isa 58"]]{"}"}
+            </Text>
+            <TextInput
+              className="p-3 rounded-lg border text-sm mb-3"
+              style={{
+                color: colors.text,
+                borderColor: colors.border,
+                minHeight: 120,
+                textAlignVertical: "top",
+              }}
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+              placeholder="Plan JSON"
+              placeholderTextColor={colors.muted}
+              value={importText}
+              onChangeText={(text) => {
+                setImportText(text);
+                setImportError(null);
+              }}
+            />
+            {importError && (
+              <Text className="text-sm mb-3" style={{ color: colors.warning }}>
+                {importError}
+              </Text>
+            )}
+            <Button
+              title="Import"
+              onPress={handleImport}
+              disabled={!importText.trim()}
+            />
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
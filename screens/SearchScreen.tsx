@@ -1,4 +1,10 @@
-import React, { useState, useCallback, useMemo, useRef } from "react";
+import React, {
+  useState,
+  useCallback,
+  useMemo,
+  useRef,
+  useEffect,
+} from "react";
 import {
   Text,
   TextInput,
@@ -13,19 +19,44 @@ import {
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { StackNavigationProp } from "@react-navigation/stack";
-import { RootStackParamList, Verse, SearchOptions } from "../types";
+import { RouteProp } from "@react-navigation/native";
+import {
+  RootStackParamList,
+  Verse,
+  BibleReference,
+  SearchOptions,
+  SearchMatchMode,
+  SearchCursor,
+  SearchMatchCounts,
+  CrossVersionSearchResult,
+  CrossVersionSearchResults,
+  StrongsConcordance,
+  StrongsOccurrence,
+  Testament,
+} from "../types";
 import { useBibleDatabase } from "../context/BibleDatabaseContext";
 import { useTheme } from "../context/ThemeContext";
+import { CONCORDANCE_DATABASE, useConcordance } from "../hooks/useConcordance";
 import { VerseViewEnhanced } from "../components/VerseViewEnhanced";
 import { Button } from "../components/Button";
-import { getBookInfo } from "../utils/testamentUtils";
+import {
+  getBookInfo,
+  getTestament,
+  isApocryphaBook,
+} from "../utils/testamentUtils";
+import { getVersionDisplayName } from "../utils/bibleVersionUtils";
+import { isStrongsQuery } from "../utils/strongsUtils";
+import { getSearchQueryError } from "../utils/searchUtils";
+import { parseReferences, formatReference } from "../utils/referenceParser";
+import { getVersionLocale } from "../utils/localizedBookNames";
 import {
   SCOPE_CATEGORIES,
   getScopeConfig,
   SearchScope,
   isBookScope,
   getBookNumberFromScope,
-  SCOPE_RANGES,
+  getScopeBookNumbers,
+  isApocryphaScope,
   BOOK_COLORS,
 } from "../components/Scope_Config";
 
@@ -36,8 +67,31 @@ type SearchScreenNavigationProp = StackNavigationProp<
 
 interface Props {
   navigation: SearchScreenNavigationProp;
+  route?: RouteProp<RootStackParamList, "Search">;
 }
 
+const PAGE_SIZE = 50;
+const HISTOGRAM_HEIGHT = 60;
+// Bar opacity (hex suffix) by testament, so each testament reads as a block
+const HISTOGRAM_TESTAMENT_OPACITY: Record<Testament, string> = {
+  OT: "80",
+  AP: "B0",
+  NT: "",
+};
+const CROSS_VERSION_LIMIT = 200; // results fetched per version when comparing
+const MAX_RENDERINGS_SHOWN = 12;
+const MAX_REFERENCES_SHOWN = 6;
+
+type CrossVersionGrouping = "reference" | "version";
+
+// Rows of the results list: single-version verses, merged cross-version
+// references, per-version group headers or Strong's concordance verses
+type SearchListItem =
+  | { type: "verse"; key: string; verse: Verse; version?: string }
+  | { type: "strongs"; key: string; occurrence: StrongsOccurrence }
+  | { type: "reference"; key: string; result: CrossVersionSearchResult }
+  | { type: "version-header"; key: string; version: string; count: number };
+
 // Helper function to get book color with fallbacks
 const getBookColor = (bookName: string, verse?: Verse): string => {
   // Priority 1: book_color from verse object
@@ -80,11 +134,15 @@ const enhanceSearchResultsWithColors = async (
   results: Verse[],
   bibleDB: any
 ): Promise<Verse[]> => {
-  if (!results.length || !bibleDB) return results;
+  // Results usually carry book_color already; only look up the rest
+  const missingColor = results.filter((r) => !r.book_color);
+  if (!missingColor.length || !bibleDB) return results;
 
   try {
     // Get unique book numbers from results
-    const uniqueBookNumbers = [...new Set(results.map((r) => r.book_number))];
+    const uniqueBookNumbers = [
+      ...new Set(missingColor.map((r) => r.book_number)),
+    ];
 
     // Fetch book details for each unique book
     const bookPromises = uniqueBookNumbers.map(async (bookNumber) => {
@@ -110,10 +168,11 @@ const enhanceSearchResultsWithColors = async (
     );
 
     // Add colors to results
-    return results.map((result) => ({
-      ...result,
-      book_color: colorMap[result.book_number],
-    }));
+    return results.map((result) =>
+      result.book_color
+        ? result
+        : { ...result, book_color: colorMap[result.book_number] }
+    );
   } catch (error) {
     console.error("Error enhancing search results with colors:", error);
     // Fallback: generate colors from book names
@@ -128,12 +187,14 @@ const enhanceSearchResultsWithColors = async (
 const SearchResultItem = React.memo(
   ({
     verse,
+    version,
     query,
     onVersePress,
   }: {
     verse: Verse;
+    version?: string; // version it was found in, when comparing
     query: string;
-    onVersePress: (verse: Verse) => void;
+    onVersePress: (verse: Verse, version?: string) => void;
   }) => {
     const getBookDisplayName = useCallback(
       (bookNumber: number, fallbackName?: string) => {
@@ -154,7 +215,7 @@ const SearchResultItem = React.memo(
           chapterNumber={verse.chapter}
           showVerseNumbers={true}
           fontSize={16}
-          onVersePress={onVersePress}
+          onVersePress={(pressed) => onVersePress(pressed, version)}
           highlight={query}
           compact={true}
           bookColor={bookColor} // Pass the book color explicitly
@@ -164,6 +225,244 @@ const SearchResultItem = React.memo(
   }
 );
 
+// One verse reference with the text of every version that matched it
+const CrossVersionResultItem = React.memo(
+  ({
+    result,
+    query,
+    totalVersions,
+    onVersePress,
+    colors,
+  }: {
+    result: CrossVersionSearchResult;
+    query: string;
+    totalVersions: number;
+    onVersePress: (verse: Verse, version?: string) => void;
+    colors: any;
+  }) => {
+    const longName =
+      getBookInfo(result.book_number)?.long ||
+      result.book_name ||
+      "Unknown Book";
+    const bookColor = getBookColor(
+      longName,
+      result.matches[result.versions[0]]
+    );
+
+    return (
+      <View
+        className="rounded-lg mb-3 p-3"
+        style={{
+          backgroundColor: colors.card,
+          borderColor: bookColor + "60",
+          borderWidth: 1,
+        }}
+      >
+        <View className="flex-row justify-between items-center mb-2">
+          <Text className="font-semibold" style={{ color: bookColor }}>
+            {longName} {result.chapter}:{result.verse}
+          </Text>
+          <Text className="text-xs" style={{ color: colors.muted }}>
+            {result.versions.length} of {totalVersions} versions
+          </Text>
+        </View>
+        {result.versions.map((version) => (
+          <View key={version} className="mb-1">
+            <Text
+              className="text-xs font-semibold"
+              style={{ color: colors.primary }}
+            >
+              {getVersionDisplayName(version)}
+            </Text>
+            <VerseViewEnhanced
+              verses={[result.matches[version]]}
+              bookName={longName}
+              chapterNumber={result.chapter}
+              showVerseNumbers={false}
+              fontSize={15}
+              onVersePress={(verse) => onVersePress(verse, version)}
+              highlight={query}
+              compact={true}
+              bookColor={bookColor}
+            />
+          </View>
+        ))}
+      </View>
+    );
+  }
+);
+
+// A concordance verse with the English words the Strong's number is tagged on
+const ConcordanceResultItem = React.memo(
+  ({
+    occurrence,
+    onVersePress,
+    colors,
+  }: {
+    occurrence: StrongsOccurrence;
+    onVersePress: (verse: Verse, version?: string) => void;
+    colors: any;
+  }) => {
+    const longName =
+      getBookInfo(occurrence.book_number)?.long ||
+      occurrence.book_name ||
+      "Unknown Book";
+    const renderings = [...new Set(occurrence.words.filter(Boolean))];
+
+    return (
+      <View style={{ marginBottom: 8 }}>
+        <VerseViewEnhanced
+          verses={[occurrence]}
+          bookName={longName}
+          chapterNumber={occurrence.chapter}
+          showVerseNumbers={true}
+          fontSize={16}
+          // The tags are the NASB's, so open the verse in it
+          onVersePress={(verse) => onVersePress(verse, CONCORDANCE_DATABASE)}
+          highlight={renderings[0]}
+          compact={true}
+          bookColor={getBookColor(longName, occurrence)}
+        />
+        {renderings.length > 0 && (
+          <Text className="text-xs mt-1 ml-2" style={{ color: colors.muted }}>
+            Rendered: {renderings.join(", ")}
+          </Text>
+        )}
+      </View>
+    );
+  }
+);
+
+// Heading for concordance results: definition and most common renderings
+const ConcordanceSummary = React.memo(
+  ({
+    concordance,
+    definition,
+    onOpenDictionary,
+    colors,
+  }: {
+    concordance: StrongsConcordance;
+    definition: string | null;
+    onOpenDictionary: (topic: string) => void;
+    colors: any;
+  }) => (
+    <View
+      className="rounded-lg p-3 mb-4"
+      style={{
+        backgroundColor: colors.card,
+        borderColor: colors.border,
+        borderWidth: 1,
+      }}
+    >
+      <Text className="font-semibold mb-1" style={{ color: colors.primary }}>
+        Strong's {concordance.strongNumber} •{" "}
+        {concordance.strongNumber.startsWith("G") ? "Greek" : "Hebrew"} • NASB
+      </Text>
+      {definition && (
+        <Text
+          className="text-sm mb-2"
+          style={{ color: colors.text }}
+          numberOfLines={4}
+        >
+          {definition}
+        </Text>
+      )}
+      <TouchableOpacity
+        onPress={() => onOpenDictionary(concordance.strongNumber)}
+        className="mb-2"
+      >
+        <Text className="text-xs font-medium" style={{ color: colors.primary }}>
+          Open dictionary entry →
+        </Text>
+      </TouchableOpacity>
+      {concordance.renderings.length > 0 && (
+        <View className="flex-row flex-wrap -mx-1">
+          {concordance.renderings
+            .slice(0, MAX_RENDERINGS_SHOWN)
+            .map(({ word, count }) => (
+              <View
+                key={word}
+                className="rounded-full px-2 py-1 m-1"
+                style={{ backgroundColor: colors.primary + "15" }}
+              >
+                <Text className="text-xs" style={{ color: colors.primary }}>
+                  {word || "—"} ({count})
+                </Text>
+              </View>
+            ))}
+        </View>
+      )}
+    </View>
+  )
+);
+
+// Shown while the query reads as a Bible reference ("Jn 3:16; Rom 8")
+const ReferenceSuggestions = React.memo(
+  ({
+    references,
+    onSelect,
+    colors,
+  }: {
+    references: BibleReference[];
+    onSelect: (reference: BibleReference) => void;
+    colors: any;
+  }) => (
+    <View
+      className="rounded-lg p-3 mb-4"
+      style={{
+        backgroundColor: colors.card,
+        borderColor: colors.border,
+        borderWidth: 1,
+      }}
+    >
+      <Text className="text-xs mb-1" style={{ color: colors.muted }}>
+        This looks like a reference. Go straight to the passage:
+      </Text>
+      <View className="flex-row flex-wrap -mx-1">
+        {references.slice(0, MAX_REFERENCES_SHOWN).map((reference) => {
+          const label = formatReference(reference);
+          return (
+            <TouchableOpacity
+              key={label}
+              onPress={() => onSelect(reference)}
+              className="rounded-full px-3 py-1 m-1"
+              style={{ backgroundColor: colors.primary }}
+            >
+              <Text className="text-sm font-medium text-white">
+                Go to {label} →
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  )
+);
+
+const VersionGroupHeader = React.memo(
+  ({
+    version,
+    count,
+    colors,
+  }: {
+    version: string;
+    count: number;
+    colors: any;
+  }) => (
+    <View
+      className="flex-row justify-between items-center rounded-lg px-3 py-2 mb-2"
+      style={{ backgroundColor: colors.primary }}
+    >
+      <Text className="font-semibold text-white">
+        {getVersionDisplayName(version)}
+      </Text>
+      <Text className="text-xs text-white">
+        {count} result{count !== 1 ? "s" : ""}
+      </Text>
+    </View>
+  )
+);
+
 const PopularSearchTerms = React.memo(
   ({ onSearch, colors }: { onSearch: (term: string) => void; colors: any }) => {
     const terms = [
@@ -265,12 +564,14 @@ const EmptyStates = React.memo(
   ({
     hasSearched,
     query,
+    queryError,
     loading,
     onPopularSearch,
     colors,
   }: {
     hasSearched: boolean;
     query: string;
+    queryError: string | null; // why the query couldn't be searched
     loading: boolean;
     onPopularSearch: (term: string) => void;
     colors: any;
@@ -331,6 +632,17 @@ const EmptyStates = React.memo(
       );
     }
 
+    if (hasSearched && query && queryError) {
+      return (
+        <View className="flex-1 justify-center py-8">
+          <Text style={[commonStyle, { color: colors.text }]}>
+            Can't search for "{query}"
+          </Text>
+          <Text style={[subStyle, { color: colors.muted }]}>{queryError}</Text>
+        </View>
+      );
+    }
+
     if (hasSearched && query && !loading) {
       return (
         <View className="flex-1 justify-center py-8">
@@ -346,7 +658,8 @@ const EmptyStates = React.memo(
             </Text>
             <Text style={[tipTextStyle, { color: colors.muted }]}>
               • Try simpler or more common words{"\n"}• Check for typos
-              {"\n"}• Search for single words first
+              {"\n"}• Search for single words first{"\n"}• Enter a Strong's
+              number such as G26 or H430 to search the NASB concordance
             </Text>
           </View>
         </View>
@@ -391,14 +704,29 @@ const ScopeDropdown = React.memo(
     isOpen,
     onToggle,
     colors,
+    hasApocrypha,
   }: {
     scope: SearchScope;
     onScopeChange: (newScope: SearchScope) => void;
     isOpen: boolean;
     onToggle: () => void;
     colors: any;
+    hasApocrypha: boolean; // whether the translation includes the Apocrypha
   }) => {
     const currentConfig = getScopeConfig(scope);
+    const categories = Object.entries(SCOPE_CATEGORIES)
+      .map(
+        ([category, scopes]) =>
+          [
+            category,
+            hasApocrypha
+              ? scopes
+              : scopes.filter(
+                  (scopeKey) => !isApocryphaScope(scopeKey as SearchScope)
+                ),
+          ] as const
+      )
+      .filter(([, scopes]) => scopes.length > 0);
 
     const headerStyle = {
       backgroundColor: colors.primary,
@@ -477,7 +805,7 @@ const ScopeDropdown = React.memo(
               </View>
 
               <ScrollView>
-                {Object.entries(SCOPE_CATEGORIES).map(([category, scopes]) => (
+                {categories.map(([category, scopes]) => (
                   <View key={category}>
                     <View style={categoryHeaderStyle} className="px-4 py-2">
                       <Text className="font-semibold text-sm text-white">
@@ -525,8 +853,239 @@ const ScopeDropdown = React.memo(
   }
 );
 
-export default function SearchScreen({ navigation }: Props) {
-  const { searchVerses, bibleDB } = useBibleDatabase();
+// Per-book match counts for the whole search, not just the loaded pages
+const ResultsHistogram = React.memo(
+  ({ counts, colors }: { counts: SearchMatchCounts; colors: any }) => {
+    const entries = Object.entries(counts.byBook)
+      .map(([bookNumber, count]) => ({ bookNumber: Number(bookNumber), count }))
+      .sort((a, b) => a.bookNumber - b.bookNumber);
+
+    if (entries.length === 0) return null;
+
+    const maxCount = Math.max(...entries.map((e) => e.count));
+
+    return (
+      <View
+        className="rounded-lg p-3 mb-4"
+        style={{
+          backgroundColor: colors.card,
+          borderColor: colors.border,
+          borderWidth: 1,
+        }}
+      >
+        <View className="flex-row justify-between mb-2">
+          <Text
+            className="text-xs font-semibold"
+            style={{ color: colors.text }}
+          >
+            Results by book
+          </Text>
+          <Text className="text-xs" style={{ color: colors.muted }}>
+            OT {counts.byTestament.OT} • NT {counts.byTestament.NT}
+            {counts.byTestament.AP > 0 &&
+              ` • Apocrypha ${counts.byTestament.AP}`}
+          </Text>
+        </View>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View className="flex-row items-end">
+            {entries.map(({ bookNumber, count }) => (
+              <View
+                key={bookNumber}
+                className="items-center"
+                style={{ width: 30 }}
+              >
+                <Text style={{ fontSize: 9, color: colors.muted }}>
+                  {count}
+                </Text>
+                <View
+                  style={{
+                    width: 14,
+                    height: Math.max(2, (count / maxCount) * HISTOGRAM_HEIGHT),
+                    borderRadius: 3,
+                    backgroundColor:
+                      colors.primary +
+                      HISTOGRAM_TESTAMENT_OPACITY[getTestament(bookNumber, "")],
+                  }}
+                />
+                <Text
+                  numberOfLines={1}
+                  style={{ fontSize: 9, color: colors.muted, marginTop: 2 }}
+                >
+                  {getBookInfo(bookNumber)?.short ?? bookNumber}
+                </Text>
+              </View>
+            ))}
+          </View>
+        </ScrollView>
+      </View>
+    );
+  }
+);
+
+const MATCH_MODE_LABELS: Record<SearchMatchMode, string> = {
+  all: "All words",
+  any: "Any word",
+  exact: "Exact phrase",
+};
+
+// Rounded toggle used by the search option rows
+const Chip = React.memo(
+  ({
+    label,
+    isActive,
+    onPress,
+    colors,
+  }: {
+    label: string;
+    isActive: boolean;
+    onPress: () => void;
+    colors: any;
+  }) => (
+    <TouchableOpacity
+      onPress={onPress}
+      style={{
+        backgroundColor: isActive ? colors.primary : colors.card,
+        borderColor: colors.primary + "30",
+        borderWidth: 1,
+      }}
+      className="rounded-full px-3 py-1 m-1"
+    >
+      <Text
+        className="text-xs"
+        style={{ color: isActive ? "#ffffff" : colors.primary }}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  )
+);
+
+// Match mode and matching rule toggles shown under the scope dropdown
+const SearchOptionToggles = React.memo(
+  ({
+    matchMode,
+    wholeWords,
+    caseSensitive,
+    onMatchModeChange,
+    onWholeWordsToggle,
+    onCaseSensitiveToggle,
+    colors,
+  }: {
+    matchMode: SearchMatchMode;
+    wholeWords: boolean;
+    caseSensitive: boolean;
+    onMatchModeChange: (mode: SearchMatchMode) => void;
+    onWholeWordsToggle: () => void;
+    onCaseSensitiveToggle: () => void;
+    colors: any;
+  }) => {
+    return (
+      <View className="flex-row flex-wrap -mx-1 mb-4">
+        {(Object.keys(MATCH_MODE_LABELS) as SearchMatchMode[]).map((mode) => (
+          <Chip
+            key={mode}
+            label={MATCH_MODE_LABELS[mode]}
+            isActive={matchMode === mode}
+            onPress={() => onMatchModeChange(mode)}
+            colors={colors}
+          />
+        ))}
+        <Chip
+          label="Whole words"
+          isActive={wholeWords}
+          onPress={onWholeWordsToggle}
+          colors={colors}
+        />
+        <Chip
+          label="Match case"
+          isActive={caseSensitive}
+          onPress={onCaseSensitiveToggle}
+          colors={colors}
+        />
+      </View>
+    );
+  }
+);
+
+// Choose the versions to search side by side and how to group their results
+const VersionCompareSelector = React.memo(
+  ({
+    enabled,
+    versions,
+    selectedVersions,
+    grouping,
+    onToggleEnabled,
+    onToggleVersion,
+    onGroupingChange,
+    colors,
+  }: {
+    enabled: boolean;
+    versions: string[];
+    selectedVersions: string[];
+    grouping: CrossVersionGrouping;
+    onToggleEnabled: () => void;
+    onToggleVersion: (version: string) => void;
+    onGroupingChange: (grouping: CrossVersionGrouping) => void;
+    colors: any;
+  }) => {
+    return (
+      <View className="mb-4">
+        <View className="flex-row flex-wrap -mx-1">
+          <Chip
+            label="Compare versions"
+            isActive={enabled}
+            onPress={onToggleEnabled}
+            colors={colors}
+          />
+          {enabled && (
+            <>
+              <Chip
+                label="By reference"
+                isActive={grouping === "reference"}
+                onPress={() => onGroupingChange("reference")}
+                colors={colors}
+              />
+              <Chip
+                label="By version"
+                isActive={grouping === "version"}
+                onPress={() => onGroupingChange("version")}
+                colors={colors}
+              />
+            </>
+          )}
+        </View>
+        {enabled && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            className="-mx-1 mt-1"
+          >
+            {versions.map((version) => (
+              <Chip
+                key={version}
+                label={getVersionDisplayName(version)}
+                isActive={selectedVersions.includes(version)}
+                onPress={() => onToggleVersion(version)}
+                colors={colors}
+              />
+            ))}
+          </ScrollView>
+        )}
+      </View>
+    );
+  }
+);
+
+export default function SearchScreen({ navigation, route }: Props) {
+  const {
+    searchVersesPage,
+    countMatches,
+    searchAcrossVersions,
+    availableBibleVersions,
+    currentVersion,
+    bibleDB,
+  } = useBibleDatabase();
+  const { loadConcordance, loadDefinitionSummary } = useConcordance();
   const { theme, colorScheme, navTheme } = useTheme();
   const isDark = theme === "dark";
   const primaryColor = navTheme.colors.primary;
@@ -543,15 +1102,42 @@ export default function SearchScreen({ navigation }: Props) {
   const [hasSearched, setHasSearched] = useState(false);
   const [query, setQuery] = useState("");
   const [results, setResults] = useState<Verse[]>([]);
+  const [nextCursor, setNextCursor] = useState<SearchCursor | null>(null);
+  const [matchCounts, setMatchCounts] = useState<SearchMatchCounts | null>(
+    null
+  );
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [queryError, setQueryError] = useState<string | null>(null);
   const [scope, setScope] = useState<SearchScope>("whole");
+  const [matchMode, setMatchMode] = useState<SearchMatchMode>("all");
+  const [wholeWords, setWholeWords] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
   const [showBackToTop, setShowBackToTop] = useState(false);
   const [showScopeDropdown, setShowScopeDropdown] = useState(false);
   const [showResultsStats, setShowResultsStats] = useState(false); // NEW: Track when to show results stats
+  const [compareVersions, setCompareVersions] = useState(false);
+  const [selectedVersions, setSelectedVersions] = useState<string[]>([
+    currentVersion,
+  ]);
+  const [grouping, setGrouping] = useState<CrossVersionGrouping>("reference");
+  const [crossResults, setCrossResults] =
+    useState<CrossVersionSearchResults | null>(null);
+  const [concordance, setConcordance] = useState<StrongsConcordance | null>(
+    null
+  );
+  const [concordanceDefinition, setConcordanceDefinition] = useState<
+    string | null
+  >(null);
 
   // Refs and animations
   const flatListRef = useRef<FlatList>(null);
+  const activeSearchRef = useRef<{
+    query: string;
+    options: SearchOptions;
+    versions?: string[];
+  } | null>(null);
   const scrollY = useRef(new Animated.Value(0)).current;
   const backToTopAnimation = useRef(new Animated.Value(0)).current;
 
@@ -605,8 +1191,18 @@ export default function SearchScreen({ navigation }: Props) {
       setHasSearched(true);
       setShowResultsStats(false); // Hide stats when starting new search
 
-      if (!actualQuery.trim()) {
+      const invalidQuery = actualQuery.trim()
+        ? getSearchQueryError(actualQuery, matchMode)
+        : null;
+      setQueryError(invalidQuery);
+
+      if (!actualQuery.trim() || invalidQuery) {
+        activeSearchRef.current = null;
         setResults([]);
+        setNextCursor(null);
+        setMatchCounts(null);
+        setCrossResults(null);
+        setConcordance(null);
         return;
       }
 
@@ -614,29 +1210,101 @@ export default function SearchScreen({ navigation }: Props) {
         setLoading(true);
         setError(null);
 
-        // Prepare search options based on scope
-        let searchOptions: SearchOptions = {};
+        // Prepare search options based on scope and matching toggles
+        let searchOptions: SearchOptions = {
+          matchMode,
+          wholeWords,
+          caseSensitive,
+        };
 
         if (isBookScope(scope)) {
           // Handle individual book search
           const bookNumber = getBookNumberFromScope(scope);
           if (bookNumber) {
-            searchOptions.bookRange = { start: bookNumber, end: bookNumber };
+            searchOptions.bookNumber = bookNumber;
           }
         } else {
           // Handle category-based search
-          searchOptions.bookRange = SCOPE_RANGES[scope] || undefined;
+          searchOptions.bookNumbers = getScopeBookNumbers(scope);
         }
 
-        // Search with scope filtering
-        const searchResults = await searchVerses(actualQuery, searchOptions);
+        if (isStrongsQuery(actualQuery)) {
+          // Strong's numbers such as G26 list every tagged NASB verse
+          const activeSearch = { query: actualQuery, options: searchOptions };
+          activeSearchRef.current = activeSearch;
+
+          const [result, definition] = await Promise.all([
+            loadConcordance(actualQuery, searchOptions),
+            loadDefinitionSummary(actualQuery),
+          ]);
+          if (activeSearchRef.current !== activeSearch) return;
+
+          setConcordance(result);
+          setConcordanceDefinition(definition);
+          setMatchCounts(result.counts);
+          setResults([]);
+          setNextCursor(null);
+          setCrossResults(null);
+          setShowResultsStats(true);
+          setTimeout(() => {
+            scrollToTop();
+          }, 100);
+          return;
+        }
+
+        if (compareVersions) {
+          // Search every selected version; results are not paged
+          const versions = availableBibleVersions.filter((v) =>
+            selectedVersions.includes(v)
+          );
+          const activeSearch = {
+            query: actualQuery,
+            options: searchOptions,
+            versions,
+          };
+          activeSearchRef.current = activeSearch;
+
+          const outcome = await searchAcrossVersions(actualQuery, versions, {
+            ...searchOptions,
+            limit: CROSS_VERSION_LIMIT,
+          });
+          if (activeSearchRef.current !== activeSearch) return;
+
+          setCrossResults(outcome);
+          setConcordance(null);
+          setResults([]);
+          setNextCursor(null);
+          setMatchCounts(null);
+          setShowResultsStats(true);
+          setTimeout(() => {
+            scrollToTop();
+          }, 100);
+          return;
+        }
+
+        // Load the first page and the totals for the histogram together
+        const activeSearch = { query: actualQuery, options: searchOptions };
+        activeSearchRef.current = activeSearch;
+
+        const [firstPage, counts] = await Promise.all([
+          searchVersesPage(actualQuery, {
+            ...searchOptions,
+            limit: PAGE_SIZE,
+          }),
+          countMatches(actualQuery, searchOptions),
+        ]);
+        if (activeSearchRef.current !== activeSearch) return;
 
         // Enhance search results with book colors
         const enhancedResults = await enhanceSearchResultsWithColors(
-          searchResults,
+          firstPage.results,
           bibleDB
         );
         setResults(enhancedResults);
+        setNextCursor(firstPage.nextCursor);
+        setMatchCounts(counts);
+        setCrossResults(null);
+        setConcordance(null);
         setShowResultsStats(true); // Show stats only after search completes
 
         // Reset scroll position when new search is performed
@@ -650,9 +1318,56 @@ export default function SearchScreen({ navigation }: Props) {
         setLoading(false);
       }
     },
-    [query, scope, searchVerses, scrollToTop, bibleDB]
+    [
+      query,
+      scope,
+      matchMode,
+      wholeWords,
+      caseSensitive,
+      compareVersions,
+      selectedVersions,
+      availableBibleVersions,
+      searchVersesPage,
+      countMatches,
+      searchAcrossVersions,
+      loadConcordance,
+      loadDefinitionSummary,
+      scrollToTop,
+      bibleDB,
+    ]
   );
 
+  // Fetch the next page when the list nears its end
+  const loadMoreResults = useCallback(async () => {
+    const activeSearch = activeSearchRef.current;
+    if (!activeSearch || !nextCursor || loadingMore || loading) return;
+
+    try {
+      setLoadingMore(true);
+      const page = await searchVersesPage(activeSearch.query, {
+        ...activeSearch.options,
+        limit: PAGE_SIZE,
+        cursor: nextCursor,
+      });
+      const enhancedResults = await enhanceSearchResultsWithColors(
+        page.results,
+        bibleDB
+      );
+
+      // Ignore pages that arrive after a new search has started
+      if (activeSearchRef.current !== activeSearch) return;
+      setResults((prev) => [...prev, ...enhancedResults]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      // Paging can't carry on from this cursor; "Try Again" starts over
+      console.error("Failed to load more results:", err);
+      setNextCursor(null);
+      setError("Couldn't load more results. Search again to start over.");
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [nextCursor, loadingMore, loading, searchVersesPage, bibleDB]);
+
   // Handle popular search term selection
   const handlePopularSearch = useCallback(
     (term: string) => {
@@ -664,20 +1379,109 @@ export default function SearchScreen({ navigation }: Props) {
     [handleSearch]
   );
 
-  const handleScopeChange = useCallback((newScope: SearchScope) => {
-    setScope(newScope);
-    setShowScopeDropdown(false);
-    // Clear results when scope changes to avoid confusion
+  // Searches requested by other screens, e.g. a Strong's number from the reader
+  const routeQuery = route?.params?.query;
+  useEffect(() => {
+    if (!routeQuery) return;
+    handlePopularSearch(routeQuery);
+    navigation.setParams({ query: undefined });
+  }, [routeQuery, handlePopularSearch, navigation]);
+
+  // Clear results when scope or matching options change to avoid confusion
+  const resetResults = useCallback(() => {
+    activeSearchRef.current = null;
     setResults([]);
+    setNextCursor(null);
+    setMatchCounts(null);
+    setCrossResults(null);
+    setConcordance(null);
     setHasSearched(false);
     setShowResultsStats(false); // Also reset stats
   }, []);
 
+  // Apocrypha scopes are only offered for translations that include it
+  const [hasApocrypha, setHasApocrypha] = useState(false);
+  useEffect(() => {
+    let cancelled = false;
+    const loadHasApocrypha = async () => {
+      try {
+        const books = bibleDB ? await bibleDB.getBooks() : [];
+        if (cancelled) return;
+        const found = books.some((book) => isApocryphaBook(book.book_number));
+        setHasApocrypha(found);
+        if (!found) {
+          setScope((prev) => (isApocryphaScope(prev) ? "whole" : prev));
+        }
+      } catch (error) {
+        console.error("Failed to load books for search scopes:", error);
+      }
+    };
+    loadHasApocrypha();
+    return () => {
+      cancelled = true;
+    };
+  }, [bibleDB]);
+
+  const handleScopeChange = useCallback(
+    (newScope: SearchScope) => {
+      setScope(newScope);
+      setShowScopeDropdown(false);
+      resetResults();
+    },
+    [resetResults]
+  );
+
+  const handleMatchModeChange = useCallback(
+    (mode: SearchMatchMode) => {
+      setMatchMode(mode);
+      resetResults();
+    },
+    [resetResults]
+  );
+
+  const handleWholeWordsToggle = useCallback(() => {
+    setWholeWords((prev) => !prev);
+    resetResults();
+  }, [resetResults]);
+
+  const handleCaseSensitiveToggle = useCallback(() => {
+    setCaseSensitive((prev) => !prev);
+    resetResults();
+  }, [resetResults]);
+
+  const handleCompareToggle = useCallback(() => {
+    setCompareVersions((prev) => !prev);
+    setSelectedVersions((prev) =>
+      prev.includes(currentVersion) ? prev : [currentVersion, ...prev]
+    );
+    resetResults();
+  }, [currentVersion, resetResults]);
+
+  // Keep at least one version selected
+  const handleVersionToggle = useCallback(
+    (version: string) => {
+      setSelectedVersions((prev) => {
+        if (!prev.includes(version)) return [...prev, version];
+        return prev.length > 1 ? prev.filter((v) => v !== version) : prev;
+      });
+      resetResults();
+    },
+    [resetResults]
+  );
+
+  const openDictionary = useCallback(
+    (topic?: string) => {
+      navigation.navigate("Dictionary", topic ? { topic } : undefined);
+    },
+    [navigation]
+  );
+
+  // Cross-version results open in the version they were found in
   const handleVersePress = useCallback(
-    (verse: Verse) => {
+    (verse: Verse, version?: string) => {
       const bookInfo = getBookInfo(verse.book_number);
       const longName = bookInfo?.long || verse.book_name || "Unknown Book";
-      const testament = verse.book_number >= 470 ? "NT" : "OT";
+      const testament = getTestament(verse.book_number, longName);
 
       // Use the same pattern as VerseListScreen
       const tabNavigation = navigation.getParent();
@@ -689,15 +1493,53 @@ export default function SearchScreen({ navigation }: Props) {
           verse: verse.verse,
           bookName: longName,
           testament: testament,
+          version,
         },
       });
     },
     [navigation]
   );
 
+  const detectedReferences = useMemo(
+    () => parseReferences(query, getVersionLocale(currentVersion)),
+    [query, currentVersion]
+  );
+
+  const handleReferencePress = useCallback(
+    (reference: BibleReference) => {
+      const tabNavigation = navigation.getParent();
+      tabNavigation?.navigate("Bible", {
+        screen: "Reader",
+        params: {
+          bookId: reference.bookNumber,
+          chapter: reference.chapter,
+          verse: reference.startVerse,
+          bookName:
+            getBookInfo(reference.bookNumber)?.long || reference.bookName,
+          testament: getTestament(reference.bookNumber, reference.bookName),
+        },
+      });
+    },
+    [navigation]
+  );
+
+  // Submitting a reference opens it instead of running a text search
+  const handleSubmit = useCallback(() => {
+    if (detectedReferences.length > 0) {
+      handleReferencePress(detectedReferences[0]);
+    } else {
+      handleSearch();
+    }
+  }, [detectedReferences, handleReferencePress, handleSearch]);
+
   const clearSearch = useCallback(() => {
+    activeSearchRef.current = null;
     setQuery("");
     setResults([]);
+    setNextCursor(null);
+    setMatchCounts(null);
+    setCrossResults(null);
+    setConcordance(null);
     setHasSearched(false);
     setShowResultsStats(false); // Also reset stats
     setShowBackToTop(false);
@@ -710,41 +1552,151 @@ export default function SearchScreen({ navigation }: Props) {
       return `Search ${config.label}`;
     }
 
+    if (concordance) {
+      const total = concordance.counts.total;
+      const verseCount = concordance.occurrences.length;
+      if (total === 0) {
+        return `No occurrences of ${concordance.strongNumber} found in ${getScopeConfig(scope).label}`;
+      }
+      return `Found ${total} occurrence${total !== 1 ? "s" : ""} of ${concordance.strongNumber} in ${verseCount} verse${verseCount !== 1 ? "s" : ""}`;
+    }
+
+    if (crossResults) {
+      const referenceCount = crossResults.byReference.length;
+      const versionCount = Object.keys(crossResults.byVersion).length;
+      if (referenceCount === 0) {
+        return `No results found for "${query}" in ${versionCount} version${versionCount !== 1 ? "s" : ""}`;
+      }
+      return `Found ${referenceCount} verse${referenceCount !== 1 ? "s" : ""} across ${versionCount} version${versionCount !== 1 ? "s" : ""} for "${query}"`;
+    }
+
     if (results.length === 0) {
       const config = getScopeConfig(scope);
       return `No results found for "${query}" in ${config.label}`;
     }
 
-    const bookCount = new Set(results.map((r) => r.book_number)).size;
+    const total = matchCounts?.total ?? results.length;
+    const bookCount = matchCounts
+      ? Object.keys(matchCounts.byBook).length
+      : new Set(results.map((r) => r.book_number)).size;
     const config = getScopeConfig(scope);
 
     if (isBookScope(scope)) {
-      return `Found ${results.length} result${results.length !== 1 ? "s" : ""} in ${config.label}`;
+      return `Found ${total} result${total !== 1 ? "s" : ""} in ${config.label}`;
     }
 
-    return `Found ${results.length} result${results.length !== 1 ? "s" : ""} in ${bookCount} book${bookCount !== 1 ? "s" : ""} for "${query}"`;
-  }, [hasSearched, loading, results, query, scope, showResultsStats]);
+    return `Found ${total} result${total !== 1 ? "s" : ""} in ${bookCount} book${bookCount !== 1 ? "s" : ""} for "${query}"`;
+  }, [
+    hasSearched,
+    loading,
+    results,
+    matchCounts,
+    crossResults,
+    concordance,
+    query,
+    scope,
+    showResultsStats,
+  ]);
 
   // Memoized search stats
   const resultStats = useMemo(() => getResultStats(), [getResultStats]);
 
+  // Flatten the current results into list rows
+  const listData = useMemo((): SearchListItem[] => {
+    if (concordance) {
+      return concordance.occurrences.map((occurrence) => ({
+        type: "strongs",
+        key: `${occurrence.book_number}-${occurrence.chapter}-${occurrence.verse}`,
+        occurrence,
+      }));
+    }
+
+    if (!crossResults) {
+      return results.map((verse, index) => ({
+        type: "verse",
+        key: `${verse.book_number}-${verse.chapter}-${verse.verse}-${index}`,
+        verse,
+      }));
+    }
+
+    if (grouping === "reference") {
+      return crossResults.byReference.map((result) => ({
+        type: "reference",
+        key: `${result.book_number}-${result.chapter}-${result.verse}`,
+        result,
+      }));
+    }
+
+    return Object.entries(crossResults.byVersion).flatMap(
+      ([version, verses]): SearchListItem[] =>
+        verses.length === 0
+          ? []
+          : [
+              {
+                type: "version-header",
+                key: `header-${version}`,
+                version,
+                count: verses.length,
+              },
+              ...verses.map(
+                (verse): SearchListItem => ({
+                  type: "verse",
+                  key: `${version}-${verse.book_number}-${verse.chapter}-${verse.verse}`,
+                  verse,
+                  version,
+                })
+              ),
+            ]
+    );
+  }, [results, crossResults, concordance, grouping]);
+
   // Memoized key extractor for FlatList
-  const keyExtractor = useCallback(
-    (item: Verse, index: number) =>
-      `${item.book_number}-${item.chapter}-${item.verse}-${index}`,
-    []
-  );
+  const keyExtractor = useCallback((item: SearchListItem) => item.key, []);
 
   // Memoized render item for FlatList
   const renderItem = useCallback(
-    ({ item }: { item: Verse }) => (
-      <SearchResultItem
-        verse={item}
-        query={query}
-        onVersePress={handleVersePress}
-      />
-    ),
-    [query, handleVersePress]
+    ({ item }: { item: SearchListItem }) => {
+      switch (item.type) {
+        case "reference":
+          return (
+            <CrossVersionResultItem
+              result={item.result}
+              query={query}
+              totalVersions={
+                crossResults ? Object.keys(crossResults.byVersion).length : 0
+              }
+              onVersePress={handleVersePress}
+              colors={colors}
+            />
+          );
+        case "strongs":
+          return (
+            <ConcordanceResultItem
+              occurrence={item.occurrence}
+              onVersePress={handleVersePress}
+              colors={colors}
+            />
+          );
+        case "version-header":
+          return (
+            <VersionGroupHeader
+              version={item.version}
+              count={item.count}
+              colors={colors}
+            />
+          );
+        default:
+          return (
+            <SearchResultItem
+              verse={item.verse}
+              version={item.version}
+              query={query}
+              onVersePress={handleVersePress}
+            />
+          );
+      }
+    },
+    [query, crossResults, handleVersePress, colors]
   );
 
   // List header component
@@ -758,6 +1710,42 @@ export default function SearchScreen({ navigation }: Props) {
           isOpen={showScopeDropdown}
           onToggle={() => setShowScopeDropdown(!showScopeDropdown)}
           colors={colors}
+          hasApocrypha={hasApocrypha}
+        />
+
+        {/* Matching Options */}
+        <SearchOptionToggles
+          matchMode={matchMode}
+          wholeWords={wholeWords}
+          caseSensitive={caseSensitive}
+          onMatchModeChange={handleMatchModeChange}
+          onWholeWordsToggle={handleWholeWordsToggle}
+          onCaseSensitiveToggle={handleCaseSensitiveToggle}
+          colors={colors}
+        />
+
+        <TouchableOpacity
+          onPress={() => openDictionary()}
+          className="self-end -mt-2 mb-3"
+        >
+          <Text
+            className="text-xs font-medium"
+            style={{ color: colors.primary }}
+          >
+            Browse Strong's dictionary →
+          </Text>
+        </TouchableOpacity>
+
+        {/* Cross-version Search */}
+        <VersionCompareSelector
+          enabled={compareVersions}
+          versions={availableBibleVersions}
+          selectedVersions={selectedVersions}
+          grouping={grouping}
+          onToggleEnabled={handleCompareToggle}
+          onToggleVersion={handleVersionToggle}
+          onGroupingChange={setGrouping}
+          colors={colors}
         />
 
         {/* Search Input */}
@@ -775,7 +1763,7 @@ export default function SearchScreen({ navigation }: Props) {
               placeholderTextColor={colors.muted}
               value={query}
               onChangeText={handleQueryChange} // Use the new handler
-              onSubmitEditing={() => handleSearch()}
+              onSubmitEditing={handleSubmit}
               returnKeyType="search"
               style={{ color: colors.text }}
             />
@@ -792,6 +1780,14 @@ export default function SearchScreen({ navigation }: Props) {
           )}
         </View>
 
+        {detectedReferences.length > 0 && (
+          <ReferenceSuggestions
+            references={detectedReferences}
+            onSelect={handleReferencePress}
+            colors={colors}
+          />
+        )}
+
         {/* Search Button */}
         <TouchableOpacity
           className="p-4 rounded-lg shadow-sm mb-4"
@@ -805,6 +1801,30 @@ export default function SearchScreen({ navigation }: Props) {
             {resultStats}
           </Text>
         </TouchableOpacity>
+
+        {/* Results Histogram */}
+        {showResultsStats && matchCounts && (
+          <ResultsHistogram counts={matchCounts} colors={colors} />
+        )}
+
+        {showResultsStats && concordance && (
+          <ConcordanceSummary
+            concordance={concordance}
+            definition={concordanceDefinition}
+            onOpenDictionary={openDictionary}
+            colors={colors}
+          />
+        )}
+
+        {showResultsStats && crossResults && (
+          <Text className="text-xs mb-2" style={{ color: colors.muted }}>
+            {`Top ${CROSS_VERSION_LIMIT} matches of each version, checked in every version`}
+            {crossResults.failedVersions.length > 0 &&
+              ` • Could not search ${crossResults.failedVersions
+                .map(getVersionDisplayName)
+                .join(", ")}`}
+          </Text>
+        )}
       </View>
     ),
     [
@@ -812,9 +1832,31 @@ export default function SearchScreen({ navigation }: Props) {
       query,
       resultStats,
       showScopeDropdown,
+      hasApocrypha,
+      showResultsStats,
+      matchCounts,
+      matchMode,
+      wholeWords,
+      caseSensitive,
+      compareVersions,
+      selectedVersions,
+      grouping,
+      crossResults,
+      concordance,
+      concordanceDefinition,
+      detectedReferences,
+      availableBibleVersions,
       handleScopeChange,
+      handleMatchModeChange,
+      handleWholeWordsToggle,
+      handleCaseSensitiveToggle,
+      handleCompareToggle,
+      handleVersionToggle,
       handleSearch,
+      handleSubmit,
+      handleReferencePress,
       clearSearch,
+      openDictionary,
       handleQueryChange, // Include the new handler
       colors,
     ]
@@ -856,7 +1898,7 @@ export default function SearchScreen({ navigation }: Props) {
       <View className="flex-1 px-4 -mt-8">
         <FlatList
           ref={flatListRef}
-          data={results}
+          data={listData}
           keyExtractor={keyExtractor}
           renderItem={renderItem}
           ListHeaderComponent={ListHeader}
@@ -864,11 +1906,23 @@ export default function SearchScreen({ navigation }: Props) {
             <EmptyStates
               hasSearched={hasSearched}
               query={query}
+              queryError={queryError}
               loading={loading}
               onPopularSearch={handlePopularSearch}
               colors={colors}
             />
           }
+          ListFooterComponent={
+            loadingMore ? (
+              <ActivityIndicator
+                size="small"
+                color={colors.primary}
+                style={{ paddingVertical: 16 }}
+              />
+            ) : null
+          }
+          onEndReached={loadMoreResults}
+          onEndReachedThreshold={0.5}
           onScroll={handleScroll}
           scrollEventThrottle={16}
           showsVerticalScrollIndicator={false}
@@ -887,7 +1941,7 @@ export default function SearchScreen({ navigation }: Props) {
 
         {/* Back to Top Button */}
         <BackToTopButton
-          isVisible={showBackToTop && results.length > 10}
+          isVisible={showBackToTop && listData.length > 10}
           onPress={scrollToTop}
           animatedValue={backToTopAnimation}
           colors={colors}
@@ -16,6 +16,9 @@ import { VersionSelector } from "../components/VersionSelector";
 import { getVersionDisplayName } from "../utils/bibleVersionUtils";
 import { Fonts } from "../utils/fonts";
 import Footer from "../components/Footer";
+import { BackupRestoreModal } from "../components/BackupRestoreModal";
+import { ImportModal } from "../components/ImportModal";
+import { useBackup } from "../hooks/useBackup";
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get("window");
 
@@ -47,6 +50,11 @@ const SettingsScreen = () => {
   const [selectedVersion, setSelectedVersion] = useState(currentVersion);
   const [isSwitching, setIsSwitching] = useState(false);
   const [isLandscape, setIsLandscape] = useState(screenWidth > screenHeight);
+  const [showDataOptions, setShowDataOptions] = useState(false);
+  const [showRestore, setShowRestore] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const { exportBackup } = useBackup();
 
   useEffect(() => {
     const updateLayout = () => {
@@ -111,6 +119,23 @@ const SettingsScreen = () => {
     [currentVersion, isSwitching, switchVersion]
   );
 
+  const handleExportBackup = useCallback(async () => {
+    if (isExporting) return;
+    setIsExporting(true);
+    try {
+      const uri = await exportBackup();
+      Alert.alert(
+        "Backup Saved",
+        `Your data was saved to ${uri.split("/").pop()}.`
+      );
+    } catch (err) {
+      console.error("Failed to export backup:", err);
+      Alert.alert("Export Failed", "Your data could not be backed up.");
+    } finally {
+      setIsExporting(false);
+    }
+  }, [exportBackup, isExporting]);
+
   const isLoading = isInitializing || isSwitching;
   const isDark = theme === "dark";
 
@@ -533,18 +558,48 @@ const SettingsScreen = () => {
       >
         <SettingItem
           title="Data & Storage"
-          subtitle="Manage app data and cache"
+          subtitle="Back up and restore your data"
           icon="server-outline"
-          onPress={() =>
-            Alert.alert(
-              "Coming Soon",
-              "Data management features will be available in the next update."
-            )
-          }
+          onPress={() => setShowDataOptions((prev) => !prev)}
         >
-          <Ionicons name="chevron-forward" size={20} color={colors.muted} />
+          <Ionicons
+            name={showDataOptions ? "chevron-down" : "chevron-forward"}
+            size={20}
+            color={colors.muted}
+          />
         </SettingItem>
 
+        {showDataOptions && (
+          <View className="ml-4">
+            <SettingItem
+              title="Export Backup"
+              subtitle="Bookmarks, highlights, notes, plans and progress"
+              icon="cloud-upload-outline"
+              onPress={handleExportBackup}
+            >
+              {isExporting && (
+                <ActivityIndicator size="small" color={colors.primary} />
+              )}
+            </SettingItem>
+            <SettingItem
+              title="Restore Backup"
+              subtitle="Merge or replace with a saved backup"
+              icon="cloud-download-outline"
+              onPress={() => setShowRestore(true)}
+            >
+              <Ionicons name="chevron-forward" size={20} color={colors.muted} />
+            </SettingItem>
+            <SettingItem
+              title="Import From Other Apps"
+              subtitle="MyBible, CSV or OSIS bookmarks and highlights"
+              icon="git-merge-outline"
+              onPress={() => setShowImport(true)}
+            >
+              <Ionicons name="chevron-forward" size={20} color={colors.muted} />
+            </SettingItem>
+          </View>
+        )}
+
         <View
           className="border-t my-3"
           style={{ borderColor: colors.border }}
@@ -631,6 +686,17 @@ const SettingsScreen = () => {
         </View>
       </SettingSection>
       <Footer/>
+
+      <BackupRestoreModal
+        visible={showRestore}
+        onClose={() => setShowRestore(false)}
+        colors={colors}
+      />
+      <ImportModal
+        visible={showImport}
+        onClose={() => setShowImport(false)}
+        colors={colors}
+      />
     </ScrollView>
   );
 };
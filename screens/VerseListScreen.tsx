@@ -15,6 +15,7 @@ import { RootStackParamList } from "../types";
 import { Verse } from "../services/BibleDatabase";
 import { useBibleDatabase } from "../context/BibleDatabaseContext";
 import { useTheme } from "../context/ThemeContext";
+import { TESTAMENT_COLORS } from "../utils/testamentUtils";
 
 type VerseListScreenNavigationProp = StackNavigationProp<
   RootStackParamList,
@@ -164,7 +165,7 @@ export default function VerseListScreen({ navigation, route }: Props) {
     if (book.book_color) {
       return `${theme === "dark" ? "bg-gray-800" : "bg-white"} border`;
     } else {
-      const testamentScheme = book.testament === "OT" ? "red" : "green";
+      const testamentScheme = TESTAMENT_COLORS[book.testament ?? "NT"].scheme;
       const lightBg = `bg-${testamentScheme}-50`;
       const lightBorder = `border-${testamentScheme}-200`;
       const darkBg = `bg-${testamentScheme}-900/20`;
@@ -186,7 +187,7 @@ export default function VerseListScreen({ navigation, route }: Props) {
     if (book.book_color) {
       return book.book_color;
     } else {
-      const baseColor = book.testament === "OT" ? "#DC2626" : "#059669";
+      const baseColor = TESTAMENT_COLORS[book.testament ?? "NT"].color;
       return baseColor;
     }
   };
@@ -10,8 +10,36 @@ import {
   DatabaseInfo,
   DatabaseMigration,
   DatabaseStats,
+  DictionaryEntry,
+  SearchCursor,
+  SearchMatchCounts,
   SearchOptions,
+  SearchPage,
+  SearchResult,
+  StrongsConcordance,
+  StrongsOccurrence,
 } from "../types";
+import {
+  MATCH_END_MARKER,
+  MATCH_START_MARKER,
+  buildFtsQuery,
+  buildTermRegExp,
+  escapeGlob,
+  extractMatchOffsets,
+  findMatchOffsets,
+  getSearchMatchMode,
+  getSearchQueryError,
+  parseSearchTerms,
+  stripVerseMarkup,
+} from "../utils/searchUtils";
+import {
+  STRONGS_BOOK_RANGES,
+  extractStrongsOccurrences,
+  parseStrongsNumber,
+} from "../utils/strongsUtils";
+import { getTestament } from "../utils/testamentUtils";
+import { getVersionVersification } from "../utils/bibleVersionUtils";
+import { VersificationScheme } from "../utils/versification";
 
 class BibleDatabaseError extends Error {
   constructor(
@@ -87,14 +115,22 @@ class BibleDatabase {
   private initializationPromise: Promise<void> | null = null;
   private isClosing = false;
   private cache = new DatabaseCache();
+  private ftsDb: SQLite.SQLiteDatabase | null = null;
+  private ftsInitPromise: Promise<SQLite.SQLiteDatabase | null> | null = null;
 
   private readonly dbName: string;
+  // Verse numbering of this translation; references are stored in KJV's
+  private scheme: VersificationScheme;
+  private readonly ftsDbName: string;
   private readonly sqliteDirectory = `${FileSystem.documentDirectory}SQLite`;
   private readonly dbPath: string;
 
   private readonly maxRetries = 3;
   private readonly retryDelay = 1000;
   private readonly slowQueryThreshold = 1000;
+  private readonly ftsIndexVersion = 1;
+  private readonly ftsBatchSize = 1000;
+  private readonly likeBatchSize = 500; // candidate rows read per LIKE query
 
   private readonly migrations: DatabaseMigration[] = [
     {
@@ -112,6 +148,13 @@ class BibleDatabase {
   constructor(dbName: string = "esv.sqlite3") {
     this.dbName = dbName;
     this.dbPath = `${this.sqliteDirectory}/${this.dbName}`;
+    this.ftsDbName = this.dbName.replace(/\.sqlite3$/, "") + "_fts.sqlite3";
+    this.scheme = getVersionVersification(dbName);
+  }
+
+  // Declared for the version, then as detected from the module on init
+  get versification(): VersificationScheme {
+    return this.scheme;
   }
 
   // ==================== PUBLIC INTERFACE ====================
@@ -128,6 +171,8 @@ class BibleDatabase {
     if (this.isClosing) return;
     this.isClosing = true;
 
+    await this.closeSearchIndex();
+
     if (this.db) {
       try {
         await this.db.closeAsync();
@@ -154,28 +199,203 @@ class BibleDatabase {
 
   // ==================== CORE DATABASE OPERATIONS ====================
 
-  async searchVerses(query: string, options?: SearchOptions): Promise<Verse[]> {
+  async searchVerses(
+    query: string,
+    options?: SearchOptions
+  ): Promise<SearchResult[]> {
+    const page = await this.searchVersesPage(query, options);
+    return page.results;
+  }
+
+  // Like searchVerses, but also returns a cursor for fetching the next page.
+  // Pass it back as options.cursor together with the same query and limit,
+  // and without an offset; offsets are only for pages without a cursor.
+  async searchVersesPage(
+    query: string,
+    options?: SearchOptions
+  ): Promise<SearchPage> {
     await this.ensureInitialized();
+    this.assertSearchableQuery(query, options, "searchVersesPage");
+    if (options?.cursor && options.offset) {
+      throw new BibleDatabaseError(
+        "A search page starts at a cursor or an offset, not both.",
+        undefined,
+        "searchVersesPage"
+      );
+    }
+
+    const filter = this.buildFtsFilter(query, options);
+    const ftsDb = filter ? await this.ensureSearchIndex() : null;
+    const cursor = options?.cursor;
+    if (!ftsDb || !filter || (cursor && cursor.rank === undefined)) {
+      this.assertLikeCursor(cursor, null);
+      return this.searchVersesWithLike(query, options);
+    }
 
     let sql = `
-      SELECT v.*, b.short_name as book_name 
-      FROM verses v 
-      JOIN books b ON v.book_number = b.book_number 
-      WHERE v.text LIKE ?
+      SELECT rowid, book_number, chapter, verse,
+        highlight(verses_fts, 0, ?, ?) as marked_text,
+        bm25(verses_fts) as rank
+      FROM verses_fts
+      WHERE ${filter.sql}
     `;
 
-    const params: any[] = [`%${query}%`];
+    const params: any[] = [
+      MATCH_START_MARKER,
+      MATCH_END_MARKER,
+      ...filter.params,
+    ];
+
+    if (cursor) {
+      sql += ` AND (bm25(verses_fts) > ? OR (bm25(verses_fts) = ? AND rowid > ?))`;
+      params.push(cursor.rank, cursor.rank, cursor.rowid ?? 0);
+    }
 
-    if (options?.bookRange) {
-      sql += ` AND v.book_number BETWEEN ? AND ?`;
-      params.push(options.bookRange.start, options.bookRange.end);
+    sql += ` ORDER BY rank, rowid`;
+
+    if (options?.limit !== undefined || options?.offset) {
+      sql += ` LIMIT ? OFFSET ?`;
+      params.push(options?.limit ?? -1, options?.offset ?? 0);
     }
 
-    sql += ` ORDER BY v.book_number, v.chapter, v.verse`;
+    try {
+      const hits = await this.withRetry(
+        async () =>
+          await ftsDb.getAllAsync<{
+            rowid: number;
+            book_number: number;
+            chapter: number;
+            verse: number;
+            marked_text: string;
+            rank: number;
+          }>(sql, params),
+        "searchVersesPage",
+        0
+      );
 
-    return this.withRetry(async () => {
-      return await this.db!.getAllAsync<Verse>(sql, params);
-    }, "searchVerses");
+      const verses = await this.getVersesByReference(hits);
+
+      const results: SearchResult[] = hits.flatMap((hit) => {
+        const verse = verses.get(
+          `${hit.book_number}:${hit.chapter}:${hit.verse}`
+        );
+        if (!verse) return [];
+
+        const { plainText, matches } = extractMatchOffsets(hit.marked_text);
+        return [{ ...verse, rank: hit.rank, plain_text: plainText, matches }];
+      });
+
+      const lastHit = hits[hits.length - 1];
+      const hasMore =
+        options?.limit !== undefined && hits.length === options.limit;
+
+      return {
+        results,
+        nextCursor:
+          hasMore && lastHit
+            ? {
+                rank: lastHit.rank,
+                rowid: lastHit.rowid,
+                book_number: lastHit.book_number,
+                chapter: lastHit.chapter,
+                verse: lastHit.verse,
+              }
+            : null,
+      };
+    } catch (error) {
+      this.assertLikeCursor(cursor, error);
+      console.warn("Full-text search failed, falling back to LIKE:", error);
+      return this.searchVersesWithLike(query, options);
+    }
+  }
+
+  // Pages after the first continue from a cursor in the order they were
+  // found in. A relevance cursor means nothing to the LIKE search, which
+  // lists verses canonically, so the search has to be run again.
+  private assertLikeCursor(
+    cursor: SearchCursor | undefined,
+    error: unknown
+  ): void {
+    if (cursor?.rank !== undefined) {
+      throw new BibleDatabaseError(
+        "Full-text search is unavailable, so the next page can't be loaded. Search again to start over.",
+        error,
+        "searchVersesPage"
+      );
+    }
+  }
+
+  // Queries the search would misread, such as a leading NOT, are rejected
+  // with the reason rather than searched for something else
+  private assertSearchableQuery(
+    query: string,
+    options: SearchOptions | undefined,
+    operationName: string
+  ): void {
+    const message = getSearchQueryError(query, getSearchMatchMode(options));
+    if (message) {
+      throw new BibleDatabaseError(message, undefined, operationName);
+    }
+  }
+
+  // Cheap totals for a search: no verse rows are loaded, only counts per book
+  async countMatches(
+    query: string,
+    options?: SearchOptions
+  ): Promise<SearchMatchCounts> {
+    await this.ensureInitialized();
+    this.assertSearchableQuery(query, options, "countMatches");
+
+    const filter = this.buildFtsFilter(query, options);
+    const ftsDb = filter ? await this.ensureSearchIndex() : null;
+
+    let rows: { book_number: number; count: number }[] | null = null;
+
+    if (ftsDb && filter) {
+      try {
+        rows = await this.withRetry(
+          async () =>
+            await ftsDb.getAllAsync<{ book_number: number; count: number }>(
+              `SELECT book_number, COUNT(*) as count 
+               FROM verses_fts 
+               WHERE ${filter.sql} 
+               GROUP BY book_number 
+               ORDER BY book_number`,
+              filter.params
+            ),
+          "countMatches",
+          0
+        );
+      } catch (error) {
+        console.warn("Full-text count failed, falling back to LIKE:", error);
+      }
+    }
+
+    if (!rows) {
+      // Tallied batch by batch; no matching verse is kept
+      const counts = new Map<number, number>();
+      await this.forEachLikeMatch(query, options, ({ book_number }) => {
+        counts.set(book_number, (counts.get(book_number) ?? 0) + 1);
+      });
+      rows = [...counts].map(([book_number, count]) => ({
+        book_number,
+        count,
+      }));
+    }
+
+    const result: SearchMatchCounts = {
+      total: 0,
+      byBook: {},
+      byTestament: { OT: 0, AP: 0, NT: 0 },
+    };
+
+    for (const row of rows) {
+      result.total += row.count;
+      result.byBook[row.book_number] = row.count;
+      result.byTestament[getTestament(row.book_number, "")] += row.count;
+    }
+
+    return result;
   }
 
   async getBooks(): Promise<Book[]> {
@@ -285,6 +505,39 @@ class BibleDatabase {
     }, `getVerse(${bookNumber}, ${chapter}, ${verse})`);
   }
 
+  // ==================== STORY OPERATIONS ====================
+
+  /**
+   * Section headings such as "The Sermon on the Mount" for one chapter, or
+   * the whole book when no chapter is given, in reading order. Each heading
+   * goes before its verse; several before one verse follow order_if_several.
+   */
+  async getStories(bookNumber: number, chapter?: number): Promise<Story[]> {
+    const cacheKey = `getStories:${bookNumber}:${chapter ?? "all"}`;
+    const cached = this.cache.getQuery<Story[]>(cacheKey);
+    if (cached) return cached;
+
+    const stories = await this.withRetry(async () => {
+      await this.ensureInitialized();
+
+      if (!(await this.tableExists("stories"))) {
+        return [];
+      }
+
+      const chapterFilter = chapter !== undefined ? " AND chapter = ?" : "";
+      return await this.db!.getAllAsync<Story>(
+        `SELECT book_number, chapter, verse, order_if_several, title
+         FROM stories
+         WHERE book_number = ?${chapterFilter}
+         ORDER BY chapter, verse, order_if_several`,
+        chapter !== undefined ? [bookNumber, chapter] : [bookNumber]
+      );
+    }, `getStories(${bookNumber}, ${chapter ?? "all"})`);
+
+    this.cache.setQuery(cacheKey, stories);
+    return stories;
+  }
+
   // ==================== COMMENTARY OPERATIONS ====================
 
   async getCommentary(
@@ -332,6 +585,95 @@ class BibleDatabase {
     }, `getAvailableCommentaryMarkers(${bookNumber}, ${chapter}, ${verse})`);
   }
 
+  // ==================== CONCORDANCE OPERATIONS ====================
+
+  /**
+   * Find every verse tagged with a Strong's number such as "G26" or "H430".
+   * Tags hold the bare digits, so the H/G prefix decides which testament is
+   * searched. Counts are per tag occurrence; a verse may contain several.
+   * Only the scope fields of options (book, range, chapter) are used.
+   */
+  async getStrongsConcordance(
+    strongNumber: string,
+    options?: SearchOptions
+  ): Promise<StrongsConcordance> {
+    const parsed = parseStrongsNumber(strongNumber);
+    if (!parsed) {
+      throw new BibleDatabaseError(
+        `Invalid Strong's number: ${strongNumber}`,
+        null,
+        "getStrongsConcordance"
+      );
+    }
+
+    const scope = this.buildSearchScope(options, "v.");
+    const cacheKey = `getStrongsConcordance:${parsed.full}:${scope.sql}:${scope.params.join(",")}`;
+    const cached = this.cache.getQuery<StrongsConcordance>(cacheKey);
+    if (cached) return cached;
+
+    // Tags may carry the H/G prefix or leading zeros (<S>0025</S>), so LIKE
+    // only narrows the verses down; the tags themselves are compared below
+    const range = STRONGS_BOOK_RANGES[parsed.prefix];
+    const rows = await this.withRetry(async () => {
+      await this.ensureInitialized();
+      return await this.db!.getAllAsync<Verse>(
+        `SELECT v.*, b.short_name as book_name, b.book_color 
+         FROM verses v 
+         JOIN books b ON v.book_number = b.book_number 
+         WHERE v.book_number BETWEEN ? AND ? 
+           AND v.text LIKE ?${scope.sql} 
+         ORDER BY v.book_number, v.chapter, v.verse`,
+        [range.start, range.end, `%${parsed.digits}</S>%`, ...scope.params]
+      );
+    }, `getStrongsConcordance(${parsed.full})`);
+
+    const occurrences: StrongsOccurrence[] = [];
+    const byBook: Record<number, number> = {};
+    const renderings = new Map<string, { word: string; count: number }>();
+    let total = 0;
+
+    for (const row of rows) {
+      const words = extractStrongsOccurrences(row.text)
+        .filter((tag) => tag.digits === parsed.digits)
+        .map((tag) => tag.word);
+      if (words.length === 0) continue;
+
+      occurrences.push({ ...row, words });
+      byBook[row.book_number] = (byBook[row.book_number] ?? 0) + words.length;
+      total += words.length;
+
+      for (const word of words) {
+        const key = word.toLowerCase();
+        const entry = renderings.get(key);
+        if (entry) {
+          entry.count++;
+        } else {
+          renderings.set(key, { word, count: 1 });
+        }
+      }
+    }
+
+    const concordance: StrongsConcordance = {
+      strongNumber: parsed.full,
+      occurrences,
+      counts: {
+        total,
+        byBook,
+        byTestament: {
+          OT: parsed.prefix === "H" ? total : 0,
+          AP: 0,
+          NT: parsed.prefix === "G" ? total : 0,
+        },
+      },
+      renderings: Array.from(renderings.values()).sort(
+        (a, b) => b.count - a.count
+      ),
+    };
+
+    this.cache.setQuery(cacheKey, concordance);
+    return concordance;
+  }
+
   // ==================== METADATA OPERATIONS ====================
 
   async getChapterCount(bookNumber: number): Promise<number> {
@@ -412,6 +754,416 @@ class BibleDatabase {
 
   // ==================== PRIVATE METHODS ====================
 
+  // MATCH expression plus scope and case filters for the verses_fts table,
+  // or null when the query has nothing the index can search for
+  private buildFtsFilter(
+    query: string,
+    options?: SearchOptions
+  ): { sql: string; params: any[] } | null {
+    const mode = getSearchMatchMode(options);
+    const ftsQuery = buildFtsQuery(query, mode, options?.wholeWords === false);
+    if (!ftsQuery) return null;
+
+    let sql = "verses_fts MATCH ?";
+    const params: any[] = [ftsQuery];
+
+    const scope = this.buildSearchScope(options, "");
+    sql += scope.sql;
+    params.push(...scope.params);
+
+    // The index is case-insensitive, so enforce case with GLOB on the stored text
+    if (options?.caseSensitive) {
+      const { required, matchAny } = parseSearchTerms(query, mode);
+      const filter = this.buildTermFilter(
+        required,
+        matchAny,
+        "text GLOB ?",
+        (word) => `*${escapeGlob(word)}*`
+      );
+      sql += filter.sql;
+      params.push(...filter.params);
+    }
+
+    return { sql, params };
+  }
+
+  // Used when the FTS5 index is unavailable. Results are in canonical order,
+  // so the cursor is simply the last verse reference of the previous page.
+  private async searchVersesWithLike(
+    query: string,
+    options?: SearchOptions
+  ): Promise<SearchPage> {
+    const offset = options?.offset ?? 0;
+    // One match past the page tells whether there is another one
+    const matches = await this.findVersesWithLike(
+      query,
+      options,
+      options?.limit !== undefined ? offset + options.limit + 1 : undefined
+    );
+
+    const results =
+      options?.limit !== undefined
+        ? matches.slice(offset, offset + options.limit)
+        : matches.slice(offset);
+
+    const last = results[results.length - 1];
+    const hasMore =
+      options?.limit !== undefined && offset + results.length < matches.length;
+
+    return {
+      results,
+      nextCursor:
+        hasMore && last
+          ? {
+              book_number: last.book_number,
+              chapter: last.chapter,
+              verse: last.verse,
+            }
+          : null,
+    };
+  }
+
+  // Matching verses in canonical order from the cursor on, stopping once
+  // maxResults verses have matched
+  private async findVersesWithLike(
+    query: string,
+    options?: SearchOptions,
+    maxResults = Infinity
+  ): Promise<SearchResult[]> {
+    const matches: SearchResult[] = [];
+    if (maxResults <= 0) return matches;
+
+    await this.forEachLikeMatch(query, options, (match) => {
+      matches.push(match);
+      return matches.length < maxResults;
+    });
+    return matches;
+  }
+
+  // LIKE narrows the candidates, then case, whole-word and NOT rules are
+  // applied to the markup-free text. Candidates are read a batch at a time
+  // from the cursor on and only the current batch is held, so callers that
+  // keep nothing (such as counting) scan any number of verses. visit returns
+  // false to stop early.
+  private async forEachLikeMatch(
+    query: string,
+    options: SearchOptions | undefined,
+    visit: (match: SearchResult) => boolean | void
+  ): Promise<void> {
+    const { required, excluded, matchAny } = parseSearchTerms(
+      query,
+      getSearchMatchMode(options)
+    );
+    if (required.length === 0) return;
+
+    let sql = `
+      SELECT v.*, b.short_name as book_name, b.book_color 
+      FROM verses v 
+      JOIN books b ON v.book_number = b.book_number 
+      WHERE 1 = 1
+    `;
+
+    const params: any[] = [];
+
+    const filter = this.buildTermFilter(
+      required,
+      matchAny,
+      "v.text LIKE ?",
+      (word) => `%${word}%`
+    );
+    sql += filter.sql;
+    params.push(...filter.params);
+
+    const scope = this.buildSearchScope(options, "v.");
+    sql += scope.sql;
+    params.push(...scope.params);
+
+    const requiredPatterns = required.map((term) =>
+      buildTermRegExp(term, options)
+    );
+    const excludedPatterns = excluded.map((term) =>
+      buildTermRegExp(term, options)
+    );
+
+    let position: Verse | SearchCursor | undefined = options?.cursor;
+
+    while (true) {
+      let batchSql = sql;
+      const batchParams = [...params];
+      if (position) {
+        batchSql += ` AND (v.book_number, v.chapter, v.verse) > (?, ?, ?)`;
+        batchParams.push(
+          position.book_number,
+          position.chapter,
+          position.verse
+        );
+      }
+      batchSql += ` ORDER BY v.book_number, v.chapter, v.verse LIMIT ?`;
+      batchParams.push(this.likeBatchSize);
+
+      const rows = await this.withRetry(async () => {
+        return await this.db!.getAllAsync<Verse>(batchSql, batchParams);
+      }, "findVersesWithLike");
+
+      for (const row of rows) {
+        const plainText = stripVerseMarkup(row.text);
+        const termMatches = requiredPatterns.map((pattern) =>
+          findMatchOffsets(plainText, [pattern])
+        );
+        const isMatch = matchAny
+          ? termMatches.some((m) => m.length > 0)
+          : termMatches.every((m) => m.length > 0);
+
+        if (
+          !isMatch ||
+          findMatchOffsets(plainText, excludedPatterns).length > 0
+        ) {
+          continue;
+        }
+
+        const keepGoing = visit({
+          ...row,
+          plain_text: plainText,
+          matches: termMatches.flat().sort((a, b) => a.start - b.start),
+        });
+        if (keepGoing === false) return;
+      }
+
+      if (rows.length < this.likeBatchSize) return;
+      position = rows[rows.length - 1];
+    }
+  }
+
+  // Book, book list, range, chapter and reference restrictions shared by
+  // both search paths
+  private buildSearchScope(
+    options: SearchOptions | undefined,
+    prefix: string
+  ): { sql: string; params: any[] } {
+    let sql = "";
+    const params: any[] = [];
+
+    if (options?.bookNumber !== undefined) {
+      sql += ` AND ${prefix}book_number = ?`;
+      params.push(options.bookNumber);
+    }
+
+    if (options?.bookNumbers && options.bookNumbers.length > 0) {
+      sql += ` AND ${prefix}book_number IN (${options.bookNumbers
+        .map(() => "?")
+        .join(", ")})`;
+      params.push(...options.bookNumbers);
+    }
+
+    if (options?.bookRange) {
+      sql += ` AND ${prefix}book_number BETWEEN ? AND ?`;
+      params.push(options.bookRange.start, options.bookRange.end);
+    }
+
+    if (options?.chapter !== undefined) {
+      sql += ` AND ${prefix}chapter = ?`;
+      params.push(options.chapter);
+    }
+
+    if (options?.references) {
+      const refs = options.references;
+      sql +=
+        refs.length > 0
+          ? ` AND (${prefix}book_number, ${prefix}chapter, ${prefix}verse) IN (VALUES ${refs
+              .map(() => "(?, ?, ?)")
+              .join(", ")})`
+          : " AND 0";
+      params.push(...refs.flatMap((r) => [r.book_number, r.chapter, r.verse]));
+    }
+
+    return { sql, params };
+  }
+
+  // One clause per term requiring each of its words; terms are combined
+  // with OR when any term may match, AND otherwise
+  private buildTermFilter(
+    terms: string[],
+    matchAny: boolean,
+    condition: string,
+    toPattern: (word: string) => string
+  ): { sql: string; params: any[] } {
+    if (terms.length === 0) return { sql: "", params: [] };
+
+    const clauses = terms.map(
+      (term) =>
+        `(${term
+          .split(" ")
+          .map(() => condition)
+          .join(" AND ")})`
+    );
+
+    return {
+      sql: ` AND (${clauses.join(matchAny ? " OR " : " AND ")})`,
+      params: terms.flatMap((term) => term.split(" ").map(toPattern)),
+    };
+  }
+
+  // Fetch full verse rows (with markup and book name) for a list of references
+  private async getVersesByReference(
+    refs: { book_number: number; chapter: number; verse: number }[]
+  ): Promise<Map<string, Verse>> {
+    const verses = new Map<string, Verse>();
+    const chunkSize = 300;
+
+    for (let i = 0; i < refs.length; i += chunkSize) {
+      const chunk = refs.slice(i, i + chunkSize);
+      const rows = await this.withRetry(async () => {
+        await this.ensureInitialized();
+        return await this.db!.getAllAsync<Verse>(
+          `SELECT v.*, b.short_name as book_name, b.book_color 
+           FROM verses v 
+           JOIN books b ON v.book_number = b.book_number 
+           WHERE (v.book_number, v.chapter, v.verse) IN (VALUES ${chunk
+             .map(() => "(?, ?, ?)")
+             .join(", ")})`,
+          chunk.flatMap((r) => [r.book_number, r.chapter, r.verse])
+        );
+      }, "getVersesByReference");
+
+      for (const row of rows) {
+        verses.set(`${row.book_number}:${row.chapter}:${row.verse}`, row);
+      }
+    }
+
+    return verses;
+  }
+
+  // Open (building on first use) the FTS5 index stored next to this database.
+  // Resolves to null when the index can't be used so callers fall back to LIKE.
+  private ensureSearchIndex(): Promise<SQLite.SQLiteDatabase | null> {
+    if (this.ftsDb) return Promise.resolve(this.ftsDb);
+    if (this.ftsInitPromise) return this.ftsInitPromise;
+
+    this.ftsInitPromise = this.openSearchIndex().catch((error) => {
+      console.warn(`Full-text index unavailable for ${this.dbName}:`, error);
+      return null;
+    });
+    return this.ftsInitPromise;
+  }
+
+  private async openSearchIndex(): Promise<SQLite.SQLiteDatabase> {
+    await this.ensureInitialized();
+
+    const ftsDb = await SQLite.openDatabaseAsync(
+      this.ftsDbName,
+      undefined,
+      this.sqliteDirectory
+    );
+
+    try {
+      await ftsDb.execAsync(`
+        CREATE TABLE IF NOT EXISTS fts_meta (
+          key TEXT PRIMARY KEY,
+          value TEXT
+        );
+        CREATE VIRTUAL TABLE IF NOT EXISTS verses_fts USING fts5(
+          text,
+          book_number UNINDEXED,
+          chapter UNINDEXED,
+          verse UNINDEXED,
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+      `);
+
+      const [sourceCount, metaRows] = await Promise.all([
+        this.db!.getFirstAsync<{ count: number }>(
+          "SELECT COUNT(*) as count FROM verses"
+        ),
+        ftsDb.getAllAsync<{ key: string; value: string }>(
+          "SELECT key, value FROM fts_meta"
+        ),
+      ]);
+      const meta = Object.fromEntries(metaRows.map((r) => [r.key, r.value]));
+      const verseCount = sourceCount?.count ?? 0;
+
+      if (
+        Number(meta.index_version) !== this.ftsIndexVersion ||
+        Number(meta.verse_count) !== verseCount
+      ) {
+        await this.buildSearchIndex(ftsDb, verseCount);
+      }
+
+      this.ftsDb = ftsDb;
+      return ftsDb;
+    } catch (error) {
+      await ftsDb.closeAsync().catch(() => {});
+      throw new BibleDatabaseError(
+        "Failed to open full-text index",
+        error,
+        "openSearchIndex"
+      );
+    }
+  }
+
+  private async buildSearchIndex(
+    ftsDb: SQLite.SQLiteDatabase,
+    verseCount: number
+  ): Promise<void> {
+    const startTime = Date.now();
+    console.log(`Building full-text index for ${this.dbName}...`);
+
+    await ftsDb.withTransactionAsync(async () => {
+      await ftsDb.execAsync("DELETE FROM verses_fts; DELETE FROM fts_meta;");
+
+      const insert = await ftsDb.prepareAsync(
+        "INSERT INTO verses_fts (text, book_number, chapter, verse) VALUES (?, ?, ?, ?)"
+      );
+
+      try {
+        for (let offset = 0; offset < verseCount; offset += this.ftsBatchSize) {
+          const rows = await this.db!.getAllAsync<Verse>(
+            `SELECT book_number, chapter, verse, text FROM verses 
+             ORDER BY book_number, chapter, verse LIMIT ? OFFSET ?`,
+            [this.ftsBatchSize, offset]
+          );
+          if (rows.length === 0) break;
+
+          for (const row of rows) {
+            await insert.executeAsync([
+              stripVerseMarkup(row.text),
+              row.book_number,
+              row.chapter,
+              row.verse,
+            ]);
+          }
+        }
+      } finally {
+        await insert.finalizeAsync();
+      }
+
+      await ftsDb.runAsync(
+        "INSERT INTO fts_meta (key, value) VALUES ('index_version', ?), ('verse_count', ?)",
+        [String(this.ftsIndexVersion), String(verseCount)]
+      );
+      await ftsDb.execAsync(
+        "INSERT INTO verses_fts (verses_fts) VALUES ('optimize')"
+      );
+    });
+
+    console.log(
+      `Full-text index for ${this.dbName} built in ${Date.now() - startTime}ms`
+    );
+  }
+
+  private async closeSearchIndex(): Promise<void> {
+    const ftsDb = this.ftsDb;
+    this.ftsDb = null;
+    this.ftsInitPromise = null;
+
+    if (ftsDb) {
+      try {
+        await ftsDb.closeAsync();
+      } catch (error) {
+        console.error("Error closing full-text index:", error);
+      }
+    }
+  }
+
   private async initializeDatabase(): Promise<void> {
     try {
       await this.setupDatabase();
@@ -422,6 +1174,7 @@ class BibleDatabase {
       );
       await this.runMigrations();
       await this.verifyDatabase();
+      this.scheme = await this.detectVersification();
       this.isInitialized = true;
       console.log(`Bible database ${this.dbName} initialized ✅`);
     } catch (error) {
@@ -439,6 +1192,41 @@ class BibleDatabase {
     }
   }
 
+  // Read the numbering off the module's own verses: Greek/Vulgate Bibles
+  // join Psalms 9 and 10, Hebrew ones number psalm titles and end Malachi
+  // at chapter 3, and modern English ones have a 3 John 15. Keeps the
+  // declared scheme when the module lacks the books to tell.
+  private async detectVersification(): Promise<VersificationScheme> {
+    const countVerses = async (book: number, chapter: number) =>
+      (
+        await this.db!.getFirstAsync<{ count: number }>(
+          "SELECT COUNT(*) as count FROM verses WHERE book_number = ? AND chapter = ?",
+          [book, chapter]
+        )
+      )?.count ?? 0;
+
+    try {
+      const [psalm3, psalm9, malachi3, malachi4, thirdJohn] = await Promise.all(
+        [
+          countVerses(230, 3),
+          countVerses(230, 9),
+          countVerses(460, 3),
+          countVerses(460, 4),
+          countVerses(710, 1),
+        ]
+      );
+
+      if (psalm9 > 30) return "vulgate"; // Hebrew Psalms 9-10 as one psalm
+      if (psalm3 === 9 || (malachi3 > 18 && malachi4 === 0)) return "hebrew";
+      if (thirdJohn === 15) return "english";
+      if (thirdJohn === 14) return "kjv";
+      return this.scheme;
+    } catch (error) {
+      console.warn(`Could not detect versification of ${this.dbName}:`, error);
+      return this.scheme;
+    }
+  }
+
   private async setupDatabase(): Promise<void> {
     try {
       const fileInfo = await FileSystem.getInfoAsync(this.dbPath);
@@ -850,6 +1638,95 @@ class BibleDatabase {
     }, `getDictionaryDefinition(${strongNumber})`);
   }
 
+  async getDictionaryEntry(topic: string): Promise<DictionaryEntry | null> {
+    return this.withRetry(async () => {
+      await this.ensureInitialized();
+
+      if (!(await this.tableExists("dictionary"))) {
+        return null;
+      }
+
+      const columns = await this.getDictionaryColumns();
+      return await this.db!.getFirstAsync<DictionaryEntry>(
+        `SELECT ${columns.join(", ")} FROM dictionary WHERE topic = ?`,
+        [topic.toUpperCase()]
+      );
+    }, `getDictionaryEntry(${topic})`);
+  }
+
+  /**
+   * List dictionary entries, filtered by a Strong's number prefix ("G26",
+   * "H4") or by words that must all appear in the definition, lexeme or
+   * transliteration. An empty query browses every entry. Results are in
+   * Strong's order (Greek/Hebrew, then numeric).
+   */
+  async searchDictionary(
+    query: string,
+    limit = 50,
+    offset = 0
+  ): Promise<DictionaryEntry[]> {
+    return this.withRetry(async () => {
+      await this.ensureInitialized();
+
+      if (!(await this.tableExists("dictionary"))) {
+        return [];
+      }
+
+      const columns = await this.getDictionaryColumns();
+      const trimmed = query.trim();
+      let where = "";
+      const params: any[] = [];
+
+      if (/^[HG]\d*$/i.test(trimmed)) {
+        where = "WHERE topic LIKE ?";
+        params.push(`${trimmed.toUpperCase()}%`);
+      } else if (trimmed) {
+        const searchable = ["definition", "lexeme", "transliteration"].filter(
+          (column) => columns.includes(column)
+        );
+        const words = trimmed.split(/\s+/);
+        where = `WHERE ${words
+          .map(
+            () =>
+              `(${searchable.map((column) => `${column} LIKE ?`).join(" OR ")})`
+          )
+          .join(" AND ")}`;
+        for (const word of words) {
+          params.push(...searchable.map(() => `%${word}%`));
+        }
+      }
+
+      return await this.db!.getAllAsync<DictionaryEntry>(
+        `SELECT ${columns.join(", ")} FROM dictionary ${where} 
+         ORDER BY substr(topic, 1, 1), CAST(substr(topic, 2) AS INTEGER), topic 
+         LIMIT ? OFFSET ?`,
+        [...params, limit, offset]
+      );
+    }, `searchDictionary(${query})`);
+  }
+
+  // topic and definition plus whichever optional columns this module has
+  private async getDictionaryColumns(): Promise<string[]> {
+    const cacheKey = "dictionaryColumns";
+    const cached = this.cache.getQuery<string[]>(cacheKey);
+    if (cached) return cached;
+
+    const rows = await this.db!.getAllAsync<{ name: string }>(
+      `PRAGMA table_info(dictionary);`
+    );
+    const available = rows.map((row) => row.name);
+    const columns = [
+      "topic",
+      "definition",
+      ...["lexeme", "transliteration", "short_definition"].filter((column) =>
+        available.includes(column)
+      ),
+    ];
+
+    this.cache.setQuery(cacheKey, columns);
+    return columns;
+  }
+
   // Keep the existing getDatabaseAsset method unchanged
   private getDatabaseAsset(): number {
     switch (this.dbName) {
@@ -921,4 +1798,10 @@ export {
   Story,
   Introduction,
   DatabaseStats,
+  DictionaryEntry,
+  SearchCursor,
+  SearchMatchCounts,
+  SearchPage,
+  SearchResult,
+  StrongsConcordance,
 };
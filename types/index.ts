@@ -1,4 +1,7 @@
 // types/index.ts
+// Old Testament, Apocrypha (deuterocanonical books) or New Testament
+export type Testament = "OT" | "AP" | "NT";
+
 export interface Verse {
   book_number: number;
   chapter: number;
@@ -6,7 +9,7 @@ export interface Verse {
   text: string;
   book_name?: string;
   book_color?: string;
-  testament?: "OT" | "NT";
+  testament?: Testament;
 }
 
 export interface Book {
@@ -15,7 +18,7 @@ export interface Book {
   long_name: string;
   book_color: string;
   is_present?: boolean;
-  testament?: "OT" | "NT";
+  testament?: Testament;
   chapters?: number;
 }
 
@@ -27,7 +30,8 @@ export interface ChapterInfo {
 export type RootStackParamList = {
   Home: undefined;
   BookList: undefined;
-  Search: undefined;
+  Search: { query?: string } | undefined;
+  Dictionary: { topic?: string } | undefined;
   Bookmarks: undefined;
   Reader: {
     bookId: number;
@@ -36,6 +40,7 @@ export type RootStackParamList = {
     verse?: number;
     bookColor?: string;
     testament?: string;
+    version?: string; // switch to this translation when opening
   };
   ChapterList: {
     book: Book;
@@ -45,6 +50,11 @@ export type RootStackParamList = {
     chapter: number;
     bookName?: string;
   };
+  ReadingPlans: undefined;
+  ReadingPlan: { planId: string };
+  ReadingHistory: undefined;
+  Notes: undefined;
+  Highlights: undefined;
 };
 
 // Additional interfaces for your 6-table structure
@@ -56,16 +66,6 @@ export interface Story {
   title: string;
 }
 
-export interface SearchOptions {
-  limit?: number;
-  bookNumber?: number;
-  chapter?: number;
-  bookRange?: {
-    start: number;
-    end: number;
-  };
-}
-
 export interface Introduction {
   book_number: number;
   introduction: string;
@@ -77,12 +77,96 @@ export interface DatabaseInfo {
 }
 
 // Search-related types
+export type SearchMatchMode = "all" | "any" | "exact";
+
 export interface SearchOptions {
   limit?: number;
+  offset?: number; // only without a cursor
+  matchMode?: SearchMatchMode; // defaults to "all", or "exact" when exactMatch is set
   exactMatch?: boolean;
   caseSensitive?: boolean;
-  wholeWords?: boolean;
+  wholeWords?: boolean; // defaults to true; false also matches longer words a term starts
+  bookNumber?: number;
   bookNumbers?: number[];
+  chapter?: number;
+  bookRange?: {
+    start: number;
+    end: number;
+  };
+  cursor?: SearchCursor; // continue after the last result of a previous page
+  // Only search these verses
+  references?: { book_number: number; chapter: number; verse: number }[];
+}
+
+// Position of the last result of a search page
+export interface SearchCursor {
+  rank?: number; // set for relevance-ordered (full-text) results
+  rowid?: number;
+  book_number: number;
+  chapter: number;
+  verse: number;
+}
+
+// Position of a matched term within SearchResult.plain_text
+export interface SearchMatchOffset {
+  start: number;
+  length: number;
+}
+
+export interface SearchResult extends Verse {
+  rank?: number; // bm25 score, lower is more relevant
+  plain_text?: string; // verse text with markup removed
+  matches?: SearchMatchOffset[];
+}
+
+export interface SearchPage {
+  results: SearchResult[];
+  nextCursor: SearchCursor | null; // null when there are no more results
+}
+
+export interface SearchMatchCounts {
+  total: number;
+  byBook: Record<number, number>;
+  byTestament: Record<Testament, number>;
+}
+
+// One verse reference matched in one or more translations
+export interface CrossVersionSearchResult {
+  book_number: number;
+  chapter: number;
+  verse: number;
+  book_name?: string;
+  book_color?: string;
+  versions: string[]; // matching versions, in the order they were searched
+  matches: Record<string, SearchResult>; // keyed by version file name
+}
+
+export interface CrossVersionSearchResults {
+  byReference: CrossVersionSearchResult[];
+  byVersion: Record<string, SearchResult[]>;
+  failedVersions: string[];
+}
+
+// Strong's concordance types
+export interface StrongsOccurrence extends Verse {
+  words: string[]; // English renderings the number is attached to in this verse
+}
+
+export interface StrongsConcordance {
+  strongNumber: string; // e.g. "G26"
+  occurrences: StrongsOccurrence[];
+  counts: SearchMatchCounts; // tag occurrences, not verses
+  renderings: { word: string; count: number }[]; // most frequent first
+}
+
+// Dictionary (secedictionary) entry. Only topic and definition are always
+// present; the other columns depend on the module.
+export interface DictionaryEntry {
+  topic: string; // Strong's number, e.g. "G26"
+  definition: string;
+  lexeme?: string;
+  transliteration?: string;
+  short_definition?: string;
 }
 
 export interface VerseRange {
@@ -114,6 +198,7 @@ export interface BibleReference {
   chapter: number;
   startVerse?: number;
   endVerse?: number;
+  endChapter?: number; // set when endVerse is in a later chapter
 }
 
 export interface DatabaseMigration {
@@ -139,6 +224,40 @@ export interface ReadingProgress {
   percentage: number;
 }
 
+// A chapter the reader finished, for the reading history timeline
+export interface ReadingHistoryEntry {
+  bookNumber: number;
+  chapter: number;
+  version: string;
+  readAt: string; // ISO timestamp
+}
+
+// Reading plan types
+export interface ReadingPlanDay {
+  title?: string;
+  readings: BibleReference[];
+}
+
+export interface ReadingPlan {
+  id: string;
+  name: string;
+  description?: string;
+  days: ReadingPlanDay[];
+  builtIn?: boolean;
+}
+
+// Progress of a started plan. Dates are local "YYYY-MM-DD" strings.
+export interface ReadingPlanProgress {
+  planId: string;
+  startDate: string; // date of day 1, moved forward when rescheduling
+  completedDays: Record<number, string>; // day index -> date it was checked off
+}
+
+export interface ReadingStreak {
+  current: number; // consecutive days up to today (or yesterday)
+  longest: number;
+}
+
 // Bookmark type
 export interface Bookmark {
   id: string;
@@ -151,17 +270,50 @@ export interface Bookmark {
   color?: string;
 }
 
+// User-created folder that bookmarks can be filed in
+export interface BookmarkFolder {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+export type BookmarkSortOrder = "custom" | "canonical" | "created" | "visited";
+
 // Note type
 export interface Note {
   id: string;
   bookNumber: number;
   chapter: number;
   verse: number;
-  content: string;
+  endVerse?: number; // last verse when the note covers a range
+  content: string; // supports **bold**, "- " list items and [[John 3:16]] links
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Highlight color with a user-editable label such as "Promise"
+export interface HighlightCategory {
+  id: string;
+  color: string; // "#RRGGBB"
+  label: string;
+}
+
+// Highlight or underline on a run of words inside a verse. Word positions
+// count reading-text words only (see utils/wordHighlights.ts) and belong to
+// the translation they were made in.
+export interface WordHighlight {
+  id: string;
+  bookNumber: number;
+  chapter: number;
+  verse: number;
+  version: string;
+  startWord: number; // inclusive, 0-based
+  endWord: number; // inclusive
+  style: "highlight" | "underline";
+  colorId: string; // HighlightCategory id
+  createdAt: number;
+}
+
 // Highlight type
 export interface Highlight {
   id: string;
@@ -0,0 +1,216 @@
+import {
+  alignVerses,
+  fromKjvReference,
+  migrateToKjvReference,
+  toKjvReference,
+  VerseReference,
+  VersificationScheme,
+} from "../versification";
+import { Verse } from "../../types";
+
+const PSALMS = 230;
+const DANIEL = 340;
+const SUSANNA = 325;
+const JOEL = 360;
+const MALACHI = 460;
+const JOHN_3 = 710;
+
+const ref = (book: number, chapter: number, verse: number): VerseReference => ({
+  book,
+  chapter,
+  verse,
+});
+
+const verse = (
+  book: number,
+  chapter: number,
+  number: number,
+  text: string
+): Verse => ({ book_number: book, chapter, verse: number, text });
+
+// Scheme reference and the KJV reference it stands for, both ways round
+const PAIRS: [VersificationScheme, VerseReference, VerseReference][] = [
+  ["kjv", ref(PSALMS, 51, 1), ref(PSALMS, 51, 1)],
+  ["kjv", ref(MALACHI, 4, 1), ref(MALACHI, 4, 1)],
+  ["kjv", ref(JOEL, 3, 1), ref(JOEL, 3, 1)],
+  // Psalm 51's two-verse title
+  ["hebrew", ref(PSALMS, 51, 3), ref(PSALMS, 51, 1)],
+  ["hebrew", ref(PSALMS, 51, 21), ref(PSALMS, 51, 19)],
+  ["hebrew", ref(PSALMS, 3, 2), ref(PSALMS, 3, 1)],
+  // Malachi 4 is the end of chapter 3
+  ["hebrew", ref(MALACHI, 3, 18), ref(MALACHI, 3, 18)],
+  ["hebrew", ref(MALACHI, 3, 19), ref(MALACHI, 4, 1)],
+  ["hebrew", ref(MALACHI, 3, 24), ref(MALACHI, 4, 6)],
+  // Joel 2:28-32 is chapter 3, and chapter 3 is chapter 4
+  ["hebrew", ref(JOEL, 2, 27), ref(JOEL, 2, 27)],
+  ["hebrew", ref(JOEL, 3, 1), ref(JOEL, 2, 28)],
+  ["hebrew", ref(JOEL, 3, 5), ref(JOEL, 2, 32)],
+  ["hebrew", ref(JOEL, 4, 1), ref(JOEL, 3, 1)],
+  ["hebrew", ref(JOEL, 4, 21), ref(JOEL, 3, 21)],
+  ["hebrew", ref(JOHN_3, 1, 14), ref(JOHN_3, 1, 14)],
+  // Greek psalm numbers run one behind from Psalm 10
+  ["vulgate", ref(PSALMS, 50, 3), ref(PSALMS, 51, 1)],
+  ["vulgate", ref(PSALMS, 50, 21), ref(PSALMS, 51, 19)],
+  ["vulgate", ref(PSALMS, 9, 22), ref(PSALMS, 10, 1)],
+  ["vulgate", ref(MALACHI, 4, 1), ref(MALACHI, 4, 1)],
+  ["vulgate", ref(JOEL, 3, 1), ref(JOEL, 3, 1)],
+  ["vulgate", ref(DANIEL, 13, 1), ref(SUSANNA, 1, 1)],
+  ["english", ref(PSALMS, 51, 1), ref(PSALMS, 51, 1)],
+  ["english", ref(MALACHI, 4, 1), ref(MALACHI, 4, 1)],
+  ["english", ref(JOEL, 3, 1), ref(JOEL, 3, 1)],
+  ["english", ref(JOHN_3, 1, 14), ref(JOHN_3, 1, 14)],
+];
+
+describe("toKjvReference", () => {
+  it.each([
+    ...PAIRS,
+    // Titles have no KJV verse number of their own
+    ["hebrew", ref(PSALMS, 51, 1), ref(PSALMS, 51, 0)],
+    ["hebrew", ref(PSALMS, 51, 2), ref(PSALMS, 51, 0)],
+    // 3 John 15 is the end of KJV verse 14
+    ["english", ref(JOHN_3, 1, 15), ref(JOHN_3, 1, 14)],
+    ["vulgate", ref(JOHN_3, 1, 15), ref(JOHN_3, 1, 14)],
+  ] as [VersificationScheme, VerseReference, VerseReference][])(
+    "maps %s %j to KJV %j",
+    (scheme, reference, expected) => {
+      expect(toKjvReference(scheme, reference)).toEqual(expected);
+    }
+  );
+});
+
+describe("fromKjvReference", () => {
+  it.each([...PAIRS, ["hebrew", ref(PSALMS, 51, 1), ref(PSALMS, 51, 0)]] as [
+    VersificationScheme,
+    VerseReference,
+    VerseReference,
+  ][])("maps %s %j from KJV %j", (scheme, expected, reference) => {
+    expect(fromKjvReference(scheme, reference)).toEqual(expected);
+  });
+});
+
+describe("alignVerses", () => {
+  const thirdJohn = [
+    verse(JOHN_3, 1, 13, "I had many things to write,"),
+    verse(JOHN_3, 1, 14, "But I trust I shall shortly see thee,"),
+    verse(JOHN_3, 1, 15, "Peace be to thee."),
+  ];
+  const hebrewMalachi = [
+    verse(MALACHI, 3, 18, "Then shall ye return,"),
+    verse(MALACHI, 3, 19, "For, behold, the day cometh,"),
+    verse(MALACHI, 3, 20, "But unto you that fear my name"),
+  ];
+  const kjvMalachi = [
+    verse(MALACHI, 4, 1, "For, behold, the day cometh,"),
+    verse(MALACHI, 4, 2, "But unto you that fear my name"),
+  ];
+  const hebrewJoel = [
+    verse(JOEL, 4, 1, "For, behold, in those days,"),
+    verse(JOEL, 4, 2, "I will also gather all nations,"),
+  ];
+  const hebrewPsalm = [
+    verse(PSALMS, 51, 1, "To the chief Musician,"),
+    verse(PSALMS, 51, 2, "when Nathan the prophet came unto him,"),
+    verse(PSALMS, 51, 3, "Have mercy upon me, O God,"),
+  ];
+
+  it.each([
+    [
+      "3 John 15 into KJV 3 John 14",
+      thirdJohn,
+      "english",
+      JOHN_3,
+      1,
+      "kjv",
+      [
+        thirdJohn[0],
+        verse(
+          JOHN_3,
+          1,
+          14,
+          "But I trust I shall shortly see thee, Peace be to thee."
+        ),
+      ],
+    ],
+    [
+      "Hebrew Malachi 3:19-20 into KJV Malachi 4",
+      hebrewMalachi,
+      "hebrew",
+      MALACHI,
+      4,
+      "kjv",
+      kjvMalachi,
+    ],
+    [
+      "KJV Malachi 4 into Hebrew Malachi 3",
+      kjvMalachi,
+      "kjv",
+      MALACHI,
+      3,
+      "hebrew",
+      hebrewMalachi.slice(1),
+    ],
+    [
+      "Hebrew Joel 4 into KJV Joel 3",
+      hebrewJoel,
+      "hebrew",
+      JOEL,
+      3,
+      "kjv",
+      hebrewJoel.map((v) => ({ ...v, chapter: 3 })),
+    ],
+    [
+      "a Hebrew psalm title into KJV verse 0",
+      hebrewPsalm,
+      "hebrew",
+      PSALMS,
+      51,
+      "kjv",
+      [
+        verse(
+          PSALMS,
+          51,
+          0,
+          "To the chief Musician, when Nathan the prophet came unto him,"
+        ),
+        verse(PSALMS, 51, 1, "Have mercy upon me, O God,"),
+      ],
+    ],
+  ] as [
+    string,
+    Verse[],
+    VersificationScheme,
+    number,
+    number,
+    VersificationScheme,
+    Verse[],
+  ][])(
+    "aligns %s",
+    (_, verses, fromScheme, book, chapter, toScheme, expected) => {
+      expect(alignVerses(verses, fromScheme, book, chapter, toScheme)).toEqual(
+        expected
+      );
+    }
+  );
+
+  it("drops verses outside the chapter", () => {
+    expect(alignVerses(hebrewMalachi, "hebrew", MALACHI, 3, "kjv")).toEqual([
+      hebrewMalachi[0],
+    ]);
+  });
+});
+
+describe("migrateToKjvReference", () => {
+  it.each([
+    [ref(JOHN_3, 1, 15), ref(JOHN_3, 1, 14)],
+    [ref(MALACHI, 3, 19), ref(MALACHI, 4, 1)],
+    [ref(JOEL, 4, 1), ref(JOEL, 3, 1)],
+    [ref(DANIEL, 13, 2), ref(SUSANNA, 1, 2)],
+    // Verses KJV numbers too are kept as saved
+    [ref(JOEL, 3, 1), ref(JOEL, 3, 1)],
+    [ref(PSALMS, 51, 3), ref(PSALMS, 51, 3)],
+    [ref(MALACHI, 4, 1), ref(MALACHI, 4, 1)],
+  ])("migrates %j to %j", (reference, expected) => {
+    expect(migrateToKjvReference(reference)).toEqual(expected);
+    expect(migrateToKjvReference(expected)).toEqual(expected);
+  });
+});
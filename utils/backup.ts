@@ -0,0 +1,423 @@
+// utils/backup.ts
+// Portable JSON backup of all user data, and merging a backup into the
+// data already on the device.
+import {
+  BookmarkFolder,
+  HighlightCategory,
+  Note,
+  WordHighlight,
+} from "../types";
+import type { Bookmark } from "../context/BookmarksContext";
+import type { HighlightedVerse } from "../context/HighlightsContext";
+import type { StoredReadingPlans } from "../context/ReadingPlansContext";
+import type { StoredReadingProgress } from "../context/ReadingProgressContext";
+import type { ColorScheme, FontFamily, Theme } from "../context/ThemeContext";
+import { BIBLE_BOOKS_MAP } from "./testamentUtils";
+import { migrateToKjvReference } from "./versification";
+
+export const BACKUP_FORMAT = "fount-of-hope-backup";
+// Bump when the shape of BackupData changes, and upgrade older files in
+// parseBackup
+export const BACKUP_VERSION = 1;
+
+const MAX_HISTORY_ENTRIES = 500;
+
+export interface BackupSettings {
+  theme?: Theme;
+  colorScheme?: ColorScheme;
+  fontFamily?: FontFamily;
+  bibleVersion?: string;
+}
+
+export interface BackupData {
+  bookmarks: Bookmark[];
+  bookmarkFolders: BookmarkFolder[];
+  highlights: HighlightedVerse[];
+  wordHighlights: WordHighlight[];
+  highlightPalette: HighlightCategory[];
+  notes: Note[];
+  readingPlans: StoredReadingPlans;
+  readingProgress: StoredReadingProgress;
+  settings: BackupSettings;
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  data: BackupData;
+}
+
+export interface BackupCounts {
+  bookmarks: number;
+  highlights: number;
+  notes: number;
+  readingPlans: number;
+  chaptersRead: number;
+}
+
+// A backup as read back, with how many items of each kind were left out
+// because they were damaged
+export interface ParsedBackup extends BackupFile {
+  skipped: Partial<BackupCounts>;
+}
+
+export type RestoreMode = "merge" | "replace";
+
+export const createBackup = (data: BackupData): BackupFile => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  createdAt: new Date().toISOString(),
+  data,
+});
+
+// "fount-of-hope-backup-2025-03-01-0915.json"
+export const getBackupFileName = (date = new Date()): string => {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${BACKUP_FORMAT}-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}-${pad(date.getHours())}${pad(date.getMinutes())}.json`;
+};
+
+// ==================== PARSING ====================
+
+const asArray = <T>(value: unknown, section: string): T[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    throw new Error(`The "${section}" section of the backup is not a list.`);
+  }
+  return value as T[];
+};
+
+const asObject = <T extends object>(value: unknown, section: string): T => {
+  if (value === undefined || value === null) return {} as T;
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`The "${section}" section of the backup is invalid.`);
+  }
+  return value as T;
+};
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isCount = (value: unknown, min: number): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= min;
+
+// Verse 0 is a psalm title, which the KJV doesn't number
+const isReference = (book: unknown, chapter: unknown, verse: unknown) =>
+  isCount(book, 1) &&
+  BIBLE_BOOKS_MAP[book] !== undefined &&
+  isCount(chapter, 1) &&
+  isCount(verse, 0);
+
+const isBookmark = (bookmark: unknown): boolean =>
+  isRecord(bookmark) &&
+  typeof bookmark.id === "string" &&
+  isReference(bookmark.book_number, bookmark.chapter, bookmark.verse) &&
+  (bookmark.endVerse === undefined || isCount(bookmark.endVerse, 0));
+
+const isHighlight = (highlight: unknown): boolean =>
+  isRecord(highlight) &&
+  isReference(highlight.bookId, highlight.chapter, highlight.verse) &&
+  typeof highlight.colorId === "string";
+
+const isWordHighlight = (highlight: unknown): boolean =>
+  isRecord(highlight) &&
+  typeof highlight.id === "string" &&
+  isReference(highlight.bookNumber, highlight.chapter, highlight.verse) &&
+  typeof highlight.version === "string" &&
+  isCount(highlight.startWord, 0) &&
+  isCount(highlight.endWord, highlight.startWord);
+
+const isNote = (note: unknown): boolean =>
+  isRecord(note) &&
+  typeof note.id === "string" &&
+  isReference(note.bookNumber, note.chapter, note.verse) &&
+  (note.endVerse === undefined || isCount(note.endVerse, 0)) &&
+  typeof note.content === "string";
+
+/**
+ * Read a backup file, checking its format and filling in missing sections.
+ * Bookmarks, highlights and notes that aren't valid are left out and
+ * counted in skipped. Throws an Error with a message that can be shown to
+ * the user.
+ */
+export const parseBackup = (json: string): ParsedBackup => {
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("This is not a valid backup file (invalid JSON).");
+  }
+
+  if (!raw || raw.format !== BACKUP_FORMAT) {
+    throw new Error("This file is not a Fount of Hope backup.");
+  }
+  if (typeof raw.version !== "number" || raw.version < 1) {
+    throw new Error("The backup has no valid format version.");
+  }
+  if (raw.version > BACKUP_VERSION) {
+    throw new Error(
+      "This backup was made by a newer version of the app. Please update the app to restore it."
+    );
+  }
+
+  const data = asObject<any>(raw.data, "data");
+  const plans = asObject<any>(data.readingPlans, "readingPlans");
+  const progress = asObject<any>(data.readingProgress, "readingProgress");
+
+  const skipped: Partial<BackupCounts> = {};
+  const keepValid = <T>(
+    items: unknown[],
+    isValid: (item: unknown) => boolean,
+    kind: "bookmarks" | "highlights" | "notes"
+  ): T[] => {
+    const valid = items.filter(isValid) as T[];
+    if (valid.length < items.length) {
+      skipped[kind] = (skipped[kind] ?? 0) + items.length - valid.length;
+    }
+    return valid;
+  };
+
+  const notes = keepValid<any>(
+    asArray(data.notes, "notes"),
+    isNote,
+    "notes"
+  ).map(
+    (note): Note => ({
+      ...note,
+      createdAt: new Date(note.createdAt),
+      updatedAt: new Date(note.updatedAt ?? note.createdAt),
+    })
+  );
+
+  const lastPositions: StoredReadingProgress["lastPositions"] = {};
+  Object.entries(
+    asObject<any>(progress.lastPositions, "lastPositions")
+  ).forEach(([version, position]: [string, any]) => {
+    lastPositions[version] = {
+      ...position,
+      timestamp: new Date(position.timestamp),
+    };
+  });
+
+  return {
+    format: BACKUP_FORMAT,
+    version: raw.version,
+    createdAt: typeof raw.createdAt === "string" ? raw.createdAt : "",
+    data: {
+      bookmarks: keepValid(
+        asArray(data.bookmarks, "bookmarks"),
+        isBookmark,
+        "bookmarks"
+      ),
+      bookmarkFolders: asArray(data.bookmarkFolders, "bookmarkFolders"),
+      highlights: keepValid(
+        asArray(data.highlights, "highlights"),
+        isHighlight,
+        "highlights"
+      ),
+      wordHighlights: keepValid(
+        asArray(data.wordHighlights, "wordHighlights"),
+        isWordHighlight,
+        "highlights"
+      ),
+      highlightPalette: asArray(data.highlightPalette, "highlightPalette"),
+      notes,
+      readingPlans: {
+        customPlans: asArray(plans.customPlans, "readingPlans.customPlans"),
+        progress: asObject(plans.progress, "readingPlans.progress"),
+      },
+      readingProgress: {
+        readChapters: asObject(progress.readChapters, "readChapters"),
+        history: asArray(progress.history, "history"),
+        lastPositions,
+      },
+      settings: asObject(data.settings, "settings"),
+    },
+    skipped,
+  };
+};
+
+export const getBackupCounts = (data: BackupData): BackupCounts => ({
+  bookmarks: data.bookmarks.length,
+  highlights: data.highlights.length + data.wordHighlights.length,
+  notes: data.notes.length,
+  readingPlans: Object.keys(data.readingPlans.progress).length,
+  chaptersRead: Object.keys(data.readingProgress.readChapters).length,
+});
+
+// ==================== MERGING ====================
+
+/**
+ * Combine two lists keyed by getKey. When both sides have an item, the one
+ * with the later timestamp wins.
+ */
+const mergeByKey = <T>(
+  current: T[],
+  incoming: T[],
+  getKey: (item: T) => string,
+  getTime: (item: T) => number
+): T[] => {
+  const merged = new Map<string, T>();
+  current.forEach((item) => merged.set(getKey(item), item));
+  incoming.forEach((item) => {
+    const existing = merged.get(getKey(item));
+    if (!existing || getTime(item) > getTime(existing)) {
+      merged.set(getKey(item), item);
+    }
+  });
+  return Array.from(merged.values());
+};
+
+// Highlights from before references were kept in KJV numbering, renumbered
+// so they meet the same verse on the device
+const migrateHighlightReference = (
+  highlight: HighlightedVerse
+): HighlightedVerse => {
+  const { book, chapter, verse } = migrateToKjvReference({
+    book: highlight.bookId,
+    chapter: highlight.chapter,
+    verse: highlight.verse,
+  });
+  return { ...highlight, bookId: book, chapter, verse };
+};
+
+const toTime = (value: string | number | Date | undefined): number => {
+  const time = value === undefined ? NaN : new Date(value).getTime();
+  return Number.isNaN(time) ? 0 : time;
+};
+
+// Latest day checked off in a plan, as "YYYY-MM-DD" (sorts as text)
+const getLastCompletion = (completedDays: Record<number, string>): string =>
+  Object.values(completedDays).sort().pop() || "";
+
+const mergeReadingPlans = (
+  current: StoredReadingPlans,
+  incoming: StoredReadingPlans
+): StoredReadingPlans => {
+  const progress = { ...current.progress };
+  Object.entries(incoming.progress).forEach(([planId, incomingProgress]) => {
+    const existing = progress[planId];
+    if (
+      !existing ||
+      getLastCompletion(incomingProgress.completedDays) >
+        getLastCompletion(existing.completedDays)
+    ) {
+      progress[planId] = incomingProgress;
+    }
+  });
+
+  return {
+    customPlans: mergeByKey(
+      current.customPlans,
+      incoming.customPlans,
+      (plan) => plan.id,
+      () => 0 // plans carry no timestamp; keep the device's copy
+    ),
+    progress,
+  };
+};
+
+const mergeReadingProgress = (
+  current: StoredReadingProgress,
+  incoming: StoredReadingProgress
+): StoredReadingProgress => {
+  const readChapters = { ...current.readChapters };
+  Object.entries(incoming.readChapters).forEach(([key, readAt]) => {
+    if (!readChapters[key] || readAt > readChapters[key]) {
+      readChapters[key] = readAt;
+    }
+  });
+
+  const lastPositions = { ...current.lastPositions };
+  Object.entries(incoming.lastPositions).forEach(([version, position]) => {
+    const existing = lastPositions[version];
+    if (!existing || toTime(position.timestamp) > toTime(existing.timestamp)) {
+      lastPositions[version] = position;
+    }
+  });
+
+  const history = mergeByKey(
+    current.history,
+    incoming.history,
+    (entry) =>
+      `${entry.version}-${entry.bookNumber}-${entry.chapter}-${entry.readAt}`,
+    () => 0
+  )
+    .sort((a, b) => toTime(b.readAt) - toTime(a.readAt))
+    .slice(0, MAX_HISTORY_ENTRIES);
+
+  return { readChapters, history, lastPositions };
+};
+
+/**
+ * Data to keep after restoring a backup. "replace" takes the backup as is;
+ * "merge" keeps everything on the device and adds the backup, resolving
+ * items present in both by their timestamps. Settings are only taken from
+ * the backup when replacing.
+ */
+export const mergeBackupData = (
+  current: BackupData,
+  incoming: BackupData,
+  mode: RestoreMode
+): BackupData => {
+  if (mode === "replace") {
+    return {
+      ...incoming,
+      highlightPalette:
+        incoming.highlightPalette.length > 0
+          ? incoming.highlightPalette
+          : current.highlightPalette,
+    };
+  }
+
+  return {
+    bookmarks: mergeByKey(
+      current.bookmarks,
+      incoming.bookmarks,
+      (bookmark) => bookmark.id,
+      (bookmark) =>
+        Math.max(toTime(bookmark.createdAt), toTime(bookmark.lastVisitedAt))
+    ),
+    bookmarkFolders: mergeByKey(
+      current.bookmarkFolders,
+      incoming.bookmarkFolders,
+      (folder) => folder.id,
+      () => 0
+    ),
+    highlights: mergeByKey(
+      current.highlights,
+      incoming.highlights.map(migrateHighlightReference),
+      (h) => `${h.bookId}-${h.chapter}-${h.verse}`,
+      (h) => h.timestamp
+    ),
+    wordHighlights: mergeByKey(
+      current.wordHighlights,
+      incoming.wordHighlights,
+      (h) => h.id,
+      (h) => h.createdAt
+    ),
+    highlightPalette: mergeByKey(
+      current.highlightPalette,
+      incoming.highlightPalette,
+      (entry) => entry.id,
+      () => 0
+    ),
+    notes: mergeByKey(
+      current.notes,
+      incoming.notes,
+      (note) => note.id,
+      (note) => toTime(note.updatedAt)
+    ),
+    readingPlans: mergeReadingPlans(
+      current.readingPlans,
+      incoming.readingPlans
+    ),
+    readingProgress: mergeReadingProgress(
+      current.readingProgress,
+      incoming.readingProgress
+    ),
+    settings: current.settings,
+  };
+};
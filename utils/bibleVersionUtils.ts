@@ -1,4 +1,5 @@
 // utils/bibleVersionUtils.ts
+import { VersificationScheme } from "./versification";
 
 export const VERSION_DISPLAY_NAMES: Record<string, string> = {
   "ampc.sqlite3": "AMPC",
@@ -49,3 +50,36 @@ export const getVersionDisplayName = (version: string): string => {
 export const getVersionDescription = (version: string): string => {
   return VERSION_DESCRIPTIONS[version] || "Bible translation";
 };
+
+// Declared verse numbering of each bundled version: "english" versions
+// number the end of 3 John 14 as verse 15. BibleDatabase checks the module's
+// own verses when it opens and switches to "hebrew" or "vulgate" if they
+// number psalm titles, Malachi or the psalms that way; this is what is used
+// until then, or when the module lacks the books to tell.
+export const VERSION_VERSIFICATION: Record<string, VersificationScheme> = {
+  "ampc.sqlite3": "kjv",
+  "niv11.sqlite3": "english",
+  "csb17.sqlite3": "english",
+  "ylt.sqlite3": "kjv",
+  "nlt15.sqlite3": "english",
+  "nkjv.sqlite3": "kjv",
+  "nasb.sqlite3": "english",
+  "logos.sqlite3": "kjv",
+  "kj2.sqlite3": "kjv",
+  "esv.sqlite3": "english",
+  "esvgsb.sqlite3": "english",
+  "iesvth.sqlite3": "english",
+  "rv1895.sqlite3": "kjv",
+  "cebB.sqlite3": "kjv",
+  "mbb05.sqlite3": "english",
+  "tagab01.sqlite3": "kjv",
+  "tagmb12.sqlite3": "english",
+  "hilab82.sqlite3": "kjv",
+};
+
+// Versions added later are assumed to follow the KJV until checked
+export const getVersionVersification = (
+  version: string
+): VersificationScheme => {
+  return VERSION_VERSIFICATION[version] || "kjv";
+};
@@ -0,0 +1,124 @@
+// utils/citation.ts
+// Turn a selection of verses into text for copying or sharing, e.g.
+// "For God so loved the world... — John 3:16-18 (ESV)".
+import { Verse } from "../types";
+import { stripTags } from "./bibleDatabaseUtils";
+import { getVersionDisplayName } from "./bibleVersionUtils";
+import { stripVerseMarkup } from "./searchUtils";
+
+export type ReferencePlacement = "before" | "after";
+
+export interface CitationOptions {
+  includeVerseNumbers: boolean;
+  referencePlacement: ReferencePlacement;
+  includeTranslation: boolean; // e.g. "(ESV)" after the reference
+  quoteText: boolean; // wrap the text in quotation marks
+  versePerLine: boolean; // start every verse on a new line
+}
+
+export interface CitationTemplate extends CitationOptions {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+}
+
+export const DEFAULT_CITATION_TEMPLATES: CitationTemplate[] = [
+  {
+    id: "standard",
+    name: "Standard",
+    builtIn: true,
+    includeVerseNumbers: true,
+    referencePlacement: "after",
+    includeTranslation: true,
+    quoteText: false,
+    versePerLine: false,
+  },
+  {
+    id: "quote",
+    name: "Quote",
+    builtIn: true,
+    includeVerseNumbers: false,
+    referencePlacement: "after",
+    includeTranslation: true,
+    quoteText: true,
+    versePerLine: false,
+  },
+  {
+    id: "study",
+    name: "Study",
+    builtIn: true,
+    includeVerseNumbers: true,
+    referencePlacement: "before",
+    includeTranslation: true,
+    quoteText: false,
+    versePerLine: true,
+  },
+];
+
+// 16, 17, 18, 20 -> "16-18, 20"
+export const formatVerseRanges = (verseNumbers: number[]): string => {
+  const sorted = Array.from(new Set(verseNumbers)).sort((a, b) => a - b);
+  const ranges: string[] = [];
+  let start = sorted[0];
+  let end = sorted[0];
+
+  sorted.slice(1).forEach((verse) => {
+    if (verse === end + 1) {
+      end = verse;
+      return;
+    }
+    ranges.push(start === end ? `${start}` : `${start}-${end}`);
+    start = end = verse;
+  });
+  if (start !== undefined) {
+    ranges.push(start === end ? `${start}` : `${start}-${end}`);
+  }
+  return ranges.join(", ");
+};
+
+// "John 3:16-18" for verses of one chapter
+export const formatPassageReference = (
+  verses: Verse[],
+  bookName: string
+): string => {
+  if (verses.length === 0) return bookName;
+  return `${bookName} ${verses[0].chapter}:${formatVerseRanges(
+    verses.map((verse) => verse.verse)
+  )}`;
+};
+
+// Strong's numbers and footnotes go with their content, other markup and
+// entities leave just the reading text
+export const cleanVerseText = (text: string): string =>
+  stripTags(stripVerseMarkup(text)).replace(/\s+/g, " ").trim();
+
+/**
+ * Format verses of one chapter with the given options. version is the
+ * translation's database file name, shown by its display abbreviation.
+ */
+export const formatCitation = (
+  verses: Verse[],
+  options: CitationOptions,
+  bookName: string,
+  version?: string | null
+): string => {
+  const sorted = [...verses].sort((a, b) => a.verse - b.verse);
+  const showNumbers = options.includeVerseNumbers && sorted.length > 1;
+
+  const verseTexts = sorted.map((verse) =>
+    showNumbers
+      ? `${verse.verse} ${cleanVerseText(verse.text)}`
+      : cleanVerseText(verse.text)
+  );
+  let text = verseTexts.join(options.versePerLine ? "\n" : " ");
+  if (options.quoteText) text = `“${text}”`;
+
+  let reference = formatPassageReference(sorted, bookName);
+  if (options.includeTranslation && version) {
+    reference += ` (${getVersionDisplayName(version)})`;
+  }
+
+  return options.referencePlacement === "before"
+    ? `${reference}\n${text}`
+    : `${text}\n— ${reference}`;
+};
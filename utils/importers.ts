@@ -0,0 +1,528 @@
+// utils/importers.ts
+// Read bookmarks and highlights exported by other Bible apps. Every format
+// is reduced to ImportedItem rows with MyBible book numbers (10..730), the
+// same numbering our SQLite modules use.
+import { HighlightCategory } from "../types";
+import { BIBLE_BOOKS_MAP } from "./testamentUtils";
+import { findBookNumber, parseReferences } from "./referenceParser";
+import { VersificationScheme, toKjvReference } from "./versification";
+
+export type ImportFormat = "csv" | "osis" | "mybible";
+export type ImportKind = "bookmark" | "highlight";
+
+export interface ImportedItem {
+  kind: ImportKind;
+  bookNumber: number;
+  chapter: number;
+  verse: number;
+  endVerse?: number;
+  wholeChapter?: boolean; // a chapter reference such as "Ps.23"; verse is 1
+  color?: string; // "#RRGGBB" as found in the source
+  note?: string;
+}
+
+export interface SkippedRow {
+  row: string; // line number or "table #id", for the report
+  reason: string;
+}
+
+export interface ImportResult {
+  items: ImportedItem[];
+  skipped: SkippedRow[];
+  // Numbering of the references, when the format defines it; otherwise they
+  // are read as numbered like the open translation
+  versification?: VersificationScheme;
+}
+
+// Longest verse range expanded into separate verses
+const MAX_IMPORT_RANGE = 200;
+
+const isValidBook = (bookNumber: number): boolean =>
+  BIBLE_BOOKS_MAP[bookNumber] !== undefined;
+
+// ==================== OSIS ====================
+
+// OSIS book ids in canonical order (index + 1 = standard book number)
+const OSIS_BOOK_IDS = (
+  "Gen Exod Lev Num Deut Josh Judg Ruth 1Sam 2Sam 1Kgs 2Kgs 1Chr 2Chr " +
+  "Ezra Neh Esth Job Ps Prov Eccl Song Isa Jer Lam Ezek Dan Hos Joel " +
+  "Amos Obad Jonah Mic Nah Hab Zeph Hag Zech Mal Matt Mark Luke John " +
+  "Acts Rom 1Cor 2Cor Gal Eph Phil Col 1Thess 2Thess 1Tim 2Tim Titus " +
+  "Phlm Heb Jas 1Pet 2Pet 1John 2John 3John Jude Rev " +
+  // Apocrypha, in the order of its standard numbers in testamentUtils
+  "1Esd 2Esd Tob Jdt AddEsth Wis Sir Bar EpJer PrAzar Sus Bel PrMan " +
+  "1Macc 2Macc 3Macc 4Macc"
+).split(" ");
+
+let osisBookNumbers: Map<string, number> | null = null;
+
+const getOsisBookNumber = (osisId: string): number | null => {
+  if (!osisBookNumbers) {
+    const byStandard = new Map<number, number>();
+    Object.entries(BIBLE_BOOKS_MAP).forEach(([number, info]) =>
+      byStandard.set(info.standardNumber, Number(number))
+    );
+    osisBookNumbers = new Map();
+    OSIS_BOOK_IDS.forEach((id, index) => {
+      const bookNumber = byStandard.get(index + 1);
+      if (bookNumber !== undefined) {
+        osisBookNumbers!.set(id.toLowerCase(), bookNumber);
+      }
+    });
+  }
+  return osisBookNumbers.get(osisId.toLowerCase()) ?? null;
+};
+
+// "John.3.16", optionally with a work prefix such as "Bible:John.3.16"
+const OSIS_REF_PATTERN = /^(?:[\w.]+:)?([1-3]?[A-Za-z]+)\.(\d+)(?:\.(\d+))?$/;
+
+interface OsisPoint {
+  bookNumber: number;
+  chapter: number;
+  verse?: number;
+}
+
+const parseOsisPoint = (ref: string): OsisPoint | null => {
+  const match = ref.trim().match(OSIS_REF_PATTERN);
+  if (!match) return null;
+  const bookNumber = getOsisBookNumber(match[1]);
+  if (bookNumber === null) return null;
+  return {
+    bookNumber,
+    chapter: parseInt(match[2], 10),
+    verse: match[3] ? parseInt(match[3], 10) : undefined,
+  };
+};
+
+/**
+ * Parse an OSIS reference ("Gen.1.1", "John.3.16-John.3.18" or
+ * "Ps.23") into an item. Returns null when it is not valid OSIS.
+ */
+export const parseOsisReference = (
+  ref: string
+): Omit<ImportedItem, "kind"> | null => {
+  const [startRef, endRef] = ref.split("-");
+  const start = parseOsisPoint(startRef);
+  if (!start) return null;
+
+  const end = endRef ? parseOsisPoint(endRef) : start;
+  // Ranges across chapters or books are cut at the end of the first chapter
+  const endVerse =
+    end && end.bookNumber === start.bookNumber && end.chapter === start.chapter
+      ? end.verse
+      : undefined;
+
+  return {
+    bookNumber: start.bookNumber,
+    chapter: start.chapter,
+    verse: start.verse ?? 1,
+    ...(endVerse !== undefined && endVerse !== start.verse && { endVerse }),
+    ...(start.verse === undefined && { wholeChapter: true }),
+  };
+};
+
+/**
+ * One OSIS reference per line or separated by whitespace/commas, as
+ * written by osisRef attributes and most verse-list exports. OSIS numbers
+ * verses as the KJV does unless a document says otherwise.
+ */
+export const parseOsisImport = (
+  text: string,
+  kind: ImportKind
+): ImportResult => {
+  const result: ImportResult = {
+    items: [],
+    skipped: [],
+    versification: "kjv",
+  };
+
+  text.split(/\r?\n/).forEach((line, lineIndex) => {
+    line
+      .split(/[\s,;]+/)
+      .filter(Boolean)
+      .forEach((ref) => {
+        const parsed = parseOsisReference(ref);
+        if (parsed) {
+          result.items.push({ kind, ...parsed });
+        } else {
+          result.skipped.push({
+            row: `Line ${lineIndex + 1}`,
+            reason: `"${ref}" is not an OSIS reference`,
+          });
+        }
+      });
+  });
+
+  return result;
+};
+
+// ==================== CSV ====================
+
+// Split one CSV line, honoring "quoted, fields" and "" escapes
+export const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === "," || char === "\t") {
+      fields.push(field.trim());
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+};
+
+type CsvColumn =
+  | "reference"
+  | "book"
+  | "chapter"
+  | "verse"
+  | "endVerse"
+  | "note"
+  | "color"
+  | "kind";
+
+const CSV_HEADERS: Record<string, CsvColumn> = {
+  reference: "reference",
+  ref: "reference",
+  osisref: "reference",
+  book: "book",
+  booknumber: "book",
+  book_number: "book",
+  chapter: "chapter",
+  verse: "verse",
+  startverse: "verse",
+  endverse: "endVerse",
+  note: "note",
+  notes: "note",
+  comment: "note",
+  color: "color",
+  colour: "color",
+  type: "kind",
+  kind: "kind",
+};
+
+const getCsvColumns = (fields: string[]): CsvColumn[] | null => {
+  const columns = fields.map(
+    (field) => CSV_HEADERS[field.toLowerCase().replace(/[\s-]/g, "")]
+  );
+  return columns.some((column) => column === "reference" || column === "book")
+    ? columns
+    : null;
+};
+
+// A book column may hold a MyBible number or a name such as "1 Cor"
+const resolveBook = (value: string): number | null => {
+  if (/^\d+$/.test(value)) {
+    const bookNumber = parseInt(value, 10);
+    return isValidBook(bookNumber) ? bookNumber : null;
+  }
+  return findBookNumber(value);
+};
+
+const resolveKind = (value: string | undefined, fallback: ImportKind) => {
+  const lower = (value || "").toLowerCase();
+  if (lower.startsWith("highlight")) return "highlight";
+  if (lower.startsWith("bookmark")) return "bookmark";
+  return fallback;
+};
+
+// Any reference format this app understands: "John 3:16" or OSIS
+const parseAnyReference = (
+  value: string
+): Omit<ImportedItem, "kind"> | string => {
+  const osis = parseOsisReference(value);
+  if (osis) return osis;
+
+  const [reference, ...rest] = parseReferences(value);
+  if (!reference) return `"${value}" is not a verse reference`;
+  if (rest.length > 0) return `"${value}" has more than one reference`;
+  if (reference.endChapter !== undefined) {
+    return `"${value}" runs into another chapter; use verses of one chapter`;
+  }
+  if (reference.startVerse === undefined) {
+    return {
+      bookNumber: reference.bookNumber,
+      chapter: reference.chapter,
+      verse: 1,
+      wholeChapter: true,
+    };
+  }
+  return {
+    bookNumber: reference.bookNumber,
+    chapter: reference.chapter,
+    verse: reference.startVerse,
+    ...(reference.endVerse !== undefined &&
+      reference.endVerse !== reference.startVerse && {
+        endVerse: reference.endVerse,
+      }),
+  };
+};
+
+/**
+ * Parse a CSV of references. With a header row the columns are matched by
+ * name (reference, or book/chapter/verse, plus optional note, color and
+ * type); without one the first column is the reference and the second a
+ * note.
+ */
+export const parseCsvImport = (
+  text: string,
+  defaultKind: ImportKind
+): ImportResult => {
+  const result: ImportResult = { items: [], skipped: [] };
+  const lines = text.split(/\r?\n/);
+  const columns = getCsvColumns(splitCsvLine(lines[0] || ""));
+  const firstDataLine = columns ? 1 : 0;
+  const columnsOrDefault: CsvColumn[] = columns || ["reference", "note"];
+
+  for (let i = firstDataLine; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    const row = `Line ${i + 1}`;
+    const values: Partial<Record<CsvColumn, string>> = {};
+    splitCsvLine(lines[i]).forEach((value, index) => {
+      const column = columnsOrDefault[index];
+      if (column && value) values[column] = value;
+    });
+
+    let location: Omit<ImportedItem, "kind"> | string;
+    if (values.reference) {
+      location = parseAnyReference(values.reference);
+    } else if (values.book) {
+      const bookNumber = resolveBook(values.book);
+      const chapter = parseInt(values.chapter || "", 10);
+      const verse = parseInt(values.verse || "", 10);
+      const endVerse = parseInt(values.endVerse || "", 10);
+      location =
+        bookNumber === null
+          ? `Unknown book "${values.book}"`
+          : !(chapter > 0) || !(verse > 0)
+            ? "Missing chapter or verse"
+            : {
+                bookNumber,
+                chapter,
+                verse,
+                ...(endVerse > verse && { endVerse }),
+              };
+    } else {
+      location = "No reference";
+    }
+
+    if (typeof location === "string") {
+      result.skipped.push({ row, reason: location });
+      continue;
+    }
+
+    result.items.push({
+      kind: resolveKind(values.kind, defaultKind),
+      ...location,
+      ...(values.color && { color: normalizeColor(values.color) }),
+      ...(values.note && { note: values.note }),
+    });
+  }
+
+  return result;
+};
+
+// ==================== MYBIBLE ====================
+
+export type SqliteRow = Record<string, unknown>;
+
+const pickNumber = (row: SqliteRow, names: string[]): number | null => {
+  for (const name of names) {
+    const value = Number(row[name]);
+    if (row[name] !== null && row[name] !== undefined && value > 0) {
+      return value;
+    }
+  }
+  return null;
+};
+
+const pickText = (row: SqliteRow, names: string[]): string | undefined => {
+  for (const name of names) {
+    if (typeof row[name] === "string" && (row[name] as string).trim()) {
+      return (row[name] as string).trim();
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Colors are stored as "#RRGGBB", "#AARRGGBB" or as a signed ARGB integer
+ * (Android's Color.toArgb). Returns "#RRGGBB", or undefined.
+ */
+export const normalizeColor = (value: unknown): string | undefined => {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return "#" + ((value >>> 0) & 0xffffff).toString(16).padStart(6, "0");
+  }
+  if (typeof value !== "string") return undefined;
+
+  const hex = value.trim().replace(/^#/, "");
+  if (/^-?\d+$/.test(hex) && !/^[0-9a-f]{6}$/i.test(hex)) {
+    return normalizeColor(parseInt(hex, 10));
+  }
+  if (/^[0-9a-f]{8}$/i.test(hex)) return "#" + hex.slice(2).toLowerCase();
+  if (/^[0-9a-f]{6}$/i.test(hex)) return "#" + hex.toLowerCase();
+  return undefined;
+};
+
+/**
+ * Convert rows of a MyBible-style bookmarks or highlights table. Column
+ * names differ between app versions, so the usual variants are accepted.
+ */
+export const parseMyBibleRows = (
+  table: string,
+  rows: SqliteRow[],
+  kind: ImportKind
+): ImportResult => {
+  const result: ImportResult = { items: [], skipped: [] };
+
+  rows.forEach((row, index) => {
+    const label = `${table} #${row.id ?? row._id ?? index + 1}`;
+    const bookNumber = pickNumber(row, ["book_number", "book"]);
+    const chapter = pickNumber(row, [
+      "chapter",
+      "start_chapter",
+      "chapter_number",
+    ]);
+    const verse = pickNumber(row, ["verse", "start_verse", "verse_number"]);
+
+    if (bookNumber === null || !isValidBook(bookNumber)) {
+      result.skipped.push({ row: label, reason: "Unknown book number" });
+      return;
+    }
+    if (chapter === null || verse === null) {
+      result.skipped.push({ row: label, reason: "Missing chapter or verse" });
+      return;
+    }
+
+    const endChapter = pickNumber(row, ["end_chapter"]) ?? chapter;
+    const endVerse = pickNumber(row, ["end_verse", "verse_end"]);
+    const color = normalizeColor(
+      row.color ?? row.colour ?? row.highlight_color
+    );
+    const note = pickText(row, ["comment", "note", "title", "name"]);
+
+    result.items.push({
+      kind,
+      bookNumber,
+      chapter,
+      verse,
+      ...(endChapter === chapter &&
+        endVerse !== null &&
+        endVerse > verse && { endVerse }),
+      ...(color && { color }),
+      ...(note && { note }),
+    });
+  });
+
+  return result;
+};
+
+// Tables worth reading in a MyBible user data file, and what they hold
+export const getMyBibleTableKind = (table: string): ImportKind | null => {
+  const name = table.toLowerCase();
+  if (name.includes("highlight")) return "highlight";
+  if (name.includes("bookmark")) return "bookmark";
+  return null;
+};
+
+// ==================== APPLYING ====================
+
+/**
+ * Renumber an item from the scheme it was exported in to KJV numbering,
+ * which bookmarks and highlights are kept in. A range the renumbering
+ * splits across chapters keeps only its first verse.
+ */
+export const toKjvImportedItem = (
+  item: ImportedItem,
+  scheme: VersificationScheme
+): ImportedItem => {
+  const start = toKjvReference(scheme, {
+    book: item.bookNumber,
+    chapter: item.chapter,
+    verse: item.verse,
+  });
+  if (item.wholeChapter) {
+    return { ...item, bookNumber: start.book, chapter: start.chapter };
+  }
+
+  const { endVerse, ...rest } = item;
+  const end =
+    endVerse !== undefined
+      ? toKjvReference(scheme, {
+          book: item.bookNumber,
+          chapter: item.chapter,
+          verse: endVerse,
+        })
+      : start;
+  return {
+    ...rest,
+    bookNumber: start.book,
+    chapter: start.chapter,
+    verse: start.verse,
+    ...(end.book === start.book &&
+      end.chapter === start.chapter &&
+      end.verse > start.verse && { endVerse: end.verse }),
+  };
+};
+
+// Each verse an item covers as its own row. Whole chapters give only their
+// first verse, as their length isn't known here.
+export const expandImportedItems = (items: ImportedItem[]): ImportedItem[] =>
+  items.flatMap(({ endVerse, wholeChapter, ...item }) => {
+    const last = Math.min(
+      endVerse ?? item.verse,
+      item.verse + MAX_IMPORT_RANGE - 1
+    );
+    const verses: ImportedItem[] = [];
+    for (let verse = item.verse; verse <= last; verse++) {
+      verses.push({ ...item, verse });
+    }
+    return verses;
+  });
+
+const toRgb = (hex: string): [number, number, number] => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16),
+];
+
+// Palette entry closest to an imported color; the first entry otherwise
+export const findClosestPaletteEntry = (
+  color: string | undefined,
+  palette: HighlightCategory[]
+): HighlightCategory | undefined => {
+  const normalized = normalizeColor(color);
+  if (!normalized) return palette[0];
+
+  const [r, g, b] = toRgb(normalized);
+  let closest = palette[0];
+  let closestDistance = Infinity;
+  palette.forEach((entry) => {
+    const entryColor = normalizeColor(entry.color);
+    if (!entryColor) return;
+    const [er, eg, eb] = toRgb(entryColor);
+    const distance = (r - er) ** 2 + (g - eg) ** 2 + (b - eb) ** 2;
+    if (distance < closestDistance) {
+      closest = entry;
+      closestDistance = distance;
+    }
+  });
+  return closest;
+};
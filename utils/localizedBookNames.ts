@@ -0,0 +1,239 @@
+// utils/localizedBookNames.ts
+// Book names used by the Philippine-language translations, keyed by MyBible
+// book number. The first name of each book is the one shown to the user.
+
+export type BookNameLocale = "en" | "ceb" | "hil" | "tl";
+
+export const LOCALIZED_BOOK_NAMES: Record<
+  Exclude<BookNameLocale, "en">,
+  Record<number, string[]>
+> = {
+  // Cebuano
+  ceb: {
+    10: ["Genesis"],
+    20: ["Exodo"],
+    30: ["Levitico"],
+    40: ["Numeros"],
+    50: ["Deuteronomio"],
+    60: ["Josue"],
+    70: ["Mga Maghuhukom"],
+    80: ["Ruth"],
+    90: ["1 Samuel"],
+    100: ["2 Samuel"],
+    110: ["1 Mga Hari"],
+    120: ["2 Mga Hari"],
+    130: ["1 Mga Cronicas"],
+    140: ["2 Mga Cronicas"],
+    150: ["Esdras"],
+    160: ["Nehemias"],
+    190: ["Ester"],
+    220: ["Job"],
+    230: ["Mga Salmo"],
+    240: ["Mga Proverbio", "Mga Panultihon"],
+    250: ["Ecclesiastes", "Magwawali"],
+    260: ["Awit sa mga Awit", "Awit ni Solomon"],
+    290: ["Isaias"],
+    300: ["Jeremias"],
+    310: ["Mga Lamentaciones", "Mga Pagbakho"],
+    330: ["Ezequiel"],
+    340: ["Daniel"],
+    350: ["Oseas"],
+    360: ["Joel"],
+    370: ["Amos"],
+    380: ["Abdias"],
+    390: ["Jonas"],
+    400: ["Miqueas"],
+    410: ["Nahum"],
+    420: ["Habacuc"],
+    430: ["Sofonias"],
+    440: ["Hageo"],
+    450: ["Zacarias"],
+    460: ["Malaquias"],
+    470: ["Mateo"],
+    480: ["Marcos"],
+    490: ["Lucas"],
+    500: ["Juan"],
+    510: ["Mga Buhat"],
+    520: ["Mga Taga-Roma"],
+    530: ["1 Mga Taga-Corinto"],
+    540: ["2 Mga Taga-Corinto"],
+    550: ["Mga Taga-Galacia"],
+    560: ["Mga Taga-Efeso"],
+    570: ["Mga Taga-Filipos"],
+    580: ["Mga Taga-Colosas"],
+    590: ["1 Mga Taga-Tesalonica"],
+    600: ["2 Mga Taga-Tesalonica"],
+    610: ["1 Timoteo"],
+    620: ["2 Timoteo"],
+    630: ["Tito"],
+    640: ["Filemon"],
+    650: ["Mga Hebreohanon"],
+    660: ["Santiago"],
+    670: ["1 Pedro"],
+    680: ["2 Pedro"],
+    690: ["1 Juan"],
+    700: ["2 Juan"],
+    710: ["3 Juan"],
+    720: ["Judas"],
+    730: ["Pinadayag"],
+  },
+  // Hiligaynon
+  hil: {
+    10: ["Genesis"],
+    20: ["Exodo"],
+    30: ["Levitico"],
+    40: ["Numeros"],
+    50: ["Deuteronomio"],
+    60: ["Josue"],
+    70: ["Mga Hukom"],
+    80: ["Rut"],
+    90: ["1 Samuel"],
+    100: ["2 Samuel"],
+    110: ["1 Mga Hari"],
+    120: ["2 Mga Hari"],
+    130: ["1 Cronicas"],
+    140: ["2 Cronicas"],
+    150: ["Esdras"],
+    160: ["Nehemias"],
+    190: ["Ester"],
+    220: ["Job"],
+    230: ["Salmo"],
+    240: ["Hulubaton"],
+    250: ["Manugwali"],
+    260: ["Ambahanon ni Solomon", "Ambahan sang mga Ambahan"],
+    290: ["Isaias"],
+    300: ["Jeremias"],
+    310: ["Panaghoy"],
+    330: ["Ezequiel"],
+    340: ["Daniel"],
+    350: ["Oseas"],
+    360: ["Joel"],
+    370: ["Amos"],
+    380: ["Abdias"],
+    390: ["Jonas"],
+    400: ["Miqueas"],
+    410: ["Nahum"],
+    420: ["Habacuc"],
+    430: ["Sofonias"],
+    440: ["Hageo"],
+    450: ["Zacarias"],
+    460: ["Malaquias"],
+    470: ["Mateo"],
+    480: ["Marcos"],
+    490: ["Lucas"],
+    500: ["Juan"],
+    510: ["Binuhatan"],
+    520: ["Roma"],
+    530: ["1 Corinto"],
+    540: ["2 Corinto"],
+    550: ["Galacia"],
+    560: ["Efeso"],
+    570: ["Filipos"],
+    580: ["Colosas"],
+    590: ["1 Tesalonica"],
+    600: ["2 Tesalonica"],
+    610: ["1 Timoteo"],
+    620: ["2 Timoteo"],
+    630: ["Tito"],
+    640: ["Filemon"],
+    650: ["Hebreo"],
+    660: ["Santiago"],
+    670: ["1 Pedro"],
+    680: ["2 Pedro"],
+    690: ["1 Juan"],
+    700: ["2 Juan"],
+    710: ["3 Juan"],
+    720: ["Judas"],
+    730: ["Bugna"],
+  },
+  // Tagalog / Filipino
+  tl: {
+    10: ["Genesis"],
+    20: ["Exodo"],
+    30: ["Levitico"],
+    40: ["Mga Bilang"],
+    50: ["Deuteronomio"],
+    60: ["Josue"],
+    70: ["Mga Hukom"],
+    80: ["Ruth"],
+    90: ["1 Samuel"],
+    100: ["2 Samuel"],
+    110: ["1 Mga Hari"],
+    120: ["2 Mga Hari"],
+    130: ["1 Cronica", "1 Mga Cronica"],
+    140: ["2 Cronica", "2 Mga Cronica"],
+    150: ["Ezra", "Esdras"],
+    160: ["Nehemias"],
+    190: ["Ester"],
+    220: ["Job"],
+    230: ["Mga Awit"],
+    240: ["Mga Kawikaan"],
+    250: ["Mangangaral", "Eclesiastes"],
+    260: ["Awit ni Solomon", "Ang Awit ng mga Awit"],
+    290: ["Isaias"],
+    300: ["Jeremias"],
+    310: ["Mga Panaghoy"],
+    330: ["Ezekiel"],
+    340: ["Daniel"],
+    350: ["Oseas"],
+    360: ["Joel"],
+    370: ["Amos"],
+    380: ["Obadias"],
+    390: ["Jonas"],
+    400: ["Mikas"],
+    410: ["Nahum"],
+    420: ["Habakuk"],
+    430: ["Zefanias"],
+    440: ["Hagai"],
+    450: ["Zacarias"],
+    460: ["Malakias"],
+    470: ["Mateo"],
+    480: ["Marcos"],
+    490: ["Lucas"],
+    500: ["Juan"],
+    510: ["Mga Gawa"],
+    520: ["Mga Taga-Roma"],
+    530: ["1 Mga Taga-Corinto"],
+    540: ["2 Mga Taga-Corinto"],
+    550: ["Mga Taga-Galacia"],
+    560: ["Mga Taga-Efeso"],
+    570: ["Mga Taga-Filipos"],
+    580: ["Mga Taga-Colosas"],
+    590: ["1 Mga Taga-Tesalonica"],
+    600: ["2 Mga Taga-Tesalonica"],
+    610: ["1 Timoteo"],
+    620: ["2 Timoteo"],
+    630: ["Tito"],
+    640: ["Filemon"],
+    650: ["Mga Hebreo"],
+    660: ["Santiago"],
+    670: ["1 Pedro"],
+    680: ["2 Pedro"],
+    690: ["1 Juan"],
+    700: ["2 Juan"],
+    710: ["3 Juan"],
+    720: ["Judas"],
+    730: ["Pahayag"],
+  },
+};
+
+// Translations whose book names are not English
+const VERSION_LOCALES: Record<string, BookNameLocale> = {
+  "cebB.sqlite3": "ceb",
+  "hilab82.sqlite3": "hil",
+  "tagab01.sqlite3": "tl",
+  "tagmb12.sqlite3": "tl",
+  "mbb05.sqlite3": "tl",
+};
+
+export const getVersionLocale = (version?: string | null): BookNameLocale =>
+  (version && VERSION_LOCALES[version]) || "en";
+
+// Display name of a book in the given locale, or null if it has none
+export const getLocalizedBookName = (
+  bookNumber: number,
+  locale: BookNameLocale
+): string | null => {
+  if (locale === "en") return null;
+  return LOCALIZED_BOOK_NAMES[locale][bookNumber]?.[0] ?? null;
+};
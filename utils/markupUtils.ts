@@ -0,0 +1,98 @@
+// utils/markupUtils.ts
+// Parsing of MyBible verse markup (<S>, <t>, <J>, <f>, <pb/> ...)
+
+export type ParsedNode = {
+  type: "text" | "opening-tag" | "closing-tag" | "self-closing-tag";
+  content?: string;
+  tag?: string;
+  fullTag?: string;
+};
+
+export type TreeNode = {
+  type: "text" | "element" | "self-closing-tag";
+  content?: string;
+  tag?: string;
+  fullTag?: string;
+  children?: TreeNode[];
+};
+
+// Build a tree structure from parsed nodes to handle nesting
+export const buildTree = (nodes: ParsedNode[]): TreeNode[] => {
+  const root: TreeNode[] = [];
+  let current: TreeNode[] = root;
+  const stack: TreeNode[][] = [];
+
+  for (const node of nodes) {
+    if (node.type === "opening-tag") {
+      const element: TreeNode = {
+        type: "element",
+        tag: node.tag,
+        fullTag: node.fullTag,
+        children: [],
+      };
+      current.push(element);
+      stack.push(current);
+      current = element.children!;
+    } else if (node.type === "closing-tag") {
+      if (stack.length > 0) {
+        current = stack.pop()!;
+      }
+    } else if (node.type === "self-closing-tag" || node.type === "text") {
+      current.push(node as TreeNode);
+    }
+  }
+
+  return root;
+};
+
+export const parseXmlTags = (text: string): ParsedNode[] => {
+  if (!text) return [];
+
+  const nodes: ParsedNode[] = [];
+  let currentText = "";
+  let i = 0;
+
+  while (i < text.length) {
+    if (text[i] === "<") {
+      // Push any accumulated text before the tag
+      if (currentText) {
+        nodes.push({ type: "text", content: currentText });
+        currentText = "";
+      }
+
+      // Find the end of the tag
+      const tagEnd = text.indexOf(">", i);
+      if (tagEnd === -1) {
+        currentText += text.substring(i);
+        break;
+      }
+
+      const fullTag = text.substring(i, tagEnd + 1);
+
+      if (fullTag.startsWith("</")) {
+        // Closing tag
+        nodes.push({ type: "closing-tag", tag: fullTag });
+      } else if (fullTag.endsWith("/>")) {
+        // Self-closing tag
+        const tagName = fullTag.slice(1, -2).trim();
+        nodes.push({ type: "self-closing-tag", tag: tagName, fullTag });
+      } else {
+        // Opening tag
+        const tagName = fullTag.slice(1, -1).trim().split(" ")[0];
+        nodes.push({ type: "opening-tag", tag: tagName, fullTag });
+      }
+
+      i = tagEnd + 1;
+    } else {
+      currentText += text[i];
+      i++;
+    }
+  }
+
+  // Push any remaining text
+  if (currentText) {
+    nodes.push({ type: "text", content: currentText });
+  }
+
+  return nodes;
+};
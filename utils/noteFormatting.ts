@@ -0,0 +1,72 @@
+// utils/noteFormatting.ts
+import { BibleReference, Note } from "../types";
+import { getBookInfo } from "./testamentUtils";
+import { formatReference, parseReferences } from "./referenceParser";
+
+/**
+ * Notes are stored as plain text with a small markup:
+ *   **bold**          bold text
+ *   - item / * item   list item (at the start of a line)
+ *   [[John 3:16]]     link to a verse, in any supported book name form
+ */
+
+export interface NoteSegment {
+  type: "text" | "bold" | "link";
+  text: string;
+  reference?: BibleReference; // first reference of a link that parsed
+}
+
+export interface NoteLine {
+  isListItem: boolean;
+  segments: NoteSegment[];
+}
+
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|\[\[[^\]]+\]\])/;
+const LIST_ITEM_PATTERN = /^\s*[-*•]\s+/;
+
+const parseInline = (text: string): NoteSegment[] =>
+  text
+    .split(INLINE_PATTERN)
+    .filter((part) => part.length > 0)
+    .map((part): NoteSegment => {
+      if (part.startsWith("**") && part.endsWith("**")) {
+        return { type: "bold", text: part.slice(2, -2) };
+      }
+      if (part.startsWith("[[") && part.endsWith("]]")) {
+        const label = part.slice(2, -2).trim();
+        const [reference] = parseReferences(label);
+        // Unparseable links fall back to plain text
+        return reference
+          ? { type: "link", text: label, reference }
+          : { type: "text", text: label };
+      }
+      return { type: "text", text: part };
+    });
+
+export const parseNoteContent = (content: string): NoteLine[] =>
+  content.split("\n").map((line) => {
+    const isListItem = LIST_ITEM_PATTERN.test(line);
+    return {
+      isListItem,
+      segments: parseInline(
+        isListItem ? line.replace(LIST_ITEM_PATTERN, "") : line
+      ),
+    };
+  });
+
+// Plain text for previews and searching
+export const stripNoteFormatting = (content: string): string =>
+  content
+    .replace(/\*\*([^*]+)\*\*/g, "$1")
+    .replace(/\[\[([^\]]+)\]\]/g, "$1")
+    .replace(/^\s*[-*•]\s+/gm, "• ");
+
+// "John 3:16" or "John 3:16-18" for the verses a note is attached to
+export const formatNoteReference = (note: Note): string =>
+  formatReference({
+    bookNumber: note.bookNumber,
+    bookName: getBookInfo(note.bookNumber)?.long || `Book ${note.bookNumber}`,
+    chapter: note.chapter,
+    startVerse: note.verse,
+    endVerse: note.endVerse,
+  });
@@ -0,0 +1,326 @@
+// utils/readingPlans.ts
+import {
+  BibleReference,
+  ReadingPlan,
+  ReadingPlanDay,
+  ReadingPlanProgress,
+  ReadingStreak,
+} from "../types";
+import { BIBLE_BOOKS_MAP, BOOK_CHAPTER_COUNTS } from "./testamentUtils";
+import { formatReference, parseReferences } from "./referenceParser";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ==================== DATES ====================
+
+// Local calendar date as "YYYY-MM-DD"
+export const toDateKey = (date: Date = new Date()): string => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const fromDateKey = (key: string): Date => {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Whole calendar days from one date key to another
+export const daysBetween = (from: string, to: string): number =>
+  Math.round(
+    (fromDateKey(to).getTime() - fromDateKey(from).getTime()) / MS_PER_DAY
+  );
+
+export const addDays = (key: string, days: number): string => {
+  const date = fromDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+// ==================== BUILT-IN PLANS ====================
+
+const OT_BOOKS = Object.keys(BOOK_CHAPTER_COUNTS)
+  .map(Number)
+  .filter((book) => book <= 460);
+const NT_BOOKS = Object.keys(BOOK_CHAPTER_COUNTS)
+  .map(Number)
+  .filter((book) => book >= 470);
+
+// Approximate order in which the events of each book took place
+const CHRONOLOGICAL_BOOKS = [
+  10, 220, 20, 30, 40, 50, 60, 70, 80, 90, 100, 130, 230, 240, 250, 260, 110,
+  120, 140, 360, 390, 370, 350, 290, 400, 410, 430, 420, 300, 310, 380, 330,
+  340, 150, 440, 450, 190, 160, 460, 470, 480, 490, 500, 510, 660, 550, 590,
+  600, 530, 540, 520, 560, 570, 580, 640, 610, 630, 670, 650, 620, 680, 720,
+  690, 700, 710, 730,
+];
+
+const chapterReference = (
+  bookNumber: number,
+  chapter: number
+): BibleReference => ({
+  bookNumber,
+  bookName: BIBLE_BOOKS_MAP[bookNumber]?.long || `Book ${bookNumber}`,
+  chapter,
+});
+
+const chaptersOf = (books: number[]): BibleReference[] =>
+  books.flatMap((book) =>
+    Array.from({ length: BOOK_CHAPTER_COUNTS[book] || 0 }, (_, i) =>
+      chapterReference(book, i + 1)
+    )
+  );
+
+// Spread readings as evenly as possible over the given number of days
+const spreadOverDays = (
+  readings: BibleReference[],
+  dayCount: number
+): ReadingPlanDay[] =>
+  Array.from({ length: dayCount }, (_, day) => ({
+    readings: readings.slice(
+      Math.floor((day * readings.length) / dayCount),
+      Math.floor(((day + 1) * readings.length) / dayCount)
+    ),
+  }));
+
+const buildPsalmsProverbsPlan = (): ReadingPlanDay[] => {
+  const psalms = spreadOverDays(chaptersOf([230]), 31);
+  return psalms.map((day, index) => ({
+    readings: [...day.readings, chapterReference(240, index + 1)],
+  }));
+};
+
+let builtInPlans: ReadingPlan[] | null = null;
+
+export const getBuiltInPlans = (): ReadingPlan[] => {
+  if (builtInPlans) return builtInPlans;
+
+  builtInPlans = [
+    {
+      id: "bible-in-a-year",
+      name: "Bible in a Year",
+      description: "Every chapter from Genesis to Revelation in 365 days.",
+      days: spreadOverDays(chaptersOf([...OT_BOOKS, ...NT_BOOKS]), 365),
+      builtIn: true,
+    },
+    {
+      id: "chronological",
+      name: "Chronological Bible",
+      description:
+        "The whole Bible in a year, with books arranged in the approximate order their events took place.",
+      days: spreadOverDays(chaptersOf(CHRONOLOGICAL_BOOKS), 365),
+      builtIn: true,
+    },
+    {
+      id: "nt-90-days",
+      name: "New Testament in 90 Days",
+      description: "Matthew to Revelation in about three chapters a day.",
+      days: spreadOverDays(chaptersOf(NT_BOOKS), 90),
+      builtIn: true,
+    },
+    {
+      id: "psalms-proverbs-month",
+      name: "Psalms & Proverbs Monthly",
+      description:
+        "A few Psalms and one chapter of Proverbs each day for a month.",
+      days: buildPsalmsProverbsPlan(),
+      builtIn: true,
+    },
+  ];
+  return builtInPlans;
+};
+
+// ==================== IMPORT / EXPORT ====================
+
+/**
+ * Plans are shared as JSON:
+ *
+ *   {
+ *     "id": "lent-2026",
+ *     "name": "Lent 2026",
+ *     "description": "Optional",
+ *     "days": [
+ *       ["Joel 2:12-17", "Ps 51"],
+ *       { "title": "Palm Sunday", "readings": ["Matt 21:1-11"] }
+ *     ]
+ *   }
+ *
+ * Each reading is any reference the reference parser understands, so one
+ * string may expand to several chapters ("Gen 1-3").
+ */
+export interface ReadingPlanFile {
+  id?: string;
+  name: string;
+  description?: string;
+  days: (string[] | { title?: string; readings: string[] })[];
+}
+
+const slugify = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+const parsePlanReading = (reading: unknown, dayNumber: number) => {
+  if (typeof reading !== "string") {
+    throw new Error(`Day ${dayNumber}: readings must be text references`);
+  }
+
+  const references = parseReferences(reading);
+  if (references.length === 0) {
+    throw new Error(`Day ${dayNumber}: could not read "${reading}"`);
+  }
+
+  for (const reference of references) {
+    const chapterCount = BOOK_CHAPTER_COUNTS[reference.bookNumber];
+    const lastChapter = reference.endChapter ?? reference.chapter;
+    if (chapterCount && lastChapter > chapterCount) {
+      throw new Error(
+        `Day ${dayNumber}: ${reference.bookName} has only ${chapterCount} chapters`
+      );
+    }
+  }
+  return references;
+};
+
+// Parse and validate a plan file. Throws with a readable message on errors.
+export const parseReadingPlan = (json: string): ReadingPlan => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The plan is not valid JSON");
+  }
+
+  if (!data || typeof data !== "object") {
+    throw new Error("The plan must be a JSON object");
+  }
+  if (typeof data.name !== "string" || !data.name.trim()) {
+    throw new Error('The plan needs a "name"');
+  }
+  if (!Array.isArray(data.days) || data.days.length === 0) {
+    throw new Error('The plan needs a non-empty "days" list');
+  }
+
+  const days: ReadingPlanDay[] = data.days.map((day: any, index: number) => {
+    const dayNumber = index + 1;
+    const readings = Array.isArray(day) ? day : day?.readings;
+    if (!Array.isArray(readings) || readings.length === 0) {
+      throw new Error(`Day ${dayNumber} has no readings`);
+    }
+
+    return {
+      ...(typeof day?.title === "string" && day.title.trim()
+        ? { title: day.title.trim() }
+        : {}),
+      readings: readings.flatMap((reading: unknown) =>
+        parsePlanReading(reading, dayNumber)
+      ),
+    };
+  });
+
+  const name = data.name.trim();
+  const id = slugify(typeof data.id === "string" ? data.id : name);
+
+  return {
+    // Keep imported plans from replacing built-in ones
+    id: `custom-${id || Date.now()}`,
+    name,
+    ...(typeof data.description === "string" && data.description.trim()
+      ? { description: data.description.trim() }
+      : {}),
+    days,
+  };
+};
+
+export const serializeReadingPlan = (plan: ReadingPlan): string => {
+  const file: ReadingPlanFile = {
+    id: plan.id.replace(/^custom-/, ""),
+    name: plan.name,
+    description: plan.description,
+    days: plan.days.map((day) => {
+      const readings = day.readings.map(formatReference);
+      return day.title ? { title: day.title, readings } : readings;
+    }),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// ==================== SCHEDULE ====================
+
+export const isPlanDayComplete = (
+  progress: ReadingPlanProgress,
+  dayIndex: number
+): boolean => progress.completedDays[dayIndex] !== undefined;
+
+export const getCompletedDayCount = (progress: ReadingPlanProgress): number =>
+  Object.keys(progress.completedDays).length;
+
+// Index of the day scheduled for the given date (may be outside the plan)
+export const getScheduledDayIndex = (
+  progress: ReadingPlanProgress,
+  today: string = toDateKey()
+): number => daysBetween(progress.startDate, today);
+
+export const getScheduledDate = (
+  progress: ReadingPlanProgress,
+  dayIndex: number
+): string => addDays(progress.startDate, dayIndex);
+
+// First day that has not been checked off, or -1 when the plan is finished
+export const getNextDayIndex = (
+  plan: ReadingPlan,
+  progress: ReadingPlanProgress
+): number =>
+  plan.days.findIndex((_, index) => !isPlanDayComplete(progress, index));
+
+// Days scheduled before today that are still unchecked
+export const getMissedDays = (
+  plan: ReadingPlan,
+  progress: ReadingPlanProgress,
+  today: string = toDateKey()
+): number[] => {
+  const scheduled = Math.min(
+    getScheduledDayIndex(progress, today),
+    plan.days.length
+  );
+  const missed: number[] = [];
+  for (let index = 0; index < scheduled; index++) {
+    if (!isPlanDayComplete(progress, index)) missed.push(index);
+  }
+  return missed;
+};
+
+/**
+ * Catch up by moving the schedule so the first unchecked day falls on today.
+ * Days already checked off keep their completion dates.
+ */
+export const reschedulePlan = (
+  plan: ReadingPlan,
+  progress: ReadingPlanProgress,
+  today: string = toDateKey()
+): ReadingPlanProgress => {
+  const nextDay = getNextDayIndex(plan, progress);
+  if (nextDay < 0) return progress;
+  return { ...progress, startDate: addDays(today, -nextDay) };
+};
+
+// Streaks count calendar days on which at least one plan day was checked off
+export const calculateStreak = (
+  completionDates: string[],
+  today: string = toDateKey()
+): ReadingStreak => {
+  const dates = [...new Set(completionDates)].sort();
+  if (dates.length === 0) return { current: 0, longest: 0 };
+
+  let longest = 1;
+  let run = 1;
+  for (let i = 1; i < dates.length; i++) {
+    run = daysBetween(dates[i - 1], dates[i]) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  // The streak is still alive if the last reading was today or yesterday
+  const sinceLast = daysBetween(dates[dates.length - 1], today);
+  return { current: sinceLast <= 1 ? run : 0, longest };
+};
@@ -0,0 +1,257 @@
+// utils/referenceParser.ts
+import { BibleReference } from "../types";
+import { BIBLE_BOOKS_MAP } from "./testamentUtils";
+import { BOOK_ABBREVS } from "./bookAbbrevs";
+import {
+  BookNameLocale,
+  LOCALIZED_BOOK_NAMES,
+  getLocalizedBookName,
+} from "./localizedBookNames";
+
+// Books with a single chapter, where "Jude 5" means verse 5
+const SINGLE_CHAPTER_BOOKS = new Set([380, 640, 700, 710, 720]);
+
+// Longest chapter span expanded from a range such as "Ps 120-134"
+const MAX_CHAPTER_SPAN = 50;
+
+// [book] chapter[:verses] or [book] chapter-chapter. The book part must
+// contain a letter so that "4:1" in "Jn 3:16; 4:1" keeps the previous book.
+const SEGMENT_PATTERN =
+  /^((?:[1-3]\s*)?[^\d:;,]*[a-z][^\d:;,]*?)?\s*(\d+)(?:\s*[:.]\s*(\d[\d\s,:\-–—]*)|\s*[-–—]\s*(\d+))?\s*$/i;
+
+const RANGE_PATTERN = /^(\d+)(?:\s*[-–—]\s*(\d+))?$/;
+
+// "31-2:3", running on into a later chapter
+const CROSS_CHAPTER_PATTERN = /^(\d+)\s*[-–—]\s*(\d+)\s*:\s*(\d+)$/;
+
+const ROMAN_PREFIXES: Record<string, string> = { iii: "3", ii: "2", i: "1" };
+
+/**
+ * Reduce a book name to a lookup key: lowercase, roman numeral prefixes as
+ * digits, and no spaces or punctuation. The Philippine plural and demonym
+ * markers ("Mga", "Taga-") are dropped so "Roma", "Taga-Roma" and
+ * "Mga Taga-Roma" all resolve to Romans.
+ */
+export const normalizeBookName = (name: string): string =>
+  name
+    .toLowerCase()
+    .trim()
+    .replace(/^(iii|ii|i)(?=[\s.])/, (numeral) => ROMAN_PREFIXES[numeral])
+    .replace(/\b(mga|taga)\b/g, "")
+    .replace(/[^a-z0-9]/g, "");
+
+type BookIndex = { exact: Map<string, number>; keys: [string, number][] };
+
+const bookIndexes = new Map<BookNameLocale, BookIndex>();
+
+const addBookName = (index: BookIndex, name: string, bookNumber: number) => {
+  const key = normalizeBookName(name);
+  if (!key || index.exact.has(key)) return;
+  index.exact.set(key, bookNumber);
+  index.keys.push([key, bookNumber]);
+};
+
+const getBookIndex = (locale: BookNameLocale): BookIndex => {
+  const cached = bookIndexes.get(locale);
+  if (cached) return cached;
+
+  const index: BookIndex = { exact: new Map(), keys: [] };
+
+  // Localized names take precedence over English ones with the same key
+  if (locale !== "en") {
+    Object.entries(LOCALIZED_BOOK_NAMES[locale]).forEach(([number, names]) =>
+      names.forEach((name) => addBookName(index, name, Number(number)))
+    );
+  }
+
+  const englishNumbers = new Map<string, number>();
+  Object.entries(BIBLE_BOOKS_MAP).forEach(([number, info]) => {
+    englishNumbers.set(info.long, Number(number));
+    addBookName(index, info.long, Number(number));
+    addBookName(index, info.short, Number(number));
+  });
+  Object.entries(BOOK_ABBREVS).forEach(([longName, abbrevs]) => {
+    const bookNumber = englishNumbers.get(longName);
+    if (bookNumber === undefined) return;
+    abbrevs.forEach((abbrev) => addBookName(index, abbrev, bookNumber));
+  });
+
+  bookIndexes.set(locale, index);
+  return index;
+};
+
+/**
+ * Resolve a book name or abbreviation to its MyBible book number. Exact
+ * names win; otherwise the name must be an unambiguous prefix ("Deut",
+ * "Pinad") of a single book.
+ */
+export const findBookNumber = (
+  name: string,
+  locale: BookNameLocale = "en"
+): number | null => {
+  const key = normalizeBookName(name);
+  if (!/[a-z]/.test(key)) return null;
+
+  const index = getBookIndex(locale);
+  const exact = index.exact.get(key);
+  if (exact !== undefined) return exact;
+
+  if (key.replace(/^\d/, "").length < 2) return null;
+
+  const candidates = new Set<number>();
+  for (const [bookKey, bookNumber] of index.keys) {
+    if (bookKey.startsWith(key)) candidates.add(bookNumber);
+    if (candidates.size > 1) return null;
+  }
+
+  return candidates.size === 1 ? [...candidates][0] : null;
+};
+
+const getBookName = (bookNumber: number, locale: BookNameLocale): string =>
+  getLocalizedBookName(bookNumber, locale) ||
+  BIBLE_BOOKS_MAP[bookNumber]?.long ||
+  `Book ${bookNumber}`;
+
+// "4-7", "13", "5:1-3" or "31-2:3" after the first chapter of a segment
+const parseVerseParts = (
+  verses: string,
+  chapter: number,
+  makeReference: (
+    chapter: number,
+    startVerse?: number,
+    endVerse?: number,
+    endChapter?: number
+  ) => BibleReference
+): BibleReference[] | null => {
+  const references: BibleReference[] = [];
+  let currentChapter = chapter;
+
+  for (const rawPart of verses.split(",")) {
+    let part = rawPart.trim();
+    if (!part) continue;
+
+    const chapterMatch = part.match(/^(\d+)\s*:\s*(.+)$/);
+    if (chapterMatch) {
+      currentChapter = parseInt(chapterMatch[1], 10);
+      part = chapterMatch[2];
+    }
+
+    const crossChapter = part.match(CROSS_CHAPTER_PATTERN);
+    if (crossChapter) {
+      const start = parseInt(crossChapter[1], 10);
+      const endChapter = parseInt(crossChapter[2], 10);
+      const end = parseInt(crossChapter[3], 10);
+      if (start < 1 || end < 1 || endChapter < currentChapter) return null;
+
+      if (endChapter === currentChapter) {
+        if (end < start) return null;
+        references.push(makeReference(currentChapter, start, end));
+      } else {
+        references.push(makeReference(currentChapter, start, end, endChapter));
+      }
+      // Verses listed after "1:31-2:3" are in the chapter the range ends in
+      currentChapter = endChapter;
+      continue;
+    }
+
+    const range = part.match(RANGE_PATTERN);
+    if (!range) return null;
+
+    const start = parseInt(range[1], 10);
+    const end = range[2] ? parseInt(range[2], 10) : start;
+    if (start < 1 || end < start) return null;
+
+    references.push(makeReference(currentChapter, start, end));
+  }
+
+  return references.length > 0 ? references : null;
+};
+
+/**
+ * Parse references such as "1 Cor 13:4-7, 13", "Jn 3:16; Rom 8", "Ps 23" or
+ * "Gen 1:1-2:3". Segments separated by ";" may omit the book to continue the
+ * previous one. A chapter without verses refers to the whole chapter.
+ *
+ * Returns an empty array unless the whole input is made of references, so
+ * a plain search like "love" or a lone book name is never mistaken for one.
+ */
+export const parseReferences = (
+  input: string,
+  locale: BookNameLocale = "en"
+): BibleReference[] => {
+  const segments = input.split(";").map((segment) => segment.trim());
+  if (segments.every((segment) => !segment)) return [];
+
+  const references: BibleReference[] = [];
+  let bookNumber: number | null = null;
+
+  for (const segment of segments) {
+    if (!segment) continue;
+
+    const match = segment.match(SEGMENT_PATTERN);
+    if (!match) return [];
+
+    const [, bookPart, chapterPart, versePart, chapterEndPart] = match;
+    if (bookPart) {
+      bookNumber = findBookNumber(bookPart, locale);
+    }
+    if (bookNumber === null) return [];
+
+    const currentBook = bookNumber;
+    const bookName = getBookName(currentBook, locale);
+    const makeReference = (
+      chapter: number,
+      startVerse?: number,
+      endVerse?: number,
+      endChapter?: number
+    ): BibleReference => ({
+      bookNumber: currentBook,
+      bookName,
+      chapter,
+      ...(startVerse !== undefined && { startVerse, endVerse }),
+      ...(endChapter !== undefined && { endChapter }),
+    });
+
+    const chapter = parseInt(chapterPart, 10);
+    if (chapter < 1) return [];
+
+    if (versePart) {
+      const parsed = parseVerseParts(versePart, chapter, makeReference);
+      if (!parsed) return [];
+      references.push(...parsed);
+    } else if (chapterEndPart) {
+      const chapterEnd = parseInt(chapterEndPart, 10);
+      if (SINGLE_CHAPTER_BOOKS.has(currentBook)) {
+        references.push(makeReference(1, chapter, chapterEnd));
+        continue;
+      }
+      if (chapterEnd < chapter || chapterEnd - chapter >= MAX_CHAPTER_SPAN) {
+        return [];
+      }
+      for (let c = chapter; c <= chapterEnd; c++) {
+        references.push(makeReference(c));
+      }
+    } else if (SINGLE_CHAPTER_BOOKS.has(currentBook) && chapter > 1) {
+      references.push(makeReference(1, chapter, chapter));
+    } else {
+      references.push(makeReference(chapter));
+    }
+  }
+
+  return references;
+};
+
+// "John 3:16", "1 Corinthians 13:4-7", "Genesis 1:1-2:3" or "Psalms 23"
+export const formatReference = (reference: BibleReference): string => {
+  const { bookName, chapter, startVerse, endVerse, endChapter } = reference;
+  if (startVerse === undefined) return `${bookName} ${chapter}`;
+  if (endChapter !== undefined && endChapter !== chapter) {
+    return `${bookName} ${chapter}:${startVerse}-${endChapter}:${endVerse}`;
+  }
+
+  const verses =
+    endVerse !== undefined && endVerse !== startVerse
+      ? `${startVerse}-${endVerse}`
+      : `${startVerse}`;
+  return `${bookName} ${chapter}:${verses}`;
+};
@@ -0,0 +1,309 @@
+// utils/searchUtils.ts
+import {
+  CrossVersionSearchResult,
+  SearchMatchMode,
+  SearchMatchOffset,
+  SearchOptions,
+  SearchResult,
+} from "../types";
+
+// Control characters used to mark matches in FTS5 highlight() output.
+// They never occur in verse text, so offsets can be recovered exactly.
+export const MATCH_START_MARKER = "\u0001";
+export const MATCH_END_MARKER = "\u0002";
+
+const BOOLEAN_OPERATORS = ["AND", "OR", "NOT"];
+
+type QueryToken =
+  | { type: "term"; text: string; isPhrase: boolean; isPrefix: boolean }
+  | { type: "operator"; value: string };
+
+export interface ParsedSearchTerms {
+  required: string[]; // words/phrases that must (or, when matchAny, may) appear
+  excluded: string[]; // words/phrases following NOT
+  matchAny: boolean;
+}
+
+// Remove MyBible markup from verse text so it can be indexed as plain words.
+// Strong's numbers (<S>) and footnote markers (<f>) are dropped together with
+// their content; other tags such as <t>, <J> or <pb/> only lose the tag itself.
+export const stripVerseMarkup = (text: string): string => {
+  if (!text) return "";
+
+  return text
+    .replace(/<S>[^<]*<\/S>/g, "")
+    .replace(/<f>[\s\S]*?<\/f>/g, "")
+    .replace(/<m>[^<]*<\/m>/g, "")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+};
+
+// Replace punctuation with spaces so user input can never break the MATCH
+// syntax and words compare the same way the unicode61 tokenizer sees them
+const cleanSearchTerm = (raw: string): string =>
+  raw
+    .replace(/["'.,;:!?()[\]{}*^+\-%_]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const tokenizeQuery = (query: string): QueryToken[] => {
+  const tokens: QueryToken[] = [];
+  const pattern = /"([^"]*)"?|[^\s()"]+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    const [whole, phrase] = match;
+
+    if (phrase !== undefined) {
+      const text = cleanSearchTerm(phrase);
+      if (text)
+        tokens.push({ type: "term", text, isPhrase: true, isPrefix: false });
+    } else if (BOOLEAN_OPERATORS.includes(whole)) {
+      tokens.push({ type: "operator", value: whole });
+    } else {
+      const text = cleanSearchTerm(whole);
+      if (text) {
+        tokens.push({
+          type: "term",
+          text,
+          isPhrase: text.includes(" "),
+          isPrefix: whole.endsWith("*"),
+        });
+      }
+    }
+  }
+
+  return tokens;
+};
+
+// Walk the tokens, dropping operators that lack an operand on either side.
+// Queries starting with NOT are rejected beforehand by getSearchQueryError.
+const resolveOperators = (
+  tokens: QueryToken[],
+  defaultOperator: string
+): {
+  operator: string | null;
+  term: Extract<QueryToken, { type: "term" }>;
+}[] => {
+  const resolved: {
+    operator: string | null;
+    term: Extract<QueryToken, { type: "term" }>;
+  }[] = [];
+  let pendingOperator: string | null = null;
+
+  for (const token of tokens) {
+    if (token.type === "operator") {
+      if (resolved.length > 0) pendingOperator = token.value;
+      continue;
+    }
+
+    resolved.push({
+      operator:
+        resolved.length > 0 ? (pendingOperator ?? defaultOperator) : null,
+      term: token,
+    });
+    pendingOperator = null;
+  }
+
+  return resolved;
+};
+
+/**
+ * Why a query can't be searched, or null when it can. FTS5 can only exclude
+ * words from other matches, so NOT needs a term before it; dropping it would
+ * search for the very word the user wanted left out.
+ */
+export const getSearchQueryError = (
+  query: string,
+  mode: SearchMatchMode = "all"
+): string | null => {
+  if (mode === "exact") return null;
+
+  const [first] = tokenizeQuery(query.trim());
+  if (first?.type === "operator" && first.value === "NOT") {
+    return 'NOT leaves out verses from other matches, so put a word before it, as in "love NOT hate"';
+  }
+  return null;
+};
+
+export const getSearchMatchMode = (options?: SearchOptions): SearchMatchMode =>
+  options?.matchMode ?? (options?.exactMatch ? "exact" : "all");
+
+/**
+ * Translate a user search string into an FTS5 MATCH expression.
+ *
+ * Supports "quoted phrases", prefix terms (lov*) and the boolean operators
+ * AND / OR / NOT (upper case). Adjacent terms are joined with AND, or OR in
+ * "any" mode; "exact" mode treats the whole input as one phrase. Words
+ * match whole, or with prefixTerms also as the start of longer words
+ * (love -> loved); buildTermRegExp follows the same rule.
+ * Returns null when the input contains nothing searchable.
+ */
+export const buildFtsQuery = (
+  query: string,
+  mode: SearchMatchMode = "all",
+  prefixTerms = false
+): string | null => {
+  if (mode === "exact") {
+    const phrase = cleanSearchTerm(query);
+    return phrase ? `"${phrase}"` : null;
+  }
+
+  const parts = resolveOperators(
+    tokenizeQuery(query.trim()),
+    mode === "any" ? "OR" : "AND"
+  ).flatMap(({ operator, term }) => {
+    const usePrefix = term.isPrefix || (prefixTerms && !term.isPhrase);
+    const quoted = `"${term.text}"${usePrefix ? "*" : ""}`;
+    return operator ? [operator, quoted] : [quoted];
+  });
+
+  return parts.length > 0 ? parts.join(" ") : null;
+};
+
+// Same interpretation as buildFtsQuery, as plain term lists for filters
+// that can't use MATCH (case-sensitive checks, the LIKE fallback)
+export const parseSearchTerms = (
+  query: string,
+  mode: SearchMatchMode = "all"
+): ParsedSearchTerms => {
+  if (mode === "exact") {
+    const phrase = cleanSearchTerm(query);
+    return { required: phrase ? [phrase] : [], excluded: [], matchAny: false };
+  }
+
+  const parsed: ParsedSearchTerms = {
+    required: [],
+    excluded: [],
+    matchAny: mode === "any",
+  };
+
+  for (const { operator, term } of resolveOperators(
+    tokenizeQuery(query.trim()),
+    mode === "any" ? "OR" : "AND"
+  )) {
+    if (operator === "NOT") {
+      parsed.excluded.push(term.text);
+    } else {
+      parsed.required.push(term.text);
+      if (operator === "OR") parsed.matchAny = true;
+    }
+  }
+
+  return parsed;
+};
+
+// Escape GLOB wildcards so a term can be used in a case-sensitive GLOB match
+export const escapeGlob = (text: string): string =>
+  text.replace(/[*?[]/g, (char) => `[${char}]`);
+
+// Letters of any script, digits and underscores make up a word
+const WORD_START = "(?<![\\p{L}\\p{N}_])";
+const WORD_END = "(?![\\p{L}\\p{N}_])";
+
+// Matches a term the way the FTS index does: as a whole word, or with
+// wholeWords false as the start of a longer word too (love -> loved)
+export const buildTermRegExp = (
+  term: string,
+  options?: Pick<SearchOptions, "caseSensitive" | "wholeWords">
+): RegExp => {
+  const escaped = term
+    .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/ /g, "[^\\p{L}\\p{N}_]+");
+  const source =
+    options?.wholeWords === false
+      ? `${WORD_START}${escaped}`
+      : `${WORD_START}${escaped}${WORD_END}`;
+  return new RegExp(source, options?.caseSensitive ? "gu" : "giu");
+};
+
+// Find all occurrences of the given terms in plain verse text
+export const findMatchOffsets = (
+  plainText: string,
+  patterns: RegExp[]
+): SearchMatchOffset[] => {
+  const matches: SearchMatchOffset[] = [];
+
+  for (const pattern of patterns) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(plainText)) !== null) {
+      if (match[0].length === 0) {
+        pattern.lastIndex++;
+        continue;
+      }
+      matches.push({ start: match.index, length: match[0].length });
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+};
+
+// Convert highlight() output into plain text plus match positions
+export const extractMatchOffsets = (
+  markedText: string
+): { plainText: string; matches: SearchMatchOffset[] } => {
+  const matches: SearchMatchOffset[] = [];
+  let plainText = "";
+  let matchStart = -1;
+
+  for (const char of markedText) {
+    if (char === MATCH_START_MARKER) {
+      matchStart = plainText.length;
+    } else if (char === MATCH_END_MARKER) {
+      if (matchStart >= 0 && plainText.length > matchStart) {
+        matches.push({
+          start: matchStart,
+          length: plainText.length - matchStart,
+        });
+      }
+      matchStart = -1;
+    } else {
+      plainText += char;
+    }
+  }
+
+  return { plainText, matches };
+};
+
+// Merge per-version search results into one entry per verse reference,
+// ordered canonically (book, chapter, verse)
+export const mergeResultsByReference = (
+  byVersion: Record<string, SearchResult[]>,
+  versionOrder: string[]
+): CrossVersionSearchResult[] => {
+  const merged = new Map<string, CrossVersionSearchResult>();
+
+  for (const version of versionOrder) {
+    for (const result of byVersion[version] ?? []) {
+      const key = `${result.book_number}:${result.chapter}:${result.verse}`;
+      let entry = merged.get(key);
+
+      if (!entry) {
+        entry = {
+          book_number: result.book_number,
+          chapter: result.chapter,
+          verse: result.verse,
+          book_name: result.book_name,
+          book_color: result.book_color,
+          versions: [],
+          matches: {},
+        };
+        merged.set(key, entry);
+      }
+
+      entry.book_name ??= result.book_name;
+      entry.book_color ??= result.book_color;
+      entry.versions.push(version);
+      entry.matches[version] = result;
+    }
+  }
+
+  return Array.from(merged.values()).sort(
+    (a, b) =>
+      a.book_number - b.book_number ||
+      a.chapter - b.chapter ||
+      a.verse - b.verse
+  );
+};
@@ -0,0 +1,84 @@
+// utils/strongsUtils.ts
+import { buildTree, parseXmlTags, type TreeNode } from "./markupUtils";
+
+export type StrongsPrefix = "H" | "G";
+
+export interface StrongsOccurrenceTag {
+  digits: string; // number as stored in the <S> tag, without H/G prefix
+  word: string; // English text the tag is attached to
+}
+
+// Hebrew numbers are tagged in the Old Testament, Greek in the New
+export const STRONGS_BOOK_RANGES: Record<
+  StrongsPrefix,
+  { start: number; end: number }
+> = {
+  H: { start: 10, end: 460 },
+  G: { start: 470, end: 730 },
+};
+
+// Parse user input such as "G26", "h0430" or "H 7225"
+export const parseStrongsNumber = (
+  input: string
+): { prefix: StrongsPrefix; digits: string; full: string } | null => {
+  const match = input.trim().match(/^([HG])\s*0*(\d{1,5})$/i);
+  if (!match) return null;
+
+  const prefix = match[1].toUpperCase() as StrongsPrefix;
+  const digits = match[2];
+  return { prefix, digits, full: `${prefix}${digits}` };
+};
+
+export const isStrongsQuery = (input: string): boolean =>
+  parseStrongsNumber(input) !== null;
+
+// Tidy the text collected before a tag into a readable word or phrase
+const cleanAttachedWord = (text: string): string =>
+  text
+    .replace(/\s+/g, " ")
+    .replace(/^[^A-Za-z0-9']+|[^A-Za-z0-9']+$/g, "")
+    .trim();
+
+/**
+ * List the Strong's tags in a verse together with the English text each one
+ * follows. In MyBible markup the number comes right after the word(s) it
+ * translates ("God<S>430</S>"); consecutive tags share the same words.
+ * Footnotes (<f>) and morphology (<m>) are skipped.
+ */
+export const extractStrongsOccurrences = (
+  text: string
+): StrongsOccurrenceTag[] => {
+  if (!text) return [];
+
+  const occurrences: StrongsOccurrenceTag[] = [];
+  let pending = "";
+  let lastWord = "";
+
+  const visit = (nodes: TreeNode[]) => {
+    for (const node of nodes) {
+      if (node.type === "text") {
+        pending += node.content || "";
+      } else if (node.type === "self-closing-tag") {
+        pending += " ";
+      } else if (node.tag === "S") {
+        const digits = (node.children || [])
+          .map((child) => (child.type === "text" ? child.content || "" : ""))
+          .join("")
+          .trim()
+          .replace(/^[HG]/i, "");
+        const word = cleanAttachedWord(pending) || lastWord;
+
+        if (/^\d+$/.test(digits)) {
+          occurrences.push({ digits: digits.replace(/^0+(?=\d)/, ""), word });
+        }
+        lastWord = word;
+        pending = "";
+      } else if (node.tag !== "f" && node.tag !== "m") {
+        visit(node.children || []);
+      }
+    }
+  };
+
+  visit(buildTree(parseXmlTags(text)));
+  return occurrences;
+};
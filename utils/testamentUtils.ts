@@ -1,9 +1,38 @@
 // utils/testamentUtils.ts
+import { Testament } from "../types";
+
+// Deuterocanonical books in MyBible numbering. Most sit among the Old
+// Testament numbers (Tobit is 170, between Nehemiah and Esther), so they
+// must be checked before the testament ranges.
+export const APOCRYPHA_BOOK_NUMBERS = [
+  165, 170, 180, 192, 270, 280, 315, 320, 323, 325, 345, 462, 464, 466, 467,
+  468, 790,
+];
+
+export const isApocryphaBook = (bookNumber: number): boolean =>
+  APOCRYPHA_BOOK_NUMBERS.includes(bookNumber);
+
+export const TESTAMENT_NAMES: Record<Testament, string> = {
+  OT: "Old Testament",
+  AP: "Apocrypha",
+  NT: "New Testament",
+};
+
+// Fallback colors for books without one: base color and Tailwind palette
+export const TESTAMENT_COLORS: Record<
+  Testament,
+  { color: string; scheme: string }
+> = {
+  OT: { color: "#DC2626", scheme: "red" },
+  AP: { color: "#D97706", scheme: "amber" },
+  NT: { color: "#059669", scheme: "green" },
+};
 
 export const getTestament = (
   bookNumber: number,
   bookName: string
-): "OT" | "NT" => {
+): Testament => {
+  if (isApocryphaBook(bookNumber)) return "AP";
   // Books 10-460 are OT, 470-730 are NT
   if (bookNumber >= 10 && bookNumber <= 460) return "OT";
   if (bookNumber >= 470 && bookNumber <= 730) return "NT";
@@ -33,23 +62,31 @@ export const getBookByNumber = (bookNumber: number) => {
 
 // Utility to verify book distribution
 export const verifyBookDistribution = (books: any[]) => {
+  const apocryphaBooks = books.filter((book) =>
+    isApocryphaBook(book.book_number)
+  );
   const otBooks = books.filter(
-    (book) => book.book_number >= 10 && book.book_number <= 460
+    (book) =>
+      !isApocryphaBook(book.book_number) &&
+      book.book_number >= 10 &&
+      book.book_number <= 460
   );
   const ntBooks = books.filter(
     (book) => book.book_number >= 470 && book.book_number <= 730
   );
   const otherBooks = books.filter(
     (book) =>
-      book.book_number < 10 ||
-      (book.book_number > 460 && book.book_number < 470) ||
-      book.book_number > 730
+      !isApocryphaBook(book.book_number) &&
+      (book.book_number < 10 ||
+        (book.book_number > 460 && book.book_number < 470) ||
+        book.book_number > 730)
   );
 
   console.log(
-    `Book Distribution: OT=${otBooks.length}, NT=${ntBooks.length}, Other=${otherBooks.length}, Total=${books.length}`
+    `Book Distribution: OT=${otBooks.length}, NT=${ntBooks.length}, Apocrypha=${apocryphaBooks.length}, Other=${otherBooks.length}, Total=${books.length}`
   );
-  console.log("Expected: OT=39, NT=27, Total=66");
+  // Translations may add any number of deuterocanonical books
+  console.log("Expected: OT=39, NT=27, plus any Apocrypha");
 
   if (otherBooks.length > 0) {
     console.warn(
@@ -138,9 +175,124 @@ export const BIBLE_BOOKS_MAP: {
   710: { short: "3Jo", long: "3 John", standardNumber: 64 },
   720: { short: "Jud", long: "Jude", standardNumber: 65 },
   730: { short: "Rev", long: "Revelation", standardNumber: 66 },
+
+  // Apocrypha, numbered after Revelation in the order of the KJV Apocrypha
+  165: { short: "1Es", long: "1 Esdras", standardNumber: 67 },
+  468: { short: "2Es", long: "2 Esdras", standardNumber: 68 },
+  170: { short: "Tob", long: "Tobit", standardNumber: 69 },
+  180: { short: "Jdt", long: "Judith", standardNumber: 70 },
+  192: { short: "AEs", long: "Additions to Esther", standardNumber: 71 },
+  270: { short: "Wis", long: "Wisdom of Solomon", standardNumber: 72 },
+  280: { short: "Sir", long: "Sirach", standardNumber: 73 },
+  320: { short: "Bar", long: "Baruch", standardNumber: 74 },
+  315: { short: "EpJ", long: "Letter of Jeremiah", standardNumber: 75 },
+  323: {
+    short: "S3Y",
+    long: "Song of the Three Young Men",
+    standardNumber: 76,
+  },
+  325: { short: "Sus", long: "Susanna", standardNumber: 77 },
+  345: { short: "Bel", long: "Bel and the Dragon", standardNumber: 78 },
+  790: { short: "Man", long: "Prayer of Manasseh", standardNumber: 79 },
+  462: { short: "1Ma", long: "1 Maccabees", standardNumber: 80 },
+  464: { short: "2Ma", long: "2 Maccabees", standardNumber: 81 },
+  466: { short: "3Ma", long: "3 Maccabees", standardNumber: 82 },
+  467: { short: "4Ma", long: "4 Maccabees", standardNumber: 83 },
 };
 
 // Enhanced getBookByNumber that returns proper book info
 export const getBookInfo = (bookNumber: number) => {
   return BIBLE_BOOKS_MAP[bookNumber] || null;
 };
+
+// Chapters per book (Protestant canon), keyed by MyBible book number. The
+// Apocrypha is left out, so reading plans keep to the 66 books.
+export const BOOK_CHAPTER_COUNTS: Record<number, number> = {
+  10: 50,
+  20: 40,
+  30: 27,
+  40: 36,
+  50: 34,
+  60: 24,
+  70: 21,
+  80: 4,
+  90: 31,
+  100: 24,
+  110: 22,
+  120: 25,
+  130: 29,
+  140: 36,
+  150: 10,
+  160: 13,
+  190: 10,
+  220: 42,
+  230: 150,
+  240: 31,
+  250: 12,
+  260: 8,
+  290: 66,
+  300: 52,
+  310: 5,
+  330: 48,
+  340: 12,
+  350: 14,
+  360: 3,
+  370: 9,
+  380: 1,
+  390: 4,
+  400: 7,
+  410: 3,
+  420: 3,
+  430: 3,
+  440: 2,
+  450: 14,
+  460: 4,
+  470: 28,
+  480: 16,
+  490: 24,
+  500: 21,
+  510: 28,
+  520: 16,
+  530: 16,
+  540: 13,
+  550: 6,
+  560: 6,
+  570: 4,
+  580: 4,
+  590: 5,
+  600: 3,
+  610: 6,
+  620: 4,
+  630: 3,
+  640: 1,
+  650: 13,
+  660: 5,
+  670: 5,
+  680: 3,
+  690: 5,
+  700: 1,
+  710: 1,
+  720: 1,
+  730: 22,
+};
+
+// Chapters per deuterocanonical book, for reading progress. Additions to
+// Esther is left out as translations divide it differently.
+export const APOCRYPHA_CHAPTER_COUNTS: Record<number, number> = {
+  165: 9,
+  170: 14,
+  180: 16,
+  270: 19,
+  280: 51,
+  315: 1,
+  320: 5,
+  323: 1,
+  325: 1,
+  345: 1,
+  462: 16,
+  464: 15,
+  466: 7,
+  467: 18,
+  468: 16,
+  790: 1,
+};
@@ -0,0 +1,124 @@
+// utils/verseCard.ts
+// Options for verse image cards: backgrounds, fonts, alignment and sizes.
+import { ImageSourcePropType, Platform } from "react-native";
+import { ColorScheme, gradientMap } from "../context/ThemeContext";
+import { Fonts } from "./fonts";
+
+export type VerseCardBackground =
+  | { kind: "solid"; id: string; color: string }
+  | { kind: "gradient"; id: string; colors: [string, string] }
+  | { kind: "photo"; id: string; source: ImageSourcePropType };
+
+export type VerseCardAlignment = "left" | "center" | "right";
+
+export interface VerseCardFont {
+  id: string;
+  label: string;
+  fontFamily?: string; // undefined uses the system font
+}
+
+export interface VerseCardStyle {
+  background: VerseCardBackground;
+  fontId: string;
+  alignment: VerseCardAlignment;
+  textSize: number;
+}
+
+const SOLID_BACKGROUNDS: VerseCardBackground[] = [
+  { kind: "solid", id: "solid-night", color: "#111827" },
+  { kind: "solid", id: "solid-paper", color: "#FDF6E3" },
+  { kind: "solid", id: "solid-white", color: "#FFFFFF" },
+  { kind: "solid", id: "solid-navy", color: "#1E3A5F" },
+];
+
+// The gradient one of the app's color schemes uses
+export const getSchemeGradientBackground = (
+  scheme: ColorScheme,
+  theme: "light" | "dark"
+): VerseCardBackground => ({
+  kind: "gradient",
+  id: `gradient-${scheme}-${theme}`,
+  colors: gradientMap[scheme][theme],
+});
+
+const GRADIENT_BACKGROUNDS: VerseCardBackground[] = (
+  Object.keys(gradientMap) as ColorScheme[]
+).flatMap((scheme) =>
+  (["light", "dark"] as const).map((theme) =>
+    getSchemeGradientBackground(scheme, theme)
+  )
+);
+
+// Bundled photos, darkened behind the text when drawn
+const PHOTO_BACKGROUNDS: VerseCardBackground[] = [
+  {
+    kind: "photo",
+    id: "photo-mountains",
+    source: require("../assets/verse-card-mountains.jpg"),
+  },
+  {
+    kind: "photo",
+    id: "photo-palm",
+    source: require("../assets/verse-card-palm.jpg"),
+  },
+  {
+    kind: "photo",
+    id: "photo-leaves",
+    source: require("../assets/verse-card-leaves.jpg"),
+  },
+];
+
+export const VERSE_CARD_BACKGROUNDS: VerseCardBackground[] = [
+  ...SOLID_BACKGROUNDS,
+  ...GRADIENT_BACKGROUNDS,
+  ...PHOTO_BACKGROUNDS,
+];
+
+export const VERSE_CARD_FONTS: VerseCardFont[] = [
+  { id: "system", label: "System" },
+  {
+    id: "serif",
+    label: "Serif",
+    fontFamily: Platform.OS === "ios" ? "Georgia" : "serif",
+  },
+  { id: "oswald", label: "Oswald", fontFamily: Fonts.OswaldVariable },
+  { id: "rubik", label: "Rubik Glitch", fontFamily: Fonts.RubikGlitchRegular },
+];
+
+export const VERSE_CARD_TEXT_SIZES = [18, 22, 26, 32];
+
+export const DEFAULT_VERSE_CARD_STYLE: VerseCardStyle = {
+  background: GRADIENT_BACKGROUNDS[0],
+  fontId: "serif",
+  alignment: "center",
+  textSize: 22,
+};
+
+export const getVerseCardFont = (id: string): VerseCardFont =>
+  VERSE_CARD_FONTS.find((font) => font.id === id) ?? VERSE_CARD_FONTS[0];
+
+// Perceived brightness decides between light and dark text
+const isLightColor = (hex: string): boolean => {
+  const value = parseInt(hex.replace("#", "").slice(0, 6), 16);
+  const r = (value >> 16) & 0xff;
+  const g = (value >> 8) & 0xff;
+  const b = value & 0xff;
+  return (r * 299 + g * 587 + b * 114) / 1000 > 150;
+};
+
+export const getVerseCardTextColor = (
+  background: VerseCardBackground
+): string => {
+  switch (background.kind) {
+    case "solid":
+      return isLightColor(background.color) ? "#1F2937" : "#FFFFFF";
+    case "gradient":
+      return isLightColor(background.colors[0]) &&
+        isLightColor(background.colors[1])
+        ? "#1F2937"
+        : "#FFFFFF";
+    case "photo":
+    default:
+      return "#FFFFFF";
+  }
+};
@@ -0,0 +1,437 @@
+// utils/versification.ts
+// Translations number some verses differently: Hebrew Bibles count psalm
+// titles as verses and end Malachi at chapter 3, the Vulgate numbers the
+// psalms after the Greek and puts Susanna and Bel inside Daniel, and modern
+// English versions split 3 John 14 in two. References are stored in KJV
+// numbering; every scheme maps to and from it with the rules below. Which
+// scheme a module follows is read from its own verses when it opens.
+import { Verse } from "../types";
+
+export type VersificationScheme = "kjv" | "english" | "hebrew" | "vulgate";
+
+export interface VerseReference {
+  book: number; // MyBible book number
+  chapter: number;
+  verse: number; // 0 is a psalm title, which KJV leaves unnumbered
+}
+
+// Scheme verses startVerse..endVerse line up with KJV verses from kjvVerse
+// on. A merge maps every verse of the range onto kjvVerse itself; a one-way
+// merge only applies from the scheme to KJV, as when a scheme splits a
+// verse KJV keeps whole.
+interface VerseRangeRule {
+  book: number;
+  chapter: number;
+  startVerse: number;
+  endVerse: number;
+  kjvBook: number;
+  kjvChapter: number;
+  kjvVerse: number;
+  merge?: "two-way" | "one-way";
+}
+
+// Stands for "to the end of the chapter"
+const CHAPTER_END = 999;
+
+const GENESIS = 10;
+const EXODUS = 20;
+const LEVITICUS = 30;
+const NUMBERS = 40;
+const DEUTERONOMY = 50;
+const SAMUEL_1 = 90;
+const SAMUEL_2 = 100;
+const KINGS_1 = 110;
+const KINGS_2 = 120;
+const CHRONICLES_1 = 130;
+const CHRONICLES_2 = 140;
+const NEHEMIAH = 160;
+const JOB = 220;
+const PSALMS = 230;
+const ECCLESIASTES = 250;
+const SONG = 260;
+const EZEKIEL = 330;
+const DANIEL = 340;
+const HOSEA = 350;
+const JOEL = 360;
+const JONAH = 390;
+const MICAH = 400;
+const NAHUM = 410;
+const ZECHARIAH = 450;
+const MALACHI = 460;
+const JOHN_3 = 710;
+// Greek additions to Daniel, separate books in KJV-style apocrypha
+const SONG_OF_THREE = 323;
+const SUSANNA = 325;
+const BEL = 345;
+
+const shift = (
+  book: number,
+  chapter: number,
+  startVerse: number,
+  endVerse: number,
+  kjvChapter: number,
+  kjvVerse: number,
+  kjvBook = book
+): VerseRangeRule => ({
+  book,
+  chapter,
+  startVerse,
+  endVerse,
+  kjvBook,
+  kjvChapter,
+  kjvVerse,
+});
+
+// Psalms whose Hebrew title is numbered as verse 1, or verses 1-2
+const ONE_VERSE_TITLE_PSALMS = [
+  3, 4, 5, 6, 7, 8, 9, 12, 13, 18, 19, 20, 21, 22, 30, 31, 34, 36, 38, 39, 40,
+  41, 42, 44, 45, 46, 47, 48, 49, 53, 55, 56, 57, 58, 59, 61, 62, 63, 64, 65,
+  67, 68, 69, 70, 75, 76, 77, 80, 81, 83, 84, 85, 88, 89, 92, 102, 108, 140,
+  142,
+];
+const TWO_VERSE_TITLE_PSALMS = [51, 52, 54, 60];
+
+const getTitleLength = (hebrewPsalm: number): number =>
+  TWO_VERSE_TITLE_PSALMS.includes(hebrewPsalm)
+    ? 2
+    : ONE_VERSE_TITLE_PSALMS.includes(hebrewPsalm)
+      ? 1
+      : 0;
+
+// Rules for scheme psalm verses that follow Hebrew psalm hebrewPsalm from
+// hebrewVerse on, with the title verses counted
+const psalmRules = (
+  chapter: number,
+  startVerse: number,
+  endVerse: number,
+  hebrewPsalm: number,
+  hebrewVerse: number
+): VerseRangeRule[] => {
+  const titleLength = hebrewVerse === 1 ? getTitleLength(hebrewPsalm) : 0;
+  const rules: VerseRangeRule[] = [];
+  if (titleLength > 0) {
+    rules.push({
+      ...shift(
+        PSALMS,
+        chapter,
+        startVerse,
+        startVerse + titleLength - 1,
+        hebrewPsalm,
+        0
+      ),
+      merge: "two-way",
+    });
+  }
+  if (chapter !== hebrewPsalm || titleLength > 0 || hebrewVerse !== 1) {
+    rules.push(
+      shift(
+        PSALMS,
+        chapter,
+        startVerse + titleLength,
+        endVerse,
+        hebrewPsalm,
+        hebrewVerse - getTitleLength(hebrewPsalm) + titleLength
+      )
+    );
+  }
+  return rules;
+};
+
+const range = (from: number, to: number): number[] =>
+  Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+// 3 John 14b, "Peace be to thee...", is verse 15 in newer editions
+const THIRD_JOHN_RULE: VerseRangeRule = {
+  ...shift(JOHN_3, 1, 15, 15, 1, 14),
+  merge: "one-way",
+};
+
+const HEBREW_RULES: VerseRangeRule[] = [
+  ...range(1, 150).flatMap((psalm) =>
+    getTitleLength(psalm) > 0 ? psalmRules(psalm, 1, CHAPTER_END, psalm, 1) : []
+  ),
+  shift(GENESIS, 32, 1, 1, 31, 55),
+  shift(GENESIS, 32, 2, CHAPTER_END, 32, 1),
+  shift(EXODUS, 7, 26, 29, 8, 1),
+  shift(EXODUS, 8, 1, CHAPTER_END, 8, 5),
+  shift(EXODUS, 21, 37, 37, 22, 1),
+  shift(EXODUS, 22, 1, CHAPTER_END, 22, 2),
+  shift(LEVITICUS, 5, 20, 26, 6, 1),
+  shift(LEVITICUS, 6, 1, CHAPTER_END, 6, 8),
+  shift(NUMBERS, 17, 1, 15, 16, 36),
+  shift(NUMBERS, 17, 16, CHAPTER_END, 17, 1),
+  shift(NUMBERS, 30, 1, 1, 29, 40),
+  shift(NUMBERS, 30, 2, CHAPTER_END, 30, 1),
+  shift(DEUTERONOMY, 13, 1, 1, 12, 32),
+  shift(DEUTERONOMY, 13, 2, CHAPTER_END, 13, 1),
+  shift(DEUTERONOMY, 23, 1, 1, 22, 30),
+  shift(DEUTERONOMY, 23, 2, CHAPTER_END, 23, 1),
+  shift(DEUTERONOMY, 28, 69, 69, 29, 1),
+  shift(DEUTERONOMY, 29, 1, CHAPTER_END, 29, 2),
+  shift(SAMUEL_1, 24, 1, 1, 23, 29),
+  shift(SAMUEL_1, 24, 2, CHAPTER_END, 24, 1),
+  shift(SAMUEL_2, 19, 1, 1, 18, 33),
+  shift(SAMUEL_2, 19, 2, CHAPTER_END, 19, 1),
+  shift(KINGS_1, 5, 1, 14, 4, 21),
+  shift(KINGS_1, 5, 15, CHAPTER_END, 5, 1),
+  shift(KINGS_2, 12, 1, 1, 11, 21),
+  shift(KINGS_2, 12, 2, CHAPTER_END, 12, 1),
+  shift(CHRONICLES_1, 5, 27, 41, 6, 1),
+  shift(CHRONICLES_1, 6, 1, CHAPTER_END, 6, 16),
+  shift(CHRONICLES_2, 1, 18, 18, 2, 1),
+  shift(CHRONICLES_2, 2, 1, CHAPTER_END, 2, 2),
+  shift(CHRONICLES_2, 13, 23, 23, 14, 1),
+  shift(CHRONICLES_2, 14, 1, CHAPTER_END, 14, 2),
+  shift(NEHEMIAH, 3, 33, 38, 4, 1),
+  shift(NEHEMIAH, 4, 1, CHAPTER_END, 4, 7),
+  shift(NEHEMIAH, 10, 1, 1, 9, 38),
+  shift(NEHEMIAH, 10, 2, CHAPTER_END, 10, 1),
+  shift(JOB, 40, 25, 32, 41, 1),
+  shift(JOB, 41, 1, CHAPTER_END, 41, 9),
+  shift(ECCLESIASTES, 4, 17, 17, 5, 1),
+  shift(ECCLESIASTES, 5, 1, CHAPTER_END, 5, 2),
+  shift(SONG, 7, 1, 1, 6, 13),
+  shift(SONG, 7, 2, CHAPTER_END, 7, 1),
+  shift(EZEKIEL, 21, 1, 5, 20, 45),
+  shift(EZEKIEL, 21, 6, CHAPTER_END, 21, 1),
+  shift(DANIEL, 3, 31, 33, 4, 1),
+  shift(DANIEL, 4, 1, CHAPTER_END, 4, 4),
+  shift(HOSEA, 2, 1, 2, 1, 10),
+  shift(HOSEA, 2, 3, CHAPTER_END, 2, 1),
+  shift(HOSEA, 12, 1, 1, 11, 12),
+  shift(HOSEA, 12, 2, CHAPTER_END, 12, 1),
+  shift(HOSEA, 14, 1, 1, 13, 16),
+  shift(HOSEA, 14, 2, CHAPTER_END, 14, 1),
+  shift(JOEL, 3, 1, CHAPTER_END, 2, 28),
+  shift(JOEL, 4, 1, CHAPTER_END, 3, 1),
+  shift(JONAH, 2, 1, 1, 1, 17),
+  shift(JONAH, 2, 2, CHAPTER_END, 2, 1),
+  shift(MICAH, 4, 14, 14, 5, 1),
+  shift(MICAH, 5, 1, CHAPTER_END, 5, 2),
+  shift(NAHUM, 2, 1, 1, 1, 15),
+  shift(NAHUM, 2, 2, CHAPTER_END, 2, 1),
+  shift(ZECHARIAH, 2, 1, 4, 1, 18),
+  shift(ZECHARIAH, 2, 5, CHAPTER_END, 2, 1),
+  shift(MALACHI, 3, 19, CHAPTER_END, 4, 1),
+];
+
+// Greek psalm numbering: chapter, verses, and the Hebrew psalm and verse
+// they start at. Psalms not listed keep the Hebrew number.
+const VULGATE_PSALM_SEGMENTS: [number, number, number, number, number][] = [
+  ...range(1, 8).map((psalm): [number, number, number, number, number] => [
+    psalm,
+    1,
+    CHAPTER_END,
+    psalm,
+    1,
+  ]),
+  [9, 1, 21, 9, 1],
+  [9, 22, CHAPTER_END, 10, 1],
+  ...range(10, 112).map((psalm): [number, number, number, number, number] => [
+    psalm,
+    1,
+    CHAPTER_END,
+    psalm + 1,
+    1,
+  ]),
+  [113, 1, 8, 114, 1],
+  [113, 9, CHAPTER_END, 115, 1],
+  [114, 1, 9, 116, 1],
+  [115, 1, CHAPTER_END, 116, 10],
+  ...range(116, 145).map((psalm): [number, number, number, number, number] => [
+    psalm,
+    1,
+    CHAPTER_END,
+    psalm + 1,
+    1,
+  ]),
+  [146, 1, 11, 147, 1],
+  [147, 1, CHAPTER_END, 147, 12],
+];
+
+const VULGATE_RULES: VerseRangeRule[] = [
+  ...VULGATE_PSALM_SEGMENTS.flatMap((segment) => psalmRules(...segment)),
+  shift(DANIEL, 3, 24, 90, 1, 1, SONG_OF_THREE),
+  shift(DANIEL, 3, 91, 97, 3, 24),
+  shift(DANIEL, 3, 98, 100, 4, 1),
+  shift(DANIEL, 4, 1, CHAPTER_END, 4, 4),
+  shift(DANIEL, 13, 1, CHAPTER_END, 1, 1, SUSANNA),
+  shift(DANIEL, 14, 1, CHAPTER_END, 1, 1, BEL),
+  THIRD_JOHN_RULE,
+];
+
+const SCHEME_RULES: Record<VersificationScheme, VerseRangeRule[]> = {
+  kjv: [],
+  english: [THIRD_JOHN_RULE],
+  hebrew: HEBREW_RULES,
+  vulgate: VULGATE_RULES,
+};
+
+// Scheme verses KJV doesn't number at all, so a reference to one can only
+// have come from that scheme
+const LEGACY_RULES: VerseRangeRule[] = [
+  THIRD_JOHN_RULE,
+  shift(MALACHI, 3, 19, CHAPTER_END, 4, 1),
+  shift(JOEL, 4, 1, CHAPTER_END, 3, 1),
+  shift(DANIEL, 13, 1, CHAPTER_END, 1, 1, SUSANNA),
+  shift(DANIEL, 14, 1, CHAPTER_END, 1, 1, BEL),
+];
+
+const getKjvEndVerse = (rule: VerseRangeRule): number => {
+  if (rule.merge) return rule.kjvVerse;
+  if (rule.endVerse === CHAPTER_END) return CHAPTER_END;
+  return rule.kjvVerse + rule.endVerse - rule.startVerse;
+};
+
+const applyRules = (
+  rules: VerseRangeRule[],
+  reference: VerseReference
+): VerseReference => {
+  const rule = rules.find(
+    (r) =>
+      r.book === reference.book &&
+      r.chapter === reference.chapter &&
+      reference.verse >= r.startVerse &&
+      reference.verse <= r.endVerse
+  );
+  if (!rule) return reference;
+  return {
+    book: rule.kjvBook,
+    chapter: rule.kjvChapter,
+    verse: rule.merge
+      ? rule.kjvVerse
+      : rule.kjvVerse + reference.verse - rule.startVerse,
+  };
+};
+
+export const toKjvReference = (
+  scheme: VersificationScheme,
+  reference: VerseReference
+): VerseReference => applyRules(SCHEME_RULES[scheme], reference);
+
+export const fromKjvReference = (
+  scheme: VersificationScheme,
+  reference: VerseReference
+): VerseReference => {
+  const rule = SCHEME_RULES[scheme].find(
+    (r) =>
+      r.merge !== "one-way" &&
+      r.kjvBook === reference.book &&
+      r.kjvChapter === reference.chapter &&
+      reference.verse >= r.kjvVerse &&
+      reference.verse <= getKjvEndVerse(r)
+  );
+  if (rule) {
+    return {
+      book: rule.book,
+      chapter: rule.chapter,
+      verse: rule.merge
+        ? rule.startVerse
+        : rule.startVerse + reference.verse - rule.kjvVerse,
+    };
+  }
+  // A KJV verse the scheme numbers elsewhere has no counterpart in place
+  return reference;
+};
+
+export const translateReference = (
+  reference: VerseReference,
+  fromScheme: VersificationScheme,
+  toScheme: VersificationScheme
+): VerseReference =>
+  fromScheme === toScheme
+    ? reference
+    : fromKjvReference(toScheme, toKjvReference(fromScheme, reference));
+
+export const getVerseReference = (verse: Verse): VerseReference => ({
+  book: verse.book_number,
+  chapter: verse.chapter,
+  verse: verse.verse,
+});
+
+// The verse renumbered into another scheme
+export const translateVerse = (
+  verse: Verse,
+  fromScheme: VersificationScheme,
+  toScheme: VersificationScheme
+): Verse => {
+  if (fromScheme === toScheme) return verse;
+  const reference = translateReference(
+    getVerseReference(verse),
+    fromScheme,
+    toScheme
+  );
+  return {
+    ...verse,
+    book_number: reference.book,
+    chapter: reference.chapter,
+    verse: reference.verse,
+  };
+};
+
+/**
+ * Chapters of a translation in toScheme that hold the given verses of a
+ * chapter numbered in fromScheme, e.g. Hebrew Malachi 3 for KJV Malachi 4.
+ */
+export const getMatchingChapters = (
+  book: number,
+  chapter: number,
+  verseNumbers: number[],
+  fromScheme: VersificationScheme,
+  toScheme: VersificationScheme
+): { book: number; chapter: number }[] => {
+  if (fromScheme === toScheme) return [{ book, chapter }];
+  const chapters = new Map<string, { book: number; chapter: number }>();
+  verseNumbers.forEach((verse) => {
+    const reference = translateReference(
+      { book, chapter, verse },
+      fromScheme,
+      toScheme
+    );
+    chapters.set(`${reference.book}:${reference.chapter}`, {
+      book: reference.book,
+      chapter: reference.chapter,
+    });
+  });
+  return Array.from(chapters.values());
+};
+
+/**
+ * Renumber verses of another translation to line up with a chapter in
+ * toScheme, keeping the ones that fall inside it. Verses that map onto the
+ * same verse are joined.
+ */
+export const alignVerses = (
+  verses: Verse[],
+  fromScheme: VersificationScheme,
+  book: number,
+  chapter: number,
+  toScheme: VersificationScheme
+): Verse[] => {
+  const aligned = new Map<number, Verse>();
+  verses.forEach((verse) => {
+    const translated = translateVerse(verse, fromScheme, toScheme);
+    if (translated.book_number !== book || translated.chapter !== chapter) {
+      return;
+    }
+    const existing = aligned.get(translated.verse);
+    aligned.set(
+      translated.verse,
+      existing
+        ? { ...existing, text: `${existing.text} ${translated.text}` }
+        : translated
+    );
+  });
+  return Array.from(aligned.values()).sort((a, b) => a.verse - b.verse);
+};
+
+/**
+ * References saved before they were kept in KJV numbering used the numbering
+ * of whichever translation was open, which wasn't recorded. Only verses KJV
+ * doesn't number (3 John 15, Hebrew Malachi 3:19-24 and Joel 4, Vulgate
+ * Daniel 13-14) are renumbered; anything else reads the same in KJV and is
+ * left as saved. Running it again changes nothing.
+ */
+export const migrateToKjvReference = (
+  reference: VerseReference
+): VerseReference => applyRules(LEGACY_RULES, reference);
@@ -0,0 +1,122 @@
+// utils/wordDiff.ts
+// Word-level differences between two translations of a verse, for the
+// comparison views. Texts are compared without markup, and words match
+// regardless of case and punctuation.
+import { cleanVerseText } from "./citation";
+import { splitWords } from "./wordHighlights";
+
+// Segments read as the second text; removed words come from the first
+export type WordDiffSegment =
+  | { type: "equal"; text: string }
+  | { type: "insert"; text: string } // only in the second text
+  | { type: "delete"; text: string } // only in the first text
+  | { type: "substitute"; text: string; replaced: string };
+
+export const WORD_DIFF_COLORS = {
+  insert: "#16A34A",
+  delete: "#DC2626",
+  substitute: "#D97706",
+};
+
+const normalizeWord = (word: string): string =>
+  word.toLowerCase().replace(/[.,;:!?"“”‘’'()[\]¶—–-]/g, "");
+
+/**
+ * Diff the reading text of two verses by words, using the longest common
+ * subsequence. A removal directly followed by an addition is reported as a
+ * substitution.
+ */
+export const diffWords = (
+  firstText: string,
+  secondText: string
+): WordDiffSegment[] => {
+  const first = splitWords(cleanVerseText(firstText));
+  const second = splitWords(cleanVerseText(secondText));
+  const a = first.map(normalizeWord);
+  const b = second.map(normalizeWord);
+
+  // lengths[i][j]: common words of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: WordDiffSegment[] = [];
+  let deleted: string[] = [];
+  let inserted: string[] = [];
+
+  const flushChanges = () => {
+    if (deleted.length > 0 && inserted.length > 0) {
+      segments.push({
+        type: "substitute",
+        text: inserted.join(" "),
+        replaced: deleted.join(" "),
+      });
+    } else if (deleted.length > 0) {
+      segments.push({ type: "delete", text: deleted.join(" ") });
+    } else if (inserted.length > 0) {
+      segments.push({ type: "insert", text: inserted.join(" ") });
+    }
+    deleted = [];
+    inserted = [];
+  };
+
+  const pushEqual = (word: string) => {
+    flushChanges();
+    const last = segments[segments.length - 1];
+    if (last?.type === "equal") last.text += ` ${word}`;
+    else segments.push({ type: "equal", text: word });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      pushEqual(second[j]);
+      i++;
+      j++;
+    } else if (
+      j < b.length &&
+      (i >= a.length || lengths[i][j + 1] >= lengths[i + 1][j])
+    ) {
+      inserted.push(second[j++]);
+    } else {
+      deleted.push(first[i++]);
+    }
+  }
+  flushChanges();
+
+  return segments;
+};
+
+// Diffs by verse pair; chapters are compared again on every visit
+const DIFF_CACHE_LIMIT = 2000;
+const diffCache = new Map<string, WordDiffSegment[]>();
+
+export const getCachedWordDiff = (
+  firstText: string,
+  secondText: string
+): WordDiffSegment[] => {
+  const key = `${firstText}\u0000${secondText}`;
+  const cached = diffCache.get(key);
+  if (cached) return cached;
+
+  const segments = diffWords(firstText, secondText);
+  if (diffCache.size >= DIFF_CACHE_LIMIT) {
+    // Maps iterate in insertion order, so this drops the oldest pair
+    const oldestKey = diffCache.keys().next().value;
+    if (oldestKey !== undefined) diffCache.delete(oldestKey);
+  }
+  diffCache.set(key, segments);
+  return segments;
+};
+
+export const hasWordDifferences = (segments: WordDiffSegment[]): boolean =>
+  segments.some((segment) => segment.type !== "equal");
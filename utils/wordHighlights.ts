@@ -0,0 +1,53 @@
+// utils/wordHighlights.ts
+// Word positions for highlights inside a verse. Positions count the words of
+// the reading text only, so Strong's numbers, morphology codes and footnotes
+// in verse.text never shift them.
+import { buildTree, parseXmlTags, type TreeNode } from "./markupUtils";
+
+// Elements whose content is not part of the reading text
+export const NON_TEXT_TAGS = new Set(["S", "m", "f", "n"]);
+
+// How a span of words is drawn, resolved from a WordHighlight and the palette
+export interface WordSpanStyle {
+  startWord: number; // inclusive, 0-based
+  endWord: number; // inclusive
+  style: "highlight" | "underline";
+  color: string;
+}
+
+export const splitWords = (text: string): string[] =>
+  text.split(/\s+/).filter(Boolean);
+
+export const isTextElement = (node: TreeNode): boolean =>
+  node.type === "element" && !NON_TEXT_TAGS.has(node.tag || "");
+
+// Reading-text words of a verse, in the order they are numbered
+export const getVerseWords = (text: string): string[] => {
+  const words: string[] = [];
+
+  const walk = (nodes: TreeNode[]) => {
+    for (const node of nodes) {
+      if (node.type === "text") {
+        words.push(...splitWords(node.content || ""));
+      } else if (isTextElement(node)) {
+        walk(node.children || []);
+      }
+    }
+  };
+
+  walk(buildTree(parseXmlTags(text || "")));
+  return words;
+};
+
+// Span covering a word; later spans are drawn over earlier ones
+export const getWordSpan = (
+  spans: WordSpanStyle[],
+  wordIndex: number
+): WordSpanStyle | undefined => {
+  for (let i = spans.length - 1; i >= 0; i--) {
+    if (wordIndex >= spans[i].startWord && wordIndex <= spans[i].endWord) {
+      return spans[i];
+    }
+  }
+  return undefined;
+};